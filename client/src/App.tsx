@@ -112,6 +112,7 @@ function App() {
                   <Routes>
                     <Route path="/" element={<Lobby onShowTutorial={handleShowManualTutorial} />} />
                     <Route path="/game/:gameId" element={<GameContainer onShowTutorial={handleShowManualTutorial} />} />
+                    <Route path="/watch/:gameId" element={<GameContainer onShowTutorial={handleShowManualTutorial} spectate />} />
                     <Route path="/privacy-policy" element={<PrivacyPolicy />} />
                     <Route path="/cookie-settings" element={<CookieSettings />} />
                   </Routes>
@@ -167,6 +167,7 @@ const TransactionPill = styled.span<{ $type: string }>`
       case 'regeneration': return 'rgba(16, 185, 129, 0.2)';
       case 'duel_cost': return 'rgba(239, 68, 68, 0.2)';
       case 'retreat_cost': return 'rgba(245, 158, 11, 0.2)';
+      case 'retreat_payment': return 'rgba(16, 185, 129, 0.2)';
       default: return 'rgba(156, 163, 175, 0.2)';
     }
   }};
@@ -175,6 +176,7 @@ const TransactionPill = styled.span<{ $type: string }>`
       case 'regeneration': return '#10b981';
       case 'duel_cost': return '#ef4444';
       case 'retreat_cost': return '#f59e0b';
+      case 'retreat_payment': return '#10b981';
       default: return '#9ca3af';
     }
   }};
@@ -396,6 +398,26 @@ export const BPCalculationHistory: React.FC = () => {
           }
         }
         
+        // Add the defender's share of the retreat cost (risky ruleset)
+        if (move.tacticalRetreat?.defenderPayment) {
+          const payment = move.tacticalRetreat.defenderPayment;
+          const receivingPlayer = move.color === 'w' ? 'black' : 'white';
+          const transaction: BPTransaction = {
+            type: 'retreat_payment',
+            player: receivingPlayer,
+            amount: payment,
+            details: `Retreat payment received: ${payment} BP`
+          };
+          
+          if (receivingPlayer === 'white') {
+            whiteTransactions.push(transaction);
+            currentWhiteBP += payment;
+          } else {
+            blackTransactions.push(transaction);
+            currentBlackBP += payment;
+          }
+        }
+        
         // Add basic regeneration (simplified - we don't have detailed tactical analysis for past moves)
         const baseRegen = currentGame.config.regenerationRules.baseTurnRegeneration;
         const movingPlayer = move.color === 'w' ? 'white' : 'black';
@@ -593,6 +615,8 @@ export const BPCalculationHistory: React.FC = () => {
       case 'regeneration': return '✨';
       case 'duel_cost': return '⚔️';
       case 'retreat_cost': return '🏃';
+      case 'retreat_payment': return '🤝';
+      case 'piece_loss': return '💀';
       case 'initial': return '🎯';
       default: return '📊';
     }
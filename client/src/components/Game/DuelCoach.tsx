@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import styled from 'styled-components';
+import { BaseGameState, PendingDuel, solveDuel, calculateTacticalRetreats } from '@gambit-chess/shared';
+
+const TOP_ALLOCATIONS = 3;
+
+const CoachPanel = styled.div`
+  background: rgba(251, 191, 36, 0.08);
+  border: 1px solid rgba(251, 191, 36, 0.3);
+  border-radius: 12px;
+  padding: 16px;
+  margin-bottom: 24px;
+  color: #f0d9b5;
+`;
+
+const CoachTitle = styled.h4`
+  margin: 0 0 4px 0;
+  color: #fbbf24;
+  font-size: 16px;
+`;
+
+const CoachNote = styled.p`
+  margin: 0 0 12px 0;
+  font-size: 12px;
+  opacity: 0.7;
+`;
+
+const CoachGrid = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 16px;
+`;
+
+const CoachSide = styled.div<{ $side: 'attacker' | 'defender' }>`
+  font-size: 14px;
+
+  h5 {
+    margin: 0 0 8px 0;
+    font-size: 14px;
+    color: ${props => props.$side === 'attacker' ? '#d4825a' : '#5a9bd4'};
+  }
+`;
+
+const AllocationChip = styled.button`
+  background: rgba(255, 255, 255, 0.1);
+  color: #f0d9b5;
+  border: 1px solid rgba(181, 136, 99, 0.4);
+  border-radius: 6px;
+  padding: 4px 8px;
+  margin: 0 6px 6px 0;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.2);
+  }
+`;
+
+interface DuelCoachProps {
+  game: BaseGameState;
+  pendingDuel: PendingDuel;
+  onPickAllocation: (side: 'attacker' | 'defender', allocation: number) => void;
+}
+
+/**
+ * Practice mode coach: shows the duel's approximate equilibrium so players can see
+ * how often each side should commit each amount of BP
+ */
+export const DuelCoach: React.FC<DuelCoachProps> = ({ game, pendingDuel, onPickAllocation }) => {
+  const attackerBP = (pendingDuel.attackerColor === 'w' ? game.whitePlayer : game.blackPlayer).battlePoints;
+  const defenderBP = (pendingDuel.defenderColor === 'w' ? game.whitePlayer : game.blackPlayer).battlePoints;
+
+  const equilibrium = useMemo(() => {
+    // The board still shows the position before the capture attempt
+    const retreatOptions = calculateTacticalRetreats(
+      game.chess,
+      pendingDuel.attackingPiece.square,
+      pendingDuel.defendingPiece.square,
+      game.config
+    );
+
+    return solveDuel({
+      attackerType: pendingDuel.attackingPiece.type,
+      defenderType: pendingDuel.defendingPiece.type,
+      attackerBattlePoints: attackerBP,
+      defenderBattlePoints: defenderBP,
+      config: game.config,
+      minRetreatCost: retreatOptions.length > 0 ? Math.min(...retreatOptions.map(option => option.cost)) : 0
+    });
+  }, [game.chess, game.config, pendingDuel, attackerBP, defenderBP]);
+
+  const renderSide = (side: 'attacker' | 'defender') => {
+    const strategy = side === 'attacker' ? equilibrium.attackerStrategy : equilibrium.defenderStrategy;
+    const expected = side === 'attacker' ? equilibrium.expectedAttackerAllocation : equilibrium.expectedDefenderAllocation;
+    const topAllocations = strategy
+      .map((probability, allocation) => ({ allocation, probability }))
+      .filter(entry => entry.probability >= 0.01)
+      .sort((a, b) => b.probability - a.probability)
+      .slice(0, TOP_ALLOCATIONS);
+
+    return (
+      <CoachSide $side={side}>
+        <h5>{side === 'attacker' ? 'Attacker' : 'Defender'} (avg {expected.toFixed(1)} BP)</h5>
+        {topAllocations.map(entry => (
+          <AllocationChip key={entry.allocation} onClick={() => onPickAllocation(side, entry.allocation)}>
+            {entry.allocation} BP · {Math.round(entry.probability * 100)}%
+          </AllocationChip>
+        ))}
+      </CoachSide>
+    );
+  };
+
+  return (
+    <CoachPanel>
+      <CoachTitle>🎓 Coach: attacker wins {Math.round(equilibrium.attackerWinProbability * 100)}% with best play</CoachTitle>
+      <CoachNote>
+        Mixed strategies from the duel's approximate equilibrium. Mixing keeps your opponent guessing; click an allocation to use it.
+      </CoachNote>
+      <CoachGrid>
+        {renderSide('attacker')}
+        {renderSide('defender')}
+      </CoachGrid>
+    </CoachPanel>
+  );
+};
@@ -2,6 +2,8 @@ import React, { useState, useMemo } from 'react';
 import styled from 'styled-components';
 import { PendingDuel } from '@gambit-chess/shared';
 import { useGameStore } from '../../stores/gameStore';
+import { DeadlineCountdown } from './GameTimer';
+import { DuelCoach } from './DuelCoach';
 import { wsService } from '../../services/websocket.service';
 import * as shared from '@gambit-chess/shared';
 const { DEFAULT_GAME_CONFIG } = shared;
@@ -290,6 +292,7 @@ export const DuelInterface: React.FC<DuelInterfaceProps> = ({ role, pendingDuel
   if (!session || !currentGame) return null;
 
   const isPracticeMode = currentGame.gameType === 'practice';
+  const duelDeadline = currentGame.clock?.phaseDeadline;
 
   // Get players' current BP
   const attackerPlayer = pendingDuel.attackerColor === 'w' ? currentGame.whitePlayer : currentGame.blackPlayer;
@@ -460,6 +463,7 @@ export const DuelInterface: React.FC<DuelInterfaceProps> = ({ role, pendingDuel
               : "Waiting for opponent to allocate Battle Points..."
             }
           </WaitingMessage>
+          {duelDeadline && <DeadlineCountdown deadline={duelDeadline} label="Allocation time" />}
         </DuelContainer>
       </DuelOverlay>
     );
@@ -473,6 +477,13 @@ export const DuelInterface: React.FC<DuelInterfaceProps> = ({ role, pendingDuel
           <DuelSubtitle>
             {pendingDuel.attackingPiece.type.toUpperCase()} attempts to capture {pendingDuel.defendingPiece.type.toUpperCase()}
           </DuelSubtitle>
+          {duelDeadline && <DeadlineCountdown deadline={duelDeadline} label="Allocation time" />}
+
+          <DuelCoach
+            game={currentGame}
+            pendingDuel={pendingDuel}
+            onPickAllocation={(side, amount) => side === 'attacker' ? setAttackerAllocation(amount) : setDefenderAllocation(amount)}
+          />
           
           <PracticeDuelGrid>
             {renderPlayerAllocation('attacker')}
@@ -504,6 +515,7 @@ export const DuelInterface: React.FC<DuelInterfaceProps> = ({ role, pendingDuel
         <DuelSubtitle>
           {pendingDuel.attackingPiece.type.toUpperCase()} attempts to capture {pendingDuel.defendingPiece.type.toUpperCase()}
         </DuelSubtitle>
+        {duelDeadline && <DeadlineCountdown deadline={duelDeadline} label="Allocation time" />}
         
         <RoleIndicator $role={role}>
           You are the {role.toUpperCase()}
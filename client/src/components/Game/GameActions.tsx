@@ -0,0 +1,114 @@
+import React from 'react';
+import styled from 'styled-components';
+import { BaseGameState } from '@gambit-chess/shared';
+import * as shared from '@gambit-chess/shared';
+import { Color } from 'chess.js';
+
+const ActionsContainer = styled.div`
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  gap: 10px;
+  margin-bottom: 12px;
+  flex-wrap: wrap;
+`;
+
+const ActionButton = styled.button<{ $variant?: 'danger' | 'accept' }>`
+  background: ${props => props.$variant === 'danger'
+    ? 'rgba(220, 38, 38, 0.2)'
+    : props.$variant === 'accept'
+    ? 'rgba(74, 222, 128, 0.2)'
+    : 'rgba(181, 136, 99, 0.2)'};
+  color: #f0d9b5;
+  border: 1px solid ${props => props.$variant === 'danger'
+    ? 'rgba(220, 38, 38, 0.3)'
+    : props.$variant === 'accept'
+    ? 'rgba(74, 222, 128, 0.4)'
+    : 'rgba(181, 136, 99, 0.3)'};
+  padding: 6px 14px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-size: 14px;
+  transition: all 0.2s;
+
+  &:hover:not(:disabled) {
+    background: ${props => props.$variant === 'danger'
+      ? 'rgba(220, 38, 38, 0.3)'
+      : props.$variant === 'accept'
+      ? 'rgba(74, 222, 128, 0.3)'
+      : 'rgba(181, 136, 99, 0.3)'};
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const OfferText = styled.span`
+  color: #fbbf24;
+  font-size: 14px;
+  font-weight: 500;
+`;
+
+interface GameActionsProps {
+  game: BaseGameState;
+  playerColor: Color | null;
+  onResign: () => void;
+  onOfferDraw: () => void;
+  onRespondToDraw: (accept: boolean) => void;
+}
+
+export const GameActions: React.FC<GameActionsProps> = ({
+  game,
+  playerColor,
+  onResign,
+  onOfferDraw,
+  onRespondToDraw
+}) => {
+  const isActive = [
+    shared.GameStatus.IN_PROGRESS,
+    shared.GameStatus.DUEL_IN_PROGRESS,
+    shared.GameStatus.TACTICAL_RETREAT_DECISION
+  ].includes(game.gameStatus);
+
+  if (!isActive || !playerColor) {
+    return null;
+  }
+
+  const canOfferDraw = game.gameType !== 'practice' && game.gameType !== 'ai';
+  const drawOffer = game.drawOffer;
+
+  const handleResign = () => {
+    if (window.confirm('Are you sure you want to resign this game?')) {
+      onResign();
+    }
+  };
+
+  if (drawOffer && drawOffer.offeredBy !== playerColor) {
+    return (
+      <ActionsContainer>
+        <OfferText>🤝 Your opponent offers a draw</OfferText>
+        <ActionButton $variant="accept" onClick={() => onRespondToDraw(true)}>
+          Accept
+        </ActionButton>
+        <ActionButton onClick={() => onRespondToDraw(false)}>
+          Decline
+        </ActionButton>
+      </ActionsContainer>
+    );
+  }
+
+  return (
+    <ActionsContainer>
+      {canOfferDraw && (
+        <ActionButton onClick={onOfferDraw} disabled={!!drawOffer}>
+          {drawOffer ? '🤝 Draw Offered' : '🤝 Offer Draw'}
+        </ActionButton>
+      )}
+      <ActionButton $variant="danger" onClick={handleResign}>
+        🏳️ Resign
+      </ActionButton>
+    </ActionsContainer>
+  );
+};
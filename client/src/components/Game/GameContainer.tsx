@@ -9,9 +9,11 @@ import { DuelInterface } from './DuelInterface';
 import { TacticalRetreatOverlay } from './TacticalRetreatOverlay';
 
 import { GameEndModal } from './GameEndModal';
+import { GameActions } from './GameActions';
 import { MoveHistory } from './MoveHistory';
 import { BPCalculationHistory } from './BPCalculationHistory';
 import BugReportModal from '../debug/BugReportModal';
+import { getPracticeRedoTarget, getPracticeUndoTarget } from '@gambit-chess/shared';
 import * as shared from '@gambit-chess/shared';
 const GameWrapper = styled.div`
   height: 100vh;
@@ -219,11 +221,36 @@ const TurnIndicator = styled.div<{ $isPlayerTurn: boolean }>`
   box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
 `;
 
+const SpectatorBadge = styled.span`
+  margin-left: 12px;
+  padding: 4px 10px;
+  border-radius: 12px;
+  background: rgba(0, 0, 0, 0.3);
+  font-size: 13px;
+  font-weight: normal;
+  vertical-align: middle;
+`;
+
+const DisconnectBanner = styled.div`
+  position: absolute;
+  top: 60px;
+  left: 50%;
+  transform: translateX(-50%);
+  background: rgba(239, 68, 68, 0.9);
+  color: white;
+  padding: 6px 14px;
+  border-radius: 16px;
+  font-size: 13px;
+  z-index: 10;
+  white-space: nowrap;
+`;
+
 interface GameContainerProps {
   onShowTutorial?: () => void;
+  spectate?: boolean; // Watch the game read-only instead of joining it
 }
 
-export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial }) => {
+export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial, spectate = false }) => {
   const { gameId } = useParams<{ gameId: string }>();
   const navigate = useNavigate();
   const [showBPCalculations, setShowBPCalculations] = React.useState(false);
@@ -241,15 +268,26 @@ export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial })
     isPlayerRetreatDecision,
     submitTacticalRetreat,
     showGameEndModal,
-    gameEndResult
+    gameEndResult,
+    session,
+    isSpectator,
+    spectatorCount,
+    disconnectedPlayer,
+    resign,
+    offerDraw,
+    respondToDraw,
+    undoMove,
+    redoMove,
+    branchFrom
   } = useGameStore();
 
   useEffect(() => {
     if (gameId) {
       // Only try to join if we don't already have this game loaded
       if (!currentGame || currentGame.id !== gameId) {
-        console.log(`🎮 GameContainer: Need to join game ${gameId} (current: ${currentGame?.id || 'none'})`);
-        useGameStore.getState().joinGame(gameId).catch((error) => {
+        console.log(`🎮 GameContainer: Need to ${spectate ? 'watch' : 'join'} game ${gameId} (current: ${currentGame?.id || 'none'})`);
+        const store = useGameStore.getState();
+        (spectate ? store.watchGame(gameId) : store.joinGame(gameId)).catch((error) => {
           console.error('Failed to join game:', error);
           navigate('/');
         });
@@ -257,7 +295,17 @@ export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial })
         console.log(`🎮 GameContainer: Game ${gameId} already loaded, skipping join`);
       }
     }
-  }, [gameId, navigate]);
+  }, [gameId, navigate, spectate]);
+
+  // Count down to abandonment while a player is away
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!disconnectedPlayer?.reconnectDeadline) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [disconnectedPlayer]);
 
   // Handle navigation away from page
   const handleBack = () => {
@@ -294,6 +342,16 @@ export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial })
     submitTacticalRetreat(square);
   }, [submitTacticalRetreat]);
 
+  // A game that can't be watched never sends its state
+  if (isSpectator && gameError && !currentGame) {
+    return (
+      <LoadingScreen 
+        message="Failed to watch game" 
+        subMessage={gameError} 
+      />
+    );
+  }
+
   // Show loading screen while game is loading
   if (isGameLoading || !currentGame) {
     return <LoadingScreen message="Loading game..." />;
@@ -309,17 +367,35 @@ export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial })
     );
   }
 
+  // Practice games control both sides, so act as the side to move
+  const playerColor = currentGame.gameType === 'practice'
+    ? currentGame.currentTurn
+    : session?.sessionId === currentGame.whitePlayer.id
+    ? 'w'
+    : session?.sessionId === currentGame.blackPlayer.id
+    ? 'b'
+    : null;
+
   const isGameOver = [
     shared.GameStatus.CHECKMATE,
     shared.GameStatus.STALEMATE,
     shared.GameStatus.DRAW,
+    shared.GameStatus.RESIGNED,
+    shared.GameStatus.TIME_FORFEIT,
     shared.GameStatus.ABANDONED
   ].includes(currentGame.gameStatus);
 
   return (
     <GameWrapper>
       <GameHeader>
-        <GameTitle>Gambit Chess</GameTitle>
+        <GameTitle>
+          Gambit Chess
+          {(isSpectator || spectatorCount > 0) && (
+            <SpectatorBadge>
+              {isSpectator ? 'Spectating · ' : ''}👀 {spectatorCount} watching
+            </SpectatorBadge>
+          )}
+        </GameTitle>
         <HeaderButtons>
           {onShowTutorial && (
             <BugReportButton 
@@ -355,6 +431,8 @@ export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial })
             }
             gameStatus={currentGame.gameStatus}
             gameType={currentGame.gameType}
+            hasOfferedDraw={currentGame.drawOffer?.offeredBy === 'w'}
+            clock={currentGame.clock}
           />
         </LeftPanel>
 
@@ -368,6 +446,8 @@ export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial })
             }
             gameStatus={currentGame.gameStatus}
             gameType={currentGame.gameType}
+            hasOfferedDraw={currentGame.drawOffer?.offeredBy === 'w'}
+            clock={currentGame.clock}
           />
           <PlayerPanel 
             player={currentGame.blackPlayer}
@@ -378,6 +458,8 @@ export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial })
             }
             gameStatus={currentGame.gameStatus}
             gameType={currentGame.gameType}
+            hasOfferedDraw={currentGame.drawOffer?.offeredBy === 'b'}
+            clock={currentGame.clock}
           />
         </PlayerPanelsRow>
 
@@ -388,12 +470,32 @@ export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial })
               : currentGame.gameStatus === shared.GameStatus.TACTICAL_RETREAT_DECISION && isPlayerRetreatDecision
                 ? "Choose Tactical Retreat"
                 : currentGame.gameStatus === shared.GameStatus.TACTICAL_RETREAT_DECISION && !isPlayerRetreatDecision
-                ? "Opponent Choosing Retreat"
+                ? isSpectator ? "Attacker Choosing Retreat" : "Opponent Choosing Retreat"
+                : isSpectator
+                ? `${currentGame.currentTurn === 'w' ? 'White' : 'Black'} to move`
                 : isPlayerTurn 
                 ? "Your Turn" 
                 : "Opponent's Turn"
             }
           </TurnIndicator>
+
+          {disconnectedPlayer && !isGameOver && (
+            <DisconnectBanner>
+              {isSpectator
+                ? `${disconnectedPlayer.color === 'w' ? 'White' : 'Black'} disconnected`
+                : 'Opponent disconnected'}
+              {disconnectedPlayer.reconnectDeadline &&
+                ` · game adjudicated in ${Math.max(0, Math.ceil((disconnectedPlayer.reconnectDeadline - now) / 1000))}s unless they return`}
+            </DisconnectBanner>
+          )}
+
+          <GameActions
+            game={currentGame}
+            playerColor={playerColor}
+            onResign={resign}
+            onOfferDraw={offerDraw}
+            onRespondToDraw={respondToDraw}
+          />
           
           <ChessBoard3D 
             gameState={currentGame}
@@ -411,9 +513,21 @@ export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial })
             }
             gameStatus={currentGame.gameStatus}
             gameType={currentGame.gameType}
+            hasOfferedDraw={currentGame.drawOffer?.offeredBy === 'b'}
+            clock={currentGame.clock}
           />
           
-          <MoveHistory moves={currentGame.moveHistory} />
+          <MoveHistory
+            moves={currentGame.moveHistory}
+            practice={currentGame.practiceTree && !isSpectator ? {
+              tree: currentGame.practiceTree,
+              canUndo: !!getPracticeUndoTarget(currentGame.practiceTree, currentGame),
+              canRedo: !!getPracticeRedoTarget(currentGame.practiceTree, currentGame),
+              onUndo: undoMove,
+              onRedo: redoMove,
+              onBranch: branchFrom
+            } : undefined}
+          />
           
           {/* BP Calculation History */}
           <BPCalculationHistory />
@@ -443,6 +557,8 @@ export const GameContainer: React.FC<GameContainerProps> = ({ onShowTutorial })
         <GameEndModal 
           gameStatus={currentGame.gameStatus}
           winner={gameEndResult.winner as 'white' | 'black'}
+          reason={gameEndResult.reason}
+          playerColor={playerColor}
           onClose={handleCloseGameEndModal}
         />
       )}
@@ -64,21 +64,49 @@ const ActionButton = styled.button`
 interface GameEndModalProps {
   gameStatus: shared.GameStatus;
   winner?: 'white' | 'black';
+  reason?: string;
+  playerColor?: 'w' | 'b' | null;
   onClose: () => void;
 }
 
+const DRAW_MESSAGES: Record<string, string> = {
+  agreement: 'The players agreed to a draw.',
+  threefold_repetition: 'The game ends in a draw by threefold repetition.',
+  fifty_move_rule: 'The game ends in a draw by the fifty-move rule.',
+  insufficient_material: 'The game ends in a draw. Neither side has enough material to checkmate.'
+};
+
 export const GameEndModal: React.FC<GameEndModalProps> = ({ 
   gameStatus, 
   winner, 
+  reason,
+  playerColor,
   onClose 
 }) => {
+  const winnerName = winner === 'white' ? 'White' : 'Black';
+  const loserName = winner === 'white' ? 'Black' : 'White';
+
   const getResultData = () => {
     switch (gameStatus) {
       case shared.GameStatus.CHECKMATE:
         return {
           emoji: winner === 'white' ? '👑' : '🏆',
-          title: `${winner === 'white' ? 'White' : 'Black'} Wins!`,
-          message: `Victory by checkmate! The ${winner === 'white' ? 'black' : 'white'} king has been conquered.`
+          title: `${winnerName} Wins!`,
+          message: `Victory by checkmate! The ${loserName.toLowerCase()} king has been conquered.`
+        };
+      case shared.GameStatus.RESIGNED:
+        return {
+          emoji: '🏳️',
+          title: `${winnerName} Wins!`,
+          message: playerColor && playerColor === winner?.charAt(0)
+            ? 'Your opponent resigned. Victory is yours!'
+            : `${loserName} resigned the game.`
+        };
+      case shared.GameStatus.TIME_FORFEIT:
+        return {
+          emoji: '⏱️',
+          title: `${winnerName} Wins!`,
+          message: `${loserName} ran out of time.`
         };
       case shared.GameStatus.STALEMATE:
         return {
@@ -90,9 +118,16 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
         return {
           emoji: '⚖️',
           title: 'Draw',
-          message: 'The game ends in a draw by agreement or repetition.'
+          message: (reason && DRAW_MESSAGES[reason]) || 'The game ends in a draw by agreement.'
         };
       case shared.GameStatus.ABANDONED:
+        if (winner === 'white' || winner === 'black') {
+          return {
+            emoji: '🚪',
+            title: `${winnerName} Wins!`,
+            message: `${loserName} left the game and didn't come back in time.`
+          };
+        }
         return {
           emoji: '🚪',
           title: 'Game Abandoned',
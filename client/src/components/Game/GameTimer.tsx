@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { GameClock, getRemainingTime } from '@gambit-chess/shared';
+import { Color } from 'chess.js';
+
+const LOW_TIME_MS = 10000;
+
+const ClockFace = styled.div<{ $isRunning: boolean; $isLow: boolean }>`
+  font-family: 'Courier New', monospace;
+  font-size: 1.1rem;
+  font-weight: 700;
+  padding: 2px 8px;
+  border-radius: 4px;
+  color: ${props => props.$isLow ? '#f87171' : props.$isRunning ? '#fff' : '#9ca3af'};
+  background: ${props => props.$isRunning ? 'rgba(255, 255, 255, 0.12)' : 'rgba(0, 0, 0, 0.2)'};
+`;
+
+const CountdownText = styled.div<{ $isLow: boolean }>`
+  font-size: 0.9rem;
+  font-weight: 600;
+  color: ${props => props.$isLow ? '#f87171' : '#fbbf24'};
+`;
+
+/**
+ * Re-render every few hundred milliseconds while a clock is running
+ */
+const useNow = (active: boolean): number => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [active]);
+
+  return active ? now : Date.now();
+};
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+interface PlayerClockProps {
+  clock: GameClock;
+  color: Color;
+}
+
+/**
+ * A player's main clock, ticking down while it is their move
+ */
+export const PlayerClock: React.FC<PlayerClockProps> = ({ clock, color }) => {
+  const isRunning = clock.runningFor === color;
+  const now = useNow(isRunning);
+  const remaining = getRemainingTime(clock, color, now);
+
+  return (
+    <ClockFace $isRunning={isRunning} $isLow={remaining < LOW_TIME_MS}>
+      {formatTime(remaining)}
+    </ClockFace>
+  );
+};
+
+interface DeadlineCountdownProps {
+  deadline: number;
+  label: string;
+}
+
+/**
+ * Countdown for a duel allocation or retreat decision
+ */
+export const DeadlineCountdown: React.FC<DeadlineCountdownProps> = ({ deadline, label }) => {
+  const now = useNow(true);
+  const remaining = Math.max(0, deadline - now);
+
+  return (
+    <CountdownText $isLow={remaining < LOW_TIME_MS / 2}>
+      ⏱️ {label}: {formatTime(remaining)}
+    </CountdownText>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useRef, useEffect } from 'react';
 import styled from 'styled-components';
-import { GambitMove } from '@gambit-chess/shared';
+import { GambitMove, PracticeTree, PracticeTreeNode, getPracticeChildren, getPracticeLine } from '@gambit-chess/shared';
 import { extractExtendedNotation } from '../../utils/chess-utils';
 
 const HistoryContainer = styled.div`
@@ -111,6 +111,71 @@ const DuelResult = styled.span<{ $won: boolean }>`
   border-radius: 2px;
 `;
 
+const HeaderRow = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+`;
+
+const TakebackButton = styled.button`
+  background: rgba(181, 136, 99, 0.3);
+  color: #f0d9b5;
+  border: 1px solid rgba(181, 136, 99, 0.5);
+  border-radius: 4px;
+  padding: 2px 8px;
+  margin-left: 4px;
+  font-size: 11px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: default;
+  }
+`;
+
+const BranchableMove = styled.div`
+  cursor: pointer;
+  border-radius: 3px;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.08);
+  }
+`;
+
+const TreeSection = styled.div`
+  margin-top: 10px;
+  padding-top: 8px;
+  border-top: 1px solid rgba(255, 255, 255, 0.1);
+  font-family: 'Courier New', monospace;
+  font-size: 11px;
+  line-height: 1.7;
+`;
+
+const TreeTitle = styled.div`
+  color: #b58863;
+  font-size: 10px;
+  font-weight: 500;
+  margin-bottom: 2px;
+`;
+
+const TreeMove = styled.span<{ $current: boolean; $onLine: boolean }>`
+  color: ${props => props.$current ? '#1a1a1a' : props.$onLine ? '#f0d9b5' : '#9ca3af'};
+  background: ${props => props.$current ? '#fbbf24' : 'transparent'};
+  border-radius: 2px;
+  padding: 0 2px;
+  margin-right: 4px;
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const Variation = styled.div`
+  padding-left: 12px;
+  border-left: 1px solid rgba(181, 136, 99, 0.4);
+`;
+
 const EmptyHistory = styled.div`
   color: #9ca3af;
   font-style: italic;
@@ -119,11 +184,79 @@ const EmptyHistory = styled.div`
   font-size: 12px;
 `;
 
+// Practice games can take moves back and branch from any position of their tree
+interface PracticeControls {
+  tree: PracticeTree;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onBranch: (nodeId: string) => void;
+}
+
 interface MoveHistoryProps {
   moves: GambitMove[];
+  practice?: PracticeControls;
 }
 
-export const MoveHistory: React.FC<MoveHistoryProps> = ({ moves }) => {
+// A practice tree move the way the PGN writes it, e.g. "3. exd5{a:3;d:1}" or "5... Nxe4{a:1;d:4}→f6"
+const formatTreeMove = (node: PracticeTreeNode): string => {
+  const { san, color, duel, retreatSquare } = node.move!;
+  const moveNumber = Math.floor((node.depth - 1) / 2) + 1;
+  const allocations = duel ? `{a:${duel.attackerAllocation};d:${duel.defenderAllocation}}` : '';
+  return `${moveNumber}${color === 'w' ? '.' : '...'} ${san}${allocations}${retreatSquare ? `→${retreatSquare}` : ''}`;
+};
+
+/**
+ * Every line explored in a practice game: the first line played from a position continues
+ * in place, the others are indented beneath the move they replace
+ */
+const PracticeTreeView: React.FC<{ practice: PracticeControls }> = ({ practice }) => {
+  const { tree, onBranch } = practice;
+  const line = new Set(getPracticeLine(tree).map(node => node.id));
+
+  const renderMove = (node: PracticeTreeNode) => (
+    <TreeMove
+      key={node.id}
+      $current={node.id === tree.currentId}
+      $onLine={line.has(node.id)}
+      onClick={() => onBranch(node.id)}
+    >
+      {formatTreeMove(node)}
+    </TreeMove>
+  );
+
+  const renderLine = (from: PracticeTreeNode): React.ReactNode[] => {
+    const items: React.ReactNode[] = [];
+    let children = getPracticeChildren(tree, from.id);
+    while (children.length > 0) {
+      const [main, ...alternatives] = children;
+      items.push(renderMove(main));
+      for (const alternative of alternatives) {
+        items.push(
+          <Variation key={`line-${alternative.id}`}>
+            {renderMove(alternative)}
+            {renderLine(alternative)}
+          </Variation>
+        );
+      }
+      children = getPracticeChildren(tree, main.id);
+    }
+    return items;
+  };
+
+  return (
+    <TreeSection>
+      <TreeTitle>Lines explored (click a move to go there)</TreeTitle>
+      <TreeMove $current={tree.currentId === tree.nodes[0].id} $onLine onClick={() => onBranch(tree.nodes[0].id)}>
+        Start
+      </TreeMove>
+      {renderLine(tree.nodes[0])}
+    </TreeSection>
+  );
+};
+
+export const MoveHistory: React.FC<MoveHistoryProps> = ({ moves, practice }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const lastMoveCountRef = useRef(0);
 
@@ -135,14 +268,33 @@ export const MoveHistory: React.FC<MoveHistoryProps> = ({ moves }) => {
     lastMoveCountRef.current = moves.length;
   }, [moves.length]);
 
+  const header = (
+    <StickyHeader>
+      <HeaderRow>
+        <HistoryTitle>Move History</HistoryTitle>
+        {practice && (
+          <div>
+            <TakebackButton onClick={practice.onUndo} disabled={!practice.canUndo} title="Take back the last move">↶ Undo</TakebackButton>
+            <TakebackButton onClick={practice.onRedo} disabled={!practice.canRedo} title="Replay the move taken back">↷ Redo</TakebackButton>
+          </div>
+        )}
+      </HeaderRow>
+    </StickyHeader>
+  );
+
+  // The position before each move, to branch from; the tree is shown once there is more than one line
+  const practiceLine = practice ? getPracticeLine(practice.tree) : [];
+  const treeView = practice && practice.tree.nodes.length > practiceLine.length
+    ? <PracticeTreeView practice={practice} />
+    : null;
+
   if (!moves || moves.length === 0) {
     return (
       <HistoryContainer>
-        <StickyHeader>
-          <HistoryTitle>Move History</HistoryTitle>
-        </StickyHeader>
+        {header}
         <ScrollableContent>
           <EmptyHistory>No moves yet</EmptyHistory>
+          {treeView}
         </ScrollableContent>
       </HistoryContainer>
     );
@@ -157,11 +309,11 @@ export const MoveHistory: React.FC<MoveHistoryProps> = ({ moves }) => {
     });
   }
 
-  const renderMove = (move: GambitMove) => {
+  const renderMove = (move: GambitMove, index: number) => {
     const notation = move.san || `${move.from}${move.to}`;
     const extended = extractExtendedNotation(notation);
     
-    return (
+    const notationView = (
       <MoveNotation>
         <StandardMove>{extended.standardPart}</StandardMove>
         
@@ -187,33 +339,48 @@ export const MoveHistory: React.FC<MoveHistoryProps> = ({ moves }) => {
             </DuelResult>
           )}
           
+          {/* Failed attacker lost (risky ruleset) */}
+          {move.attackerPieceLost && (
+            <RetreatCost>Piece lost</RetreatCost>
+          )}
+          
           {/* Tactical retreat */}
           {move.tacticalRetreat && (
             <RetreatCost>
               →{move.tacticalRetreat.retreatSquare}
+              {move.tacticalRetreat.defenderPayment ? ` (${move.tacticalRetreat.defenderPayment} BP to opponent)` : ''}
             </RetreatCost>
           )}
         </ExtendedNotation>
       </MoveNotation>
     );
+
+    const branchPoint = practiceLine[index];
+    if (!practice || !branchPoint) {
+      return notationView;
+    }
+    return (
+      <BranchableMove onClick={() => practice.onBranch(branchPoint.id)} title="Go back to before this move and play it differently">
+        {notationView}
+      </BranchableMove>
+    );
   };
 
   return (
     <HistoryContainer>
-      <StickyHeader>
-        <HistoryTitle>Move History</HistoryTitle>
-      </StickyHeader>
+      {header}
       
       <ScrollableContent ref={scrollRef}>
         <MoveList>
           {movePairs.map((pair, index) => (
             <MoveRow key={index}>
               <MoveNumber>{index + 1}.</MoveNumber>
-              {pair.white ? renderMove(pair.white) : <div />}
-              {pair.black ? renderMove(pair.black) : <div />}
+              {pair.white ? renderMove(pair.white, index * 2) : <div />}
+              {pair.black ? renderMove(pair.black, index * 2 + 1) : <div />}
             </MoveRow>
           ))}
         </MoveList>
+        {treeView}
       </ScrollableContent>
     </HistoryContainer>
   );
@@ -2,6 +2,7 @@ import React from 'react';
 import styled from 'styled-components';
 import { Player } from '@gambit-chess/shared';
 import * as shared from '@gambit-chess/shared';
+import { PlayerClock } from './GameTimer';
 
 const PanelContainer = styled.div<{ $isCurrentPlayer: boolean }>`
   background: ${props => props.$isCurrentPlayer 
@@ -77,18 +78,32 @@ const StatusDot = styled.div<{ $isCurrentPlayer: boolean }>`
   background: ${props => props.$isCurrentPlayer ? '#4ade80' : '#6b7280'};
 `;
 
+const DrawOfferBadge = styled.div`
+  color: #fbbf24;
+  font-size: 0.8rem;
+  font-weight: 500;
+`;
+
+const ClockSlot = styled.div`
+  margin-left: auto;
+`;
+
 interface PlayerPanelProps {
   player: Player;
   isCurrentPlayer: boolean;
   gameStatus: shared.GameStatus;
   gameType?: 'ai' | 'human' | 'practice';
+  hasOfferedDraw?: boolean;
+  clock?: shared.GameClock;
 }
 
 export const PlayerPanel: React.FC<PlayerPanelProps> = ({
   player,
   isCurrentPlayer,
   gameStatus,
-  gameType
+  gameType,
+  hasOfferedDraw,
+  clock
 }) => {
   const getStatusText = () => {
     if (gameStatus === shared.GameStatus.DUEL_IN_PROGRESS) {
@@ -119,6 +134,14 @@ export const PlayerPanel: React.FC<PlayerPanelProps> = ({
           <StatusDot $isCurrentPlayer={isCurrentPlayer} />
           {getStatusText()}
         </StatusIndicator>
+        {hasOfferedDraw && (
+          <DrawOfferBadge>🤝 Draw offered</DrawOfferBadge>
+        )}
+        {clock && (
+          <ClockSlot>
+            <PlayerClock clock={clock} color={player.color} />
+          </ClockSlot>
+        )}
       </StatusArea>
     </PanelContainer>
   );
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import { useGameStore } from '../../stores/gameStore';
+import { DeadlineCountdown } from './GameTimer';
 import { getValidTacticalRetreats } from '@gambit-chess/shared';
 import { ensureChessInstance } from '../../utils/chess-utils';
 import { apiService } from '../../services/api.service';
@@ -183,6 +184,12 @@ export const TacticalRetreatOverlay: React.FC<TacticalRetreatOverlayProps> = ({
           <br />
           Choose a retreat square or return to <strong>{lastMove.from}</strong>.
         </InstructionText>
+        {currentGame.clock?.phaseDeadline && (
+          <DeadlineCountdown
+            deadline={currentGame.clock.phaseDeadline}
+            label={`Returning to ${lastMove.from} in`}
+          />
+        )}
         
         <RetreatStats>
           <StatItem>
@@ -0,0 +1,321 @@
+import React, { useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { parseGambitFEN, resolveStartingPosition, StartingBattlePoints } from '@gambit-chess/shared';
+import * as shared from '@gambit-chess/shared';
+const { DEFAULT_GAME_CONFIG } = shared;
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+const RANKS = ['8', '7', '6', '5', '4', '3', '2', '1'];
+const MAX_SLIDER_BP = 100;
+
+const INITIAL_PLACEMENT = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR';
+
+// FEN piece letters, uppercase for White
+const PIECE_SYMBOLS: Record<string, string> = {
+  K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘', P: '♙',
+  k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟'
+};
+
+// Castling rights that are still possible, given where the kings and rooks stand
+const CASTLING_SQUARES: Array<{ right: string; king: string; rook: string; piece: 'K' | 'k' }> = [
+  { right: 'K', king: 'e1', rook: 'h1', piece: 'K' },
+  { right: 'Q', king: 'e1', rook: 'a1', piece: 'K' },
+  { right: 'k', king: 'e8', rook: 'h8', piece: 'k' },
+  { right: 'q', king: 'e8', rook: 'a8', piece: 'k' }
+];
+
+// Pieces by square, e.g. { e1: 'K', e8: 'k' }
+type Placement = Record<string, string>;
+
+const parsePlacement = (field: string): Placement => {
+  const placement: Placement = {};
+  field.split('/').forEach((row, rankIndex) => {
+    let fileIndex = 0;
+    for (const char of row) {
+      if (/\d/.test(char)) {
+        fileIndex += parseInt(char);
+      } else {
+        placement[`${FILES[fileIndex]}${RANKS[rankIndex]}`] = char;
+        fileIndex++;
+      }
+    }
+  });
+  return placement;
+};
+
+const formatPlacement = (placement: Placement): string =>
+  RANKS.map(rank => {
+    let row = '';
+    let empty = 0;
+    for (const file of FILES) {
+      const piece = placement[`${file}${rank}`];
+      if (piece) {
+        row += (empty || '') + piece;
+        empty = 0;
+      } else {
+        empty++;
+      }
+    }
+    return row + (empty || '');
+  }).join('/');
+
+const buildFEN = (placement: Placement, turn: 'w' | 'b'): string => {
+  const castling = CASTLING_SQUARES
+    .filter(({ king, rook, piece }) => placement[king] === piece && placement[rook] === (piece === 'K' ? 'R' : 'r'))
+    .map(({ right }) => right)
+    .join('');
+  return `${formatPlacement(placement)} ${turn} ${castling || '-'} - 0 1`;
+};
+
+const EditorContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 16px;
+  margin-top: 16px;
+`;
+
+const EditorLayout = styled.div`
+  display: flex;
+  gap: 20px;
+  flex-wrap: wrap;
+  justify-content: center;
+`;
+
+const Board = styled.div`
+  display: grid;
+  grid-template-columns: repeat(8, 44px);
+  grid-template-rows: repeat(8, 44px);
+  border: 2px solid #8b6f32;
+  border-radius: 4px;
+  overflow: hidden;
+`;
+
+const BoardSquare = styled.div<{ $light: boolean }>`
+  background: ${props => props.$light ? '#f0d9b5' : '#b58863'};
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  font-size: 32px;
+  color: #1a1a1a;
+  cursor: grab;
+  user-select: none;
+`;
+
+const Palette = styled.div`
+  display: grid;
+  grid-template-columns: repeat(6, 40px);
+  gap: 4px;
+  align-content: start;
+`;
+
+const PalettePiece = styled.div`
+  background: rgba(255, 255, 255, 0.08);
+  border-radius: 6px;
+  font-size: 30px;
+  text-align: center;
+  cursor: grab;
+  user-select: none;
+`;
+
+const Controls = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  font-size: 14px;
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+  }
+
+  input[type='range'] {
+    flex: 1;
+  }
+
+  input[type='text'], select {
+    background: rgba(0, 0, 0, 0.3);
+    color: #f0d9b5;
+    border: 1px solid rgba(181, 136, 99, 0.4);
+    border-radius: 6px;
+    padding: 4px 8px;
+  }
+
+  input[type='text'] {
+    flex: 1;
+    font-family: monospace;
+  }
+`;
+
+const SmallButton = styled.button`
+  background: rgba(181, 136, 99, 0.3);
+  color: #f0d9b5;
+  border: 1px solid rgba(181, 136, 99, 0.5);
+  border-radius: 6px;
+  padding: 4px 10px;
+  cursor: pointer;
+`;
+
+const ValidationMessage = styled.div<{ $valid: boolean }>`
+  font-size: 13px;
+  color: ${props => props.$valid ? '#4ade80' : '#f87171'};
+`;
+
+interface BoardSetupEditorProps {
+  disabled?: boolean;
+  onStart: (startingPosition: string, startingBattlePoints: StartingBattlePoints) => void;
+}
+
+/**
+ * Set up a position to practice from: drag pieces from the palette onto the board, drag them
+ * off the board to remove them, and choose the side to move and each side's BP
+ */
+export const BoardSetupEditor: React.FC<BoardSetupEditorProps> = ({ disabled, onStart }) => {
+  const [placement, setPlacement] = useState<Placement>(() => parsePlacement(INITIAL_PLACEMENT));
+  const [turn, setTurn] = useState<'w' | 'b'>('w');
+  const [whiteBP, setWhiteBP] = useState(DEFAULT_GAME_CONFIG.initialBattlePoints);
+  const [blackBP, setBlackBP] = useState(DEFAULT_GAME_CONFIG.initialBattlePoints);
+  const [pastedFEN, setPastedFEN] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const fen = buildFEN(placement, turn);
+  const validation = useMemo(
+    () => resolveStartingPosition(fen, 'standard', DEFAULT_GAME_CONFIG, { white: whiteBP, black: blackBP }),
+    [fen, whiteBP, blackBP]
+  );
+
+  // Palette pieces are dragged as 'piece:Q', board pieces as 'square:e4'
+  const handleDrop = (event: React.DragEvent, square: string) => {
+    event.preventDefault();
+    const [source, value] = event.dataTransfer.getData('text/plain').split(':');
+    setPlacement(current => {
+      const next = { ...current };
+      if (source === 'square') {
+        if (value === square || !next[value]) {
+          return current;
+        }
+        next[square] = next[value];
+        delete next[value];
+      } else if (source === 'piece' && PIECE_SYMBOLS[value]) {
+        next[square] = value;
+      }
+      return next;
+    });
+  };
+
+  // A board piece dropped anywhere but a square comes off the board
+  const handleDragEnd = (event: React.DragEvent, square: string) => {
+    if (event.dataTransfer.dropEffect === 'none') {
+      setPlacement(current => {
+        const next = { ...current };
+        delete next[square];
+        return next;
+      });
+    }
+  };
+
+  const handleLoadFEN = () => {
+    const fields = pastedFEN.trim().split(/\s+/);
+    try {
+      if (fields.length === 6) {
+        setPlacement(parsePlacement(fields[0]));
+        setTurn(fields[1] === 'b' ? 'b' : 'w');
+      } else {
+        const position = parseGambitFEN(pastedFEN);
+        const [placementField, turnField] = position.fen.split(' ');
+        setPlacement(parsePlacement(placementField));
+        setTurn(turnField as 'w' | 'b');
+        setWhiteBP(position.battlePoints.white);
+        setBlackBP(position.battlePoints.black);
+      }
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Invalid FEN');
+    }
+  };
+
+  return (
+    <EditorContainer>
+      <EditorLayout>
+        <Board>
+          {RANKS.map((rank, rankIndex) => FILES.map((file, fileIndex) => {
+            const square = `${file}${rank}`;
+            const piece = placement[square];
+            return (
+              <BoardSquare
+                key={square}
+                $light={(rankIndex + fileIndex) % 2 === 0}
+                title={square}
+                draggable={!!piece}
+                onDragStart={event => event.dataTransfer.setData('text/plain', `square:${square}`)}
+                onDragEnd={event => handleDragEnd(event, square)}
+                onDragOver={event => event.preventDefault()}
+                onDrop={event => handleDrop(event, square)}
+              >
+                {piece ? PIECE_SYMBOLS[piece] : null}
+              </BoardSquare>
+            );
+          }))}
+        </Board>
+
+        <Controls>
+          <Palette>
+            {Object.entries(PIECE_SYMBOLS).map(([piece, symbol]) => (
+              <PalettePiece
+                key={piece}
+                draggable
+                onDragStart={event => event.dataTransfer.setData('text/plain', `piece:${piece}`)}
+              >
+                {symbol}
+              </PalettePiece>
+            ))}
+          </Palette>
+
+          <label>
+            To move:
+            <select value={turn} onChange={e => setTurn(e.target.value as 'w' | 'b')}>
+              <option value="w">White</option>
+              <option value="b">Black</option>
+            </select>
+            <SmallButton onClick={() => setPlacement(parsePlacement(INITIAL_PLACEMENT))}>Reset</SmallButton>
+            <SmallButton onClick={() => setPlacement({})}>Clear</SmallButton>
+          </label>
+
+          <label>
+            White BP: {whiteBP}
+            <input type="range" min={0} max={MAX_SLIDER_BP} value={whiteBP} onChange={e => setWhiteBP(Number(e.target.value))} />
+          </label>
+          <label>
+            Black BP: {blackBP}
+            <input type="range" min={0} max={MAX_SLIDER_BP} value={blackBP} onChange={e => setBlackBP(Number(e.target.value))} />
+          </label>
+        </Controls>
+      </EditorLayout>
+
+      <Controls>
+        <label>
+          FEN:
+          <input
+            type="text"
+            value={pastedFEN}
+            onChange={e => setPastedFEN(e.target.value)}
+            placeholder={fen}
+          />
+          <SmallButton onClick={handleLoadFEN} disabled={!pastedFEN.trim()}>Load</SmallButton>
+        </label>
+        {loadError && <ValidationMessage $valid={false}>{loadError}</ValidationMessage>}
+        <ValidationMessage $valid={validation.valid}>
+          {validation.valid ? `Ready: ${fen}` : validation.error}
+        </ValidationMessage>
+      </Controls>
+
+      <SmallButton
+        onClick={() => onStart(fen, { white: whiteBP, black: blackBP })}
+        disabled={disabled || !validation.valid}
+        style={{ padding: '10px', fontSize: '15px' }}
+      >
+        🎯 Start Practice From This Position
+      </SmallButton>
+    </EditorContainer>
+  );
+};
@@ -1,7 +1,28 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import styled from 'styled-components';
+import { AIDifficulty, AIPersona, ConfigurationTemplate, StartingBattlePoints, StartingPositionVariant, TimeControl } from '@gambit-chess/shared';
 import { useGameStore } from '../../stores/gameStore';
+import { apiService, OpenChallenge, TimeControlOption } from '../../services/api.service';
+import { BoardSetupEditor } from './BoardSetupEditor';
+
+const CHALLENGE_REFRESH_MS = 5000;
+
+// Rulesets and time controls offered in the matchmaking queue
+const QUEUE_RULESETS: Array<{ value: ConfigurationTemplate; label: string }> = [
+  { value: 'standard', label: 'Standard' },
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'advanced', label: 'Advanced' },
+  { value: 'risky', label: 'Risky' },
+  { value: 'attackerWinsTies', label: 'Attacker Wins Ties' }
+];
+
+const QUEUE_TIME_CONTROLS: Array<{ label: string; timeControl?: TimeControlOption }> = [
+  { label: 'Untimed' },
+  { label: '3+2 Blitz', timeControl: { baseTimeMs: 180000, incrementMs: 2000 } },
+  { label: '10+5 Rapid', timeControl: { baseTimeMs: 600000, incrementMs: 5000 } },
+  { label: '30+0 Classical', timeControl: { baseTimeMs: 1800000, incrementMs: 0 } }
+];
 
 const LobbyContainer = styled.div`
   min-height: 100vh;
@@ -94,20 +115,21 @@ const GameButton = styled.button`
   }
 `;
 
-const ComingSoonOverlay = styled.div`
-  position: absolute;
-  top: 6px;
-  right: 6px;
-  background: linear-gradient(45deg, #fbbf24, #f59e0b);
-  color: #1a1a1a;
-  font-size: 10px;
-  font-weight: bold;
-  padding: 2px 6px;
-  border-radius: 4px;
-  transform: rotate(15deg);
-  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.3);
-  z-index: 1;
-  border: 1px solid rgba(0, 0, 0, 0.1);
+const PersonaSelector = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  margin-bottom: 12px;
+  font-size: 14px;
+  opacity: 0.9;
+
+  select {
+    background: rgba(0, 0, 0, 0.3);
+    color: #f0d9b5;
+    border: 1px solid rgba(181, 136, 99, 0.4);
+    border-radius: 6px;
+    padding: 4px 8px;
+  }
 `;
 
 const ButtonIcon = styled.span`
@@ -158,6 +180,36 @@ const JoinButton = styled.button`
   &:hover {
     background: #22c55e;
   }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const QueueStatus = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  background: rgba(0, 0, 0, 0.2);
+  border: 1px solid rgba(181, 136, 99, 0.3);
+  border-radius: 8px;
+  padding: 16px;
+`;
+
+const WatchForm = styled.form`
+  display: flex;
+  gap: 10px;
+
+  input {
+    flex: 1;
+    background: rgba(0, 0, 0, 0.3);
+    color: #f0d9b5;
+    border: 1px solid rgba(181, 136, 99, 0.4);
+    border-radius: 8px;
+    padding: 8px 12px;
+    font-size: 14px;
+  }
 `;
 
 const EmptyState = styled.div`
@@ -166,23 +218,122 @@ const EmptyState = styled.div`
   opacity: 0.6;
 `;
 
+const formatTimeControl = (timeControl?: TimeControl): string => {
+  if (!timeControl) {
+    return 'Untimed';
+  }
+  return `${Math.round(timeControl.baseTimeMs / 60000)}+${Math.round(timeControl.incrementMs / 1000)}`;
+};
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
 interface LobbyProps {
   onShowTutorial?: () => void;
 }
 
 export const Lobby: React.FC<LobbyProps> = ({ onShowTutorial }) => {
   const navigate = useNavigate();
-  const { createGame, isGameLoading } = useGameStore();
+  const {
+    createGame,
+    joinGame,
+    isGameLoading,
+    matchmakingStatus,
+    matchmakingQueue,
+    matchedGameId,
+    joinMatchmaking,
+    leaveMatchmaking,
+    setMatchFound
+  } = useGameStore();
+  const [aiPersona, setAiPersona] = useState<AIPersona>('balanced');
+  const [openChallenges, setOpenChallenges] = useState<OpenChallenge[]>([]);
+  const [queueRuleset, setQueueRuleset] = useState<ConfigurationTemplate>('standard');
+  const [queueTimeControl, setQueueTimeControl] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [watchGameId, setWatchGameId] = useState('');
+  const [showBoardSetup, setShowBoardSetup] = useState(false);
+  const [startingVariant, setStartingVariant] = useState<StartingPositionVariant>('standard');
+
+  // Matched games are already started; the game page joins the room
+  useEffect(() => {
+    if (matchedGameId) {
+      setMatchFound(null);
+      navigate(`/game/${matchedGameId}`);
+    }
+  }, [matchedGameId, navigate, setMatchFound]);
+
+  // Tick the elapsed search time while queued
+  useEffect(() => {
+    if (matchmakingStatus !== 'searching') {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [matchmakingStatus]);
+
+  // Leaving the lobby cancels the search, since nothing else would follow up on the match
+  useEffect(() => {
+    return () => {
+      if (useGameStore.getState().matchmakingStatus === 'searching') {
+        useGameStore.getState().leaveMatchmaking();
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadChallenges = async () => {
+      try {
+        const { games } = await apiService.getWaitingGames();
+        if (!cancelled) {
+          setOpenChallenges(games);
+        }
+      } catch (error) {
+        console.error('Failed to load open challenges:', error);
+      }
+    };
+
+    loadChallenges();
+    const interval = setInterval(loadChallenges, CHALLENGE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
 
   const handleCreateGame = async (
     gameType: 'ai' | 'human' | 'practice',
-    aiDifficulty?: 'easy' | 'medium' | 'hard'
+    aiDifficulty?: AIDifficulty
   ) => {
     try {
       const gameId = await createGame({
         gameType,
         colorPreference: 'random',
-        aiDifficulty
+        aiDifficulty,
+        aiPersona: gameType === 'ai' ? aiPersona : undefined,
+        startingPosition: startingVariant === 'chess960' ? 'chess960' : undefined
+      });
+      navigate(`/game/${gameId}`);
+    } catch (error) {
+      console.error('Failed to create game:', error);
+    }
+  };
+
+  const handlePracticeFromPosition = async (
+    startingPosition: string,
+    startingBattlePoints: StartingBattlePoints
+  ) => {
+    try {
+      const gameId = await createGame({
+        gameType: 'practice',
+        colorPreference: 'white',
+        startingPosition,
+        startingBattlePoints
       });
       navigate(`/game/${gameId}`);
     } catch (error) {
@@ -190,6 +341,30 @@ export const Lobby: React.FC<LobbyProps> = ({ onShowTutorial }) => {
     }
   };
 
+  const handleJoinChallenge = async (gameId: string) => {
+    try {
+      await joinGame(gameId);
+      navigate(`/game/${gameId}`);
+    } catch (error) {
+      console.error('Failed to join game:', error);
+      setOpenChallenges(challenges => challenges.filter(challenge => challenge.id !== gameId));
+    }
+  };
+
+  const handleFindMatch = () => {
+    joinMatchmaking(queueRuleset, QUEUE_TIME_CONTROLS[queueTimeControl].timeControl);
+  };
+
+  const handleWatchGame = (event: React.FormEvent) => {
+    event.preventDefault();
+    const gameId = watchGameId.trim();
+    if (gameId) {
+      navigate(`/watch/${gameId}`);
+    }
+  };
+
+  const isSearching = matchmakingStatus === 'searching';
+
   return (
     <LobbyContainer>
       <Header>
@@ -215,40 +390,53 @@ export const Lobby: React.FC<LobbyProps> = ({ onShowTutorial }) => {
       <Content>
         <Section>
           <SectionTitle>🚀 Start New Game</SectionTitle>
+
+          <PersonaSelector>
+            AI style:
+            <select value={aiPersona} onChange={e => setAiPersona(e.target.value as AIPersona)}>
+              <option value="balanced">Balanced</option>
+              <option value="aggressive">Aggressive</option>
+              <option value="cautious">Cautious</option>
+            </select>
+          </PersonaSelector>
+
+          <PersonaSelector>
+            Start:
+            <select value={startingVariant} onChange={e => setStartingVariant(e.target.value as StartingPositionVariant)}>
+              <option value="standard">Standard</option>
+              <option value="chess960">Chess960</option>
+            </select>
+          </PersonaSelector>
           
           <ButtonGrid>
             <GameButton
-              onClick={() => {}}
-              disabled={true}
+              onClick={() => handleCreateGame('ai', 'easy')}
+              disabled={isGameLoading}
             >
-              <ComingSoonOverlay>SOON</ComingSoonOverlay>
               <ButtonIcon>🤖</ButtonIcon>
               <ButtonText>vs Easy AI</ButtonText>
             </GameButton>
             
             <GameButton
-              onClick={() => {}}
-              disabled={true}
+              onClick={() => handleCreateGame('ai', 'medium')}
+              disabled={isGameLoading}
             >
-              <ComingSoonOverlay>SOON</ComingSoonOverlay>
               <ButtonIcon>🧠</ButtonIcon>
               <ButtonText>vs Medium AI</ButtonText>
             </GameButton>
             
             <GameButton
-              onClick={() => {}}
-              disabled={true}
+              onClick={() => handleCreateGame('ai', 'hard')}
+              disabled={isGameLoading}
             >
-              <ComingSoonOverlay>SOON</ComingSoonOverlay>
               <ButtonIcon>💀</ButtonIcon>
               <ButtonText>vs Hard AI</ButtonText>
             </GameButton>
             
             <GameButton
-              onClick={() => {}}
-              disabled={true}
+              onClick={() => handleCreateGame('human')}
+              disabled={isGameLoading}
             >
-              <ComingSoonOverlay>SOON</ComingSoonOverlay>
               <ButtonIcon>👥</ButtonIcon>
               <ButtonText>vs Human</ButtonText>
             </GameButton>
@@ -262,19 +450,106 @@ export const Lobby: React.FC<LobbyProps> = ({ onShowTutorial }) => {
             <ButtonIcon>🎯</ButtonIcon>
             <ButtonText>Practice Mode - Experience Gambit Chess!</ButtonText>
           </GameButton>
+
+          <GameButton
+            onClick={() => setShowBoardSetup(shown => !shown)}
+            style={{ width: '100%', marginTop: '16px' }}
+          >
+            <ButtonIcon>🧩</ButtonIcon>
+            <ButtonText>{showBoardSetup ? 'Hide Board Setup' : 'Practice From a Position'}</ButtonText>
+          </GameButton>
+          {showBoardSetup && (
+            <BoardSetupEditor disabled={isGameLoading} onStart={handlePracticeFromPosition} />
+          )}
         </Section>
 
-        {/* Hidden for now - will be enabled when multiplayer is ready */}
-        {false && (
-          <Section>
-            <SectionTitle>⚡ Join Waiting Games</SectionTitle>
-            
+        <Section>
+          <SectionTitle>🔍 Find a Match</SectionTitle>
+
+          <PersonaSelector>
+            Rules:
+            <select
+              value={queueRuleset}
+              onChange={e => setQueueRuleset(e.target.value as ConfigurationTemplate)}
+              disabled={isSearching}
+            >
+              {QUEUE_RULESETS.map(ruleset => (
+                <option key={ruleset.value} value={ruleset.value}>{ruleset.label}</option>
+              ))}
+            </select>
+            Time:
+            <select
+              value={queueTimeControl}
+              onChange={e => setQueueTimeControl(Number(e.target.value))}
+              disabled={isSearching}
+            >
+              {QUEUE_TIME_CONTROLS.map((option, index) => (
+                <option key={option.label} value={index}>{option.label}</option>
+              ))}
+            </select>
+          </PersonaSelector>
+
+          {isSearching ? (
+            <QueueStatus>
+              <GameInfo>
+                <GameTitle>Searching for an opponent…</GameTitle>
+                <GameDetails>
+                  {matchmakingQueue
+                    ? `${formatDuration(now - matchmakingQueue.joinedAt)} elapsed · est. wait ${formatDuration(matchmakingQueue.estimatedWaitMs)} · ${matchmakingQueue.playersInQueue} other${matchmakingQueue.playersInQueue === 1 ? '' : 's'} in queue · your rating ${matchmakingQueue.rating}`
+                    : 'Joining the queue…'}
+                </GameDetails>
+              </GameInfo>
+              <JoinButton onClick={leaveMatchmaking} style={{ background: '#ef4444' }}>
+                Cancel
+              </JoinButton>
+            </QueueStatus>
+          ) : (
+            <GameButton onClick={handleFindMatch} disabled={isGameLoading} style={{ width: '100%' }}>
+              <ButtonIcon>⚔️</ButtonIcon>
+              <ButtonText>Find Match</ButtonText>
+            </GameButton>
+          )}
+        </Section>
+
+        <Section>
+          <SectionTitle>⚡ Open Challenges</SectionTitle>
+          
+          {openChallenges.length === 0 ? (
             <EmptyState>
-              <p>🚧 Human vs Human Mode Coming Soon!</p>
-              <p style={{ fontSize: '14px', opacity: '0.7' }}>For now, enjoy Practice Mode to learn Gambit Chess mechanics!</p>
+              <p>No one is waiting for an opponent right now.</p>
+              <p style={{ fontSize: '14px', opacity: '0.7' }}>Create a game with "vs Human" and it will show up here for others to join.</p>
             </EmptyState>
-          </Section>
-        )}
+          ) : (
+            openChallenges.map(challenge => (
+              <GameCard key={challenge.id}>
+                <GameInfo>
+                  <GameTitle>Play as {challenge.openColor === 'w' ? 'White' : 'Black'}</GameTitle>
+                  <GameDetails>
+                    {challenge.rated ? 'Rated' : 'Casual'} · {challenge.ruleset ?? 'standard'} rules · {formatTimeControl(challenge.timeControl)}
+                    {challenge.chess960Index !== undefined && ` · Chess960 #${challenge.chess960Index}`}
+                  </GameDetails>
+                </GameInfo>
+                <JoinButton onClick={() => handleJoinChallenge(challenge.id)} disabled={isGameLoading}>
+                  Join
+                </JoinButton>
+              </GameCard>
+            ))
+          )}
+        </Section>
+
+        <Section>
+          <SectionTitle>👀 Watch a Game</SectionTitle>
+          <WatchForm onSubmit={handleWatchGame}>
+            <input
+              value={watchGameId}
+              onChange={e => setWatchGameId(e.target.value)}
+              placeholder="Game ID"
+            />
+            <JoinButton type="submit" disabled={!watchGameId.trim()}>
+              Watch
+            </JoinButton>
+          </WatchForm>
+        </Section>
       </Content>
     </LobbyContainer>
   );
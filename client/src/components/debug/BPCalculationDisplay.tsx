@@ -55,6 +55,8 @@ export const BPCalculationDisplay: React.FC<BPCalculationDisplayProps> = ({
                   }`}>
                     {transaction.type === 'duel_cost' && '⚔️'}
                     {transaction.type === 'retreat_cost' && '🏃'}
+                    {transaction.type === 'retreat_payment' && '🤝'}
+                    {transaction.type === 'piece_loss' && '💀'}
                     {transaction.type === 'regeneration' && '✨'}
                     {transaction.type === 'initial' && '🎯'}
                     {' '}
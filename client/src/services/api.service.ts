@@ -2,13 +2,29 @@ import {
   MoveAction, 
   DuelAllocationAction, 
   TacticalRetreatAction,
-  GameAction 
+  GameAction,
+  ConfigurationTemplate,
+  GameConfig,
+  TimeControl,
+  AIDifficulty,
+  AIPersona,
+  StartingBattlePoints
 } from '@gambit-chess/shared';
 
+// Base time and increment are required; the server fills in default duel and retreat timers
+export type TimeControlOption = Pick<TimeControl, 'baseTimeMs' | 'incrementMs'> & Partial<TimeControl>;
+
 export interface CreateGameOptions {
   gameType: 'ai' | 'human' | 'practice';
   colorPreference: 'white' | 'black' | 'random';
-  aiDifficulty?: 'easy' | 'medium' | 'hard';
+  aiDifficulty?: AIDifficulty;
+  aiPersona?: AIPersona;
+  ruleset?: ConfigurationTemplate;
+  config?: GameConfig; // Only used with ruleset 'custom'
+  timeControl?: TimeControlOption; // Untimed when omitted
+  startingPosition?: string; // 'chess960', or a FEN or Gambit FEN for practice games
+  chess960Index?: number; // Random Chess960 position when omitted
+  startingBattlePoints?: StartingBattlePoints;
 }
 
 export interface AnonymousSession {
@@ -18,18 +34,14 @@ export interface AnonymousSession {
   gamesPlayed: number;
 }
 
-export interface GameListItem {
+// Public listing of a human game waiting for an opponent
+export interface OpenChallenge {
   id: string;
-  status: string;
-  whitePlayer: {
-    id: string;
-    isAnonymous: boolean;
-  };
-  blackPlayer: {
-    id: string;
-    isAnonymous: boolean;
-  };
-  createdAt: string;
+  openColor: 'w' | 'b'; // Seat a joining player takes
+  ruleset?: ConfigurationTemplate;
+  timeControl?: TimeControl;
+  chess960Index?: number;
+  rated: boolean;
 }
 
 class ApiService {
@@ -85,7 +97,7 @@ class ApiService {
     return response.json();
   }
 
-  async getWaitingGames(): Promise<{ games: GameListItem[] }> {
+  async getWaitingGames(): Promise<{ games: OpenChallenge[] }> {
     const response = await this.get('/api/games/waiting');
     
     if (!response.ok) {
@@ -1,8 +1,20 @@
 import { io, Socket } from 'socket.io-client';
-import { BaseGameState, GameEvent } from '@gambit-chess/shared';
+import { BaseGameState, GameEvent, PracticeNavigation, TimeControl } from '@gambit-chess/shared';
 
 export type WebSocketEventHandler = (data: any) => void;
 
+// crypto.randomUUID only exists in secure contexts (HTTPS or localhost); getRandomValues exists everywhere
+const createActionId = (): string => {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
 class WebSocketService {
   private socket: Socket | null = null;
   private connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error' = 'disconnected';
@@ -10,6 +22,8 @@ class WebSocketService {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private sessionToken: string | null = null;
+  // Last game action the server hasn't answered; resent with the same ID after a reconnect
+  private unconfirmedAction: { event: string; actionId: string; payload: Record<string, unknown> } | null = null;
   
   constructor() {
     // Don't connect automatically - wait for authentication
@@ -46,6 +60,12 @@ class WebSocketService {
       this.connectionStatus = 'connected';
       this.reconnectAttempts = 0;
       this.emit('connection:status', { status: 'connected' });
+
+      // The server answers a resent action it already applied with the original result
+      if (this.unconfirmedAction) {
+        console.log('🔁 Resending unconfirmed action:', this.unconfirmedAction.event);
+        this.socket!.emit(this.unconfirmedAction.event, this.unconfirmedAction.payload);
+      }
     });
 
     this.socket.on('disconnect', (reason: string) => {
@@ -110,6 +130,14 @@ class WebSocketService {
       this.emit('game:player_disconnected', data);
     });
 
+    this.socket.on('game:draw_offered', (data: any) => {
+      this.emit('game:draw_offered', data);
+    });
+
+    this.socket.on('game:draw_declined', (data: any) => {
+      this.emit('game:draw_declined', data);
+    });
+
     // Add game:ended event handler
     this.socket.on('game:ended', (data: any) => {
       console.log('🏁 Game ended:', data);
@@ -122,8 +150,40 @@ class WebSocketService {
       this.emit('game:bp_history_response', data);
     });
 
+    this.socket.on('game:spectating', (data: any) => {
+      this.emit('game:spectating', data);
+    });
+
+    this.socket.on('game:spectators', (data: any) => {
+      this.emit('game:spectators', data);
+    });
+
+    this.socket.on('matchmaking:queued', (data: any) => {
+      this.emit('matchmaking:queued', data);
+    });
+
+    this.socket.on('matchmaking:left', (data: any) => {
+      this.emit('matchmaking:left', data);
+    });
+
+    this.socket.on('matchmaking:match_found', (data: any) => {
+      console.log('🎯 Match found:', data);
+      this.emit('matchmaking:match_found', data);
+    });
+
+    // Answers to this client's own game actions
+    for (const event of ['game:move_result', 'game:duel_allocation_confirmed', 'game:tactical_retreat_result']) {
+      this.socket.on(event, () => {
+        this.unconfirmedAction = null;
+      });
+    }
+
     this.socket.on('error', (error: any) => {
       console.error('🚨 Socket error:', error);
+      // Only an error naming the action settles it; any other error leaves it to be resent
+      if (error?.actionId && error.actionId === this.unconfirmedAction?.actionId) {
+        this.unconfirmedAction = null;
+      }
       this.emit('error', error);
     });
 
@@ -190,7 +250,8 @@ class WebSocketService {
       console.warn('Socket not connected, cannot make move');
       return;
     }
-    this.socket.emit('game:move', { gameId, move });
+    const actionId = createActionId();
+    this.sendGameAction('game:move', actionId, { gameId, move: { ...move, actionId } });
   }
 
   submitDuelAllocation(gameId: string, allocation: number): void {
@@ -198,7 +259,8 @@ class WebSocketService {
       console.warn('Socket not connected, cannot submit duel allocation');
       return;
     }
-    this.socket.emit('game:duel_allocation', { gameId, allocation });
+    const actionId = createActionId();
+    this.sendGameAction('game:duel_allocation', actionId, { gameId, allocation, actionId });
   }
 
   submitTacticalRetreat(gameId: string, retreatSquare: string): void {
@@ -206,7 +268,47 @@ class WebSocketService {
       console.warn('Socket not connected, cannot submit tactical retreat');
       return;
     }
-    this.socket.emit('game:tactical_retreat', { gameId, retreatSquare });
+    const actionId = createActionId();
+    this.sendGameAction('game:tactical_retreat', actionId, { gameId, retreatSquare, actionId });
+  }
+
+  // Remember the action until the server answers, in case the connection drops first
+  private sendGameAction(event: string, actionId: string, payload: Record<string, unknown>): void {
+    this.unconfirmedAction = { event, actionId, payload };
+    this.socket!.emit(event, payload);
+  }
+
+  resign(gameId: string): void {
+    if (!this.socket?.connected) {
+      console.warn('Socket not connected, cannot resign');
+      return;
+    }
+    this.socket.emit('game:resign', { gameId });
+  }
+
+  offerDraw(gameId: string): void {
+    if (!this.socket?.connected) {
+      console.warn('Socket not connected, cannot offer draw');
+      return;
+    }
+    this.socket.emit('game:offer_draw', { gameId });
+  }
+
+  respondToDraw(gameId: string, accept: boolean): void {
+    if (!this.socket?.connected) {
+      console.warn('Socket not connected, cannot respond to draw offer');
+      return;
+    }
+    this.socket.emit(accept ? 'game:accept_draw' : 'game:decline_draw', { gameId });
+  }
+
+  // Practice games: take back, replay or branch from a position of the practice tree
+  navigatePractice(gameId: string, navigation: PracticeNavigation, nodeId?: string): void {
+    if (!this.socket?.connected) {
+      console.warn(`Socket not connected, cannot ${navigation}`);
+      return;
+    }
+    this.socket.emit(`game:${navigation}`, { gameId, nodeId });
   }
 
   requestGameState(gameId: string): void {
@@ -225,6 +327,20 @@ class WebSocketService {
     this.socket.emit('game:bp_history', { gameId });
   }
 
+  // Matchmaking
+  joinMatchmaking(ruleset: string, timeControl?: Partial<TimeControl>): void {
+    if (!this.socket?.connected) {
+      console.warn('Socket not connected, cannot join matchmaking');
+      return;
+    }
+    this.socket.emit('matchmaking:join', { ruleset, timeControl });
+  }
+
+  leaveMatchmaking(): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('matchmaking:leave');
+  }
+
   // Connection management
   getConnectionStatus(): string {
     return this.connectionStatus;
@@ -1,10 +1,20 @@
 import { create } from 'zustand';
-import { BaseGameState } from '@gambit-chess/shared';
+import { BaseGameState, AIDifficulty, AIPersona, ConfigurationTemplate, StartingBattlePoints } from '@gambit-chess/shared';
 import { wsService } from '../services/websocket.service';
-import { apiService, AnonymousSession } from '../services/api.service';
+import { apiService, AnonymousSession, TimeControlOption } from '../services/api.service';
 import { ensureChessInstance, convertGameStateResponse } from '../utils/chess-utils';
 import * as shared from '@gambit-chess/shared';
-const { GameStatus, getValidTacticalRetreats } = shared;
+const { GameStatus, getValidTacticalRetreats, getChess960Castlings } = shared;
+
+// Server's view of a player's place in the matchmaking queue
+export interface MatchmakingQueueStatus {
+  ruleset: ConfigurationTemplate;
+  timeControl?: TimeControlOption;
+  rating: number;
+  joinedAt: number;
+  estimatedWaitMs: number;
+  playersInQueue: number;
+}
 
 interface GameStore {
   // Connection state
@@ -37,9 +47,21 @@ interface GameStore {
   isPlayerRetreatDecision: boolean;
   retreatOptions: Array<{ square: string; cost: number; canAfford: boolean }>;
   
+  // Spectator state
+  isSpectator: boolean;
+  spectatorCount: number;
+  
+  // Presence state: a player who lost their connection and when the game will be adjudicated
+  disconnectedPlayer: { color: 'w' | 'b'; reconnectDeadline: number | null } | null;
+  
   // Game end state
   showGameEndModal: boolean;
   gameEndResult: { winner: string; reason: string } | null;
+
+  // Matchmaking state
+  matchmakingStatus: 'idle' | 'searching';
+  matchmakingQueue: MatchmakingQueueStatus | null;
+  matchedGameId: string | null;
   
   // Actions
   waitForWebSocketConnection: () => Promise<void>;
@@ -47,23 +69,52 @@ interface GameStore {
   createGame: (options: {
     gameType: 'ai' | 'human' | 'practice';
     colorPreference: 'white' | 'black' | 'random';
-    aiDifficulty?: 'easy' | 'medium' | 'hard';
+    aiDifficulty?: AIDifficulty;
+    aiPersona?: AIPersona;
+    timeControl?: TimeControlOption;
+    startingPosition?: string;
+    chess960Index?: number;
+    startingBattlePoints?: StartingBattlePoints;
   }) => Promise<string>;
   joinGame: (gameId: string) => Promise<void>;
+  watchGame: (gameId: string) => Promise<void>;
   leaveGame: () => void;
   makeMove: (from: string, to: string, promotion?: string) => void;
   selectSquare: (square: string) => void;
   clearSelection: () => void;
   submitDuelAllocation: (allocation: number) => void;
   submitTacticalRetreat: (retreatSquare: string) => void;
+  resign: () => void;
+  undoMove: () => void;
+  redoMove: () => void;
+  branchFrom: (nodeId: string) => void;
+  offerDraw: () => void;
+  respondToDraw: (accept: boolean) => void;
   updateGameState: (gameState: BaseGameState) => void;
   setConnectionStatus: (status: 'disconnected' | 'connecting' | 'connected' | 'error') => void;
   setError: (error: string | null) => void;
   clearPendingMove: () => void;
   clearDuelState: () => void;
   setGameEndModal: (show: boolean, result?: { winner: string; reason: string } | null) => void;
+  joinMatchmaking: (ruleset: ConfigurationTemplate, timeControl?: TimeControlOption) => void;
+  leaveMatchmaking: () => void;
+  setMatchmakingQueued: (queue: MatchmakingQueueStatus) => void;
+  setMatchFound: (gameId: string | null) => void;
+  setSpectatorCount: (count: number) => void;
+  setDisconnectedPlayer: (disconnectedPlayer: { color: 'w' | 'b'; reconnectDeadline: number | null } | null) => void;
 }
 
+// Squares a piece can move to; a Chess960 king also targets the rooks it can castle with
+const getMoveTargets = (game: BaseGameState, square: string): string[] => {
+  const targets: string[] = game.chess.moves({ square: square as any, verbose: true }).map((move: any) => move.to);
+  if (game.castlingRooks) {
+    const castlings = getChess960Castlings(game.chess, game.castlingRooks)
+      .filter(castling => castling.kingFrom === square);
+    targets.push(...castlings.map(castling => castling.rookFrom));
+  }
+  return targets;
+};
+
 export const useGameStore = create<GameStore>((set, get) => ({
   // Initial state
   connectionStatus: 'disconnected',
@@ -84,8 +135,14 @@ export const useGameStore = create<GameStore>((set, get) => ({
   isTacticalRetreatActive: false,
   isPlayerRetreatDecision: false,
   retreatOptions: [],
+  isSpectator: false,
+  spectatorCount: 0,
+  disconnectedPlayer: null,
   showGameEndModal: false,
   gameEndResult: null,
+  matchmakingStatus: 'idle',
+  matchmakingQueue: null,
+  matchedGameId: null,
 
   // Initialize anonymous session
   initializeSession: async () => {
@@ -181,7 +238,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
   // Join an existing game
   joinGame: async (gameId: string) => {
-    set({ isGameLoading: true, gameError: null });
+    set({ isGameLoading: true, gameError: null, isSpectator: false });
     try {
       // First, try to get the game state to see if it's a practice game already in progress
       let gameState;
@@ -214,6 +271,20 @@ export const useGameStore = create<GameStore>((set, get) => ({
           });
           return;
         }
+        
+        // Creators come back to their own open challenge without joining it again
+        const { session } = get();
+        if (gameState.gameStatus === GameStatus.WAITING_FOR_PLAYERS &&
+            session && (gameState.whitePlayer.id === session.sessionId || gameState.blackPlayer.id === session.sessionId)) {
+          await get().waitForWebSocketConnection();
+          wsService.joinGame(gameId);
+          
+          set({ 
+            currentGame: gameState,
+            isGameLoading: false 
+          });
+          return;
+        }
       } catch (getError) {
         // Game state not accessible, will try join API below
         console.log('Could not get game state directly, trying join API');
@@ -243,6 +314,24 @@ export const useGameStore = create<GameStore>((set, get) => ({
   },
 
   // Leave current game
+  // Watch a game without taking a seat; the state arrives over the socket
+  watchGame: async (gameId: string) => {
+    set({ isGameLoading: true, gameError: null, currentGame: null, isSpectator: true, spectatorCount: 0 });
+    try {
+      await get().waitForWebSocketConnection();
+      wsService.joinGame(gameId);
+      set({ isGameLoading: false });
+    } catch (error) {
+      console.error('Failed to watch game:', error);
+      set({
+        isGameLoading: false,
+        isSpectator: false,
+        gameError: error instanceof Error ? error.message : 'Failed to watch game'
+      });
+      throw error;
+    }
+  },
+
   leaveGame: () => {
     const { currentGame } = get();
     if (currentGame) {
@@ -251,6 +340,9 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
     set({ 
       currentGame: null,
+      isSpectator: false,
+      spectatorCount: 0,
+      disconnectedPlayer: null,
       selectedSquare: null,
       highlightedSquares: [],
       isDuelActive: false,
@@ -342,8 +434,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
       }
 
       // Calculate valid moves for this piece
-      const moves = currentGame.chess.moves({ square: square as any, verbose: true });
-      const validMoveSquares = moves.map((move: any) => move.to);
+      const validMoveSquares = getMoveTargets(currentGame, square);
       
       set({ 
         selectedSquare: square,
@@ -379,8 +470,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
         
         if (isPlayerPiece) {
           // Select this piece instead
-          const moves = currentGame.chess.moves({ square: square as any, verbose: true });
-          const validMoveSquares = moves.map((move: any) => move.to);
+          const validMoveSquares = getMoveTargets(currentGame, square);
           
           set({ 
             selectedSquare: square,
@@ -432,10 +522,64 @@ export const useGameStore = create<GameStore>((set, get) => ({
     wsService.submitTacticalRetreat(currentGame.id, retreatSquare);
   },
 
+  // Resign the current game
+  resign: () => {
+    const { currentGame } = get();
+    if (!currentGame) return;
+
+    wsService.resign(currentGame.id);
+  },
+
+  // Practice games: go back before the last move (or the move in progress)
+  undoMove: () => {
+    const { currentGame } = get();
+    if (!currentGame) return;
+
+    wsService.navigatePractice(currentGame.id, 'undo');
+  },
+
+  // Practice games: replay the move last taken back
+  redoMove: () => {
+    const { currentGame } = get();
+    if (!currentGame) return;
+
+    wsService.navigatePractice(currentGame.id, 'redo');
+  },
+
+  // Practice games: go to a position of the practice tree; the next move there starts a new line
+  branchFrom: (nodeId: string) => {
+    const { currentGame } = get();
+    if (!currentGame) return;
+
+    wsService.navigatePractice(currentGame.id, 'branch', nodeId);
+  },
+
+  // Offer a draw to the opponent
+  offerDraw: () => {
+    const { currentGame } = get();
+    if (!currentGame) return;
+
+    wsService.offerDraw(currentGame.id);
+  },
+
+  // Accept or decline the opponent's draw offer
+  respondToDraw: (accept: boolean) => {
+    const { currentGame } = get();
+    if (!currentGame) return;
+
+    wsService.respondToDraw(currentGame.id, accept);
+  },
+
   // Update game state (called from WebSocket events)
   updateGameState: (gameState: BaseGameState) => {
     const { session, currentGame, pendingMoveTimeout } = get();
     
+    // Every saved state carries a version; one older than what we already show arrived out of order
+    if (currentGame?.id === gameState.id && (gameState.version ?? 0) < (currentGame.version ?? 0)) {
+      console.log(`⏭️ Ignoring stale game state v${gameState.version} (showing v${currentGame.version})`);
+      return;
+    }
+    
     // CRITICAL FIX: For practice games, always update player IDs to match current session
     // This handles WebSocket events overwriting our local session ID updates on page refresh
     if (gameState.gameType === 'practice' && session) {
@@ -692,6 +836,37 @@ export const useGameStore = create<GameStore>((set, get) => ({
   setGameEndModal: (show: boolean, result?: { winner: string; reason: string } | null) => {
     set({ showGameEndModal: show, gameEndResult: result });
   },
+
+  // Search for a rated opponent; the queue status arrives with matchmaking:queued
+  joinMatchmaking: (ruleset: ConfigurationTemplate, timeControl?: TimeControlOption) => {
+    if (get().connectionStatus !== 'connected') {
+      set({ gameError: 'Not connected to the server' });
+      return;
+    }
+    set({ matchmakingStatus: 'searching', matchmakingQueue: null, matchedGameId: null });
+    wsService.joinMatchmaking(ruleset, timeControl);
+  },
+
+  leaveMatchmaking: () => {
+    wsService.leaveMatchmaking();
+    set({ matchmakingStatus: 'idle', matchmakingQueue: null });
+  },
+
+  setMatchmakingQueued: (queue: MatchmakingQueueStatus) => {
+    set({ matchmakingStatus: 'searching', matchmakingQueue: queue });
+  },
+
+  setMatchFound: (gameId: string | null) => {
+    set({ matchmakingStatus: 'idle', matchmakingQueue: null, matchedGameId: gameId });
+  },
+
+  setSpectatorCount: (count: number) => {
+    set({ spectatorCount: count });
+  },
+
+  setDisconnectedPlayer: (disconnectedPlayer) => {
+    set({ disconnectedPlayer });
+  },
 }));
 
 // Set up WebSocket event listeners
@@ -727,17 +902,24 @@ wsService.on('game:ended', (data) => {
   
   // Clear duel state when game ends
   useGameStore.getState().clearDuelState();
+  useGameStore.getState().setDisconnectedPlayer(null);
   
   // Force update the game state to reflect the final position
   const currentGame = useGameStore.getState().currentGame;
   if (currentGame) {
     // If the game status hasn't been updated yet, manually set it
     if (currentGame.gameStatus !== GameStatus.CHECKMATE && currentGame.gameStatus !== GameStatus.STALEMATE) {
-      console.log('🏁 Forcing final game state update with status:', data.reason === 'checkmate' ? 'CHECKMATE' : 'STALEMATE');
+      const finalStatus = data.reason === 'checkmate' ? GameStatus.CHECKMATE : 
+                         data.reason === 'stalemate' ? GameStatus.STALEMATE :
+                         data.reason === 'resignation' ? GameStatus.RESIGNED :
+                         data.reason === 'time_forfeit' ? GameStatus.TIME_FORFEIT :
+                         data.reason === 'abandonment' ? GameStatus.ABANDONED : GameStatus.DRAW;
+      console.log('🏁 Forcing final game state update with status:', finalStatus);
       const updatedGame = {
         ...currentGame,
-        gameStatus: data.reason === 'checkmate' ? GameStatus.CHECKMATE : 
-                   data.reason === 'stalemate' ? GameStatus.STALEMATE : GameStatus.DRAW
+        gameStatus: finalStatus,
+        endReason: data.reason,
+        drawOffer: null
       };
       useGameStore.getState().updateGameState(updatedGame);
     }
@@ -752,6 +934,45 @@ wsService.on('game:ended', (data) => {
   console.log('🏁 Game ended processing complete');
 });
 
+wsService.on('game:draw_offered', (data) => {
+  console.log('🤝 Draw offered:', data);
+  // The pending offer arrives with the next game:state event
+});
+
+wsService.on('game:draw_declined', (data) => {
+  console.log('🤝 Draw declined:', data);
+});
+
+wsService.on('game:player_disconnected', (data) => {
+  if (data.color) {
+    useGameStore.getState().setDisconnectedPlayer({ color: data.color, reconnectDeadline: data.reconnectDeadline ?? null });
+  }
+});
+
+wsService.on('game:player_connected', (data) => {
+  if (useGameStore.getState().disconnectedPlayer?.color === data.color) {
+    useGameStore.getState().setDisconnectedPlayer(null);
+  }
+});
+
+wsService.on('game:spectators', (data) => {
+  if (useGameStore.getState().currentGame?.id === data.gameId || useGameStore.getState().isSpectator) {
+    useGameStore.getState().setSpectatorCount(data.count);
+  }
+});
+
+wsService.on('matchmaking:queued', (queue) => {
+  useGameStore.getState().setMatchmakingQueued(queue);
+});
+
+wsService.on('matchmaking:match_found', (data) => {
+  useGameStore.getState().setMatchFound(data.gameId);
+});
+
 wsService.on('error', (error) => {
+  if (useGameStore.getState().matchmakingStatus === 'searching') {
+    // Queue errors (invalid ruleset, failed match) end the search
+    useGameStore.setState({ matchmakingStatus: 'idle', matchmakingQueue: null });
+  }
   useGameStore.getState().setError(error.message || 'WebSocket error');
 }); 
\ No newline at end of file
@@ -1,11 +1,11 @@
-import { Chess } from 'chess.js';
+import { Chess, Square } from 'chess.js';
 /**
  * Possibly due to Vite's rollup static analysis,
  * Some named const exports are not being recognized by Vite.
  * The workaround is to use namespace destructuring for the imports that don't work.
  * Bizarrely, regular named imports don't work with namespace destructuring.
  */
-import { BaseGameState } from '@gambit-chess/shared';
+import { BaseGameState, PracticeTree } from '@gambit-chess/shared';
 import * as shared from '@gambit-chess/shared';
 const { DEFAULT_GAME_CONFIG } = shared;
 // Type for the server's response format
@@ -15,6 +15,8 @@ export interface GameStateResponse {
   currentTurn: 'w' | 'b';
   board: string; // FEN string
   moveHistory: any[];
+  castlingRooks?: Square[]; // Chess960 games
+  practiceTree?: PracticeTree; // Practice games
   whitePlayer: {
     id: string;
     battlePoints: number;
@@ -43,6 +45,8 @@ export function convertGameStateResponse(response: GameStateResponse): BaseGameS
     currentTurn: response.currentTurn,
     chess: chess,
     moveHistory: response.moveHistory || [],
+    castlingRooks: response.castlingRooks,
+    practiceTree: response.practiceTree,
     whitePlayer: {
       id: response.whitePlayer.id,
       color: 'w',
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN "ruleset" TEXT;
+ALTER TABLE "Game" ADD COLUMN "rated" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "Rating" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ruleset" TEXT NOT NULL,
+    "rating" REAL NOT NULL DEFAULT 1500,
+    "deviation" REAL NOT NULL DEFAULT 350,
+    "volatility" REAL NOT NULL DEFAULT 0.06,
+    "gamesPlayed" INTEGER NOT NULL DEFAULT 0,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "losses" INTEGER NOT NULL DEFAULT 0,
+    "draws" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "Rating_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "RatingHistory" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ruleset" TEXT NOT NULL,
+    "rating" REAL NOT NULL,
+    "deviation" REAL NOT NULL,
+    "volatility" REAL NOT NULL,
+    "change" REAL NOT NULL,
+    "score" REAL NOT NULL,
+    "opponentId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "gameId" TEXT NOT NULL,
+    CONSTRAINT "RatingHistory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RatingHistory_gameId_fkey" FOREIGN KEY ("gameId") REFERENCES "Game" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Rating_ruleset_rating_idx" ON "Rating"("ruleset", "rating");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Rating_userId_ruleset_key" ON "Rating"("userId", "ruleset");
+
+-- CreateIndex
+CREATE INDEX "RatingHistory_userId_ruleset_createdAt_idx" ON "RatingHistory"("userId", "ruleset", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RatingHistory_gameId_userId_key" ON "RatingHistory"("gameId", "userId");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN "events" JSONB;
+ALTER TABLE "Game" ADD COLUMN "whiteBattlePoints" INTEGER;
+ALTER TABLE "Game" ADD COLUMN "blackBattlePoints" INTEGER;
@@ -0,0 +1,31 @@
+import { DEFAULT_GAME_CONFIG, GameConfig, getMaxUsefulAllocation } from '@gambit-chess/shared';
+import { estimateDuel } from './duel-odds';
+
+describe('estimateDuel', () => {
+    it('gives a broke attacker no chance when the defender wins ties', () => {
+        const estimate = estimateDuel('q', 0, 'p', 0, DEFAULT_GAME_CONFIG);
+        expect(estimate.attackerWinProbability).toBe(0);
+        expect(estimate.expectedAttackerSpend).toBe(0);
+    });
+
+    it('applies the tie rule', () => {
+        const attackerWinsTies: GameConfig = {
+            ...DEFAULT_GAME_CONFIG,
+            duelResolutionRules: { ...DEFAULT_GAME_CONFIG.duelResolutionRules, defenderWinsTies: false }
+        };
+        expect(estimateDuel('q', 0, 'p', 0, attackerWinsTies).attackerWinProbability).toBe(1);
+    });
+
+    it('favours the side that can commit more effective BP', () => {
+        const strongAttacker = estimateDuel('q', 30, 'p', 1, DEFAULT_GAME_CONFIG);
+        const weakAttacker = estimateDuel('p', 1, 'q', 30, DEFAULT_GAME_CONFIG);
+        expect(strongAttacker.attackerWinProbability).toBeGreaterThan(0.8);
+        expect(weakAttacker.attackerWinProbability).toBeLessThan(0.2);
+    });
+
+    it('never expects more to be spent than is useful or available', () => {
+        const estimate = estimateDuel('p', 100, 'n', 2, DEFAULT_GAME_CONFIG);
+        expect(estimate.expectedAttackerSpend).toBe(getMaxUsefulAllocation('p', DEFAULT_GAME_CONFIG) / 2);
+        expect(estimate.expectedDefenderSpend).toBe(1);
+    });
+});
@@ -0,0 +1,46 @@
+import { GameConfig, calculateEffectiveAllocation, getMaxUsefulAllocation } from '@gambit-chess/shared';
+import { PieceSymbol } from 'chess.js';
+
+/**
+ * Expected outcome of a duel before either side has allocated
+ */
+export interface DuelEstimate {
+    attackerWinProbability: number;
+    expectedAttackerSpend: number;
+    expectedDefenderSpend: number;
+}
+
+/**
+ * Estimate a duel assuming each side allocates uniformly at random between 0 and
+ * the most it can usefully spend. Crude, but it never treats a capture as guaranteed:
+ * the odds follow the BP both sides hold, piece capacities and the tie rule.
+ * The search calls this at every chance node, where the shared solveDuel would be too slow.
+ */
+export function estimateDuel(
+    attackerType: PieceSymbol,
+    attackerBP: number,
+    defenderType: PieceSymbol,
+    defenderBP: number,
+    config: GameConfig
+): DuelEstimate {
+    const maxAttacker = Math.max(0, Math.min(Math.floor(attackerBP), getMaxUsefulAllocation(attackerType, config)));
+    const maxDefender = Math.max(0, Math.min(Math.floor(defenderBP), getMaxUsefulAllocation(defenderType, config)));
+    const attackerWinsTies = !config.duelResolutionRules.defenderWinsTies;
+
+    let wins = 0;
+    for (let attackerAllocation = 0; attackerAllocation <= maxAttacker; attackerAllocation++) {
+        const attackerEffective = calculateEffectiveAllocation(attackerType, attackerAllocation, config);
+        for (let defenderAllocation = 0; defenderAllocation <= maxDefender; defenderAllocation++) {
+            const defenderEffective = calculateEffectiveAllocation(defenderType, defenderAllocation, config);
+            if (attackerEffective > defenderEffective || (attackerEffective === defenderEffective && attackerWinsTies)) {
+                wins++;
+            }
+        }
+    }
+
+    return {
+        attackerWinProbability: wins / ((maxAttacker + 1) * (maxDefender + 1)),
+        expectedAttackerSpend: maxAttacker / 2,
+        expectedDefenderSpend: maxDefender / 2
+    };
+}
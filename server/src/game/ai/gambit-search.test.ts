@@ -0,0 +1,49 @@
+import { DEFAULT_GAME_CONFIG } from '@gambit-chess/shared';
+import { Chess } from 'chess.js';
+import { searchBestMove, searchBestRetreat } from './gambit-search';
+
+describe('searchBestMove', () => {
+    it('finds a quiet mate in one', () => {
+        const result = searchBestMove(
+            { fen: '6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1', battlePoints: { w: 10, b: 10 } },
+            DEFAULT_GAME_CONFIG,
+            { limits: { maxDepth: 2 } }
+        );
+        expect(result.move?.san).toBe('Ra8#');
+    });
+
+    it('attacks a hanging rook when the duel is likely to be won', () => {
+        const result = searchBestMove(
+            { fen: '4k3/8/8/3r4/8/8/8/3QK3 w - - 0 1', battlePoints: { w: 30, b: 0 } },
+            DEFAULT_GAME_CONFIG,
+            { limits: { maxDepth: 2 } }
+        );
+        expect(result.move?.to).toBe('d5');
+    });
+
+    it('stops at the node limit and still returns a legal move', () => {
+        const chess = new Chess();
+        const result = searchBestMove(
+            { fen: chess.fen(), battlePoints: { w: 39, b: 39 } },
+            DEFAULT_GAME_CONFIG,
+            { limits: { maxDepth: 6, maxNodes: 200 } }
+        );
+        expect(result.aborted).toBe(true);
+        expect(result.nodes).toBeLessThanOrEqual(201);
+        expect(chess.moves({ verbose: true }).map(move => move.lan)).toContain(result.move?.lan);
+    });
+});
+
+describe('searchBestRetreat', () => {
+    it('only considers retreats the attacker can afford', () => {
+        const square = searchBestRetreat(
+            { fen: '4k3/8/8/3r4/8/8/8/3QK3 w - - 0 1', battlePoints: { w: 1, b: 10 } },
+            'd1',
+            'd5',
+            [{ square: 'd1', cost: 0 }, { square: 'd4', cost: 3 }],
+            DEFAULT_GAME_CONFIG,
+            { limits: { maxDepth: 2 } }
+        );
+        expect(square).toBe('d1');
+    });
+});
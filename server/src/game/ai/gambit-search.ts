@@ -0,0 +1,389 @@
+import { GameConfig, GambitMove, calculateTacticalRetreats, calculateRetreatPayment, isAttackerPieceLost, calculateBPRegenDetailed } from '@gambit-chess/shared';
+import { Chess, Color, Move, Square } from 'chess.js';
+import { estimateDuel } from './duel-odds';
+
+/**
+ * Expectimax search for Gambit Chess.
+ *
+ * Quiet moves are ordinary max nodes. A capture attempt is a chance node: it succeeds with the
+ * estimated duel win probability and otherwise leaves the attacker retreating (or losing the
+ * piece under the risky rules), with both sides paying their expected duel allocation.
+ * Battle points are part of the evaluation, so spending them on duels and retreats has a price
+ * and tactic regeneration at the root has a value.
+ */
+
+export interface SearchLimits {
+    maxDepth: number; // Plies, searched with iterative deepening
+    maxNodes: number;
+    timeLimitMs: number;
+}
+
+export const DEFAULT_SEARCH_LIMITS: SearchLimits = {
+    maxDepth: 3,
+    maxNodes: 6000,
+    timeLimitMs: 800
+};
+
+export interface SearchPosition {
+    fen: string;
+    battlePoints: Record<Color, number>;
+}
+
+export interface SearchOptions {
+    limits?: Partial<SearchLimits>;
+    bpValue?: number; // Worth of one battle point in pawns
+}
+
+export interface SearchResult {
+    move: Move | null;
+    score: number; // From the side to move's point of view, in pawns
+    depth: number; // Deepest fully searched iteration
+    nodes: number;
+    aborted: boolean; // A limit was hit before maxDepth was finished
+}
+
+export const DEFAULT_BP_VALUE = 0.25;
+
+const MATE_SCORE = 10000;
+const TIME_CHECK_INTERVAL = 128;
+const CENTER_SQUARES = new Set<string>(['d4', 'd5', 'e4', 'e5']);
+
+class SearchAborted extends Error {}
+
+interface SearchContext {
+    config: GameConfig;
+    bpValue: number;
+    limits: SearchLimits;
+    deadline: number;
+    nodes: number;
+}
+
+/**
+ * Find the best move for the side to move within the given limits
+ */
+export function searchBestMove(position: SearchPosition, config: GameConfig, options: SearchOptions = {}): SearchResult {
+    const limits = { ...DEFAULT_SEARCH_LIMITS, ...options.limits };
+    const context: SearchContext = {
+        config,
+        bpValue: options.bpValue ?? DEFAULT_BP_VALUE,
+        limits,
+        deadline: Date.now() + limits.timeLimitMs,
+        nodes: 0
+    };
+
+    const chess = new Chess(position.fen);
+    const moves = orderMoves(chess.moves({ verbose: true }), config);
+    const result: SearchResult = { move: moves[0] ?? null, score: 0, depth: 0, nodes: 0, aborted: false };
+    if (moves.length === 0) {
+        return result;
+    }
+
+    // Regeneration from tactics is only detected at the root, where it decides between real candidates
+    const rootRegen = new Map<Move, number>();
+    for (const move of moves) {
+        if (!move.captured) {
+            rootRegen.set(move, calculateBPRegenDetailed(move as GambitMove, config).totalBP);
+        }
+    }
+
+    for (let depth = 1; depth <= limits.maxDepth; depth++) {
+        try {
+            let bestMove = moves[0];
+            let bestScore = -Infinity;
+            for (const move of moves) {
+                const score = scoreMove(context, chess, position.battlePoints, move, depth, bestScore, Infinity, rootRegen.get(move));
+                if (score > bestScore) {
+                    bestScore = score;
+                    bestMove = move;
+                }
+            }
+
+            result.move = bestMove;
+            result.score = bestScore;
+            result.depth = depth;
+
+            // Search the best move first in the next iteration
+            moves.splice(moves.indexOf(bestMove), 1);
+            moves.unshift(bestMove);
+        } catch (error) {
+            if (!(error instanceof SearchAborted)) {
+                throw error;
+            }
+            result.aborted = true;
+            break;
+        }
+    }
+
+    result.nodes = context.nodes;
+    return result;
+}
+
+/**
+ * Pick the retreat square for a failed capture that leaves the attacker best placed,
+ * searching the opponent's replies to each option
+ */
+export function searchBestRetreat(
+    position: SearchPosition,
+    originalSquare: Square,
+    failedCaptureSquare: Square,
+    retreatOptions: { square: Square; cost: number }[],
+    config: GameConfig,
+    options: SearchOptions = {}
+): Square | null {
+    const chess = new Chess(position.fen);
+    const attacker = chess.get(originalSquare);
+    if (!attacker) {
+        return null;
+    }
+
+    const affordable = retreatOptions.filter(option => option.cost <= position.battlePoints[attacker.color]);
+    if (affordable.length <= 1) {
+        return affordable[0]?.square ?? null;
+    }
+
+    const limits = { ...DEFAULT_SEARCH_LIMITS, ...options.limits };
+    const context: SearchContext = {
+        config,
+        bpValue: options.bpValue ?? DEFAULT_BP_VALUE,
+        limits,
+        deadline: Date.now() + limits.timeLimitMs,
+        nodes: 0
+    };
+
+    // Fall back to the static evaluation if the search runs out of budget
+    let best = affordable[0];
+    let bestScore = -Infinity;
+    for (const option of affordable) {
+        const child = applyRetreat(context, chess, position.battlePoints, attacker.color, originalSquare, failedCaptureSquare, option);
+        let score: number;
+        try {
+            score = -search(context, child.chess, child.battlePoints, Math.max(0, limits.maxDepth - 1), -Infinity, Infinity);
+        } catch (error) {
+            if (!(error instanceof SearchAborted)) {
+                throw error;
+            }
+            score = -evaluate(context, child.chess, child.battlePoints);
+        }
+        if (score > bestScore) {
+            bestScore = score;
+            best = option;
+        }
+    }
+
+    return best.square;
+}
+
+/**
+ * Negamax over quiet moves, expectimax over capture attempts.
+ * Returns the value for the side to move.
+ */
+function search(
+    context: SearchContext,
+    chess: Chess,
+    battlePoints: Record<Color, number>,
+    depth: number,
+    alpha: number,
+    beta: number
+): number {
+    countNode(context);
+
+    if (chess.isCheckmate()) {
+        return -(MATE_SCORE + depth);
+    }
+    if (chess.isDraw()) {
+        return 0;
+    }
+    if (depth === 0) {
+        return evaluate(context, chess, battlePoints);
+    }
+
+    let best = -Infinity;
+    for (const move of orderMoves(chess.moves({ verbose: true }), context.config)) {
+        const score = scoreMove(context, chess, battlePoints, move, depth, alpha, beta);
+        if (score > best) {
+            best = score;
+        }
+        if (best > alpha) {
+            alpha = best;
+        }
+        if (alpha >= beta) {
+            break;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Value of playing a move, for the side making it
+ */
+function scoreMove(
+    context: SearchContext,
+    chess: Chess,
+    battlePoints: Record<Color, number>,
+    move: Move,
+    depth: number,
+    alpha: number,
+    beta: number,
+    regeneration?: number
+): number {
+    const mover = move.color;
+    const opponent: Color = mover === 'w' ? 'b' : 'w';
+
+    if (!move.captured) {
+        const regen = regeneration ?? context.config.regenerationRules.baseTurnRegeneration;
+        chess.move(move);
+        try {
+            return -search(context, chess, { ...battlePoints, [mover]: battlePoints[mover] + regen }, depth - 1, -beta, -alpha);
+        } finally {
+            chess.undo();
+        }
+    }
+
+    // Chance node: both outcomes are searched with a full window, since a bound on the
+    // weighted sum says nothing about either branch on its own
+    const duel = estimateDuel(move.piece, battlePoints[mover], move.captured, battlePoints[opponent], context.config);
+    const afterDuel: Record<Color, number> = {
+        [mover]: battlePoints[mover] - duel.expectedAttackerSpend,
+        [opponent]: battlePoints[opponent] - duel.expectedDefenderSpend
+    } as Record<Color, number>;
+
+    let winScore = 0;
+    if (duel.attackerWinProbability > 0) {
+        chess.move(move);
+        try {
+            winScore = -search(context, chess, afterDuel, depth - 1, -Infinity, Infinity);
+        } finally {
+            chess.undo();
+        }
+    }
+
+    let loseScore = 0;
+    if (duel.attackerWinProbability < 1) {
+        const retreatOptions = calculateTacticalRetreats(chess, move.from, move.to, context.config);
+        const child = isAttackerPieceLost(retreatOptions, afterDuel[mover], context.config)
+            ? applyPieceLoss(chess, afterDuel, move.from)
+            : applyRetreat(context, chess, afterDuel, mover, move.from, move.to, pickRetreat(context, chess, afterDuel, mover, move.from, move.to, retreatOptions));
+        loseScore = -search(context, child.chess, child.battlePoints, depth - 1, -Infinity, Infinity);
+    }
+
+    return duel.attackerWinProbability * winScore + (1 - duel.attackerWinProbability) * loseScore;
+}
+
+/**
+ * Inside the tree, retreat options are compared statically to keep the branching factor down
+ */
+function pickRetreat(
+    context: SearchContext,
+    chess: Chess,
+    battlePoints: Record<Color, number>,
+    attackerColor: Color,
+    originalSquare: Square,
+    failedCaptureSquare: Square,
+    retreatOptions: { square: Square; cost: number }[]
+): { square: Square; cost: number } {
+    const affordable = retreatOptions.filter(option => option.cost <= battlePoints[attackerColor]);
+    // With nothing affordable the rules send the piece home for free
+    let best = affordable[0] ?? { square: originalSquare, cost: 0 };
+    let bestScore = -Infinity;
+    for (const option of affordable) {
+        const child = applyRetreat(context, chess, battlePoints, attackerColor, originalSquare, failedCaptureSquare, option);
+        const score = -evaluate(context, child.chess, child.battlePoints);
+        if (score > bestScore) {
+            bestScore = score;
+            best = option;
+        }
+    }
+    return best;
+}
+
+/**
+ * Position after a failed capture and retreat: the attacker pays for the retreat
+ * (part of it may go to the defender) and the turn passes
+ */
+function applyRetreat(
+    context: SearchContext,
+    chess: Chess,
+    battlePoints: Record<Color, number>,
+    attackerColor: Color,
+    originalSquare: Square,
+    failedCaptureSquare: Square,
+    option: { square: Square; cost: number }
+): { chess: Chess; battlePoints: Record<Color, number> } {
+    const defenderColor: Color = attackerColor === 'w' ? 'b' : 'w';
+    const child = new Chess(chess.fen());
+    const piece = child.remove(originalSquare);
+    if (piece) {
+        child.put(piece, option.square);
+    }
+
+    return {
+        chess: passTurn(child),
+        battlePoints: {
+            [attackerColor]: battlePoints[attackerColor] - option.cost,
+            [defenderColor]: battlePoints[defenderColor] + calculateRetreatPayment(option.cost, context.config)
+        } as Record<Color, number>
+    };
+}
+
+/**
+ * Position after a failed attacker is removed from the board and the turn passes
+ */
+function applyPieceLoss(
+    chess: Chess,
+    battlePoints: Record<Color, number>,
+    originalSquare: Square
+): { chess: Chess; battlePoints: Record<Color, number> } {
+    const child = new Chess(chess.fen());
+    child.remove(originalSquare);
+    return { chess: passTurn(child), battlePoints };
+}
+
+function passTurn(chess: Chess): Chess {
+    const fenParts = chess.fen().split(' ');
+    fenParts[1] = fenParts[1] === 'w' ? 'b' : 'w';
+    fenParts[3] = '-';
+    return new Chess(fenParts.join(' '));
+}
+
+/**
+ * Static evaluation for the side to move: material, battle points and a little central control
+ */
+function evaluate(context: SearchContext, chess: Chess, battlePoints: Record<Color, number>): number {
+    const side = chess.turn();
+    const opponent: Color = side === 'w' ? 'b' : 'w';
+
+    let score = (battlePoints[side] - battlePoints[opponent]) * context.bpValue;
+    for (const row of chess.board()) {
+        for (const piece of row) {
+            if (!piece || piece.type === 'k') {
+                continue;
+            }
+            let value = context.config.pieceValues[piece.type];
+            if (CENTER_SQUARES.has(piece.square)) {
+                value += 0.1;
+            }
+            score += piece.color === side ? value : -value;
+        }
+    }
+
+    return score;
+}
+
+/**
+ * Captures of the most valuable pieces first, so the best lines are found before limits are hit
+ */
+function orderMoves(moves: Move[], config: GameConfig): Move[] {
+    const victimValue = (move: Move) => (move.captured ? config.pieceValues[move.captured] : 0);
+    return [...moves].sort((a, b) => victimValue(b) - victimValue(a));
+}
+
+function countNode(context: SearchContext): void {
+    context.nodes++;
+    if (context.nodes > context.limits.maxNodes) {
+        throw new SearchAborted();
+    }
+    if (context.nodes % TIME_CHECK_INTERVAL === 0 && Date.now() > context.deadline) {
+        throw new SearchAborted();
+    }
+}
@@ -0,0 +1,2 @@
+export * from './duel-odds';
+export * from './gambit-search';
\ No newline at end of file
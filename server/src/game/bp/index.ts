@@ -1 +0,0 @@
-export * from './bp-calculator';
\ No newline at end of file
@@ -0,0 +1 @@
+export * from './pairing';
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { DEFAULT_SEARCH_WINDOW, QueueEntry, findPairs, getPoolKey, getSearchWindow } from './pairing';
+
+const NOW = 1_000_000;
+
+function entry(playerId: string, rating: number, waitedMs: number = 0, overrides: Partial<QueueEntry> = {}): QueueEntry {
+    return {
+        playerId,
+        isAnonymous: false,
+        socketId: `socket-${playerId}`,
+        ruleset: 'standard',
+        rating,
+        joinedAt: NOW - waitedMs,
+        ...overrides
+    };
+}
+
+describe('getSearchWindow', () => {
+    it('starts at the initial window and widens up to the maximum', () => {
+        expect(getSearchWindow(entry('a', 1500), NOW)).toBe(DEFAULT_SEARCH_WINDOW.initialWindow);
+        expect(getSearchWindow(entry('a', 1500, 10_000), NOW)).toBe(DEFAULT_SEARCH_WINDOW.initialWindow + 10 * DEFAULT_SEARCH_WINDOW.widenPerSecond);
+        expect(getSearchWindow(entry('a', 1500, 3_600_000), NOW)).toBe(DEFAULT_SEARCH_WINDOW.maxWindow);
+    });
+});
+
+describe('findPairs', () => {
+    it('pairs close ratings straight away', () => {
+        const pairs = findPairs([entry('a', 1500), entry('b', 1550)], NOW);
+        expect(pairs.map(([x, y]) => [x.playerId, y.playerId])).toEqual([['a', 'b']]);
+    });
+
+    it('waits for both windows to cover a large rating gap', () => {
+        expect(findPairs([entry('a', 1500, 60_000), entry('b', 1800)], NOW)).toHaveLength(0);
+        expect(findPairs([entry('a', 1500, 60_000), entry('b', 1800, 30_000)], NOW)).toHaveLength(1);
+    });
+
+    it('picks the closest rating for the longest-waiting player', () => {
+        const pairs = findPairs([entry('a', 1500, 5_000), entry('b', 1580), entry('c', 1520)], NOW);
+        expect(pairs).toHaveLength(1);
+        expect([pairs[0][0].playerId, pairs[0][1].playerId]).toEqual(['a', 'c']);
+    });
+
+    it('keeps rulesets and time controls apart', () => {
+        const blitz = { baseTimeMs: 180_000, incrementMs: 2_000, duelAllocationTimeMs: 30_000, retreatDecisionTimeMs: 30_000, defaultDuelAllocation: 0 };
+        expect(findPairs([entry('a', 1500), entry('b', 1500, 0, { ruleset: 'risky' })], NOW)).toHaveLength(0);
+        expect(findPairs([entry('a', 1500), entry('b', 1500, 0, { timeControl: blitz })], NOW)).toHaveLength(0);
+        expect(getPoolKey('standard', blitz)).not.toBe(getPoolKey('standard'));
+    });
+});
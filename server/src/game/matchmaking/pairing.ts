@@ -0,0 +1,101 @@
+import { ConfigurationTemplate, TimeControl } from '@gambit-chess/shared';
+
+/**
+ * Rating-based pairing for the matchmaking queue.
+ *
+ * Players only meet others queued for the same ruleset and time control. Each player accepts
+ * opponents within a rating window that starts narrow and widens the longer they wait, and
+ * two players are paired once each is inside the other's window. The longest-waiting players
+ * are paired first, each with the closest-rated opponent available.
+ */
+
+export interface QueueEntry {
+    playerId: string;
+    isAnonymous: boolean;
+    socketId: string;
+    ruleset: ConfigurationTemplate;
+    timeControl?: TimeControl;
+    rating: number;
+    joinedAt: number; // Epoch milliseconds
+}
+
+export interface SearchWindowSettings {
+    initialWindow: number; // Rating difference accepted straight away
+    widenPerSecond: number;
+    maxWindow: number;
+}
+
+export const DEFAULT_SEARCH_WINDOW: SearchWindowSettings = {
+    initialWindow: 100,
+    widenPerSecond: 10,
+    maxWindow: 600
+};
+
+/**
+ * Key shared by all entries that can be paired with each other
+ */
+export function getPoolKey(ruleset: ConfigurationTemplate, timeControl?: TimeControl): string {
+    if (!timeControl) {
+        return `${ruleset}:untimed`;
+    }
+    return [
+        ruleset,
+        timeControl.baseTimeMs,
+        timeControl.incrementMs,
+        timeControl.duelAllocationTimeMs,
+        timeControl.retreatDecisionTimeMs,
+        timeControl.defaultDuelAllocation
+    ].join(':');
+}
+
+/**
+ * Largest rating difference a player accepts after waiting since joinedAt
+ */
+export function getSearchWindow(entry: QueueEntry, now: number, settings: SearchWindowSettings = DEFAULT_SEARCH_WINDOW): number {
+    const waitedSeconds = Math.max(0, now - entry.joinedAt) / 1000;
+    return Math.min(settings.maxWindow, settings.initialWindow + waitedSeconds * settings.widenPerSecond);
+}
+
+/**
+ * Pair as many queued players as the current search windows allow
+ */
+export function findPairs(
+    entries: QueueEntry[],
+    now: number,
+    settings: SearchWindowSettings = DEFAULT_SEARCH_WINDOW
+): Array<[QueueEntry, QueueEntry]> {
+    const pairs: Array<[QueueEntry, QueueEntry]> = [];
+    const paired = new Set<string>();
+    const byWaitTime = [...entries].sort((a, b) => a.joinedAt - b.joinedAt);
+
+    for (const entry of byWaitTime) {
+        if (paired.has(entry.playerId)) {
+            continue;
+        }
+
+        const poolKey = getPoolKey(entry.ruleset, entry.timeControl);
+        let best: QueueEntry | null = null;
+        for (const candidate of byWaitTime) {
+            if (candidate.playerId === entry.playerId || paired.has(candidate.playerId)) {
+                continue;
+            }
+            if (getPoolKey(candidate.ruleset, candidate.timeControl) !== poolKey) {
+                continue;
+            }
+
+            const difference = Math.abs(entry.rating - candidate.rating);
+            const accepted = Math.min(getSearchWindow(entry, now, settings), getSearchWindow(candidate, now, settings));
+            if (difference <= accepted && (!best || difference < Math.abs(entry.rating - best.rating))) {
+                best = candidate;
+            }
+        }
+
+        if (best) {
+            paired.add(entry.playerId);
+            paired.add(best.playerId);
+            pairs.push([entry, best]);
+        }
+    }
+
+    return pairs;
+}
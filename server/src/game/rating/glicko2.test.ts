@@ -0,0 +1,41 @@
+import { DEFAULT_GLICKO2_RATING, expectedGlicko2Score, updateGlicko2Rating } from './glicko2';
+
+describe('updateGlicko2Rating', () => {
+    it('reproduces the worked example from the Glicko-2 paper', () => {
+        const updated = updateGlicko2Rating({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+            { opponent: { rating: 1400, deviation: 30, volatility: 0.06 }, score: 1 },
+            { opponent: { rating: 1550, deviation: 100, volatility: 0.06 }, score: 0 },
+            { opponent: { rating: 1700, deviation: 300, volatility: 0.06 }, score: 0 }
+        ]);
+
+        expect(updated.rating).toBeCloseTo(1464.06, 1);
+        expect(updated.deviation).toBeCloseTo(151.52, 1);
+        expect(updated.volatility).toBeCloseTo(0.05999, 4);
+    });
+
+    it('moves equal players symmetrically', () => {
+        const winner = updateGlicko2Rating(DEFAULT_GLICKO2_RATING, [{ opponent: DEFAULT_GLICKO2_RATING, score: 1 }]);
+        const loser = updateGlicko2Rating(DEFAULT_GLICKO2_RATING, [{ opponent: DEFAULT_GLICKO2_RATING, score: 0 }]);
+
+        expect(winner.rating - 1500).toBeCloseTo(1500 - loser.rating, 6);
+        expect(winner.deviation).toBeLessThan(DEFAULT_GLICKO2_RATING.deviation);
+    });
+
+    it('leaves equal players unchanged after a draw, apart from the deviation', () => {
+        const drawn = updateGlicko2Rating(DEFAULT_GLICKO2_RATING, [{ opponent: DEFAULT_GLICKO2_RATING, score: 0.5 }]);
+        expect(drawn.rating).toBeCloseTo(1500, 6);
+        expect(drawn.deviation).toBeLessThan(DEFAULT_GLICKO2_RATING.deviation);
+    });
+
+    it('grows the deviation of a player without results, up to the default', () => {
+        const settled = { rating: 1800, deviation: 50, volatility: 0.06 };
+        expect(updateGlicko2Rating(settled, []).deviation).toBeGreaterThan(50);
+        expect(updateGlicko2Rating(DEFAULT_GLICKO2_RATING, []).deviation).toBe(DEFAULT_GLICKO2_RATING.deviation);
+    });
+
+    it('expects the stronger player to score more', () => {
+        const strong = { rating: 1900, deviation: 60, volatility: 0.06 };
+        expect(expectedGlicko2Score(strong, DEFAULT_GLICKO2_RATING)).toBeGreaterThan(0.5);
+        expect(expectedGlicko2Score(DEFAULT_GLICKO2_RATING, DEFAULT_GLICKO2_RATING)).toBeCloseTo(0.5, 6);
+    });
+});
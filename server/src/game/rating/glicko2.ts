@@ -0,0 +1,134 @@
+/**
+ * Glicko-2 rating system (Glickman, "Example of the Glicko-2 system").
+ *
+ * Ratings are stored on the familiar Glicko scale (1500 centred) and converted to the
+ * Glicko-2 scale only for the update. Every rated game is its own rating period, so a
+ * player's deviation shrinks as they play and their volatility tracks how erratic
+ * their results have been.
+ */
+
+export interface Glicko2Rating {
+    rating: number;
+    deviation: number; // Rating deviation (RD)
+    volatility: number;
+}
+
+export interface Glicko2Result {
+    opponent: Glicko2Rating;
+    score: number; // 1 for a win, 0.5 for a draw, 0 for a loss
+}
+
+export const DEFAULT_GLICKO2_RATING: Glicko2Rating = {
+    rating: 1500,
+    deviation: 350,
+    volatility: 0.06
+};
+
+export const DEFAULT_GLICKO2_TAU = 0.5; // Constrains volatility changes; 0.3 to 1.2 is reasonable
+
+const GLICKO2_SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+const MAX_DEVIATION = DEFAULT_GLICKO2_RATING.deviation;
+
+/**
+ * Rate a player after one rating period. With no results, only the deviation grows.
+ */
+export function updateGlicko2Rating(
+    player: Glicko2Rating,
+    results: Glicko2Result[],
+    tau: number = DEFAULT_GLICKO2_TAU
+): Glicko2Rating {
+    const mu = (player.rating - 1500) / GLICKO2_SCALE;
+    const phi = player.deviation / GLICKO2_SCALE;
+    const sigma = player.volatility;
+
+    if (results.length === 0) {
+        return {
+            ...player,
+            deviation: Math.min(MAX_DEVIATION, Math.sqrt(phi * phi + sigma * sigma) * GLICKO2_SCALE)
+        };
+    }
+
+    let varianceInverse = 0;
+    let improvementSum = 0;
+    for (const result of results) {
+        const opponentMu = (result.opponent.rating - 1500) / GLICKO2_SCALE;
+        const opponentG = g(result.opponent.deviation / GLICKO2_SCALE);
+        const expected = expectedScore(mu, opponentMu, opponentG);
+        varianceInverse += opponentG * opponentG * expected * (1 - expected);
+        improvementSum += opponentG * (result.score - expected);
+    }
+    const variance = 1 / varianceInverse;
+    const delta = variance * improvementSum;
+
+    const newSigma = updateVolatility(phi, sigma, variance, delta, tau);
+    const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+    const newMu = mu + newPhi * newPhi * improvementSum;
+
+    return {
+        rating: newMu * GLICKO2_SCALE + 1500,
+        deviation: Math.min(MAX_DEVIATION, newPhi * GLICKO2_SCALE),
+        volatility: newSigma
+    };
+}
+
+/**
+ * Chance that the player scores against the opponent, on the Glicko scale
+ */
+export function expectedGlicko2Score(player: Glicko2Rating, opponent: Glicko2Rating): number {
+    return expectedScore(
+        (player.rating - 1500) / GLICKO2_SCALE,
+        (opponent.rating - 1500) / GLICKO2_SCALE,
+        g(opponent.deviation / GLICKO2_SCALE)
+    );
+}
+
+function g(phi: number): number {
+    return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, opponentMu: number, opponentG: number): number {
+    return 1 / (1 + Math.exp(-opponentG * (mu - opponentMu)));
+}
+
+/**
+ * New volatility by the Illinois algorithm (step 5 of the paper)
+ */
+function updateVolatility(phi: number, sigma: number, variance: number, delta: number, tau: number): number {
+    const a = Math.log(sigma * sigma);
+    const f = (x: number) => {
+        const ex = Math.exp(x);
+        const denominator = phi * phi + variance + ex;
+        return (ex * (delta * delta - phi * phi - variance - ex)) / (2 * denominator * denominator) - (x - a) / (tau * tau);
+    };
+
+    let lower = a;
+    let upper: number;
+    if (delta * delta > phi * phi + variance) {
+        upper = Math.log(delta * delta - phi * phi - variance);
+    } else {
+        let k = 1;
+        while (f(a - k * tau) < 0) {
+            k++;
+        }
+        upper = a - k * tau;
+    }
+
+    let fLower = f(lower);
+    let fUpper = f(upper);
+    while (Math.abs(upper - lower) > CONVERGENCE_TOLERANCE) {
+        const candidate = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+        const fCandidate = f(candidate);
+        if (fCandidate * fUpper <= 0) {
+            lower = upper;
+            fLower = fUpper;
+        } else {
+            fLower /= 2;
+        }
+        upper = candidate;
+        fUpper = fCandidate;
+    }
+
+    return Math.exp(lower / 2);
+}
@@ -0,0 +1 @@
+export * from './glicko2';
\ No newline at end of file
@@ -9,10 +9,15 @@ import { PrismaClient } from './generated/prisma'; // Adjusted path
 import authRoutes from './routes/auth.routes'; // Import the auth routes
 import gameRoutes from './routes/game.routes'; // Import the game routes
 import anonymousRoutes from './routes/anonymous.routes'; // Import the anonymous routes
+import leaderboardRoutes from './routes/leaderboard.routes'; // Import the leaderboard routes
 import bugReportsRoutes from './api/bug-reports'; // Import the bug reports routes
 import adminRoutes from './api/admin'; // Import the admin routes
 import { socketAuthMiddleware, setupGameSocketHandlers, AuthenticatedSocket } from './socket/game.socket';
+import { createClusterAdapter } from './socket/cluster-adapter';
 import GameEventsService from './services/game-events.service';
+import MatchmakingService from './services/matchmaking.service';
+import GameClockService from './services/game-clock.service';
+import PresenceService from './services/presence.service';
 import { BugReportingService } from './services/bug-reporting.service';
 import { MaintenanceService } from './services/maintenance.service';
 
@@ -54,6 +59,9 @@ app.use('/api/games', gameRoutes);
 // Mount the anonymous routes
 app.use('/api/anonymous', anonymousRoutes);
 
+// Mount the leaderboard routes
+app.use('/api/leaderboard', leaderboardRoutes);
+
 // Mount the bug reports routes
 app.use('/api/bug-reports', bugReportsRoutes);
 
@@ -136,9 +144,19 @@ const startServer = async () => {
     await prisma.$connect();
     console.log('Successfully connected to the database.');
 
+    // Share rooms and private emits with the other server processes through Redis
+    io.adapter(createClusterAdapter());
+
     // Initialize the game events service
     GameEventsService.initialize(io);
     
+    // Start pairing players in the matchmaking queue
+    MatchmakingService.initialize(io);
+    
+    // Apply clock deadlines and reconnection grace periods whose server timers were lost
+    GameClockService.initialize();
+    PresenceService.initialize();
+    
     // Initialize the bug reporting service
     await BugReportingService.initialize();
     
@@ -148,10 +166,11 @@ const startServer = async () => {
     server.listen(PORT, () => {
       console.log(`\n🚀 Gambit Chess Server Started`);
       console.log(`📡 Server listening on port ${PORT}`);
-      console.log(`🔌 WebSocket server attached`);
+      console.log(`🔌 WebSocket server attached (Redis cluster adapter)`);
       console.log(`🌐 CORS enabled for: ${process.env.CLIENT_URL || "http://localhost:3000"}`);
       console.log(`💾 Database connected`);
       console.log(`🎮 Game Events Service initialized`);
+      console.log(`🎯 Matchmaking Service initialized`);
       console.log(`🔧 Maintenance Service initialized`);
       console.log(`\n📋 Available Endpoints:`);
       console.log(`   Health Check: http://localhost:${PORT}/health`);
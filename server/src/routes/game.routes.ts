@@ -1,8 +1,11 @@
 import express, { Request, Response, NextFunction } from 'express';
 import GameService, { CreateGameOptions } from '../services/game.service';
+import GamePGNService from '../services/game-pgn.service';
 import { authenticateToken, AuthenticatedRequest } from '../auth/jwt';
 import AnonymousSessionService from '../services/anonymous-session.service';
 import { z } from 'zod';
+import { chess960IndexSchema, configurationTemplateSchema, getChess960FEN, randomChess960Index, resolveGameConfig, resolveStartingPosition, startingBattlePointsSchema, startingPositionVariantSchema, validateTimeControl, TimeControl } from '@gambit-chess/shared';
+import { DEFAULT_POSITION } from 'chess.js';
 
 const router = express.Router();
 
@@ -10,10 +13,18 @@ const router = express.Router();
 const CreateGameSchema = z.object({
   gameType: z.enum(['ai', 'human', 'practice']),
   aiDifficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  aiPersona: z.enum(['balanced', 'aggressive', 'cautious']).optional(),
+  rated: z.boolean().optional(),
   colorPreference: z.enum(['white', 'black', 'random']).optional().default('white'),
   anonymousSessionToken: z.string().optional(),
   whitePlayerId: z.string().optional(),
   blackPlayerId: z.string().optional(),
+  ruleset: configurationTemplateSchema.optional(),
+  config: z.unknown().optional(), // Validated against gameConfigSchema by resolveGameConfig
+  timeControl: z.unknown().optional(), // Validated by validateTimeControl; untimed when omitted
+  startingPosition: z.string().max(200).optional(), // 'standard', 'chess960', or a FEN or Gambit FEN validated by resolveStartingPosition
+  chess960Index: chess960IndexSchema.optional(), // Chess960 position to play; random when omitted
+  startingBattlePoints: startingBattlePointsSchema.optional(),
 });
 
 const JoinGameSchema = z.object({
@@ -21,6 +32,10 @@ const JoinGameSchema = z.object({
   anonymousSessionToken: z.string().optional(),
 });
 
+const ImportPGNSchema = z.object({
+  pgn: z.string().min(1).max(100_000), // Within the default JSON body limit
+});
+
 /**
  * Helper function to validate anonymous session
  */
@@ -52,6 +67,53 @@ router.post('/', async (req: Request, res: Response, next: NextFunction): Promis
   try {
     const validatedData = CreateGameSchema.parse(req.body);
     
+    const resolvedConfig = resolveGameConfig(validatedData.ruleset, validatedData.config);
+    if (!resolvedConfig.valid) {
+      res.status(400).json({ message: 'Invalid game configuration', error: resolvedConfig.error });
+      return;
+    }
+    
+    let timeControl: TimeControl | undefined;
+    if (validatedData.timeControl !== undefined) {
+      const timeControlValidation = validateTimeControl(validatedData.timeControl);
+      if (!timeControlValidation.valid) {
+        res.status(400).json({ message: 'Invalid time control', error: timeControlValidation.error });
+        return;
+      }
+      timeControl = timeControlValidation.timeControl;
+    }
+
+    // A named starting position, or else a FEN or Gambit FEN
+    const variant = startingPositionVariantSchema.safeParse(validatedData.startingPosition ?? 'standard');
+    const customPosition = variant.success ? undefined : validatedData.startingPosition;
+    if (validatedData.chess960Index !== undefined && variant.data !== 'chess960') {
+      res.status(400).json({ message: 'chess960Index is only used with the chess960 starting position' });
+      return;
+    }
+    if ((customPosition !== undefined || validatedData.startingBattlePoints !== undefined) && validatedData.gameType !== 'practice') {
+      res.status(400).json({ message: 'Custom starting positions are only available in practice games' });
+      return;
+    }
+
+    const chess960Index = variant.data === 'chess960' ? validatedData.chess960Index ?? randomChess960Index() : undefined;
+    const position = chess960Index !== undefined
+      ? getChess960FEN(chess960Index)
+      : customPosition ?? (validatedData.startingBattlePoints !== undefined ? DEFAULT_POSITION : undefined);
+    let startingPosition: string | undefined;
+    if (position !== undefined) {
+      const startValidation = resolveStartingPosition(
+        position,
+        resolvedConfig.ruleset!,
+        resolvedConfig.config!,
+        validatedData.startingBattlePoints
+      );
+      if (!startValidation.valid) {
+        res.status(400).json({ message: 'Invalid starting position', error: startValidation.error });
+        return;
+      }
+      startingPosition = startValidation.position;
+    }
+    
     // Check if user is authenticated (for registered games)
     const authUser = (req as AuthenticatedRequest).user;
     
@@ -68,34 +130,25 @@ router.post('/', async (req: Request, res: Response, next: NextFunction): Promis
     const options: CreateGameOptions = {
       gameType: validatedData.gameType,
       aiDifficulty: validatedData.aiDifficulty,
+      aiPersona: validatedData.aiPersona,
+      rated: validatedData.rated,
       colorPreference: validatedData.colorPreference,
+      ruleset: resolvedConfig.ruleset,
+      config: resolvedConfig.ruleset === 'custom' ? resolvedConfig.config : undefined,
+      timeControl,
+      startingPosition,
+      chess960Index,
     };
 
-    // Handle different game creation scenarios
-    if (validatedData.gameType === 'ai') {
-      // AI mode is not yet implemented for public release
-      res.status(501).json({ 
-        message: 'AI mode is not yet implemented. Please try Practice Mode to experience Gambit Chess mechanics.',
-        availableModes: ['practice']
-      });
-      return;
-    } else if (validatedData.gameType === 'human') {
-      // Human vs Human mode is not yet implemented for public release
-      res.status(501).json({ 
-        message: 'Multiplayer mode is not yet implemented. Please try Practice Mode to experience Gambit Chess mechanics.',
-        availableModes: ['practice']
-      });
+    // Every game is created by a single user; in human games the opponent joins later
+    if (authUser) {
+      options.whitePlayerId = authUser.userId;
+    } else if (anonymousSession) {
+      options.anonymousUserId = anonymousSession.sessionId;
+      await AnonymousSessionService.incrementGamesPlayed(anonymousSession.sessionId);
+    } else {
+      res.status(400).json({ message: `Either login or provide valid anonymous session for ${validatedData.gameType} games` });
       return;
-    } else if (validatedData.gameType === 'practice') {
-      if (authUser) {
-        options.whitePlayerId = authUser.userId;
-      } else if (anonymousSession) {
-        options.anonymousUserId = anonymousSession.sessionId;
-        await AnonymousSessionService.incrementGamesPlayed(anonymousSession.sessionId);
-      } else {
-        res.status(400).json({ message: 'Either login or provide valid anonymous session for practice games' });
-        return;
-      }
     }
 
     const result = await GameService.createGame(options);
@@ -112,7 +165,7 @@ router.post('/', async (req: Request, res: Response, next: NextFunction): Promis
 
 /**
  * GET /api/games/waiting
- * Get all games waiting for players (for discovery/matchmaking)
+ * Get open human challenges waiting for an opponent
  */
 router.get('/waiting', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -156,6 +209,63 @@ router.get('/', async (req: Request, res: Response, next: NextFunction): Promise
   }
 });
 
+/**
+ * POST /api/games/import
+ * Validate a Gambit PGN file by replaying it, returning the game it describes
+ */
+router.post('/import', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { pgn } = ImportPGNSchema.parse(req.body);
+
+    const result = GamePGNService.importGame(pgn);
+    if (!result.success) {
+      res.status(400).json({ message: 'Invalid PGN', error: result.error });
+      return;
+    }
+
+    res.json({ game: result.game });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      return;
+    }
+    console.error('Import PGN error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/games/:gameId/pgn
+ * Download a game as Gambit PGN
+ */
+router.get('/:gameId/pgn', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const gameId = req.params.gameId;
+
+    const authUser = (req as AuthenticatedRequest).user;
+    let requestingUserId = authUser?.userId;
+    if (!requestingUserId) {
+      const anonymousSession = await validateAnonymousSession(req);
+      if (anonymousSession) {
+        requestingUserId = anonymousSession.sessionId;
+      }
+    }
+
+    const pgn = await GamePGNService.exportGame(gameId, requestingUserId);
+    if (!pgn) {
+      res.status(404).json({ message: 'Game not found' });
+      return;
+    }
+
+    res.type('application/x-chess-pgn');
+    res.attachment(`gambit-chess-${gameId}.pgn`);
+    res.send(pgn);
+  } catch (error) {
+    console.error('Export PGN error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/games/:gameId
  * Get game state
@@ -0,0 +1,50 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { configurationTemplateSchema } from '@gambit-chess/shared';
+import RatingService from '../services/rating.service';
+
+const router = express.Router();
+
+const LeaderboardQuerySchema = z.object({
+  ruleset: configurationTemplateSchema.exclude(['custom']).optional().default('standard'), // Custom games are unrated
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50),
+});
+
+/**
+ * GET /api/leaderboard
+ * Top rated players on one ruleset's ladder
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { ruleset, limit } = LeaderboardQuerySchema.parse(req.query);
+    const players = await RatingService.getLeaderboard(ruleset, limit);
+    res.json({ ruleset, players });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      return;
+    }
+    console.error('Get leaderboard error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/leaderboard/players/:username
+ * Public profile with ratings on every ladder and recent rated games
+ */
+router.get('/players/:username', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const profile = await RatingService.getProfile(req.params.username);
+    if (!profile) {
+      res.status(404).json({ message: 'Player not found' });
+      return;
+    }
+    res.json(profile);
+  } catch (error) {
+    console.error('Get player profile error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
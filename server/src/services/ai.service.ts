@@ -1,6 +1,21 @@
-import { Chess, Move } from 'chess.js';
-import { BaseGameState, GameAction, MoveAction } from '@gambit-chess/shared';
-import { PieceSymbol } from 'chess.js';
+import { Chess, Square } from 'chess.js';
+import { BaseGameState, GameAction, MoveAction, AIDifficulty, AIPersona } from '@gambit-chess/shared';
+import { solveDuel, sampleAllocation, estimateBattlePoints, calculateTacticalRetreats } from '@gambit-chess/shared';
+import { searchBestMove, searchBestRetreat, SearchPosition, DEFAULT_BP_VALUE } from '../game/ai';
+
+// How each persona shifts the share of available BP committed to a duel
+const PERSONA_ALLOCATION_BIAS: Record<AIPersona, { attacker: number; defender: number }> = {
+  balanced: { attacker: 0, defender: 0 },
+  aggressive: { attacker: 0.2, defender: -0.1 },
+  cautious: { attacker: -0.15, defender: 0.15 }
+};
+
+// How much the hard AI's search values a battle point, in pawns: aggressive players spend freely
+const PERSONA_BP_VALUE: Record<AIPersona, number> = {
+  balanced: DEFAULT_BP_VALUE,
+  aggressive: DEFAULT_BP_VALUE * 0.6,
+  cautious: DEFAULT_BP_VALUE * 1.6
+};
 
 /**
  * Simple AI Service for Gambit Chess
@@ -11,14 +26,18 @@ export class AIService {
   /**
    * Generate an AI move based on difficulty level
    */
-  static generateAIMove(gameState: BaseGameState, difficulty: 'easy' | 'medium' | 'hard' = 'easy'): GameAction | null {
+  static generateAIMove(
+    gameState: BaseGameState,
+    difficulty: AIDifficulty = 'easy',
+    persona: AIPersona = 'balanced'
+  ): GameAction | null {
     switch (difficulty) {
       case 'easy':
         return this.generateRandomMove(gameState);
       case 'medium':
         return this.generateSmartMove(gameState);
       case 'hard':
-        return this.generateAdvancedMove(gameState);
+        return this.generateAdvancedMove(gameState, persona);
       default:
         return this.generateRandomMove(gameState);
     }
@@ -88,118 +107,157 @@ export class AIService {
   }
   
   /**
-   * Hard AI: Basic position evaluation + tactics
+   * Hard AI: expectimax search that treats captures as duels and prices BP spending
    */
-  private static generateAdvancedMove(gameState: BaseGameState): MoveAction | null {
-    const possibleMoves = gameState.chess.moves({ verbose: true });
-    
-    if (possibleMoves.length === 0) {
-      return null;
+  private static generateAdvancedMove(gameState: BaseGameState, persona: AIPersona): MoveAction | null {
+    let result;
+    try {
+      result = searchBestMove(this.getSearchPosition(gameState), gameState.config, { bpValue: PERSONA_BP_VALUE[persona] });
+    } catch (error) {
+      console.error('AI search failed, falling back to a heuristic move:', error);
+      return this.generateSmartMove(gameState);
     }
-    
-    let bestMove = possibleMoves[0];
-    let bestScore = -Infinity;
-    
-    for (const move of possibleMoves) {
-      const score = this.evaluateMove(gameState, move);
-      if (score > bestScore) {
-        bestScore = score;
-        bestMove = move;
-      }
+
+    if (!result.move) {
+      return null;
     }
-    
+
+    console.log(`🤖 AI search: ${result.move.san} (score ${result.score.toFixed(2)}, depth ${result.depth}, ${result.nodes} nodes${result.aborted ? ', limit reached' : ''})`);
+
     return {
       type: 'MOVE',
-      from: bestMove.from,
-      to: bestMove.to,
-      promotion: bestMove.promotion
+      from: result.move.from,
+      to: result.move.to,
+      promotion: result.move.promotion
     };
   }
-  
-  /**
-   * Simple move evaluation function
-   */
-  private static evaluateMove(gameState: BaseGameState, move: Move): number {
-    let score = 0;
-    
-    // Use piece values from game configuration instead of hardcoded values
-    const pieceValues = gameState.config.pieceValues;
-    
-    // Bonus for captures
-    if (move.captured) {
-      score += pieceValues[move.captured.toLowerCase() as PieceSymbol] * 10;
-    }
-    
-    // Bonus for checks
-    const chessCopy = new Chess(gameState.chess.fen());
-    chessCopy.move(move);
-    if (chessCopy.inCheck()) {
-      score += 5;
-    }
-    
-    // Bonus for castling
-    if (move.flags.includes('k') || move.flags.includes('q')) {
-      score += 3;
-    }
-    
-    // Bonus for center control
-    const centerSquares = ['d4', 'd5', 'e4', 'e5'];
-    if (centerSquares.includes(move.to)) {
-      score += 2;
-    }
-    
-    // Penalty for moving into attacks
-    if (chessCopy.isAttacked(move.to, chessCopy.turn() === 'w' ? 'b' : 'w')) {
-      score -= 3;
-    }
-    
-    return score + Math.random() * 0.5; // Add small randomness
+
+  private static getSearchPosition(gameState: BaseGameState): SearchPosition {
+    return {
+      fen: gameState.chess.fen(),
+      battlePoints: { w: gameState.whitePlayer.battlePoints, b: gameState.blackPlayer.battlePoints }
+    };
   }
   
   /**
-   * Generate AI duel allocation based on piece values and battle points
+   * Generate AI duel allocation based on piece values and battle points.
+   * availableBP should already be capped at the piece's BP capacity; the hard AI
+   * works out its own limits from the pending duel instead.
    */
   static generateAIDuelAllocation(
     gameState: BaseGameState,
     availableBP: number,
     isAttacker: boolean,
-    difficulty: 'easy' | 'medium' | 'hard' = 'easy'
+    difficulty: AIDifficulty = 'easy',
+    persona: AIPersona = 'balanced'
   ): number {
+    const bias = isAttacker ? PERSONA_ALLOCATION_BIAS[persona].attacker : PERSONA_ALLOCATION_BIAS[persona].defender;
+    const allocateShare = (minShare: number, spread: number): number => {
+      const share = Math.max(0, Math.min(1, minShare + bias + Math.random() * spread));
+      return Math.min(Math.floor(availableBP * share), availableBP);
+    };
+
     switch (difficulty) {
       case 'easy':
         // Random allocation between 0 and available BP
         return Math.floor(Math.random() * (availableBP + 1));
       
       case 'medium':
-        // Allocate based on piece value with some randomness
-        const moderateAllocation = Math.min(
-          Math.floor(availableBP * (0.3 + Math.random() * 0.4)),
-          availableBP
-        );
-        return moderateAllocation;
+        // Allocate a moderate share with some randomness
+        return allocateShare(0.3, 0.4);
       
       case 'hard':
-        // Smart allocation based on position and piece values
-        if (isAttacker) {
-          // As attacker, be more aggressive if we have an advantage
-          const aggressiveAllocation = Math.min(
-            Math.floor(availableBP * (0.5 + Math.random() * 0.3)),
-            availableBP
-          );
-          return aggressiveAllocation;
-        } else {
-          // As defender, be more conservative
-          const conservativeAllocation = Math.min(
-            Math.floor(availableBP * (0.2 + Math.random() * 0.4)),
-            availableBP
-          );
-          return conservativeAllocation;
+        if (!gameState.pendingDuel) {
+          // As attacker, be more aggressive; as defender, be more conservative
+          return isAttacker ? allocateShare(0.5, 0.3) : allocateShare(0.2, 0.4);
         }
+        return this.generateEquilibriumAllocation(gameState, isAttacker, persona);
       
       default:
         return Math.floor(Math.random() * (availableBP + 1));
     }
   }
+
+  /**
+   * Sample an allocation from the duel's approximate equilibrium
+   */
+  private static generateEquilibriumAllocation(gameState: BaseGameState, isAttacker: boolean, persona: AIPersona): number {
+    const duel = gameState.pendingDuel!;
+    const { config } = gameState;
+    const attacker = duel.attackerColor === 'w' ? gameState.whitePlayer : gameState.blackPlayer;
+    const defender = duel.defenderColor === 'w' ? gameState.whitePlayer : gameState.blackPlayer;
+
+    // Don't peek at battle points the human can't see either
+    const hidden = config.informationHiding.hideBattlePoints;
+    const attackerBattlePoints = isAttacker || !hidden ? attacker.battlePoints : estimateBattlePoints(gameState, duel.attackerColor);
+    const defenderBattlePoints = !isAttacker || !hidden ? defender.battlePoints : estimateBattlePoints(gameState, duel.defenderColor);
+
+    // The board still shows the position before the capture attempt
+    const retreatOptions = calculateTacticalRetreats(gameState.chess, duel.attackingPiece.square, duel.defendingPiece.square, config);
+    const minRetreatCost = retreatOptions.length > 0 ? Math.min(...retreatOptions.map(option => option.cost)) : 0;
+
+    const equilibrium = solveDuel({
+      attackerType: duel.attackingPiece.type,
+      defenderType: duel.defendingPiece.type,
+      attackerBattlePoints,
+      defenderBattlePoints,
+      config,
+      minRetreatCost,
+      bpValue: PERSONA_BP_VALUE[persona]
+    });
+
+    const ownBattlePoints = isAttacker ? attacker.battlePoints : defender.battlePoints;
+    return Math.min(sampleAllocation(isAttacker ? equilibrium.attackerStrategy : equilibrium.defenderStrategy), ownBattlePoints);
+  }
+
+  /**
+   * Choose where a failed attacker retreats to, from the server-calculated retreat options
+   */
+  static generateAIRetreat(
+    gameState: BaseGameState,
+    difficulty: AIDifficulty = 'easy',
+    persona: AIPersona = 'balanced'
+  ): Square | null {
+    const options = gameState.availableRetreatOptions;
+    const lastMove = gameState.moveHistory[gameState.moveHistory.length - 1];
+    if (!options || options.length === 0 || !lastMove) {
+      return null;
+    }
+
+    const attacker = lastMove.color === 'w' ? gameState.whitePlayer : gameState.blackPlayer;
+    const affordable = options.filter(option => option.cost <= attacker.battlePoints);
+    if (affordable.length === 0) {
+      return null;
+    }
+
+    switch (difficulty) {
+      case 'easy':
+        return affordable[Math.floor(Math.random() * affordable.length)].square;
+
+      case 'medium': {
+        // Cheapest retreat, so the BP stays available for the next duel
+        const cheapest = Math.min(...affordable.map(option => option.cost));
+        const candidates = affordable.filter(option => option.cost === cheapest);
+        return candidates[Math.floor(Math.random() * candidates.length)].square;
+      }
+
+      case 'hard':
+      default:
+        try {
+          return searchBestRetreat(
+            this.getSearchPosition(gameState),
+            lastMove.from as Square,
+            lastMove.to as Square,
+            affordable,
+            gameState.config,
+            { bpValue: PERSONA_BP_VALUE[persona] }
+          ) ?? affordable[0].square;
+        } catch (error) {
+          console.error('AI retreat search failed, taking the first affordable retreat:', error);
+          return affordable[0].square;
+        }
+    }
+  }
 }
 
 export default AIService; 
\ No newline at end of file
@@ -204,7 +204,7 @@ export class BugReportingService {
 
       // Get comprehensive event history from GameEventTrackerService
       const sessionLog = await GameEventTrackerService.getSessionLogForBugReport(gameId);
-      const sessionStats = GameEventTrackerService.getSessionStats(gameId);
+      const sessionStats = await GameEventTrackerService.getSessionStats(gameId);
       
       // Cancel cleanup to preserve logs for bug analysis
       GameEventTrackerService.cancelCleanup(gameId);
@@ -0,0 +1,144 @@
+import { BaseGameState, getClockDeadline, isGameActive, stopClock } from '@gambit-chess/shared';
+import { RedisService } from './redis.service';
+
+// setTimeout overflows above this delay (~24.8 days)
+const MAX_TIMER_DELAY_MS = 2147483647;
+const DEADLINES_KEY = 'clock_deadlines'; // Sorted set of timed game IDs, scored by their next deadline in epoch ms
+const SWEEP_INTERVAL_MS = 5000;
+
+/**
+ * Service for enforcing chess clocks and duel/retreat deadlines
+ * - Keeps one timer per timed game, armed for the next deadline in its state
+ * - When a timer fires, GameEngineService.processTimeouts decides what happens
+ * - Timers are in-process only, so each game's next deadline is also kept in Redis; every server
+ *   sweeps it every few seconds for deadlines that have passed, which covers the timers of a
+ *   server that was restarted or went away
+ * - Every server that saves the game arms its own timer; the engine's Redis lock lets only one
+ *   of them (or of the sweeps) apply a deadline, and one working from an older state finds
+ *   nothing expired
+ */
+export class GameClockService {
+  private static timers = new Map<string, NodeJS.Timeout>();
+  private static sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start sweeping Redis for deadlines that have passed
+   */
+  static initialize(): void {
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    console.log('GameClockService initialized');
+  }
+
+  static shutdown(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Bring the clock in line with the game state before it is saved:
+   * stop it once the game is over, otherwise arm a timer for the next deadline
+   */
+  static syncClock(gameId: string, gameState: BaseGameState): void {
+    this.clearTimer(gameId);
+
+    if (!gameState.clock) {
+      return;
+    }
+
+    if (!isGameActive(gameState)) {
+      if (gameState.clock.runningFor || gameState.clock.phaseDeadline !== undefined) {
+        stopClock(gameState.clock);
+      }
+      return;
+    }
+
+    const deadline = getClockDeadline(gameState);
+    if (!deadline) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(0, deadline.at - Date.now()), MAX_TIMER_DELAY_MS);
+    const timer = setTimeout(() => this.handleDeadline(gameId), delay);
+    timer.unref();
+    this.timers.set(gameId, timer);
+  }
+
+  /**
+   * Keep the next deadline of a game that has just been saved in Redis, for every server's sweep
+   */
+  static async saveDeadline(gameId: string, gameState: BaseGameState): Promise<void> {
+    const deadline = gameState.clock && isGameActive(gameState) ? getClockDeadline(gameState) : null;
+    if (deadline) {
+      await RedisService.addToSortedSet(DEADLINES_KEY, gameId, deadline.at);
+    } else {
+      await RedisService.removeFromSortedSet(DEADLINES_KEY, gameId);
+    }
+  }
+
+  /**
+   * Drop the timer and the deadline of a game that is going away
+   */
+  static async cancel(gameId: string): Promise<void> {
+    this.clearTimer(gameId);
+    await RedisService.removeFromSortedSet(DEADLINES_KEY, gameId);
+  }
+
+  /**
+   * Apply the deadlines in Redis that have passed, whichever server's timer should have done it
+   */
+  static async sweep(): Promise<void> {
+    try {
+      const gameIds = await RedisService.getSortedSetMembersUpTo(DEADLINES_KEY, Date.now());
+      for (const gameId of gameIds) {
+        await this.handleDeadline(gameId);
+      }
+    } catch (error) {
+      console.error('Error sweeping clock deadlines:', error);
+    }
+  }
+
+  /**
+   * Hand an expired deadline to the game engine
+   */
+  private static async handleDeadline(gameId: string): Promise<void> {
+    this.timers.delete(gameId);
+
+    // Dynamic import to avoid circular dependency (engine -> live game service -> clock service)
+    const GameEngineService = require('./game-engine.service').default;
+    try {
+      const result = await GameEngineService.processTimeouts(gameId);
+      if (!result.success) {
+        console.log(`⏱️ No timeout applied in game ${gameId}: ${result.error}`);
+        await this.refreshDeadline(gameId);
+      }
+    } catch (error) {
+      console.error(`Error processing timeout for game ${gameId}:`, error);
+    }
+  }
+
+  /**
+   * Bring the deadline kept for a game in line with the state it is in now, so one that has
+   * moved on (or gone) since the deadline was saved isn't swept again for nothing
+   */
+  private static async refreshDeadline(gameId: string): Promise<void> {
+    const LiveGameService = require('./live-game.service').default;
+    const gameState: BaseGameState | null = await LiveGameService.getGameState(gameId);
+    if (gameState) {
+      await this.saveDeadline(gameId, gameState);
+    } else {
+      await RedisService.removeFromSortedSet(DEADLINES_KEY, gameId);
+    }
+  }
+
+  private static clearTimer(gameId: string): void {
+    const timer = this.timers.get(gameId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(gameId);
+    }
+  }
+}
+
+export default GameClockService;
@@ -3,7 +3,8 @@
  * 
  * Comprehensive tracking of ALL server-side events for debugging and bug reporting.
  * Maintains detailed event logs with timestamps for each game session.
- * Events are temporarily persisted (game-end + 1hr) for post-game bug reports.
+ * Logs are kept in Redis, so every server process records into the same session,
+ * and are temporarily persisted (game-end + 1hr) for post-game bug reports.
  */
 
 import { 
@@ -15,6 +16,7 @@ import {
 import { writeFile, readFile, mkdir, unlink } from 'fs/promises';
 import { existsSync } from 'fs';
 import path from 'path';
+import { RedisService } from './redis.service';
 
 export interface ServerEvent {
   id: string;
@@ -64,14 +66,18 @@ export interface GameSessionLog {
   }>;
 }
 
+// Each part of a session log is its own Redis list: game_log:{gameId}:{part}
+type SessionLogList = 'events' | 'bpCalculationHistory' | 'playerActions' | 'networkEvents' | 'gameStateSnapshots';
+
+const SESSION_KEY_PREFIX = 'game_log:';
+const SESSION_LOG_LISTS: SessionLogList[] = ['events', 'bpCalculationHistory', 'playerActions', 'networkEvents', 'gameStateSnapshots'];
+const ACTIVE_SESSION_TTL = 24 * 60 * 60; // Seconds; refreshed on every write while the game is played
+
 export class GameEventTrackerService {
   private static readonly LOGS_DIR = path.join(process.cwd(), 'data', 'game-logs');
   private static readonly CLEANUP_DELAY = 60 * 60 * 1000; // 1 hour after game end
   
-  // In-memory game session logs
-  private static activeSessions = new Map<string, GameSessionLog>();
-  
-  // Cleanup timers for finished games
+  // Cleanup timers for log files this process wrote
   private static cleanupTimers = new Map<string, NodeJS.Timeout>();
 
   /**
@@ -88,17 +94,8 @@ export class GameEventTrackerService {
    * Start tracking a new game session
    */
   static startGameSession(gameId: string): void {
-    const sessionLog: GameSessionLog = {
-      gameId,
-      startTime: Date.now(),
-      events: [],
-      bpCalculationHistory: [],
-      playerActions: [],
-      networkEvents: [],
-      gameStateSnapshots: []
-    };
-    
-    this.activeSessions.set(gameId, sessionLog);
+    const sessionInfo = { gameId, startTime: Date.now() };
+    this.track(gameId, 'session start', RedisService.setWithTTL(this.getSessionKey(gameId), JSON.stringify(sessionInfo), ACTIVE_SESSION_TTL));
     
     this.logEvent(gameId, {
       type: 'internal',
@@ -114,46 +111,13 @@ export class GameEventTrackerService {
    * End a game session and schedule cleanup
    */
   static endGameSession(gameId: string): void {
-    const session = this.activeSessions.get(gameId);
-    if (!session) return;
-    
-    session.endTime = Date.now();
-    
-    this.logEvent(gameId, {
-      type: 'internal',
-      category: 'session',
-      action: 'game_session_ended',
-      data: { 
-        gameId,
-        duration: session.endTime - session.startTime,
-        totalEvents: session.events.length
-      }
-    });
-    
-    // Save to disk
-    this.persistSessionLog(gameId);
-    
-    // Schedule cleanup after delay
-    const cleanupTimer = setTimeout(() => {
-      this.cleanupSessionLog(gameId);
-    }, this.CLEANUP_DELAY);
-    
-    this.cleanupTimers.set(gameId, cleanupTimer);
-    
-    console.log(`📊 Ended game session: ${gameId} (cleanup in ${this.CLEANUP_DELAY/1000/60} minutes)`);
+    this.track(gameId, 'session end', this.finishGameSession(gameId));
   }
 
   /**
    * Log a server event
    */
   static logEvent(gameId: string, eventData: Omit<ServerEvent, 'id' | 'gameId' | 'timestamp'>): void {
-    const session = this.activeSessions.get(gameId);
-    if (!session) {
-      // Game not being tracked, create minimal session
-      this.startGameSession(gameId);
-      return this.logEvent(gameId, eventData);
-    }
-    
     const event: ServerEvent = {
       id: `${gameId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       gameId,
@@ -161,7 +125,7 @@ export class GameEventTrackerService {
       ...eventData
     };
     
-    session.events.push(event);
+    this.append(gameId, 'events', event);
     
     // Log to console for real-time monitoring
     console.log(`📊 [${gameId}] ${event.category}.${event.action}:`, 
@@ -179,10 +143,7 @@ export class GameEventTrackerService {
     result: 'success' | 'error',
     error?: string
   ): void {
-    const session = this.activeSessions.get(gameId);
-    if (!session) return;
-    
-    session.playerActions.push({
+    this.append(gameId, 'playerActions', {
       timestamp: Date.now(),
       playerId,
       action,
@@ -214,10 +175,7 @@ export class GameEventTrackerService {
     endpoint?: string,
     latency?: number
   ): void {
-    const session = this.activeSessions.get(gameId);
-    if (!session) return;
-    
-    session.networkEvents.push({
+    this.append(gameId, 'networkEvents', {
       timestamp: Date.now(),
       type,
       direction,
@@ -240,10 +198,7 @@ export class GameEventTrackerService {
    * Log BP calculation with detailed report
    */
   static logBPCalculation(gameId: string, report: BPCalculationReport, trigger: string): void {
-    const session = this.activeSessions.get(gameId);
-    if (!session) return;
-    
-    session.bpCalculationHistory.push(report);
+    this.append(gameId, 'bpCalculationHistory', report);
     
     this.logEvent(gameId, {
       type: 'bp_calculation',
@@ -261,10 +216,7 @@ export class GameEventTrackerService {
    * Log game state snapshot
    */
   static logGameStateSnapshot(gameId: string, gameState: BaseGameState, trigger: string): void {
-    const session = this.activeSessions.get(gameId);
-    if (!session) return;
-    
-    session.gameStateSnapshots.push({
+    this.append(gameId, 'gameStateSnapshots', {
       timestamp: Date.now(),
       trigger,
       fen: gameState.chess.fen(),
@@ -293,10 +245,10 @@ export class GameEventTrackerService {
    * Get session log for bug reporting
    */
   static async getSessionLogForBugReport(gameId: string): Promise<GameSessionLog | null> {
-    // Check active sessions first
-    const activeSession = this.activeSessions.get(gameId);
-    if (activeSession) {
-      return { ...activeSession }; // Return copy
+    // Check Redis first
+    const session = await this.loadSessionLog(gameId);
+    if (session) {
+      return session;
     }
     
     // Try to load from disk
@@ -313,14 +265,14 @@ export class GameEventTrackerService {
   /**
    * Get session statistics
    */
-  static getSessionStats(gameId: string): {
+  static async getSessionStats(gameId: string): Promise<{
     eventCount: number;
     playerActionCount: number;
     bpCalculationCount: number;
     errorCount: number;
     avgProcessingTime: number;
-  } | null {
-    const session = this.activeSessions.get(gameId);
+  } | null> {
+    const session = await this.loadSessionLog(gameId);
     if (!session) return null;
     
     const errorCount = session.events.filter(e => e.type === 'error').length;
@@ -339,11 +291,51 @@ export class GameEventTrackerService {
     };
   }
 
+  /**
+   * Record the end of a session, write it to disk and let Redis drop it after the cleanup delay
+   */
+  private static async finishGameSession(gameId: string): Promise<void> {
+    const session = await this.loadSessionLog(gameId);
+    if (!session) return;
+    
+    session.endTime = Date.now();
+    await RedisService.setWithTTL(
+      this.getSessionKey(gameId),
+      JSON.stringify({ gameId, startTime: session.startTime, endTime: session.endTime }),
+      ACTIVE_SESSION_TTL
+    );
+    
+    this.logEvent(gameId, {
+      type: 'internal',
+      category: 'session',
+      action: 'game_session_ended',
+      data: { 
+        gameId,
+        duration: session.endTime - session.startTime,
+        totalEvents: session.events.length + 1
+      }
+    });
+    
+    // Save to disk
+    await this.persistSessionLog(gameId);
+    
+    // Schedule cleanup after delay
+    const cleanupDelaySeconds = this.CLEANUP_DELAY / 1000;
+    await Promise.all(this.getAllKeys(gameId).map(key => RedisService.expire(key, cleanupDelaySeconds)));
+    const cleanupTimer = setTimeout(() => {
+      this.cleanupSessionLog(gameId);
+    }, this.CLEANUP_DELAY);
+    
+    this.cleanupTimers.set(gameId, cleanupTimer);
+    
+    console.log(`📊 Ended game session: ${gameId} (cleanup in ${this.CLEANUP_DELAY/1000/60} minutes)`);
+  }
+
   /**
    * Persist session log to disk
    */
   private static async persistSessionLog(gameId: string): Promise<void> {
-    const session = this.activeSessions.get(gameId);
+    const session = await this.loadSessionLog(gameId);
     if (!session) return;
     
     try {
@@ -360,8 +352,8 @@ export class GameEventTrackerService {
    */
   private static async cleanupSessionLog(gameId: string): Promise<void> {
     try {
-      // Remove from memory
-      this.activeSessions.delete(gameId);
+      // Remove from Redis
+      await Promise.all(this.getAllKeys(gameId).map(key => RedisService.del(key)));
       
       // Remove from disk
       const filePath = path.join(this.LOGS_DIR, `${gameId}.json`);
@@ -386,22 +378,26 @@ export class GameEventTrackerService {
     if (timer) {
       clearTimeout(timer);
       this.cleanupTimers.delete(gameId);
-      console.log(`📊 Cancelled cleanup for game ${gameId} (bug report submitted)`);
     }
+    
+    // The game may have ended on another process, so keep the Redis copy whoever wrote the file
+    this.track(gameId, 'cleanup cancellation', Promise.all(this.getAllKeys(gameId).map(key => RedisService.persist(key))));
+    console.log(`📊 Cancelled cleanup for game ${gameId} (bug report submitted)`);
   }
 
   /**
    * Get all active session IDs (for monitoring)
    */
-  static getActiveSessionIds(): string[] {
-    return Array.from(this.activeSessions.keys());
+  static async getActiveSessionIds(): Promise<string[]> {
+    const keys = await RedisService.keys(`${SESSION_KEY_PREFIX}*:session`);
+    return keys.map(key => key.slice(SESSION_KEY_PREFIX.length, -':session'.length));
   }
 
   /**
    * Get BP calculation history for a player with appropriate privacy filtering
    */
   static async getBPCalculationHistory(gameId: string, playerId: string): Promise<BPCalculationReport[]> {
-    const session = this.activeSessions.get(gameId);
+    const session = await this.loadSessionLog(gameId);
     if (!session) return [];
     
     // Get current game state to check game type and player mappings
@@ -430,6 +426,63 @@ export class GameEventTrackerService {
       return currentTurnPlayerId === playerId;
     });
   }
+
+  /**
+   * Assemble a session log from its Redis lists; null if nothing was recorded for the game
+   */
+  private static async loadSessionLog(gameId: string): Promise<GameSessionLog | null> {
+    const [sessionJson, ...lists] = await Promise.all([
+      RedisService.get(this.getSessionKey(gameId)),
+      ...SESSION_LOG_LISTS.map(list => RedisService.getList(this.getListKey(gameId, list))),
+    ]);
+    const [events, bpCalculationHistory, playerActions, networkEvents, gameStateSnapshots] =
+      (lists as string[][]).map(entries => entries.map(entry => JSON.parse(entry)));
+    if (!sessionJson && events.length === 0) {
+      return null;
+    }
+    
+    // Events logged before the session was started (or after it expired) still make a session
+    const sessionInfo: { startTime: number; endTime?: number } = sessionJson
+      ? JSON.parse(sessionJson)
+      : { startTime: events[0].timestamp };
+    
+    return {
+      gameId,
+      startTime: sessionInfo.startTime,
+      endTime: sessionInfo.endTime,
+      events,
+      bpCalculationHistory,
+      playerActions,
+      networkEvents,
+      gameStateSnapshots
+    };
+  }
+
+  /**
+   * Add an entry to one of a session's lists without holding up the game
+   */
+  private static append(gameId: string, list: SessionLogList, entry: unknown): void {
+    this.track(gameId, list, RedisService.appendToList(this.getListKey(gameId, list), JSON.stringify(entry), ACTIVE_SESSION_TTL));
+  }
+
+  /**
+   * Tracking must never break the game, so failed writes are only logged
+   */
+  private static track(gameId: string, what: string, write: Promise<unknown>): void {
+    write.catch(error => console.error(`📊 Failed to record ${what} for game ${gameId}:`, error));
+  }
+
+  private static getSessionKey(gameId: string): string {
+    return `${SESSION_KEY_PREFIX}${gameId}:session`;
+  }
+
+  private static getListKey(gameId: string, list: SessionLogList): string {
+    return `${SESSION_KEY_PREFIX}${gameId}:${list}`;
+  }
+
+  private static getAllKeys(gameId: string): string[] {
+    return [this.getSessionKey(gameId), ...SESSION_LOG_LISTS.map(list => this.getListKey(gameId, list))];
+  }
 }
 
-export default GameEventTrackerService; 
\ No newline at end of file
+export default GameEventTrackerService;
@@ -1,7 +1,15 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { GameEvent, GameEventType, BaseGameState } from '@gambit-chess/shared';
-import { broadcastGameEvent, broadcastGameUpdate } from '../socket/game.socket';
+import { broadcastGameEvent, broadcastGameUpdate, broadcastToGame, broadcastToSpectators } from '../socket/game.socket';
+import { hideDuelBattlePoints } from '../utils/game-state-filter';
 import LiveGameService from './live-game.service';
+import { RedisService } from './redis.service';
+
+// Player-socket registry for private messages, shared by every server process.
+// A player can have several tabs or devices open on the same game, so each gets a set of sockets.
+const PLAYER_SOCKETS_PREFIX = 'player_sockets:'; // player_sockets:{gameId}:{playerId} -> socketIds
+const SOCKET_GAMES_PREFIX = 'socket_games:'; // socket_games:{socketId} -> [gameId, playerId] pairs
+const SOCKET_REGISTRY_TTL = 24 * 60 * 60; // Drops the entries of a process that died without cleaning up
 
 /**
  * Service for handling game events and broadcasting them via Socket.IO
@@ -10,11 +18,6 @@ import LiveGameService from './live-game.service';
 export class GameEventsService {
   private static io: SocketIOServer | null = null;
   
-  // Player-Socket Mapping System for Private Communications
-  private static playerSocketMap: Map<string, string> = new Map(); // playerId -> socketId
-  private static socketPlayerMap: Map<string, string> = new Map(); // socketId -> playerId
-  private static playerGameMap: Map<string, string> = new Map(); // playerId -> gameId
-
   /**
    * CRITICAL PRIVACY WARNING: Current Implementation Has Major Security Flaws
    * 
@@ -59,62 +62,69 @@ export class GameEventsService {
   }
 
   /**
-   * Register a player-socket mapping when they join a game
+   * Register a player-socket mapping when they join a game; earlier sockets of the player stay registered
    */
-  static registerPlayerSocket(playerId: string, socketId: string, gameId: string): void {
-    // Clean up any existing mappings for this player
-    this.unregisterPlayerSocket(playerId);
-    
-    // Store the mappings
-    this.playerSocketMap.set(playerId, socketId);
-    this.socketPlayerMap.set(socketId, playerId);
-    this.playerGameMap.set(playerId, gameId);
+  static async registerPlayerSocket(playerId: string, socketId: string, gameId: string): Promise<void> {
+    await Promise.all([
+      RedisService.addToSet(this.getPlayerSocketsKey(playerId, gameId), socketId, SOCKET_REGISTRY_TTL),
+      RedisService.addToSet(this.getSocketGamesKey(socketId), JSON.stringify([gameId, playerId]), SOCKET_REGISTRY_TTL),
+    ]);
     
     console.log(`🔐 Registered player-socket mapping: ${playerId} -> ${socketId} (game: ${gameId})`);
   }
 
   /**
-   * Unregister a player-socket mapping when they disconnect
+   * Unregister one socket of a player from a game, e.g. when that tab leaves the game page
    */
-  static unregisterPlayerSocket(playerId: string): void {
-    const existingSocketId = this.playerSocketMap.get(playerId);
-    if (existingSocketId) {
-      this.socketPlayerMap.delete(existingSocketId);
-      this.playerGameMap.delete(playerId);
-      console.log(`🔐 Unregistered player-socket mapping: ${playerId} -> ${existingSocketId}`);
+  static async unregisterPlayerSocket(playerId: string, socketId: string, gameId: string): Promise<void> {
+    const [removed] = await Promise.all([
+      RedisService.removeFromSet(this.getPlayerSocketsKey(playerId, gameId), socketId),
+      RedisService.removeFromSet(this.getSocketGamesKey(socketId), JSON.stringify([gameId, playerId])),
+    ]);
+    if (removed) {
+      console.log(`🔐 Unregistered player-socket mapping: ${playerId} -> ${socketId} (game: ${gameId})`);
     }
-    this.playerSocketMap.delete(playerId);
   }
 
   /**
-   * Unregister a socket when it disconnects
+   * Unregister a socket from every game when it disconnects
    */
-  static unregisterSocket(socketId: string): void {
-    const playerId = this.socketPlayerMap.get(socketId);
-    if (playerId) {
-      this.unregisterPlayerSocket(playerId);
+  static async unregisterSocket(socketId: string): Promise<void> {
+    const entries = await RedisService.getSetMembers(this.getSocketGamesKey(socketId));
+    for (const entry of entries) {
+      const [gameId, playerId] = JSON.parse(entry) as [string, string];
+      await this.unregisterPlayerSocket(playerId, socketId, gameId);
     }
   }
 
   /**
-   * Get socket ID for a player (for private messages)
+   * Get all of a player's sockets on a game (for private messages), whichever process they are connected to
    */
-  static getSocketIdForPlayer(playerId: string): string | undefined {
-    return this.playerSocketMap.get(playerId);
+  static async getSocketIdsForPlayer(playerId: string, gameId: string): Promise<string[]> {
+    return RedisService.getSetMembers(this.getPlayerSocketsKey(playerId, gameId));
   }
 
   /**
-   * Send a private message to a specific player
+   * Send a private message to every socket a player has open on a game.
+   * The Socket.IO adapter delivers it to sockets connected to other processes.
    */
-  static sendToPlayer(playerId: string, event: string, data: any): boolean {
-    const socketId = this.getSocketIdForPlayer(playerId);
-    if (socketId && this.io) {
-      this.io.to(socketId).emit(event, data);
+  static async sendToPlayer(playerId: string, gameId: string, event: string, data: any): Promise<boolean> {
+    const socketIds = await this.getSocketIdsForPlayer(playerId, gameId);
+    if (socketIds.length > 0 && this.io) {
+      this.io.to(socketIds).emit(event, data);
       return true;
     }
     return false;
   }
 
+  private static getPlayerSocketsKey(playerId: string, gameId: string): string {
+    return `${PLAYER_SOCKETS_PREFIX}${gameId}:${playerId}`;
+  }
+
+  private static getSocketGamesKey(socketId: string): string {
+    return `${SOCKET_GAMES_PREFIX}${socketId}`;
+  }
+
   /**
    * Process and broadcast a game event
    */
@@ -162,6 +172,20 @@ export class GameEventsService {
           await this.handleGameEnded(event, finalGameState);
           break;
         
+        case GameEventType.PLAYER_RESIGNED:
+          broadcastGameEvent(this.io!, event.gameId, event);
+          break;
+        
+        case GameEventType.DRAW_OFFERED:
+        case GameEventType.DRAW_ACCEPTED:
+        case GameEventType.DRAW_DECLINED:
+          await this.handleDrawOfferEvent(event);
+          break;
+        
+        case GameEventType.PRACTICE_POSITION_RESTORED:
+          await this.handlePracticePositionRestored(event);
+          break;
+        
         default:
           console.log(`Unhandled game event type: ${event.type}`);
       }
@@ -187,7 +211,7 @@ export class GameEventsService {
     // Update game state for all players
     const gameState = await LiveGameService.getGameState(event.gameId);
     if (gameState) {
-      broadcastGameUpdate(this.io!, event.gameId, gameState);
+      await broadcastGameUpdate(this.io!, event.gameId, gameState);
     }
   }
 
@@ -203,7 +227,7 @@ export class GameEventsService {
     if (gameState) {
       console.log('🔄 Broadcasting updated game state. FEN:', gameState.chess.fen());
       console.log('🔄 Current turn:', gameState.chess.turn());
-      broadcastGameUpdate(this.io!, event.gameId, gameState);
+      await broadcastGameUpdate(this.io!, event.gameId, gameState);
     } else {
       console.error('❌ Could not get updated game state for broadcast');
     }
@@ -212,7 +236,7 @@ export class GameEventsService {
   /**
    * Handle duel initiated events
    */
-  private static async handleDuelInitiated(event: GameEvent): Promise<void> {
+  private static async handleDuelInitiated(event: GameEvent<GameEventType.DUEL_INITIATED>): Promise<void> {
     console.log('🥊 Processing DUEL_INITIATED event for game:', event.gameId);
     broadcastGameEvent(this.io!, event.gameId, event);
     
@@ -221,16 +245,16 @@ export class GameEventsService {
     if (gameState) {
       console.log('🥊 Broadcasting duel game state. Status:', gameState.gameStatus);
       console.log('🥊 Pending duel:', gameState.pendingDuel ? 'Yes' : 'No');
-      broadcastGameUpdate(this.io!, event.gameId, gameState);
+      await broadcastGameUpdate(this.io!, event.gameId, gameState);
     } else {
       console.error('❌ Could not get updated game state for duel broadcast');
     }
     
-    // Notify players that a duel has started
-    this.io!.to(`game:${event.gameId}`).emit('game:duel_started', {
+    // Notify players and spectators that a duel has started
+    broadcastToGame(this.io!, event.gameId, 'game:duel_started', {
       attacker: event.payload.attacker,
       defender: event.payload.defender,
-      piece: event.payload.piece,
+      piece: event.payload.attacker.piece,
     });
   }
 
@@ -249,7 +273,7 @@ export class GameEventsService {
   /**
    * Handle duel resolved events
    */
-  private static async handleDuelResolved(event: GameEvent, finalGameState?: BaseGameState): Promise<void> {
+  private static async handleDuelResolved(event: GameEvent<GameEventType.DUEL_RESOLVED>, finalGameState?: BaseGameState): Promise<void> {
     broadcastGameEvent(this.io!, event.gameId, event);
     
     // Update game state after duel resolution
@@ -262,17 +286,22 @@ export class GameEventsService {
     
     if (gameState) {
       console.log('🥊 Broadcasting final duel state. Status:', gameState.gameStatus, 'FEN:', gameState.chess.fen());
-      broadcastGameUpdate(this.io!, event.gameId, gameState);
+      await broadcastGameUpdate(this.io!, event.gameId, gameState);
     } else {
       console.error('❌ Could not get game state for duel resolution broadcast');
     }
     
-    // Notify players about duel result
-    this.io!.to(`game:${event.gameId}`).emit('game:duel_resolved', {
+    // Notify players about duel result; spectators get it without the BP left
+    const duelResolved = {
       winner: event.payload.winner,
       attackerAllocation: event.payload.attackerAllocation,
       defenderAllocation: event.payload.defenderAllocation,
-      result: event.payload.result,
+      result: event.payload.outcome,
+    };
+    this.io!.to(`game:${event.gameId}`).emit('game:duel_resolved', duelResolved);
+    broadcastToSpectators(this.io!, event.gameId, 'game:duel_resolved', {
+      ...duelResolved,
+      result: hideDuelBattlePoints(event.payload.outcome),
     });
   }
 
@@ -285,18 +314,30 @@ export class GameEventsService {
     // Update game state after retreat
     const gameState = await LiveGameService.getGameState(event.gameId);
     if (gameState) {
-      broadcastGameUpdate(this.io!, event.gameId, gameState);
+      await broadcastGameUpdate(this.io!, event.gameId, gameState);
+    }
+  }
+
+  /**
+   * Handle practice takebacks and branches; the restored position travels with the game state
+   */
+  private static async handlePracticePositionRestored(event: GameEvent): Promise<void> {
+    broadcastGameEvent(this.io!, event.gameId, event);
+    
+    const gameState = await LiveGameService.getGameState(event.gameId);
+    if (gameState) {
+      await broadcastGameUpdate(this.io!, event.gameId, gameState);
     }
   }
 
   /**
    * Handle battle points updated events - FIXED with proper privacy
    */
-  private static async handleBattlePointsUpdated(event: GameEvent): Promise<void> {
+  private static async handleBattlePointsUpdated(event: GameEvent<GameEventType.BATTLE_POINTS_UPDATED>): Promise<void> {
     const targetPlayerId = event.payload.playerId;
     
     // ✅ PRIVACY FIXED: Send only to the specific player whose BP changed
-    const success = this.sendToPlayer(targetPlayerId, 'game:battle_points_updated', {
+    const success = await this.sendToPlayer(targetPlayerId, event.gameId, 'game:battle_points_updated', {
       playerId: targetPlayerId,
       newAmount: event.payload.newAmount,
       change: event.payload.change,
@@ -309,10 +350,35 @@ export class GameEventsService {
     }
   }
 
+  /**
+   * Handle draw offer events; the offer itself travels with the game state
+   */
+  private static async handleDrawOfferEvent(
+    event: GameEvent<GameEventType.DRAW_OFFERED | GameEventType.DRAW_ACCEPTED | GameEventType.DRAW_DECLINED>
+  ): Promise<void> {
+    broadcastGameEvent(this.io!, event.gameId, event);
+    
+    if (event.type === GameEventType.DRAW_ACCEPTED) {
+      // The game end event that follows broadcasts the final state
+      return;
+    }
+    
+    const gameState = await LiveGameService.getGameState(event.gameId);
+    if (gameState) {
+      await broadcastGameUpdate(this.io!, event.gameId, gameState);
+    }
+    
+    const socketEvent = event.type === GameEventType.DRAW_OFFERED ? 'game:draw_offered' : 'game:draw_declined';
+    broadcastToGame(this.io!, event.gameId, socketEvent, {
+      playerId: event.payload.playerId,
+      color: event.payload.color,
+    });
+  }
+
   /**
    * Handle game ended events
    */
-  private static async handleGameEnded(event: GameEvent, finalGameState?: BaseGameState): Promise<void> {
+  private static async handleGameEnded(event: GameEvent<GameEventType.GAME_ENDED>, finalGameState?: BaseGameState): Promise<void> {
     broadcastGameEvent(this.io!, event.gameId, event);
     
     // Use finalGameState if provided (for completed games) or fetch from Redis
@@ -327,13 +393,13 @@ export class GameEventsService {
       console.log('🏁 Broadcasting final game state on game end. Status:', gameState.gameStatus, 'FEN:', gameState.chess.fen());
       console.log('🏁 Final move history length:', gameState.moveHistory.length);
       console.log('🏁 Final moves:', gameState.moveHistory.map(m => m.san || `${m.from}-${m.to}`));
-      broadcastGameUpdate(this.io!, event.gameId, gameState);
+      await broadcastGameUpdate(this.io!, event.gameId, gameState);
     } else {
       console.error('❌ Could not get final game state for game end broadcast');
     }
     
     // Notify about game end
-    this.io!.to(`game:${event.gameId}`).emit('game:ended', {
+    broadcastToGame(this.io!, event.gameId, 'game:ended', {
       result: event.payload.result,
       winner: event.payload.winner,
       reason: event.payload.reason,
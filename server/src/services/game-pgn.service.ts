@@ -0,0 +1,111 @@
+import {
+  BaseGameState,
+  GambitMove,
+  GameEndReason,
+  GameEvent,
+  GameStatus,
+  PGNResult,
+  parseGambitPGN,
+  replayGambitPGN,
+  replayGameEvents,
+  writeGambitPGN
+} from '@gambit-chess/shared';
+import { prisma } from '../index';
+import LiveGameService from './live-game.service';
+import { getGameStateForPlayer, getSpectatorGameState } from '../utils/game-state-filter';
+
+export interface ImportedGame {
+  headers: Record<string, string>;
+  result: PGNResult;
+  status: GameStatus;
+  endReason?: GameEndReason;
+  finalFEN: string;
+  moveHistory: GambitMove[];
+  whiteBattlePoints: number;
+  blackBattlePoints: number;
+}
+
+/**
+ * Service for Gambit PGN downloads and uploads
+ * - Exports show only what the requesting user may see of the game
+ * - Uploads are replayed under the rules they name before anything in them is trusted
+ */
+export class GamePGNService {
+  /**
+   * Export a live or archived game as Gambit PGN.
+   * Archived games are rebuilt from their event log; games archived without one cannot be exported.
+   */
+  static async exportGame(gameId: string, requestingUserId?: string): Promise<string | null> {
+    const game = await prisma.game.findUnique({
+      where: { id: gameId },
+      include: {
+        whitePlayer: true,
+        blackPlayer: true,
+      },
+    });
+
+    let gameState: BaseGameState | null = await LiveGameService.getGameState(gameId);
+    if (!gameState) {
+      if (!game?.events) {
+        return null;
+      }
+      gameState = replayGameEvents(game.events as unknown as GameEvent[]);
+    }
+
+    const visibleState = requestingUserId
+      ? getGameStateForPlayer(gameState, requestingUserId)
+      : getSpectatorGameState(gameState);
+    // BP comments would give away both pools and every allocation
+    const battlePoints = visibleState.whitePlayer.battlePoints >= 0 &&
+      visibleState.blackPlayer.battlePoints >= 0 &&
+      !gameState.config.informationHiding.hideAllocationHistory;
+
+    return writeGambitPGN(visibleState, {
+      site: 'Gambit Chess',
+      date: game?.createdAt,
+      white: this.getPlayerName(gameState.whitePlayer.id, game?.whitePlayer),
+      black: this.getPlayerName(gameState.blackPlayer.id, game?.blackPlayer),
+      battlePoints,
+    });
+  }
+
+  /**
+   * Validate an uploaded Gambit PGN by replaying it, returning the game it describes
+   */
+  static importGame(pgn: string): { success: boolean; error?: string; game?: ImportedGame } {
+    try {
+      const parsed = parseGambitPGN(pgn);
+      const gameState = replayGambitPGN(parsed);
+      return {
+        success: true,
+        game: {
+          headers: parsed.headers,
+          result: parsed.result,
+          status: gameState.gameStatus,
+          endReason: gameState.endReason,
+          finalFEN: gameState.chess.fen(),
+          moveHistory: gameState.moveHistory,
+          whiteBattlePoints: gameState.whitePlayer.battlePoints,
+          blackBattlePoints: gameState.blackPlayer.battlePoints,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Name for the PGN headers; the IDs of anonymous players are not published
+   */
+  private static getPlayerName(playerId: string, user?: { username: string } | null): string {
+    if (user) {
+      return user.username;
+    }
+    if (playerId === 'ai') {
+      return 'AI';
+    }
+    return playerId ? 'Anonymous' : '?';
+  }
+}
+
+export default GamePGNService;
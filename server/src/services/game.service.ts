@@ -1,16 +1,25 @@
-import { createNewGame, BaseGameState, GameStatus, GambitMove, Player } from '@gambit-chess/shared';
+import { createNewGame, BaseGameState, GameStatus, GambitMove, Player, PracticeTree, ConfigurationTemplate, GameConfig, TimeControl, AIDifficulty, AIPersona } from '@gambit-chess/shared';
 import { prisma } from '../index';
-import { Chess } from 'chess.js';
+import { Chess, Square } from 'chess.js';
 import crypto from 'crypto';
 import LiveGameService from './live-game.service';
+import { getGameStateForPlayer } from '../utils/game-state-filter';
+import GameEngineService from './game-engine.service';
 
 export interface CreateGameOptions {
   whitePlayerId?: string; // User ID for registered users
   blackPlayerId?: string; // User ID for registered users
   anonymousUserId?: string; // Temp ID for anonymous users
   gameType: 'ai' | 'human' | 'practice'; // Game type
-  aiDifficulty?: 'easy' | 'medium' | 'hard'; // For AI games
+  aiDifficulty?: AIDifficulty; // For AI games
+  aiPersona?: AIPersona; // For AI games
+  rated?: boolean; // For human games; rated by default when both players are registered
   colorPreference?: 'white' | 'black' | 'random'; // NEW: Player color choice!
+  ruleset?: ConfigurationTemplate; // Config template name
+  config?: GameConfig; // Validated custom config (ruleset 'custom')
+  timeControl?: TimeControl; // Validated time control; untimed when omitted
+  startingPosition?: string; // Validated Gambit FEN for practice games from a custom position and Chess960 games
+  chess960Index?: number; // Chess960 games, which also pass the position as startingPosition
 }
 
 export interface GameStateResponse {
@@ -19,6 +28,8 @@ export interface GameStateResponse {
   currentTurn: 'w' | 'b';
   board: string; // FEN string
   moveHistory: GambitMove[];
+  castlingRooks?: Square[]; // Chess960 games
+  practiceTree?: PracticeTree; // Practice games
   whitePlayer: {
     id: string;
     battlePoints: number;
@@ -34,6 +45,15 @@ export interface GameStateResponse {
   stalemate?: boolean;
 }
 
+export interface OpenChallenge {
+  id: string;
+  openColor: 'w' | 'b'; // Seat a joining player takes
+  ruleset?: ConfigurationTemplate;
+  timeControl?: TimeControl;
+  chess960Index?: number; // Chess960 games
+  rated: boolean;
+}
+
 /**
  * Game Management Service
  * Handles game creation via LiveGameService and archived game retrieval
@@ -49,9 +69,19 @@ export class GameService {
       anonymousUserId: options.anonymousUserId,
       gameType: options.gameType,
       aiDifficulty: options.aiDifficulty,
+      aiPersona: options.aiPersona,
+      rated: options.rated,
       colorPreference: options.colorPreference,
+      ruleset: options.ruleset,
+      config: options.config,
+      timeControl: options.timeControl,
+      startingPosition: options.startingPosition,
+      chess960Index: options.chess960Index,
     });
 
+    // The AI opens the game when it plays White
+    GameEngineService.scheduleAITurn(result.gameId, result.gameState);
+
     return {
       gameId: result.gameId,
       gameState: this.formatGameState(result.gameState, !!options.anonymousUserId, options.gameType === 'ai'),
@@ -67,7 +97,8 @@ export class GameService {
     if (liveGameState) {
       // Check authorization for live game
       const isAuthorized = this.isUserAuthorized(liveGameState, requestingUserId);
-      return this.formatGameStateWithAuth(liveGameState, isAuthorized, requestingUserId);
+      const visibleState = requestingUserId ? getGameStateForPlayer(liveGameState, requestingUserId) : liveGameState;
+      return this.formatGameStateWithAuth(visibleState, isAuthorized, requestingUserId);
     }
 
     // If not in Redis, try database (archived games)
@@ -168,7 +199,8 @@ export class GameService {
       return null;
     }
 
-    return this.formatGameState(gameState, isAnonymous, false);
+    // The joining player sees the game the way the socket will show it to them
+    return this.formatGameStateWithAuth(getGameStateForPlayer(gameState, playerId), true, playerId);
   }
 
   /**
@@ -208,6 +240,8 @@ export class GameService {
       currentTurn: gameState.currentTurn,
       board: gameState.chess.fen(),
       moveHistory: gameState.moveHistory,
+      castlingRooks: gameState.castlingRooks,
+      practiceTree: gameState.practiceTree,
       whitePlayer: {
         id: gameState.whitePlayer.id === requestingUserId || isAuthorized ? gameState.whitePlayer.id : 'Anonymous',
         battlePoints: isAuthorized ? gameState.whitePlayer.battlePoints : 0,
@@ -234,6 +268,8 @@ export class GameService {
       currentTurn: gameState.currentTurn,
       board: gameState.chess.fen(),
       moveHistory: gameState.moveHistory,
+      castlingRooks: gameState.castlingRooks,
+      practiceTree: gameState.practiceTree,
       whitePlayer: {
         id: whiteIsAnonymous ? 'Anonymous' : gameState.whitePlayer.id,
         battlePoints: gameState.whitePlayer.battlePoints,
@@ -252,14 +288,19 @@ export class GameService {
 
   /**
    * Get all games waiting for players (for game discovery)
+   * Open challenges are public, so only the terms of the game are listed
    */
-  static async getWaitingGames(): Promise<GameStateResponse[]> {
+  static async getWaitingGames(): Promise<OpenChallenge[]> {
     const waitingGames = await LiveGameService.getWaitingGames();
     
-    return waitingGames.map(gameState => {
-      // Public view - hide BP and show minimal info for discovery
-      return this.formatGameState(gameState, true, gameState.blackPlayer.id === 'ai');
-    });
+    return waitingGames.map(gameState => ({
+      id: gameState.id,
+      openColor: gameState.whitePlayer.id ? 'b' : 'w',
+      ruleset: gameState.ruleset,
+      timeControl: gameState.timeControl,
+      chess960Index: gameState.chess960Index,
+      rated: gameState.rated ?? false,
+    }));
   }
 }
 
@@ -1,22 +1,44 @@
-import { BaseGameState, GameStatus, GameEvent, GameEventType, GambitMove, Player } from '@gambit-chess/shared';
+import { BaseGameState, GameStatus, GameEvent, GameEventType, GambitMove, Player, ConfigurationTemplate, GameConfig, TimeControl, AIDifficulty, AIPersona, resolveGameConfig, startClock, checkReplayConsistency } from '@gambit-chess/shared';
 import { RedisService } from './redis.service';
 import { prisma } from '../index';
-import { createNewGame } from '@gambit-chess/shared';
+import { createNewGame, createPracticeTree, loadGambitFEN } from '@gambit-chess/shared';
 import crypto from 'crypto';
+import { Color } from 'chess.js';
 import GameEventsService from './game-events.service';
 import GameEventTrackerService from './game-event-tracker.service';
+import GameClockService from './game-clock.service';
+import PresenceService from './presence.service';
+import RatingService from './rating.service';
 
 const GAME_TTL = 24 * 60 * 60; // 24 hours in seconds
 const GAME_KEY_PREFIX = 'live_game:';
-const GAME_EVENTS_KEY_PREFIX = 'game_events:';
+const GAME_EVENTS_KEY_PREFIX = 'game_events:'; // game_events:{gameId} -> every event of the game, in order
+const PRACTICE_SNAPSHOT_KEY_PREFIX = 'practice_snapshot:'; // practice_snapshot:{gameId}:{nodeId} -> game state at a practice tree node
+
+/**
+ * Thrown when saving a game state that another action has saved over since it was read
+ */
+export class GameStateConflictError extends Error {
+  constructor(gameId: string, expectedVersion: number) {
+    super(`Game ${gameId} was saved by another action since version ${expectedVersion} was read`);
+    this.name = 'GameStateConflictError';
+  }
+}
 
 export interface LiveGameOptions {
   whitePlayerId?: string;
   blackPlayerId?: string;
   anonymousUserId?: string;
   gameType: 'ai' | 'human' | 'practice';
-  aiDifficulty?: 'easy' | 'medium' | 'hard';
+  aiDifficulty?: AIDifficulty; // AI games only, defaults to 'easy'
+  aiPersona?: AIPersona; // AI games only, defaults to 'balanced'
+  rated?: boolean; // Human games only; rated unless false, when the creator is registered
   colorPreference?: 'white' | 'black' | 'random';
+  ruleset?: ConfigurationTemplate; // Named config template (defaults to 'standard')
+  config?: GameConfig; // Fully custom config, only valid with the 'custom' ruleset
+  timeControl?: TimeControl; // Validated time control; untimed when omitted
+  startingPosition?: string; // Validated Gambit FEN the game starts from (practice and Chess960 games)
+  chess960Index?: number; // Chess960 position startingPosition was set up from
 }
 
 // Helper function to convert shared GameStatus to Prisma GameStatus
@@ -31,6 +53,8 @@ function convertToPrismaGameStatus(status: GameStatus): 'WAITING' | 'IN_PROGRESS
     case GameStatus.CHECKMATE:
     case GameStatus.STALEMATE:
     case GameStatus.DRAW:
+    case GameStatus.RESIGNED:
+    case GameStatus.TIME_FORFEIT:
       return 'COMPLETED';
     case GameStatus.ABANDONED:
       return 'ABANDONED';
@@ -51,6 +75,11 @@ export class LiveGameService {
    * Create a new live game in Redis
    */
   static async createGame(options: LiveGameOptions): Promise<{ gameId: string; gameState: BaseGameState }> {
+    const resolvedConfig = resolveGameConfig(options.ruleset, options.config);
+    if (!resolvedConfig.valid) {
+      throw new Error(resolvedConfig.error);
+    }
+    
     const gameId = crypto.randomUUID();
     
     // Determine color preference (default: white)
@@ -87,7 +116,7 @@ export class LiveGameService {
       blackPlayerId = playerId;
     } else if (options.gameType === 'human') {
       // For human vs human, the creator gets their preferred color
-      const playerId = options.whitePlayerId!;
+      const playerId = options.whitePlayerId || options.anonymousUserId!;
       
       if (colorPreference === 'white') {
         whitePlayerId = playerId;
@@ -108,17 +137,41 @@ export class LiveGameService {
     }
     
     // Create game state using shared function
-    const gameState = createNewGame(gameId, whitePlayerId || '', blackPlayerId, options.gameType);
+    const gameState = options.startingPosition
+      ? loadGambitFEN(options.startingPosition, {
+        gameId,
+        whitePlayerId: whitePlayerId || '',
+        blackPlayerId: blackPlayerId || '',
+        gameType: options.gameType,
+        config: resolvedConfig.ruleset === 'custom' ? resolvedConfig.config : undefined,
+        timeControl: options.timeControl
+      })
+      : createNewGame(gameId, whitePlayerId || '', blackPlayerId, options.gameType, resolvedConfig.config, options.timeControl);
+    gameState.ruleset = resolvedConfig.ruleset;
+    if (options.chess960Index !== undefined) {
+      gameState.chess960Index = options.chess960Index;
+    }
+    if (options.gameType === 'ai') {
+      gameState.aiOpponent = {
+        difficulty: options.aiDifficulty || 'easy',
+        persona: options.aiPersona || 'balanced'
+      };
+    }
+    if (options.gameType === 'practice') {
+      // Starts the takeback history at the created state; the GAME_CREATED event is the log's first
+      gameState.practiceTree = createPracticeTree(gameState, 1);
+    }
+    if (options.gameType === 'human') {
+      // Anonymous players have no rating to put at stake
+      gameState.rated = options.rated !== false && !!options.whitePlayerId && RatingService.isRatedRuleset(gameState.ruleset);
+    }
     
     // Initialize event tracking for this game session
     GameEventTrackerService.startGameSession(gameId);
     GameEventTrackerService.logGameStateSnapshot(gameId, gameState, 'game_created');
     
-    // Store in Redis
-    await this.saveGameState(gameId, gameState);
-    
-    // Emit game created event
-    await this.emitGameEvent({
+    // Store in Redis, starting the event log the game can be replayed from
+    const createdEvent: GameEvent = {
       type: GameEventType.GAME_CREATED,
       gameId,
       timestamp: Date.now(),
@@ -128,17 +181,35 @@ export class LiveGameService {
         blackPlayerId,
         anonymousUserId: options.anonymousUserId,
         colorPreference: colorPreference,
+        ruleset: gameState.ruleset,
+        config: gameState.config,
+        startingPosition: gameState.startingPosition,
+        chess960Index: gameState.chess960Index,
+        timeControl: gameState.timeControl,
+        aiOpponent: gameState.aiOpponent,
+        rated: gameState.rated,
       },
-    });
+    };
+    GameClockService.syncClock(gameId, gameState);
+    await this.saveGameState(gameId, gameState, [createdEvent]);
+    if (gameState.practiceTree) {
+      await this.savePracticeSnapshot(gameId, gameState.practiceTree.currentId, gameState);
+    }
+    
+    // Emit game created event
+    await this.emitGameEvent(createdEvent);
     
     // Also create a database record for persistence linking
     await prisma.game.create({
       data: {
         id: gameId,
         status: convertToPrismaGameStatus(gameState.gameStatus),
-        whitePlayerId: options.whitePlayerId || null,
-        blackPlayerId: options.blackPlayerId || null,
+        // Registered users are linked by the seat they actually took
+        whitePlayerId: options.whitePlayerId && whitePlayerId === options.whitePlayerId ? options.whitePlayerId : null,
+        blackPlayerId: options.whitePlayerId && blackPlayerId === options.whitePlayerId ? options.whitePlayerId : options.blackPlayerId || null,
         anonymousUserId: options.anonymousUserId || null,
+        ruleset: gameState.ruleset,
+        rated: gameState.rated ?? false,
         initialConfig: gameState.config as any,
         moveHistory: [],
       },
@@ -184,98 +255,122 @@ export class LiveGameService {
         return null;
       }
 
-      const gameState = JSON.parse(gameStateJson) as BaseGameState;
-      
-      // Reconstruct Chess instance properly
-      const { Chess } = require('chess.js');
-      const chess = new Chess();
+      return this.parseGameState(gameStateJson);
+    } catch (error) {
+      console.error('Error getting game state from Redis:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Rebuild a game state saved as JSON, with a working Chess instance and move methods
+   */
+  private static parseGameState(gameStateJson: string): BaseGameState {
+    const gameState = JSON.parse(gameStateJson) as BaseGameState;
+    
+    // Reconstruct Chess instance properly
+    const { Chess } = require('chess.js');
+    const chess = new Chess();
+    
+    // If chess is stored as serialized data, reconstruct it
+    if (gameState.chess && typeof gameState.chess === 'object') {
+      const chessData = gameState.chess as any;
+      console.log('📖 Serialized chess data:', {
+        fen: chessData.fen,
+        turn: chessData.turn,
+        history: chessData.history,
+        pgn: chessData.pgn?.substring(0, 100) + '...'
+      });
       
-      // If chess is stored as serialized data, reconstruct it
-      if (gameState.chess && typeof gameState.chess === 'object') {
-        const chessData = gameState.chess as any;
-        console.log('📖 Serialized chess data:', {
-          fen: chessData.fen,
-          turn: chessData.turn,
-          history: chessData.history,
-          pgn: chessData.pgn?.substring(0, 100) + '...'
-        });
-        
-        // Try to use FEN directly first (most reliable)
-        if (chessData.fen && typeof chessData.fen === 'string') {
-          try {
-            chess.load(chessData.fen);
-            console.log('📖 Successfully loaded from FEN:', chessData.fen);
-          } catch (error) {
-            console.error('📖 Error loading FEN:', chessData.fen, error);
-            // Fallback to starting position
-            chess.reset();
-          }
-        } else {
-          console.log('📖 No valid FEN found, using starting position');
+      // Try to use FEN directly first (most reliable)
+      if (chessData.fen && typeof chessData.fen === 'string') {
+        try {
+          chess.load(chessData.fen);
+          console.log('📖 Successfully loaded from FEN:', chessData.fen);
+        } catch (error) {
+          console.error('📖 Error loading FEN:', chessData.fen, error);
+          // Fallback to starting position
           chess.reset();
         }
-        
-        // WARNING: DO NOT replay history unless absolutely necessary
-        // The FEN should be the authoritative state
-        console.log('📖 Using FEN as authoritative state instead of replaying moves');
-      }
-      
-      // Replace the serialized chess object with the reconstructed instance
-      gameState.chess = chess;
-      
-      // Reconstruct GambitMoves in moveHistory to ensure they have proper methods
-      if (gameState.moveHistory && Array.isArray(gameState.moveHistory)) {
-        gameState.moveHistory = gameState.moveHistory.map(move => 
-          this.reconstructGambitMove(move)
-        );
+      } else {
+        console.log('📖 No valid FEN found, using starting position');
+        chess.reset();
       }
       
-      console.log('📖 Final reconstructed FEN:', gameState.chess.fen());
-      console.log('📖 Final turn:', gameState.chess.turn());
-      
-      return gameState;
-    } catch (error) {
-      console.error('Error getting game state from Redis:', error);
-      return null;
+      // WARNING: DO NOT replay history unless absolutely necessary
+      // The FEN should be the authoritative state
+      console.log('📖 Using FEN as authoritative state instead of replaying moves');
     }
+    
+    // Replace the serialized chess object with the reconstructed instance
+    gameState.chess = chess;
+    
+    // Reconstruct GambitMoves in moveHistory to ensure they have proper methods
+    if (gameState.moveHistory && Array.isArray(gameState.moveHistory)) {
+      gameState.moveHistory = gameState.moveHistory.map(move => 
+        this.reconstructGambitMove(move)
+      );
+    }
+    
+    console.log('📖 Final reconstructed FEN:', gameState.chess.fen());
+    console.log('📖 Final turn:', gameState.chess.turn());
+    
+    return gameState;
   }
-  
+
   /**
-   * Save game state to Redis
+   * Save game state to Redis, appending the events that led to it to the game's event log.
+   * Compare-and-set on the state's version: throws GameStateConflictError if the stored game
+   * is no longer the version this state was read at, and bumps the version on success.
+   * The events are only logged if the state is saved, so the log never records a lost write.
+   * The game's next clock deadline is kept with it for GameClockService's sweep.
    */
-  static async saveGameState(gameId: string, gameState: BaseGameState): Promise<void> {
+  static async saveGameState(gameId: string, gameState: BaseGameState, events: GameEvent[] = []): Promise<void> {
+    const expectedVersion = gameState.version ?? 0;
+    let saved: boolean;
     try {
       const key = `${GAME_KEY_PREFIX}${gameId}`;
       
       // Create a serializable version of the game state
       const serializableState = {
         ...gameState,
+        version: expectedVersion + 1,
         chess: {
           fen: gameState.chess.fen(),
           turn: gameState.chess.turn(),
-          // Use preserved history if available (for tactical retreats), otherwise use current history
-          history: (gameState.chess as any)._preservedHistory || gameState.chess.history(),
+          history: gameState.chess.history(),
           pgn: gameState.chess.pgn(),
         },
       };
       
-      await RedisService.setWithTTL(key, JSON.stringify(serializableState), GAME_TTL);
+      saved = await RedisService.setIfVersion(key, JSON.stringify(serializableState), GAME_TTL, expectedVersion, {
+        key: `${GAME_EVENTS_KEY_PREFIX}${gameId}`,
+        values: events.map(event => JSON.stringify(event)),
+      });
     } catch (error) {
       console.error('Error saving game state to Redis:', error);
       throw error;
     }
+    
+    if (!saved) {
+      throw new GameStateConflictError(gameId, expectedVersion);
+    }
+    gameState.version = expectedVersion + 1;
+    await GameClockService.saveDeadline(gameId, gameState);
   }
   
   /**
-   * Update game state and emit events
+   * Update game state, logging and emitting the events that led to it
    */
-  static async updateGameState(gameId: string, gameState: BaseGameState, event?: GameEvent): Promise<void> {
-    await this.saveGameState(gameId, gameState);
+  static async updateGameState(gameId: string, gameState: BaseGameState, events: GameEvent[] = []): Promise<void> {
+    GameClockService.syncClock(gameId, gameState);
+    await this.saveGameState(gameId, gameState, events);
     
-    // Check if game is completed BEFORE emitting events
-    const shouldArchive = this.isGameCompleted(gameId, gameState);
+    // Check if game is completed BEFORE emitting events. A practice game stays live once it
+    // ends, so the move that ended it can still be taken back; it is archived when left.
+    const shouldArchive = gameState.gameType !== 'practice' && this.isGameCompleted(gameId, gameState);
     
-    if (event) {
+    for (const event of events) {
       // Pass the gameState to event processing to ensure final broadcast works
       await this.emitGameEvent(event, shouldArchive ? gameState : undefined);
     }
@@ -286,6 +381,17 @@ export class LiveGameService {
     }
   }
   
+  /**
+   * Archive a practice game its player has left, if it has ended
+   */
+  static async archiveLeftPracticeGame(gameId: string): Promise<void> {
+    const gameState = await this.getGameState(gameId);
+    if (gameState?.gameType !== 'practice' || !this.isGameCompleted(gameId, gameState)) {
+      return;
+    }
+    await this.archiveCompletedGame(gameId, gameState);
+  }
+  
   /**
    * Join an existing live game
    */
@@ -296,52 +402,83 @@ export class LiveGameService {
       return null;
     }
     
+    // Creators can't take the other seat of their own challenge
+    if (gameState.whitePlayer.id === playerId || gameState.blackPlayer.id === playerId) {
+      return null;
+    }
+    
     // Assign to empty slot
-    if (!gameState.blackPlayer.id || gameState.blackPlayer.id === '') {
-      gameState.blackPlayer.id = playerId;
-      gameState.gameStatus = GameStatus.IN_PROGRESS;
-      
-      await this.updateGameState(gameId, gameState, {
+    const color: Color | null = !gameState.whitePlayer.id ? 'w' : !gameState.blackPlayer.id ? 'b' : null;
+    if (!color) {
+      return null; // Game is full
+    }
+    
+    const player = color === 'w' ? gameState.whitePlayer : gameState.blackPlayer;
+    player.id = playerId;
+    gameState.gameStatus = GameStatus.IN_PROGRESS;
+    if (isAnonymous) {
+      gameState.rated = false;
+    }
+    if (gameState.clock) {
+      startClock(gameState.clock, 'w');
+    }
+    
+    try {
+      await this.updateGameState(gameId, gameState, [{
         type: GameEventType.PLAYER_JOINED,
         gameId,
         timestamp: Date.now(),
         payload: {
           playerId,
-          color: 'b',
+          color,
           isAnonymous,
         },
-      });
-      
-      return gameState;
+      }]);
+    } catch (error) {
+      if (error instanceof GameStateConflictError) {
+        // Someone else got in first; try again on the game as it is now (usually full)
+        return this.joinGame(gameId, playerId, isAnonymous);
+      }
+      throw error;
     }
     
-    return null; // Game is full
+    await prisma.game.update({
+      where: { id: gameId },
+      data: {
+        status: convertToPrismaGameStatus(gameState.gameStatus),
+        rated: gameState.rated ?? false,
+        ...(isAnonymous ? {} : color === 'w' ? { whitePlayerId: playerId } : { blackPlayerId: playerId }),
+      },
+    });
+    
+    return gameState;
   }
   
   /**
-   * Remove game from Redis (when completed or abandoned)
+   * Remove game from Redis (when completed or abandoned).
+   * A practice game's snapshots are found from the nodes of its tree, one key per node.
    */
-  static async removeGame(gameId: string): Promise<void> {
+  static async removeGame(gameId: string, gameState?: BaseGameState): Promise<void> {
     const key = `${GAME_KEY_PREFIX}${gameId}`;
     const eventsKey = `${GAME_EVENTS_KEY_PREFIX}${gameId}`;
     
+    const snapshotKeys = (gameState?.practiceTree?.nodes ?? [])
+      .map(node => `${PRACTICE_SNAPSHOT_KEY_PREFIX}${gameId}:${node.id}`);
+    
     await Promise.all([
+      GameClockService.cancel(gameId),
+      PresenceService.clearGame(gameId),
       RedisService.del(key),
       RedisService.del(eventsKey),
+      ...snapshotKeys.map(snapshotKey => RedisService.del(snapshotKey)),
     ]);
   }
   
   /**
-   * Emit a game event for real-time communication
+   * Emit a game event for real-time communication; it is logged when saved with its game state
    */
   static async emitGameEvent(event: GameEvent, finalGameState?: BaseGameState): Promise<void> {
     try {
-      const eventsKey = `${GAME_EVENTS_KEY_PREFIX}${event.gameId}`;
-      
-      // Store event in Redis for event history (with shorter TTL)
-      const eventJson = JSON.stringify(event);
-      await RedisService.setWithTTL(eventsKey, eventJson, 60 * 60); // 1 hour
-      
       // Process event through GameEventsService for Socket.IO broadcasting
       await GameEventsService.processGameEvent(event, finalGameState);
       
@@ -351,24 +488,40 @@ export class LiveGameService {
   }
   
   /**
-   * Get recent game events for a specific game
+   * Get the event log of a live game, oldest first
    */
   static async getGameEvents(gameId: string): Promise<GameEvent[]> {
     try {
       const eventsKey = `${GAME_EVENTS_KEY_PREFIX}${gameId}`;
-      const eventsJson = await RedisService.get(eventsKey);
-      
-      if (!eventsJson) {
-        return [];
-      }
+      const eventsJson = await RedisService.getList(eventsKey);
       
-      return JSON.parse(eventsJson) as GameEvent[];
+      return eventsJson.map(eventJson => JSON.parse(eventJson) as GameEvent);
     } catch (error) {
       console.error('Error getting game events:', error);
       return [];
     }
   }
   
+  /**
+   * Keep the state a practice game is in at one of its tree's nodes, for takebacks and branches
+   * to restore. The tree itself and the save version belong to the live state, not the snapshot.
+   */
+  static async savePracticeSnapshot(gameId: string, nodeId: string, gameState: BaseGameState): Promise<void> {
+    const { practiceTree, version, ...snapshot } = gameState;
+    await RedisService.setWithTTL(`${PRACTICE_SNAPSHOT_KEY_PREFIX}${gameId}:${nodeId}`, JSON.stringify({
+      ...snapshot,
+      chess: { fen: gameState.chess.fen() },
+    }), GAME_TTL);
+  }
+  
+  /**
+   * Get the state a practice game was in at a node of its tree, if it is still stored
+   */
+  static async getPracticeSnapshot(gameId: string, nodeId: string): Promise<BaseGameState | null> {
+    const snapshotJson = await RedisService.get(`${PRACTICE_SNAPSHOT_KEY_PREFIX}${gameId}:${nodeId}`);
+    return snapshotJson ? this.parseGameState(snapshotJson) : null;
+  }
+  
   /**
    * Check if game is completed (and should be archived)
    */
@@ -377,6 +530,8 @@ export class LiveGameService {
       GameStatus.CHECKMATE,
       GameStatus.STALEMATE,
       GameStatus.DRAW,
+      GameStatus.RESIGNED,
+      GameStatus.TIME_FORFEIT,
       GameStatus.ABANDONED
     ].includes(gameState.gameStatus);
     
@@ -415,6 +570,17 @@ export class LiveGameService {
         // Get final FEN position
         const finalFEN = gameState.chess.fen();
         
+        // The event log is archived with the game; it should replay to the same final state
+        const events = await this.getGameEvents(gameId);
+        const replay = checkReplayConsistency(events, {
+          finalFEN,
+          whiteBattlePoints: gameState.whitePlayer.battlePoints,
+          blackBattlePoints: gameState.blackPlayer.battlePoints,
+        });
+        if (!replay.consistent) {
+          console.warn(`⚠️ Event log of game ${gameId} does not replay to its final state:`, replay.mismatches);
+        }
+        
         // Update database with final game state
         await prisma.game.update({
           where: { id: gameId },
@@ -423,13 +589,24 @@ export class LiveGameService {
             result,
             resultReason,
             finalFEN,
+            whiteBattlePoints: gameState.whitePlayer.battlePoints,
+            blackBattlePoints: gameState.blackPlayer.battlePoints,
             moveHistory: sanitizedMoveHistory as any,
+            events: events as any,
+            initialConfig: gameState.config as any,
             endedAt: new Date(),
           },
         });
         
+        // A failed rating update must not keep the game from being archived
+        try {
+          await RatingService.recordGameResult(gameId, gameState);
+        } catch (error) {
+          console.error('Error updating ratings for archived game:', error);
+        }
+        
         // Remove from Redis
-        await this.removeGame(gameId);
+        await this.removeGame(gameId, gameState);
         
         console.log(`Game ${gameId} archived to database with result: ${result}, reason: ${resultReason}`);
         resolve();
@@ -449,8 +626,8 @@ export class LiveGameService {
   } {
     switch (gameState.gameStatus) {
       case GameStatus.CHECKMATE:
-        // Determine winner based on whose turn it ISN'T (they got checkmated)
-        const winner = gameState.currentTurn === 'w' ? 'BLACK_WINS' : 'WHITE_WINS';
+        // The side to move on the board is the one that got checkmated
+        const winner = gameState.chess.turn() === 'w' ? 'BLACK_WINS' : 'WHITE_WINS';
         return { 
           result: winner, 
           resultReason: 'CHECKMATE' 
@@ -463,14 +640,32 @@ export class LiveGameService {
         };
         
       case GameStatus.DRAW:
+        switch (gameState.endReason) {
+          case 'threefold_repetition':
+            return { result: 'DRAW', resultReason: 'THREEFOLD_REPETITION' };
+          case 'fifty_move_rule':
+            return { result: 'DRAW', resultReason: 'FIFTY_MOVE_RULE' };
+          case 'insufficient_material':
+            return { result: 'DRAW', resultReason: 'INSUFFICIENT_MATERIAL' };
+          default:
+            return { result: 'DRAW', resultReason: 'AGREEMENT' };
+        }
+        
+      case GameStatus.RESIGNED:
         return { 
-          result: 'DRAW', 
-          resultReason: 'AGREEMENT' // Could be other reasons, but this is most common for programmatic draws
+          result: gameState.winner === 'w' ? 'WHITE_WINS' : 'BLACK_WINS', 
+          resultReason: 'RESIGNATION' 
+        };
+        
+      case GameStatus.TIME_FORFEIT:
+        return { 
+          result: gameState.winner === 'w' ? 'WHITE_WINS' : 'BLACK_WINS', 
+          resultReason: 'TIME_FORFEIT' 
         };
         
       case GameStatus.ABANDONED:
         return { 
-          result: null, // No winner in abandoned games
+          result: gameState.winner ? (gameState.winner === 'w' ? 'WHITE_WINS' : 'BLACK_WINS') : null, // No winner if both players left
           resultReason: 'ABANDONMENT' 
         };
         
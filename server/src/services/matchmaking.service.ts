@@ -0,0 +1,238 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { TimeControl, configurationTemplateSchema, validateTimeControl } from '@gambit-chess/shared';
+import { RedisService } from './redis.service';
+import LiveGameService from './live-game.service';
+import RatingService from './rating.service';
+import { DEFAULT_GLICKO2_RATING } from '../game/rating';
+import { QueueEntry, findPairs, getPoolKey } from '../game/matchmaking';
+
+const QUEUE_KEY_PREFIX = 'matchmaking:';
+const QUEUED_PLAYERS_KEY = 'matchmaking_queue'; // Sorted set of queued player IDs, scored by when they joined
+const QUEUE_ENTRY_TTL = 30 * 60; // 30 minutes in seconds
+const SWEEP_INTERVAL_MS = 2000;
+const DEFAULT_ESTIMATED_WAIT_MS = 30000; // Used until a pool has matched anyone
+const RECENT_WAITS_KEPT = 20;
+
+// Custom configs have no ladder to pair by
+const queueRulesetSchema = configurationTemplateSchema.exclude(['custom']);
+
+export interface QueuePlayer {
+  playerId: string;
+  isAnonymous: boolean;
+  socketId: string;
+}
+
+export interface QueueStatus {
+  ruleset: QueueEntry['ruleset'];
+  timeControl?: TimeControl;
+  rating: number;
+  joinedAt: number;
+  estimatedWaitMs: number;
+  playersInQueue: number; // Others waiting for the same ruleset and time control
+}
+
+/**
+ * Service for the matchmaking queue
+ * - Queue entries live in Redis, one key per player, so they survive a server restart
+ * - The queued player IDs are kept in a sorted set, so the queue is read without scanning keys
+ * - A sweep every few seconds pairs players by rating (see game/matchmaking) and starts their game
+ * - Players are notified over their socket with 'matchmaking:match_found'
+ */
+export class MatchmakingService {
+  private static io: SocketIOServer | null = null;
+  private static sweepTimer: NodeJS.Timeout | null = null;
+  private static sweeping = false;
+  private static recentWaits = new Map<string, number[]>(); // pool key -> recent wait times in ms
+
+  /**
+   * Start pairing queued players
+   */
+  static initialize(socketServer: SocketIOServer): void {
+    this.io = socketServer;
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    console.log('MatchmakingService initialized');
+  }
+
+  static shutdown(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Put a player in the queue, replacing any earlier entry of theirs
+   */
+  static async joinQueue(
+    player: QueuePlayer,
+    request: { ruleset?: unknown; timeControl?: unknown }
+  ): Promise<{ success: boolean; error?: string; status?: QueueStatus }> {
+    const rulesetResult = queueRulesetSchema.safeParse(request.ruleset ?? 'standard');
+    if (!rulesetResult.success) {
+      return { success: false, error: 'Matchmaking is only available for the built-in rulesets' };
+    }
+
+    let timeControl: TimeControl | undefined;
+    if (request.timeControl !== undefined && request.timeControl !== null) {
+      const timeControlValidation = validateTimeControl(request.timeControl);
+      if (!timeControlValidation.valid) {
+        return { success: false, error: timeControlValidation.error };
+      }
+      timeControl = timeControlValidation.timeControl;
+    }
+
+    const ruleset = rulesetResult.data;
+    const rating = player.isAnonymous
+      ? DEFAULT_GLICKO2_RATING.rating
+      : (await RatingService.getRating(player.playerId, ruleset)).rating;
+
+    const entry: QueueEntry = { ...player, ruleset, timeControl, rating, joinedAt: Date.now() };
+    await this.saveEntry(entry);
+
+    const poolKey = getPoolKey(ruleset, timeControl);
+    const others = (await this.getQueueEntries()).filter(
+      queued => queued.playerId !== player.playerId && getPoolKey(queued.ruleset, queued.timeControl) === poolKey
+    );
+
+    return {
+      success: true,
+      status: {
+        ruleset,
+        timeControl,
+        rating: Math.round(rating),
+        joinedAt: entry.joinedAt,
+        estimatedWaitMs: this.estimateWait(poolKey, others.length),
+        playersInQueue: others.length,
+      },
+    };
+  }
+
+  /**
+   * Take a player out of the queue. With a socket ID, only that socket's entry is removed,
+   * so a closing tab doesn't cancel a search started from another one.
+   */
+  static async leaveQueue(playerId: string, socketId?: string): Promise<boolean> {
+    const key = this.getEntryKey(playerId);
+    if (socketId) {
+      const entryJson = await RedisService.get(key);
+      if (!entryJson || (JSON.parse(entryJson) as QueueEntry).socketId !== socketId) {
+        return false;
+      }
+    }
+    await RedisService.removeFromSortedSet(QUEUED_PLAYERS_KEY, playerId);
+    return RedisService.del(key);
+  }
+
+  /**
+   * Pair everyone the current search windows allow and start their games
+   */
+  static async sweep(): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+
+    try {
+      const entries = await this.getQueueEntries();
+      if (entries.length < 2) {
+        return;
+      }
+
+      for (const [first, second] of findPairs(entries, Date.now())) {
+        await this.startMatch(first, second);
+      }
+    } catch (error) {
+      console.error('Matchmaking sweep failed:', error);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private static async startMatch(first: QueueEntry, second: QueueEntry): Promise<void> {
+    // Claim both entries; if either player left in the meantime, the other keeps their place
+    const [claimedFirst, claimedSecond] = await Promise.all([
+      RedisService.del(this.getEntryKey(first.playerId)),
+      RedisService.del(this.getEntryKey(second.playerId)),
+    ]);
+    if (!claimedFirst || !claimedSecond) {
+      const remaining = claimedFirst ? first : claimedSecond ? second : null;
+      if (remaining) {
+        await this.saveEntry(remaining);
+      }
+      return;
+    }
+    await Promise.all([
+      RedisService.removeFromSortedSet(QUEUED_PLAYERS_KEY, first.playerId),
+      RedisService.removeFromSortedSet(QUEUED_PLAYERS_KEY, second.playerId),
+    ]);
+
+    try {
+      const { gameId } = await LiveGameService.createGame({
+        gameType: 'human',
+        whitePlayerId: first.isAnonymous ? undefined : first.playerId,
+        anonymousUserId: first.isAnonymous ? first.playerId : undefined,
+        colorPreference: 'random',
+        ruleset: first.ruleset,
+        timeControl: first.timeControl,
+      });
+      await LiveGameService.joinGame(gameId, second.playerId, second.isAnonymous);
+
+      const now = Date.now();
+      this.recordWait(getPoolKey(first.ruleset, first.timeControl), now - first.joinedAt, now - second.joinedAt);
+
+      for (const player of [first, second]) {
+        this.io?.to(player.socketId).emit('matchmaking:match_found', { gameId });
+      }
+      console.log(`Matched ${first.playerId} and ${second.playerId} in game ${gameId}`);
+    } catch (error) {
+      console.error('Error starting matched game:', error);
+      for (const player of [first, second]) {
+        this.io?.to(player.socketId).emit('error', { message: 'Failed to start matched game' });
+      }
+    }
+  }
+
+  private static async saveEntry(entry: QueueEntry): Promise<void> {
+    await RedisService.setWithTTL(this.getEntryKey(entry.playerId), JSON.stringify(entry), QUEUE_ENTRY_TTL);
+    await RedisService.addToSortedSet(QUEUED_PLAYERS_KEY, entry.playerId, entry.joinedAt);
+  }
+
+  /**
+   * Everyone queued, longest waiting first. IDs whose entry has expired are dropped from the set.
+   */
+  private static async getQueueEntries(): Promise<QueueEntry[]> {
+    const playerIds = await RedisService.getSortedSetMembersUpTo(QUEUED_PLAYERS_KEY, Date.now());
+    const entries: QueueEntry[] = [];
+    for (const playerId of playerIds) {
+      const entryJson = await RedisService.get(this.getEntryKey(playerId));
+      if (entryJson) {
+        entries.push(JSON.parse(entryJson) as QueueEntry);
+      } else {
+        await RedisService.removeFromSortedSet(QUEUED_PLAYERS_KEY, playerId);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Average of the pool's recent waits; with no history, soon if someone is already waiting
+   */
+  private static estimateWait(poolKey: string, playersWaiting: number): number {
+    const waits = this.recentWaits.get(poolKey);
+    if (waits && waits.length > 0) {
+      return Math.round(waits.reduce((sum, wait) => sum + wait, 0) / waits.length);
+    }
+    return playersWaiting > 0 ? SWEEP_INTERVAL_MS : DEFAULT_ESTIMATED_WAIT_MS;
+  }
+
+  private static recordWait(poolKey: string, ...waits: number[]): void {
+    const recent = [...(this.recentWaits.get(poolKey) ?? []), ...waits];
+    this.recentWaits.set(poolKey, recent.slice(-RECENT_WAITS_KEPT));
+  }
+
+  private static getEntryKey(playerId: string): string {
+    return `${QUEUE_KEY_PREFIX}${playerId}`;
+  }
+}
+
+export default MatchmakingService;
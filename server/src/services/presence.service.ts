@@ -0,0 +1,187 @@
+import { BaseGameState, isGameActive } from '@gambit-chess/shared';
+import { RedisService } from './redis.service';
+
+const DEFAULT_GRACE_PERIOD_MS = 60 * 1000;
+const ABSENCE_KEY_PREFIX = 'presence:'; // presence:{gameId}:{playerId} -> when the player left, in epoch ms
+const GRACE_DEADLINES_KEY = 'presence_deadlines'; // Sorted set of {gameId}:{playerId}, scored by when their grace period ends
+const SWEEP_INTERVAL_MS = 5000;
+
+/**
+ * Service for tracking which players are connected to their live games
+ * - A player who leaves a human game in progress has a grace period to come back
+ * - When it runs out, GameEngineService.processAbandonment ends the game
+ * - Absences live in Redis, so a player can come back through any server process; the grace
+ *   timer runs in the process they left from and does nothing if the absence is gone by then
+ * - When each grace period ends is kept in Redis too, and every server sweeps it every few
+ *   seconds, so an absence still gets adjudicated if the process that timed it went away
+ */
+export class PresenceService {
+  private static timers = new Map<string, NodeJS.Timeout>(); // absence key -> grace timer started by this process
+  private static sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start sweeping Redis for grace periods that have run out
+   */
+  static initialize(): void {
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    console.log('PresenceService initialized');
+  }
+
+  static shutdown(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * How long a disconnected player has to come back, from RECONNECT_GRACE_PERIOD_MS
+   */
+  static getGracePeriodMs(): number {
+    const configured = Number(process.env.RECONNECT_GRACE_PERIOD_MS);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_GRACE_PERIOD_MS;
+  }
+
+  /**
+   * Start the grace period for a player who lost their connection to a game.
+   * Returns when the game will be adjudicated, or null if the game doesn't need them back
+   * (AI and practice games, games that are over or haven't started).
+   */
+  static async playerDisconnected(gameId: string, playerId: string, gameState: BaseGameState): Promise<number | null> {
+    if (gameState.gameType !== 'human' || !isGameActive(gameState)) {
+      return null;
+    }
+
+    const key = this.getKey(gameId, playerId);
+    const existing = await this.getAbsenceStart(key);
+    if (existing !== null) {
+      return existing + this.getGracePeriodMs();
+    }
+
+    const since = Date.now();
+    // The key outlives the grace period a little, so the timer can still find it
+    await RedisService.setWithTTL(key, String(since), Math.ceil(this.getGracePeriodMs() / 1000) + 60);
+    await RedisService.addToSortedSet(GRACE_DEADLINES_KEY, this.getMember(gameId, playerId), since + this.getGracePeriodMs());
+
+    const timer = setTimeout(() => this.handleGraceExpired(gameId, playerId, since), this.getGracePeriodMs());
+    timer.unref();
+    this.timers.set(key, timer);
+
+    console.log(`🔌 Player ${playerId} left game ${gameId}; grace period started`);
+    return since + this.getGracePeriodMs();
+  }
+
+  /**
+   * Cancel a player's grace period. Returns whether they had been away.
+   */
+  static async playerConnected(gameId: string, playerId: string): Promise<boolean> {
+    const key = this.getKey(gameId, playerId);
+    this.clearTimer(key);
+    await RedisService.removeFromSortedSet(GRACE_DEADLINES_KEY, this.getMember(gameId, playerId));
+    if (!(await RedisService.del(key))) {
+      return false;
+    }
+
+    console.log(`🔌 Player ${playerId} is back in game ${gameId}`);
+    return true;
+  }
+
+  /**
+   * When an absent player's grace period ends, or null if they're connected
+   */
+  static async getReconnectDeadline(gameId: string, playerId: string): Promise<number | null> {
+    const since = await this.getAbsenceStart(this.getKey(gameId, playerId));
+    return since !== null ? since + this.getGracePeriodMs() : null;
+  }
+
+  static async isAway(gameId: string, playerId: string): Promise<boolean> {
+    return RedisService.exists(this.getKey(gameId, playerId));
+  }
+
+  /**
+   * Drop all absences for a game that is over
+   */
+  static async clearGame(gameId: string): Promise<void> {
+    const keys = await RedisService.keys(this.getKey(gameId, '*'));
+    for (const key of keys) {
+      this.clearTimer(key);
+      await RedisService.del(key);
+      await RedisService.removeFromSortedSet(GRACE_DEADLINES_KEY, key.slice(ABSENCE_KEY_PREFIX.length));
+    }
+  }
+
+  /**
+   * Adjudicate the absences in Redis whose grace period has run out, whichever server's timer
+   * should have done it
+   */
+  static async sweep(): Promise<void> {
+    try {
+      const members = await RedisService.getSortedSetMembersUpTo(GRACE_DEADLINES_KEY, Date.now());
+      for (const member of members) {
+        // Game IDs are UUIDs, so the first colon ends the game's ID
+        const separator = member.indexOf(':');
+        const gameId = member.slice(0, separator);
+        const playerId = member.slice(separator + 1);
+
+        const since = await this.getAbsenceStart(this.getKey(gameId, playerId));
+        if (since === null) {
+          await RedisService.removeFromSortedSet(GRACE_DEADLINES_KEY, member);
+        } else {
+          await this.handleGraceExpired(gameId, playerId, since);
+        }
+      }
+    } catch (error) {
+      console.error('Error sweeping reconnection grace periods:', error);
+    }
+  }
+
+  private static async handleGraceExpired(gameId: string, playerId: string, since: number): Promise<void> {
+    const key = this.getKey(gameId, playerId);
+    this.timers.delete(key);
+
+    // The player may have come back through another process, which can't clear this timer
+    if ((await this.getAbsenceStart(key)) !== since) {
+      return;
+    }
+
+    // Keep the absence while adjudicating so an opponent who is also gone is seen as away
+    const GameEngineService = require('./game-engine.service').default;
+    try {
+      const result = await GameEngineService.processAbandonment(gameId, playerId);
+      if (result.error === GameEngineService.ABANDONMENT_IN_PROGRESS_ERROR) {
+        // Another server is adjudicating the game and may need this absence; the sweep comes back to it
+        return;
+      }
+      if (!result.success) {
+        console.log(`🔌 No abandonment applied in game ${gameId}: ${result.error}`);
+      }
+    } catch (error) {
+      console.error(`Error processing abandonment for game ${gameId}:`, error);
+    }
+    await RedisService.del(key);
+    await RedisService.removeFromSortedSet(GRACE_DEADLINES_KEY, this.getMember(gameId, playerId));
+  }
+
+  private static async getAbsenceStart(key: string): Promise<number | null> {
+    const since = await RedisService.get(key);
+    return since !== null ? Number(since) : null;
+  }
+
+  private static clearTimer(key: string): void {
+    const timer = this.timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(key);
+    }
+  }
+
+  private static getKey(gameId: string, playerId: string): string {
+    return `${ABSENCE_KEY_PREFIX}${this.getMember(gameId, playerId)}`;
+  }
+
+  private static getMember(gameId: string, playerId: string): string {
+    return `${gameId}:${playerId}`;
+  }
+}
+
+export default PresenceService;
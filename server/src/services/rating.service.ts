@@ -0,0 +1,248 @@
+import { BaseGameState, ConfigurationTemplate } from '@gambit-chess/shared';
+import { prisma } from '../index';
+import { Prisma } from '../generated/prisma';
+import { DEFAULT_GLICKO2_RATING, Glicko2Rating, updateGlicko2Rating } from '../game/rating';
+
+// Every built-in ruleset has its own ladder; custom configs vary too much to compare
+export const RATED_RULESETS: ConfigurationTemplate[] = ['standard', 'beginner', 'advanced', 'risky', 'attackerWinsTies'];
+
+// Lichess convention: a rating is provisional until its deviation falls to this
+const PROVISIONAL_DEVIATION = 110;
+const PROFILE_HISTORY_LIMIT = 20;
+
+// Rows of the Rating and RatingHistory models
+interface StoredRating extends Glicko2Rating {
+  id: string;
+  userId: string;
+  ruleset: string;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+interface StoredRatingHistory {
+  gameId: string;
+  ruleset: string;
+  rating: number;
+  change: number;
+  score: number;
+  opponentId: string;
+  createdAt: Date;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  username: string;
+  rating: number;
+  deviation: number;
+  gamesPlayed: number;
+  provisional: boolean;
+}
+
+export interface LadderRating {
+  ruleset: string;
+  rating: number;
+  deviation: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  provisional: boolean;
+}
+
+export interface RatingHistoryEntry {
+  gameId: string;
+  ruleset: string;
+  rating: number;
+  change: number;
+  score: number;
+  opponent: string;
+  createdAt: Date;
+}
+
+export interface PlayerProfile {
+  username: string;
+  memberSince: Date;
+  ratings: LadderRating[];
+  recentGames: RatingHistoryEntry[];
+}
+
+/**
+ * Service for Glicko-2 ratings on per-ruleset ladders
+ * - Only rated human games between two registered users count
+ * - Both players' updates and history entries are written in one transaction
+ */
+export class RatingService {
+  /**
+   * Whether games on this ruleset can be rated
+   */
+  static isRatedRuleset(ruleset?: ConfigurationTemplate): boolean {
+    return !!ruleset && RATED_RULESETS.includes(ruleset);
+  }
+
+  /**
+   * Update both players' ratings for an archived game.
+   * Unrated and anonymous games are ignored, as are games without a result (both players abandoned).
+   * A game one player abandoned is rated as a loss for them.
+   */
+  static async recordGameResult(gameId: string, gameState: BaseGameState): Promise<void> {
+    if (!gameState.rated || !this.isRatedRuleset(gameState.ruleset)) {
+      return;
+    }
+
+    const game = await prisma.game.findUnique({ where: { id: gameId } });
+    if (!game || !game.whitePlayerId || !game.blackPlayerId || !game.result) {
+      return;
+    }
+
+    const ruleset = gameState.ruleset!;
+    const whiteScore = game.result === 'WHITE_WINS' ? 1 : game.result === 'BLACK_WINS' ? 0 : 0.5;
+    const whitePlayerId: string = game.whitePlayerId;
+    const blackPlayerId: string = game.blackPlayerId;
+
+    // Both ratings are read in the transaction that writes them, so another of either player's
+    // games being rated at the same time can't overwrite this update. Each side is rated
+    // against the other's rating from before the game.
+    await prisma.$transaction(async tx => {
+      const white = await this.findOrCreateRating(tx, whitePlayerId, ruleset);
+      const black = await this.findOrCreateRating(tx, blackPlayerId, ruleset);
+      const newWhite = updateGlicko2Rating(white, [{ opponent: black, score: whiteScore }]);
+      const newBlack = updateGlicko2Rating(black, [{ opponent: white, score: 1 - whiteScore }]);
+
+      await this.writeRating(tx, gameId, white, newWhite, whiteScore, blackPlayerId);
+      await this.writeRating(tx, gameId, black, newBlack, 1 - whiteScore, whitePlayerId);
+    });
+
+    console.log(`Ratings updated for game ${gameId} on the ${ruleset} ladder`);
+  }
+
+  /**
+   * A player's current rating on a ladder; the default rating if they haven't played on it
+   */
+  static async getRating(userId: string, ruleset: ConfigurationTemplate): Promise<Glicko2Rating> {
+    const stored: StoredRating | null = await prisma.rating.findUnique({
+      where: { userId_ruleset: { userId, ruleset } },
+    });
+    if (!stored) {
+      return { ...DEFAULT_GLICKO2_RATING };
+    }
+    return { rating: stored.rating, deviation: stored.deviation, volatility: stored.volatility };
+  }
+
+  /**
+   * Top of a ladder, highest rating first
+   */
+  static async getLeaderboard(ruleset: ConfigurationTemplate, limit: number): Promise<LeaderboardEntry[]> {
+    const ratings = await prisma.rating.findMany({
+      where: { ruleset, gamesPlayed: { gt: 0 } },
+      orderBy: { rating: 'desc' },
+      take: limit,
+      include: { user: { select: { username: true } } },
+    });
+
+    return ratings.map((entry: StoredRating & { user: { username: string } }, index: number) => ({
+      rank: index + 1,
+      username: entry.user.username,
+      rating: Math.round(entry.rating),
+      deviation: Math.round(entry.deviation),
+      gamesPlayed: entry.gamesPlayed,
+      provisional: entry.deviation > PROVISIONAL_DEVIATION,
+    }));
+  }
+
+  /**
+   * Public profile: ratings on every ladder played and the latest rated games
+   */
+  static async getProfile(username: string): Promise<PlayerProfile | null> {
+    const user = await prisma.user.findUnique({
+      where: { username },
+      include: {
+        ratings: { orderBy: { gamesPlayed: 'desc' } },
+        ratingHistory: { orderBy: { createdAt: 'desc' }, take: PROFILE_HISTORY_LIMIT },
+      },
+    });
+    if (!user || !user.isVerified) {
+      return null;
+    }
+
+    const opponentIds: string[] = Array.from(new Set(user.ratingHistory.map((entry: StoredRatingHistory) => entry.opponentId)));
+    const opponents = await prisma.user.findMany({
+      where: { id: { in: opponentIds } },
+      select: { id: true, username: true },
+    });
+    const opponentNames = new Map<string, string>(opponents.map((opponent: { id: string; username: string }) => [opponent.id, opponent.username] as [string, string]));
+
+    return {
+      username: user.username,
+      memberSince: user.createdAt,
+      ratings: user.ratings.map((entry: StoredRating) => ({
+        ruleset: entry.ruleset,
+        rating: Math.round(entry.rating),
+        deviation: Math.round(entry.deviation),
+        gamesPlayed: entry.gamesPlayed,
+        wins: entry.wins,
+        losses: entry.losses,
+        draws: entry.draws,
+        provisional: entry.deviation > PROVISIONAL_DEVIATION,
+      })),
+      recentGames: user.ratingHistory.map((entry: StoredRatingHistory) => ({
+        gameId: entry.gameId,
+        ruleset: entry.ruleset,
+        rating: Math.round(entry.rating),
+        change: Math.round(entry.change),
+        score: entry.score,
+        opponent: opponentNames.get(entry.opponentId) ?? 'Deleted user',
+        createdAt: entry.createdAt,
+      })),
+    };
+  }
+
+  private static async findOrCreateRating(tx: Prisma.TransactionClient, userId: string, ruleset: string): Promise<StoredRating> {
+    return tx.rating.upsert({
+      where: { userId_ruleset: { userId, ruleset } },
+      update: {},
+      create: { userId, ruleset, ...DEFAULT_GLICKO2_RATING },
+    });
+  }
+
+  /**
+   * Rating update and history entry for one player, in the game's transaction
+   */
+  private static async writeRating(
+    tx: Prisma.TransactionClient,
+    gameId: string,
+    before: StoredRating,
+    after: Glicko2Rating,
+    score: number,
+    opponentId: string
+  ): Promise<void> {
+    await tx.rating.update({
+      where: { id: before.id },
+      data: {
+        rating: after.rating,
+        deviation: after.deviation,
+        volatility: after.volatility,
+        gamesPlayed: { increment: 1 },
+        wins: { increment: score === 1 ? 1 : 0 },
+        losses: { increment: score === 0 ? 1 : 0 },
+        draws: { increment: score === 0.5 ? 1 : 0 },
+      },
+    });
+    await tx.ratingHistory.create({
+      data: {
+        userId: before.userId,
+        gameId,
+        ruleset: before.ruleset,
+        rating: after.rating,
+        deviation: after.deviation,
+        volatility: after.volatility,
+        change: after.rating - before.rating,
+        score,
+        opponentId,
+      },
+    });
+  }
+}
+
+export default RatingService;
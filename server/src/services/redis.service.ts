@@ -1,8 +1,10 @@
+import { randomUUID } from 'crypto';
 import { createClient, RedisClientType } from 'redis';
 
 const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
 let client: RedisClientType | null = null;
 let isConnecting = false;
+let subscriber: RedisClientType | null = null;
 
 async function getRedisClient(): Promise<RedisClientType> {
   if (client && client.isOpen) {
@@ -48,8 +50,27 @@ async function getRedisClient(): Promise<RedisClientType> {
   }
 }
 
+/**
+ * A connection in subscriber mode can't run other commands, so pub/sub gets its own.
+ */
+async function getSubscriberClient(): Promise<RedisClientType> {
+  if (subscriber && subscriber.isOpen) {
+    return subscriber;
+  }
+
+  const redis = await getRedisClient();
+  const newSubscriber = redis.duplicate();
+  newSubscriber.on('error', (err) => console.error('Redis Subscriber Error', err));
+  await newSubscriber.connect();
+  subscriber = newSubscriber as RedisClientType;
+  return subscriber;
+}
+
 // Ensure graceful shutdown
 process.on('SIGINT', async () => {
+  if (subscriber && subscriber.isOpen) {
+    await subscriber.quit();
+  }
   if (client && client.isOpen) {
     console.log('Closing Redis connection...');
     await client.quit();
@@ -76,6 +97,118 @@ async function setWithTTL(key: string, value: string, ttlSeconds: number): Promi
   }
 }
 
+/**
+ * Sets a key only if it doesn't exist yet (SET NX), with an expiration time (TTL).
+ * @param key The key to set.
+ * @param value The value to store.
+ * @param ttlSeconds Time-to-live in seconds.
+ * @returns True if the key was set, false if it already existed.
+ */
+async function setIfAbsent(key: string, value: string, ttlSeconds: number): Promise<boolean> {
+  try {
+    const redis = await getRedisClient();
+    const result = await redis.set(key, value, { EX: ttlSeconds, NX: true });
+    return result === 'OK';
+  } catch (error) {
+    console.error(`Redis SET NX error for key ${key}:`, error);
+    throw error;
+  }
+}
+
+// Compares the `version` field of the JSON stored at KEYS[1] (0 when missing) with ARGV[3];
+// on a match, ARGV[4..] are appended to the list at KEYS[2], which gets the same TTL
+const SET_IF_VERSION_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local version = 0
+if current then
+  version = tonumber(cjson.decode(current).version) or 0
+end
+if version ~= tonumber(ARGV[3]) then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+if KEYS[2] then
+  for i = 4, #ARGV do
+    redis.call('RPUSH', KEYS[2], ARGV[i])
+  end
+  redis.call('EXPIRE', KEYS[2], ARGV[2])
+end
+return 1
+`;
+
+/**
+ * Atomically replaces a JSON document only if it is still at the expected version.
+ * @param key The key to set.
+ * @param value The new JSON document, carrying its own (bumped) version.
+ * @param ttlSeconds Time-to-live in seconds.
+ * @param expectedVersion The `version` the stored document must have; 0 matches a missing key.
+ * @param append Optional list to append to in the same step, only if the value is written.
+ * @returns True if the value was written, false if the stored version was different.
+ */
+async function setIfVersion(
+  key: string,
+  value: string,
+  ttlSeconds: number,
+  expectedVersion: number,
+  append?: { key: string; values: string[] }
+): Promise<boolean> {
+  try {
+    const redis = await getRedisClient();
+    const result = await redis.eval(SET_IF_VERSION_SCRIPT, {
+      keys: append ? [key, append.key] : [key],
+      arguments: [value, String(ttlSeconds), String(expectedVersion), ...(append?.values ?? [])],
+    });
+    return result === 1;
+  } catch (error) {
+    console.error(`Redis SET IF VERSION error for key ${key}:`, error);
+    throw error;
+  }
+}
+
+// Deletes KEYS[1] only while it still holds the token ARGV[1], so an expired lock taken by
+// another holder isn't released by mistake
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Takes a lock shared by every server (SET NX PX) that expires on its own if never released.
+ * @param key The lock's key.
+ * @param ttlMs How long the lock is held at most, in milliseconds.
+ * @returns A token to release the lock with, or null if it is already held.
+ */
+async function acquireLock(key: string, ttlMs: number): Promise<string | null> {
+  try {
+    const redis = await getRedisClient();
+    const token = randomUUID();
+    const result = await redis.set(key, token, { PX: ttlMs, NX: true });
+    return result === 'OK' ? token : null;
+  } catch (error) {
+    console.error(`Redis lock error for key ${key}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Releases a lock taken with acquireLock, unless it has expired and been taken by someone else.
+ * @param key The lock's key.
+ * @param token The token acquireLock returned.
+ * @returns True if the lock was released.
+ */
+async function releaseLock(key: string, token: string): Promise<boolean> {
+  try {
+    const redis = await getRedisClient();
+    const result = await redis.eval(RELEASE_LOCK_SCRIPT, { keys: [key], arguments: [token] });
+    return result === 1;
+  } catch (error) {
+    console.error(`Redis unlock error for key ${key}:`, error);
+    return false; // The lock expires on its own
+  }
+}
+
 /**
  * Gets the value associated with a key from Redis.
  * @param key The key to retrieve.
@@ -138,11 +271,217 @@ async function exists(key: string): Promise<boolean> {
   }
 }
 
+/**
+ * Sets a new expiration time on a key.
+ * @param key The key to expire.
+ * @param ttlSeconds Time-to-live in seconds.
+ */
+async function expire(key: string, ttlSeconds: number): Promise<void> {
+  try {
+    const redis = await getRedisClient();
+    await redis.expire(key, ttlSeconds);
+  } catch (error) {
+    console.error(`Redis EXPIRE error for key ${key}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Removes the expiration time from a key so it is kept until deleted.
+ * @param key The key to keep.
+ */
+async function persist(key: string): Promise<void> {
+  try {
+    const redis = await getRedisClient();
+    await redis.persist(key);
+  } catch (error) {
+    console.error(`Redis PERSIST error for key ${key}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Adds a member to a set and (re)sets the set's expiration time.
+ * @param key The set's key.
+ * @param member The member to add.
+ * @param ttlSeconds Time-to-live of the whole set in seconds.
+ */
+async function addToSet(key: string, member: string, ttlSeconds: number): Promise<void> {
+  try {
+    const redis = await getRedisClient();
+    await redis.sAdd(key, member);
+    await redis.expire(key, ttlSeconds);
+  } catch (error) {
+    console.error(`Redis SADD error for key ${key}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Removes a member from a set; Redis deletes the set once it is empty.
+ * @param key The set's key.
+ * @param member The member to remove.
+ * @returns True if the member was in the set.
+ */
+async function removeFromSet(key: string, member: string): Promise<boolean> {
+  try {
+    const redis = await getRedisClient();
+    const result = await redis.sRem(key, member);
+    return result > 0;
+  } catch (error) {
+    console.error(`Redis SREM error for key ${key}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Gets all members of a set.
+ * @param key The set's key.
+ * @returns The members, or an empty array if the set doesn't exist or an error occurs.
+ */
+async function getSetMembers(key: string): Promise<string[]> {
+  try {
+    const redis = await getRedisClient();
+    return await redis.sMembers(key);
+  } catch (error) {
+    console.error(`Redis SMEMBERS error for key ${key}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Adds a member to a sorted set, or moves it to a new score.
+ * @param key The sorted set's key.
+ * @param member The member to add.
+ * @param score The member's score.
+ */
+async function addToSortedSet(key: string, member: string, score: number): Promise<void> {
+  try {
+    const redis = await getRedisClient();
+    await redis.zAdd(key, { score, value: member });
+  } catch (error) {
+    console.error(`Redis ZADD error for key ${key}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Removes a member from a sorted set; Redis deletes the set once it is empty.
+ * @param key The sorted set's key.
+ * @param member The member to remove.
+ * @returns True if the member was in the set.
+ */
+async function removeFromSortedSet(key: string, member: string): Promise<boolean> {
+  try {
+    const redis = await getRedisClient();
+    const result = await redis.zRem(key, member);
+    return result > 0;
+  } catch (error) {
+    console.error(`Redis ZREM error for key ${key}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Gets the members of a sorted set whose score is at most the given one, lowest score first.
+ * @param key The sorted set's key.
+ * @param maxScore The highest score to include.
+ * @returns The members, or an empty array if the set doesn't exist or an error occurs.
+ */
+async function getSortedSetMembersUpTo(key: string, maxScore: number): Promise<string[]> {
+  try {
+    const redis = await getRedisClient();
+    return await redis.zRangeByScore(key, '-inf', maxScore);
+  } catch (error) {
+    console.error(`Redis ZRANGEBYSCORE error for key ${key}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Appends a value to a list and (re)sets the list's expiration time.
+ * @param key The list's key.
+ * @param value The value to append.
+ * @param ttlSeconds Time-to-live of the whole list in seconds.
+ */
+async function appendToList(key: string, value: string, ttlSeconds: number): Promise<void> {
+  try {
+    const redis = await getRedisClient();
+    await redis.rPush(key, value);
+    await redis.expire(key, ttlSeconds);
+  } catch (error) {
+    console.error(`Redis RPUSH error for key ${key}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Gets every value of a list, oldest first.
+ * @param key The list's key.
+ * @returns The values, or an empty array if the list doesn't exist or an error occurs.
+ */
+async function getList(key: string): Promise<string[]> {
+  try {
+    const redis = await getRedisClient();
+    return await redis.lRange(key, 0, -1);
+  } catch (error) {
+    console.error(`Redis LRANGE error for key ${key}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Publishes a message to every server subscribed to a channel.
+ * @param channel The channel to publish on.
+ * @param message The message to send.
+ */
+async function publish(channel: string, message: string): Promise<void> {
+  try {
+    const redis = await getRedisClient();
+    await redis.publish(channel, message);
+  } catch (error) {
+    console.error(`Redis PUBLISH error for channel ${channel}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Subscribes to a channel.
+ * @param channel The channel to listen on.
+ * @param listener Called with each message published on the channel.
+ * @returns A function that removes the subscription.
+ */
+async function subscribe(channel: string, listener: (message: string) => void): Promise<() => Promise<void>> {
+  const redisSubscriber = await getSubscriberClient();
+  await redisSubscriber.subscribe(channel, listener);
+  return async () => {
+    if (redisSubscriber.isOpen) {
+      await redisSubscriber.unsubscribe(channel, listener);
+    }
+  };
+}
+
 export const RedisService = {
   setWithTTL,
+  setIfAbsent,
+  setIfVersion,
+  acquireLock,
+  releaseLock,
   get,
   del,
   keys,
   exists,
+  expire,
+  persist,
+  addToSet,
+  removeFromSet,
+  getSetMembers,
+  addToSortedSet,
+  removeFromSortedSet,
+  getSortedSetMembersUpTo,
+  appendToList,
+  getList,
+  publish,
+  subscribe,
   getRedisClient // Expose client getter if needed elsewhere (use cautiously)
 }; 
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { Namespace } from 'socket.io';
+import {
+  ClusterAdapterOptions,
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  ServerId,
+} from 'socket.io-adapter';
+import { RedisService } from '../services/redis.service';
+
+const CHANNEL_PREFIX = 'socket.io';
+
+/**
+ * Socket.IO adapter that links every server process through Redis pub/sub
+ * - Room broadcasts and emits to socket IDs reach sockets connected to any process
+ * - fetchSockets() and serverSideEmit() wait for the answers of the other processes
+ * - Packets are sent as JSON, so events must not carry binary payloads
+ */
+class RedisPubSubAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly channel: string;
+  private unsubscribers: Array<() => Promise<void>> = [];
+
+  constructor(nsp: Namespace, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+    this.channel = `${CHANNEL_PREFIX}#${nsp.name}#`;
+  }
+
+  /**
+   * Subscribe before announcing this process, so the other processes' replies aren't missed
+   */
+  async start(): Promise<void> {
+    this.unsubscribers = await Promise.all([
+      RedisService.subscribe(this.channel, (message: string) => {
+        this.onMessage(JSON.parse(message) as ClusterMessage);
+      }),
+      RedisService.subscribe(this.getResponseChannel(this.uid), (message: string) => {
+        this.onResponse(JSON.parse(message) as ClusterResponse);
+      }),
+    ]);
+    this.init();
+  }
+
+  close(): void {
+    super.close();
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe().catch(error => console.error('Error closing Socket.IO cluster subscription:', error));
+    }
+    this.unsubscribers = [];
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    await RedisService.publish(this.channel, JSON.stringify(message));
+    return ''; // Pub/sub keeps no history, so there is no offset to recover missed packets from
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    await RedisService.publish(this.getResponseChannel(requesterUid), JSON.stringify(response));
+  }
+
+  private getResponseChannel(uid: ServerId): string {
+    return `${this.channel}${uid}#`;
+  }
+}
+
+/**
+ * Adapter factory for io.adapter(); every process of the deployment must use it
+ */
+export const createClusterAdapter = (opts: ClusterAdapterOptions = {}) => {
+  // Socket.IO calls this with `new`, so it can't be an arrow function
+  return function (nsp: Namespace) {
+    const adapter = new RedisPubSubAdapter(nsp, opts);
+    adapter.start().catch(error => console.error(`Failed to join the Socket.IO cluster for namespace ${nsp.name}:`, error));
+    return adapter;
+  };
+};
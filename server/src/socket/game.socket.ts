@@ -4,7 +4,9 @@ import LiveGameService from '../services/live-game.service';
 import AnonymousSessionService from '../services/anonymous-session.service';
 import GameEngineService from '../services/game-engine.service';
 import GameEventTrackerService from '../services/game-event-tracker.service';
-import { GameEventType, GameEvent, MoveAction } from '@gambit-chess/shared';
+import MatchmakingService from '../services/matchmaking.service';
+import PresenceService from '../services/presence.service';
+import { GameEventType, GameEvent, MoveAction, PracticeNavigation } from '@gambit-chess/shared';
 import { Square } from 'chess.js';
 
 export interface AuthenticatedSocket extends Socket {
@@ -79,6 +81,76 @@ export const socketAuthMiddleware = async (socket: AuthenticatedSocket, next: (e
   next(new Error('Authentication required - provide either JWT token or valid anonymous session token'));
 };
 
+/**
+ * Room for a game's spectators, who get their own filtered state
+ */
+const getSpectatorRoom = (gameId: string): string => `game:${gameId}:spectators`;
+
+/**
+ * Both rooms of a game: players in `game:{id}`, spectators only in their own room
+ */
+const getGameRooms = (gameId: string): string[] => [`game:${gameId}`, getSpectatorRoom(gameId)];
+
+/**
+ * How many spectators a game has, across every server process
+ */
+const countSpectators = async (io: SocketIOServer, gameId: string, leavingSocketId?: string): Promise<number> => {
+  const spectators = await io.in(getSpectatorRoom(gameId)).fetchSockets();
+  return spectators.filter(spectator => spectator.id !== leavingSocketId).length;
+};
+
+/**
+ * Tell everyone in a game how many spectators are watching
+ */
+const broadcastSpectatorCount = async (io: SocketIOServer, gameId: string, leavingSocketId?: string) => {
+  const count = await countSpectators(io, gameId, leavingSocketId);
+  io.to(getGameRooms(gameId)).emit('game:spectators', { gameId, count });
+};
+
+/**
+ * Answer a game action sent with an ID that failed. Naming the ID tells the client the action is
+ * settled and need not be resent, unless the same action is still running and will answer itself.
+ */
+const emitActionError = (socket: AuthenticatedSocket, message: string, actionId?: string) => {
+  const settled = actionId && message !== GameEngineService.ACTION_IN_PROGRESS_ERROR;
+  socket.emit('error', settled ? { message, actionId } : { message });
+};
+
+/**
+ * Start a player's reconnection grace period once they have no socket left on the game
+ */
+const markPlayerAway = async (io: SocketIOServer, socket: AuthenticatedSocket, gameId: string, userId: string) => {
+  const GameEventsService = require('../services/game-events.service').GameEventsService;
+  const socketIds: string[] = await GameEventsService.getSocketIdsForPlayer(userId, gameId);
+  const otherSockets = socketIds.filter(socketId => socketId !== socket.id);
+  if (otherSockets.length > 0) {
+    return;
+  }
+
+  const gameState = await LiveGameService.getGameState(gameId);
+  if (!gameState) {
+    return;
+  }
+  const color = gameState.whitePlayer.id === userId ? 'w' : gameState.blackPlayer.id === userId ? 'b' : null;
+  if (!color) {
+    return;
+  }
+
+  // Nobody is left to take back the end of a practice game, so it can be archived now
+  if (gameState.gameType === 'practice') {
+    await LiveGameService.archiveLeftPracticeGame(gameId);
+    return;
+  }
+
+  const reconnectDeadline = await PresenceService.playerDisconnected(gameId, userId, gameState);
+  io.to(getGameRooms(gameId)).except(socket.id).emit('game:player_disconnected', {
+    playerId: socket.user?.username || 'Anonymous',
+    socketId: socket.id,
+    color,
+    reconnectDeadline,
+  });
+};
+
 /**
  * Handle game-related Socket.IO events
  */
@@ -106,12 +178,31 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
         return;
       }
 
-      // Check if user is authorized to join this game
+      // Anyone else joins as a read-only spectator
       const isPlayer = gameState.whitePlayer.id === userId || gameState.blackPlayer.id === userId;
       if (!isPlayer) {
-        console.log(`❌ User ${userId} not authorized for game ${gameId}. White: ${gameState.whitePlayer.id}, Black: ${gameState.blackPlayer.id}`);
-        // Could allow spectators here if desired
-        socket.emit('error', { message: 'You are not a player in this game' });
+        if (gameState.gameType === 'practice') {
+          socket.emit('error', { message: 'Practice games cannot be watched' });
+          return;
+        }
+
+        // Spectators stay out of the players' room, so every event reaches them filtered
+        socket.join(getSpectatorRoom(gameId));
+
+        const { getSpectatorGameState } = require('../utils/game-state-filter');
+        socket.emit('game:state', {
+          ...getSpectatorGameState(gameState),
+          chess: {
+            fen: gameState.chess.fen(),
+            turn: gameState.chess.turn(),
+            history: gameState.chess.history(),
+            pgn: gameState.chess.pgn(),
+          },
+        });
+        socket.emit('game:spectating', { gameId });
+        await broadcastSpectatorCount(io, gameId);
+
+        console.log(`👀 User ${userId} is spectating game ${gameId}`);
         return;
       }
 
@@ -122,7 +213,7 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
       
       // 🔐 PRIVACY FIX: Register player-socket mapping for private messages
       const GameEventsService = require('../services/game-events.service').GameEventsService;
-      GameEventsService.registerPlayerSocket(userId, socket.id, gameId);
+      await GameEventsService.registerPlayerSocket(userId, socket.id, gameId);
       
       // 🔐 PRIVACY FIX: Send filtered game state to the joining player
       const { getGameStateForPlayer } = require('../utils/game-state-filter');
@@ -140,11 +231,30 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
       socket.emit('game:state', serializableState);
       console.log(`📤🔐 Sent filtered game state to user ${userId}. FEN: ${gameState.chess.fen()}`);
       
-      // Notify other players in the room
-      socket.to(`game:${gameId}`).emit('game:player_connected', {
+      socket.emit('game:spectators', {
+        gameId,
+        count: await countSpectators(io, gameId),
+      });
+      
+      // Notify other players in the room, cancelling any reconnection grace period
+      const reconnected = await PresenceService.playerConnected(gameId, userId);
+      socket.to(getGameRooms(gameId)).emit('game:player_connected', {
         playerId: socket.user?.username || 'Anonymous',
         socketId: socket.id,
+        color: gameState.whitePlayer.id === userId ? 'w' : 'b',
+        reconnected,
       });
+      
+      // Let the joining player know if their opponent is the one who is away
+      const opponent = gameState.whitePlayer.id === userId ? gameState.blackPlayer : gameState.whitePlayer;
+      const opponentDeadline = await PresenceService.getReconnectDeadline(gameId, opponent.id);
+      if (opponentDeadline) {
+        socket.emit('game:player_disconnected', {
+          playerId: 'Opponent',
+          color: opponent.color,
+          reconnectDeadline: opponentDeadline,
+        });
+      }
 
       console.log(`User ${userId} joined game room ${gameId}`);
     } catch (error) {
@@ -158,13 +268,23 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
    */
   socket.on('game:leave', (data: { gameId: string }) => {
     const { gameId } = data;
-    socket.leave(`game:${gameId}`);
+    const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
     
-    // Notify other players in the room
-    socket.to(`game:${gameId}`).emit('game:player_disconnected', {
-      playerId: socket.user?.username || 'Anonymous',
-      socketId: socket.id,
-    });
+    if (socket.rooms.has(getSpectatorRoom(gameId))) {
+      socket.leave(getSpectatorRoom(gameId));
+      broadcastSpectatorCount(io, gameId).catch(error => {
+        console.error('Error broadcasting spectator count:', error);
+      });
+    } else if (userId && socket.rooms.has(`game:${gameId}`)) {
+      // Players who leave the game page get the same grace period as a lost connection
+      const GameEventsService = require('../services/game-events.service').GameEventsService;
+      markPlayerAway(io, socket, gameId, userId)
+        .then(() => GameEventsService.unregisterPlayerSocket(userId, socket.id, gameId))
+        .catch(error => {
+          console.error('Error marking player away:', error);
+        });
+    }
+    socket.leave(`game:${gameId}`);
 
     console.log(`User ${socket.user?.userId || socket.anonymousSession?.sessionId} left game room ${gameId}`);
   });
@@ -186,7 +306,7 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
       const result = await GameEngineService.processMove(gameId, userId, move);
       
       if (!result.success) {
-        socket.emit('error', { message: result.error || 'Failed to process move' });
+        emitActionError(socket, result.error || 'Failed to process move', move?.actionId);
         return;
       }
 
@@ -199,16 +319,16 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
       console.log(`Move processed successfully in game ${gameId} by user ${userId}:`, move);
     } catch (error) {
       console.error('Error processing move:', error);
-      socket.emit('error', { message: 'Failed to process move' });
+      emitActionError(socket, 'Failed to process move', data?.move?.actionId);
     }
   });
 
   /**
    * Handle battle points allocation during duels
    */
-  socket.on('game:duel_allocation', async (data: { gameId: string; allocation: number }) => {
+  socket.on('game:duel_allocation', async (data: { gameId: string; allocation: number; actionId?: string }) => {
     try {
-      const { gameId, allocation } = data;
+      const { gameId, allocation, actionId } = data;
       const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
 
       if (!userId) {
@@ -217,10 +337,10 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
       }
 
       // Process the duel allocation using the Game Engine Service
-      const result = await GameEngineService.processDuelAllocation(gameId, userId, allocation);
+      const result = await GameEngineService.processDuelAllocation(gameId, userId, allocation, actionId);
       
       if (!result.success) {
-        socket.emit('error', { message: result.error || 'Failed to process duel allocation' });
+        emitActionError(socket, result.error || 'Failed to process duel allocation', actionId);
         return;
       }
 
@@ -233,16 +353,16 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
       console.log(`Duel allocation processed in game ${gameId} by user ${userId}: ${allocation} BP`);
     } catch (error) {
       console.error('Error processing duel allocation:', error);
-      socket.emit('error', { message: 'Failed to process duel allocation' });
+      emitActionError(socket, 'Failed to process duel allocation', data?.actionId);
     }
   });
 
   /**
    * Handle tactical retreat decisions
    */
-  socket.on('game:tactical_retreat', async (data: { gameId: string; retreatSquare: string }) => {
+  socket.on('game:tactical_retreat', async (data: { gameId: string; retreatSquare: string; actionId?: string }) => {
     try {
-      const { gameId, retreatSquare } = data;
+      const { gameId, retreatSquare, actionId } = data;
       const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
 
       if (!userId) {
@@ -251,10 +371,10 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
       }
 
       // Process the tactical retreat using the Game Engine Service
-      const result = await GameEngineService.processTacticalRetreat(gameId, userId, retreatSquare as Square);
+      const result = await GameEngineService.processTacticalRetreat(gameId, userId, retreatSquare as Square, { actionId });
       
       if (!result.success) {
-        socket.emit('error', { message: result.error || 'Failed to process tactical retreat' });
+        emitActionError(socket, result.error || 'Failed to process tactical retreat', actionId);
         return;
       }
 
@@ -268,10 +388,160 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
       console.log(`Tactical retreat processed in game ${gameId} by user ${userId} to ${retreatSquare}`);
     } catch (error) {
       console.error('Error processing tactical retreat:', error);
-      socket.emit('error', { message: 'Failed to process tactical retreat' });
+      emitActionError(socket, 'Failed to process tactical retreat', data?.actionId);
     }
   });
 
+  /**
+   * Handle resignation; the opponent wins
+   */
+  socket.on('game:resign', async (data: { gameId: string }) => {
+    try {
+      const { gameId } = data;
+      const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
+
+      if (!userId) {
+        socket.emit('error', { message: 'User identification required' });
+        return;
+      }
+
+      const result = await GameEngineService.processResignation(gameId, userId);
+      
+      if (!result.success) {
+        socket.emit('error', { message: result.error || 'Failed to resign' });
+        return;
+      }
+
+      socket.emit('game:resign_result', { success: true });
+
+      console.log(`Resignation processed in game ${gameId} by user ${userId}`);
+    } catch (error) {
+      console.error('Error processing resignation:', error);
+      socket.emit('error', { message: 'Failed to resign' });
+    }
+  });
+
+  /**
+   * Handle draw offers to the opponent
+   */
+  socket.on('game:offer_draw', async (data: { gameId: string }) => {
+    try {
+      const { gameId } = data;
+      const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
+
+      if (!userId) {
+        socket.emit('error', { message: 'User identification required' });
+        return;
+      }
+
+      const result = await GameEngineService.processDrawOffer(gameId, userId);
+      
+      if (!result.success) {
+        socket.emit('error', { message: result.error || 'Failed to offer draw' });
+        return;
+      }
+
+      socket.emit('game:offer_draw_result', { success: true });
+
+      console.log(`Draw offer processed in game ${gameId} by user ${userId}`);
+    } catch (error) {
+      console.error('Error processing offer draw:', error);
+      socket.emit('error', { message: 'Failed to offer draw' });
+    }
+  });
+
+  /**
+   * Handle accepting the opponent's draw offer
+   */
+  socket.on('game:accept_draw', async (data: { gameId: string }) => {
+    try {
+      const { gameId } = data;
+      const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
+
+      if (!userId) {
+        socket.emit('error', { message: 'User identification required' });
+        return;
+      }
+
+      const result = await GameEngineService.processDrawResponse(gameId, userId, true);
+      
+      if (!result.success) {
+        socket.emit('error', { message: result.error || 'Failed to accept draw' });
+        return;
+      }
+
+      socket.emit('game:accept_draw_result', { success: true });
+
+      console.log(`Draw acceptance processed in game ${gameId} by user ${userId}`);
+    } catch (error) {
+      console.error('Error processing accept draw:', error);
+      socket.emit('error', { message: 'Failed to accept draw' });
+    }
+  });
+
+  /**
+   * Handle declining the opponent's draw offer
+   */
+  socket.on('game:decline_draw', async (data: { gameId: string }) => {
+    try {
+      const { gameId } = data;
+      const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
+
+      if (!userId) {
+        socket.emit('error', { message: 'User identification required' });
+        return;
+      }
+
+      const result = await GameEngineService.processDrawResponse(gameId, userId, false);
+      
+      if (!result.success) {
+        socket.emit('error', { message: result.error || 'Failed to decline draw' });
+        return;
+      }
+
+      socket.emit('game:decline_draw_result', { success: true });
+
+      console.log(`Draw decline processed in game ${gameId} by user ${userId}`);
+    } catch (error) {
+      console.error('Error processing decline draw:', error);
+      socket.emit('error', { message: 'Failed to decline draw' });
+    }
+  });
+
+  /**
+   * Handle practice takebacks: undo and redo walk the current line, branch goes to any position
+   * of the practice tree
+   */
+  const handlePracticeNavigation = async (navigation: PracticeNavigation, data: { gameId: string; nodeId?: string }) => {
+    try {
+      const { gameId, nodeId } = data;
+      const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
+
+      if (!userId) {
+        socket.emit('error', { message: 'User identification required' });
+        return;
+      }
+
+      const result = await GameEngineService.processPracticeNavigation(gameId, userId, navigation, nodeId);
+      
+      if (!result.success) {
+        socket.emit('error', { message: result.error || `Failed to ${navigation}` });
+        return;
+      }
+
+      socket.emit(`game:${navigation}_result`, { success: true });
+
+      console.log(`Practice ${navigation} processed in game ${gameId} by user ${userId}`);
+    } catch (error) {
+      console.error(`Error processing practice ${navigation}:`, error);
+      socket.emit('error', { message: `Failed to ${navigation}` });
+    }
+  };
+
+  socket.on('game:undo', (data: { gameId: string }) => handlePracticeNavigation('undo', data));
+  socket.on('game:redo', (data: { gameId: string }) => handlePracticeNavigation('redo', data));
+  socket.on('game:branch', (data: { gameId: string; nodeId: string }) => handlePracticeNavigation('branch', data));
+
   /**
    * Handle chat messages in game
    */
@@ -279,8 +549,14 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
     const { gameId, message } = data;
     const username = socket.user?.username || 'Anonymous';
     
-    // Broadcast message to all players in the game room
-    io.to(`game:${gameId}`).emit('game:chat_message', {
+    // Spectators are read-only
+    if (socket.rooms.has(getSpectatorRoom(gameId))) {
+      socket.emit('error', { message: 'Spectators cannot chat' });
+      return;
+    }
+    
+    // Broadcast message to the players and spectators of the game
+    io.to(getGameRooms(gameId)).emit('game:chat_message', {
       username,
       message,
       timestamp: new Date().toISOString(),
@@ -313,9 +589,10 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
         return;
       }
 
-      // Send current game state - use serialized format for consistency
+      // 🔐 Send the player's own view, as on joining, so the opponent's allocation stays hidden
+      const { getGameStateForPlayer } = require('../utils/game-state-filter');
       const serializableState = {
-        ...gameState,
+        ...getGameStateForPlayer(gameState, userId),
         chess: {
           fen: gameState.chess.fen(),
           turn: gameState.chess.turn(),
@@ -373,6 +650,83 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
     }
   });
 
+  /**
+   * Join the matchmaking queue for a ruleset and time control
+   */
+  socket.on('matchmaking:join', async (data: { ruleset?: string; timeControl?: unknown }) => {
+    try {
+      const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
+
+      if (!userId) {
+        socket.emit('error', { message: 'User identification required' });
+        return;
+      }
+
+      const result = await MatchmakingService.joinQueue(
+        { playerId: userId, isAnonymous: !socket.user, socketId: socket.id },
+        data || {}
+      );
+
+      if (!result.success) {
+        socket.emit('error', { message: result.error });
+        return;
+      }
+
+      socket.emit('matchmaking:queued', result.status);
+      console.log(`User ${userId} joined the matchmaking queue for ${result.status!.ruleset}`);
+    } catch (error) {
+      console.error('Error joining matchmaking queue:', error);
+      socket.emit('error', { message: 'Failed to join matchmaking queue' });
+    }
+  });
+
+  /**
+   * Leave the matchmaking queue
+   */
+  socket.on('matchmaking:leave', async () => {
+    try {
+      const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
+
+      if (!userId) {
+        socket.emit('error', { message: 'User identification required' });
+        return;
+      }
+
+      await MatchmakingService.leaveQueue(userId);
+      socket.emit('matchmaking:left', {});
+    } catch (error) {
+      console.error('Error leaving matchmaking queue:', error);
+      socket.emit('error', { message: 'Failed to leave matchmaking queue' });
+    }
+  });
+
+  /**
+   * Update spectator counts while the socket's rooms are still known
+   */
+  socket.on('disconnecting', () => {
+    const userId = socket.user?.userId || socket.anonymousSession?.sessionId;
+    const spectatedGames = new Set<string>();
+    
+    for (const room of socket.rooms) {
+      const match = room.match(/^game:(.+):spectators$/);
+      if (match) {
+        spectatedGames.add(match[1]);
+        broadcastSpectatorCount(io, match[1], socket.id).catch(error => {
+          console.error('Error broadcasting spectator count:', error);
+        });
+      }
+    }
+    
+    for (const room of socket.rooms) {
+      const match = room.match(/^game:([^:]+)$/);
+      if (match && userId && !spectatedGames.has(match[1])) {
+        markPlayerAway(io, socket, match[1], userId).catch(error => {
+          console.error('Error marking disconnected player away:', error);
+        });
+      }
+    }
+  });
+
   /**
    * Handle disconnection
    */
@@ -382,7 +736,16 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
     
     // 🔐 PRIVACY FIX: Clean up player-socket mappings on disconnect
     const GameEventsService = require('../services/game-events.service').GameEventsService;
-    GameEventsService.unregisterSocket(socket.id);
+    GameEventsService.unregisterSocket(socket.id).catch((error: unknown) => {
+      console.error('Error cleaning up socket mappings:', error);
+    });
+    
+    // A player who closes the lobby stops searching
+    if (userId) {
+      MatchmakingService.leaveQueue(userId, socket.id).catch(error => {
+        console.error('Error removing disconnected player from matchmaking queue:', error);
+      });
+    }
     
     // The socket will automatically leave all rooms on disconnect
     console.log(`🔐 Cleaned up socket mappings for ${userId} (${socket.id})`);
@@ -398,13 +761,11 @@ export const setupGameSocketHandlers = (io: SocketIOServer, socket: Authenticate
  * - Player-specific visibility rules (own BP vs opponent BP)
  * - Current game context (turn, duel state, etc.)
  */
-export const broadcastGameUpdate = (io: SocketIOServer, gameId: string, gameState: any) => {
+export const broadcastGameUpdate = async (io: SocketIOServer, gameId: string, gameState: any) => {
   console.log(`📡 Sending filtered game updates for game: ${gameId}`);
-  console.log(`📡 Rooms in server:`, Array.from(io.sockets.adapter.rooms.keys()));
-  console.log(`📡 Sockets in game room:`, io.sockets.adapter.rooms.get(`game:${gameId}`)?.size || 0);
   
   // Import the filtering utility (dynamic import to avoid circular dependency)
-  const { getGameStateForPlayer, getFilteringSummary } = require('../utils/game-state-filter');
+  const { getGameStateForPlayer, getFilteringSummary, getSpectatorGameState } = require('../utils/game-state-filter');
   
   // Send filtered state to white player
   const whitePlayerId = gameState.whitePlayer.id;
@@ -421,9 +782,9 @@ export const broadcastGameUpdate = (io: SocketIOServer, gameId: string, gameStat
   
   // Import GameEventsService to access socket mapping (avoid circular dependency)
   const GameEventsService = require('../services/game-events.service').GameEventsService;
-  const whiteSocketId = GameEventsService.getSocketIdForPlayer(whitePlayerId);
-  if (whiteSocketId) {
-    io.to(whiteSocketId).emit('game:state_updated', whiteSerializedState);
+  const whiteSocketIds: string[] = await GameEventsService.getSocketIdsForPlayer(whitePlayerId, gameId);
+  if (whiteSocketIds.length > 0) {
+    io.to(whiteSocketIds).emit('game:state_updated', whiteSerializedState);
     const filteringSummary = getFilteringSummary(gameState, whiteFilteredState, whitePlayerId);
     console.log(`🔐 Sent filtered state to white player ${whitePlayerId}. Filtered: [${filteringSummary.join(', ')}]`);
   }
@@ -441,19 +802,46 @@ export const broadcastGameUpdate = (io: SocketIOServer, gameId: string, gameStat
     },
   };
   
-  const blackSocketId = GameEventsService.getSocketIdForPlayer(blackPlayerId);
-  if (blackSocketId) {
-    io.to(blackSocketId).emit('game:state_updated', blackSerializedState);
+  const blackSocketIds: string[] = await GameEventsService.getSocketIdsForPlayer(blackPlayerId, gameId);
+  if (blackSocketIds.length > 0) {
+    io.to(blackSocketIds).emit('game:state_updated', blackSerializedState);
     const filteringSummary = getFilteringSummary(gameState, blackFilteredState, blackPlayerId);
     console.log(`🔐 Sent filtered state to black player ${blackPlayerId}. Filtered: [${filteringSummary.join(', ')}]`);
   }
   
+  // Spectators share one view with every player-private detail hidden; they may be on any process
+  io.to(getSpectatorRoom(gameId)).emit('game:state_updated', {
+    ...getSpectatorGameState(gameState),
+    chess: {
+      fen: gameState.chess.fen(),
+      turn: gameState.chess.turn(),
+      history: gameState.chess.history(),
+      pgn: gameState.chess.pgn(),
+    },
+  });
+  
   console.log(`📡 Completed privacy-compliant game state broadcast for FEN: ${gameState.chess.fen()}`);
 };
 
 /**
- * Broadcast game event to all players in a game
+ * Broadcast game event to all players in a game, and to its spectators without the battle points
  */
 export const broadcastGameEvent = (io: SocketIOServer, gameId: string, event: GameEvent) => {
+  const { getSpectatorGameEvent } = require('../utils/game-state-filter');
   io.to(`game:${gameId}`).emit('game:event', event);
+  io.to(getSpectatorRoom(gameId)).emit('game:event', getSpectatorGameEvent(event));
+};
+
+/**
+ * Send a notification with nothing private in it to the players and spectators of a game
+ */
+export const broadcastToGame = (io: SocketIOServer, gameId: string, socketEvent: string, data: unknown) => {
+  io.to(getGameRooms(gameId)).emit(socketEvent, data);
+};
+
+/**
+ * Send a notification to a game's spectators only
+ */
+export const broadcastToSpectators = (io: SocketIOServer, gameId: string, socketEvent: string, data: unknown) => {
+  io.to(getSpectatorRoom(gameId)).emit(socketEvent, data);
 }; 
\ No newline at end of file
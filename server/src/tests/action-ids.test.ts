@@ -0,0 +1,92 @@
+import { Square } from 'chess.js';
+import { GameStatus } from '@gambit-chess/shared';
+import { LiveGameService } from '../services/live-game.service';
+import GameEngineService from '../services/game-engine.service';
+
+// Processed action IDs have to be kept between calls
+jest.mock('../services/redis.service', () => ({
+  RedisService: require('./memory-redis').createMemoryRedis()
+}));
+
+jest.mock('../services/game-events.service', () => {
+  const GameEventsService = { processGameEvent: jest.fn(), initialize: jest.fn() };
+  return { __esModule: true, GameEventsService, default: GameEventsService };
+});
+
+jest.mock('../index', () => ({
+  startServer: jest.fn(),
+  prisma: {
+    game: { create: jest.fn(), update: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+
+/**
+ * Actions resent with the same ID (e.g. after a reconnect) must not be applied twice
+ */
+describe('🔂 Action IDs', () => {
+  const startGame = async (): Promise<string> => {
+    const { gameId } = await LiveGameService.createGame({
+      gameType: 'human',
+      whitePlayerId: 'white-player',
+      colorPreference: 'white',
+    });
+    await LiveGameService.joinGame(gameId, 'black-player');
+    return gameId;
+  };
+
+  it('should return the original result when a move is resent', async () => {
+    const gameId = await startGame();
+    const move = { type: 'MOVE' as const, from: 'e2' as const, to: 'e4' as const, actionId: 'move-1' };
+
+    const first = await GameEngineService.processMove(gameId, 'white-player', move);
+    const replay = await GameEngineService.processMove(gameId, 'white-player', move);
+
+    expect(first.success).toBe(true);
+    expect(replay).toEqual(JSON.parse(JSON.stringify(first)));
+    const gameState = (await LiveGameService.getGameState(gameId))!;
+    expect(gameState.moveHistory).toHaveLength(1);
+    expect(gameState.currentTurn).toBe('b');
+  });
+
+  it('should process a repeated move that has a new ID', async () => {
+    const gameId = await startGame();
+    const play = (playerId: string, from: Square, to: Square, actionId: string) =>
+      GameEngineService.processMove(gameId, playerId, { type: 'MOVE', from, to, actionId });
+
+    // The knights go out and back, so the same moves come up again
+    expect((await play('white-player', 'g1', 'f3', 'a')).success).toBe(true);
+    expect((await play('black-player', 'g8', 'f6', 'b')).success).toBe(true);
+    expect((await play('white-player', 'f3', 'g1', 'c')).success).toBe(true);
+    expect((await play('black-player', 'f6', 'g8', 'd')).success).toBe(true);
+    expect((await play('white-player', 'g1', 'f3', 'e')).success).toBe(true);
+
+    expect((await LiveGameService.getGameState(gameId))!.moveHistory).toHaveLength(5);
+  });
+
+  it('should allocate only once when a duel allocation is resent', async () => {
+    const gameId = await startGame();
+    await GameEngineService.processMove(gameId, 'white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    await GameEngineService.processMove(gameId, 'black-player', { type: 'MOVE', from: 'd7', to: 'd5' });
+    await GameEngineService.processMove(gameId, 'white-player', { type: 'MOVE', from: 'e4', to: 'd5' });
+
+    const first = await GameEngineService.processDuelAllocation(gameId, 'white-player', 1, 'alloc-1');
+    const replay = await GameEngineService.processDuelAllocation(gameId, 'white-player', 1, 'alloc-1');
+
+    expect(first.success).toBe(true);
+    expect(replay.success).toBe(true);
+    const gameState = (await LiveGameService.getGameState(gameId))!;
+    expect(gameState.gameStatus).toBe(GameStatus.DUEL_IN_PROGRESS);
+    expect(gameState.pendingDuel?.attackerAllocation).toBe(1);
+  });
+
+  it('should process an action again when its first attempt failed', async () => {
+    const gameId = await startGame();
+
+    const early = await GameEngineService.processMove(gameId, 'black-player', { type: 'MOVE', from: 'e7', to: 'e5', actionId: 'early' });
+    expect(early).toMatchObject({ success: false, error: 'Not your turn' });
+
+    await GameEngineService.processMove(gameId, 'white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    const retried = await GameEngineService.processMove(gameId, 'black-player', { type: 'MOVE', from: 'e7', to: 'e5', actionId: 'early' });
+    expect(retried.success).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+import { Square } from 'chess.js';
+import { BaseGameState, GameStatus, MoveAction } from '@gambit-chess/shared';
+import { LiveGameService } from '../services/live-game.service';
+import GameEngineService from '../services/game-engine.service';
+import AIService from '../services/ai.service';
+
+// The AI's turns are scheduled from saved states, so the game has to really be kept
+jest.mock('../services/redis.service', () => ({
+  RedisService: require('./memory-redis').createMemoryRedis()
+}));
+
+jest.mock('../services/game-events.service', () => {
+  const GameEventsService = { processGameEvent: jest.fn(), initialize: jest.fn() };
+  return { __esModule: true, GameEventsService, default: GameEventsService };
+});
+
+jest.mock('../services/game-event-tracker.service');
+
+jest.mock('../index', () => ({
+  startServer: jest.fn(),
+  prisma: {
+    game: { create: jest.fn(), update: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+
+// The AI waits a moment before each action, like a player would
+const AI_TEST_TIMEOUT_MS = 20000;
+
+/**
+ * The AI takes its turns on its own: its moves, its duel allocations as attacker or defender,
+ * and the retreat after its own failed capture, all with the difficulty and persona of its game
+ */
+describe('🤖 AI Turns', () => {
+  let plannedMoves: MoveAction[];
+  let generateAIMove: jest.SpyInstance;
+  let generateAIDuelAllocation: jest.SpyInstance;
+  let generateAIRetreat: jest.SpyInstance;
+
+  // The AI plays white's opponent; its moves are planned so it gets into the duels being tested
+  const startGame = async (aiMoves: MoveAction[]): Promise<string> => {
+    plannedMoves = aiMoves;
+    const { gameId } = await LiveGameService.createGame({
+      gameType: 'ai',
+      whitePlayerId: 'human-player',
+      colorPreference: 'white',
+      aiDifficulty: 'hard',
+      aiPersona: 'cautious',
+    });
+    return gameId;
+  };
+
+  const waitFor = async (gameId: string, reached: (state: BaseGameState) => boolean): Promise<BaseGameState> => {
+    const deadline = Date.now() + AI_TEST_TIMEOUT_MS - 2000;
+    for (;;) {
+      const state = (await LiveGameService.getGameState(gameId))!;
+      if (reached(state)) {
+        return state;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out in ${state.gameStatus} after ${state.moveHistory.length} moves`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  };
+
+  const play = async (gameId: string, from: Square, to: Square) => {
+    const result = await GameEngineService.processMove(gameId, 'human-player', { type: 'MOVE', from, to });
+    expect(result.error).toBeUndefined();
+  };
+
+  beforeEach(() => {
+    // Once its planned moves run out the AI has nothing to play, so no turn outlives its test
+    generateAIMove = jest.spyOn(AIService, 'generateAIMove').mockImplementation(() => plannedMoves.shift() ?? null);
+    generateAIDuelAllocation = jest.spyOn(AIService, 'generateAIDuelAllocation');
+    generateAIRetreat = jest.spyOn(AIService, 'generateAIRetreat');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should allocate as the attacker, retreat from its failed capture and hand the turn back', async () => {
+    const gameId = await startGame([
+      { type: 'MOVE', from: 'd7', to: 'd5' },
+      { type: 'MOVE', from: 'd5', to: 'e4' },
+    ]);
+    generateAIDuelAllocation.mockReturnValue(0);
+
+    await play(gameId, 'e2', 'e4');
+    await waitFor(gameId, state => state.moveHistory.length === 2);
+    await play(gameId, 'a2', 'a3');
+
+    // The AI's capture leads straight into its own allocation
+    const dueling = await waitFor(gameId, state => state.pendingDuel?.attackerAllocation !== undefined);
+    expect(dueling.pendingDuel!.attackerColor).toBe('b');
+    expect(generateAIDuelAllocation).toHaveBeenCalledWith(expect.anything(), expect.any(Number), true, 'hard', 'cautious');
+
+    await GameEngineService.processDuelAllocation(gameId, 'human-player', 1);
+
+    const after = await waitFor(gameId, state => state.gameStatus === GameStatus.IN_PROGRESS);
+    expect(generateAIRetreat).toHaveBeenCalledWith(expect.anything(), 'hard', 'cautious');
+    const capture = after.moveHistory[3];
+    expect(capture.duelResult?.attackerWon).toBe(false);
+    expect(capture.tacticalRetreat?.originalSquare).toBe('d5');
+    expect(after.currentTurn).toBe('w');
+    expect(after.chess.get('e4')).toEqual({ type: 'p', color: 'w' });
+    expect(generateAIMove).toHaveBeenCalledWith(expect.anything(), 'hard', 'cautious');
+  }, AI_TEST_TIMEOUT_MS);
+
+  it('should allocate as the defender of a capture the human attempts', async () => {
+    const gameId = await startGame([{ type: 'MOVE', from: 'd7', to: 'd5' }]);
+    generateAIDuelAllocation.mockReturnValue(2);
+
+    await play(gameId, 'e2', 'e4');
+    await waitFor(gameId, state => state.moveHistory.length === 2);
+    await play(gameId, 'e4', 'd5');
+
+    await waitFor(gameId, state => state.pendingDuel?.defenderAllocation !== undefined);
+    expect(generateAIDuelAllocation).toHaveBeenCalledWith(expect.anything(), expect.any(Number), false, 'hard', 'cautious');
+
+    await GameEngineService.processDuelAllocation(gameId, 'human-player', 0);
+    const decision = await waitFor(gameId, state => state.gameStatus === GameStatus.TACTICAL_RETREAT_DECISION);
+    expect(decision.moveHistory[2].duelResult).toMatchObject({ attackerAllocation: 0, defenderAllocation: 2, attackerWon: false });
+
+    // The human's retreat hands the turn to the AI, which has no moves planned
+    expect((await GameEngineService.processTacticalRetreat(gameId, 'human-player', 'e4')).error).toBeUndefined();
+    const after = (await LiveGameService.getGameState(gameId))!;
+    expect(after.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(after.currentTurn).toBe('b');
+    expect(generateAIRetreat).not.toHaveBeenCalled();
+  }, AI_TEST_TIMEOUT_MS);
+});
@@ -0,0 +1,293 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Server as SocketIOServer } from 'socket.io';
+import { io as connectClient, Socket as ClientSocket } from 'socket.io-client';
+import { createMemoryRedis } from './memory-redis';
+
+// Both server instances talk to this one stand-in, as two processes would share one Redis
+const mockRedis = createMemoryRedis();
+
+jest.mock('../services/redis.service', () => ({
+  RedisService: mockRedis
+}));
+
+jest.unmock('../services/game-events.service');
+
+jest.mock('../index', () => ({
+  startServer: jest.fn(),
+  prisma: {
+    game: { create: jest.fn(), update: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+
+// The access token is the player's ID, so each client can say who it is
+jest.mock('../auth/jwt', () => ({
+  verifyAccessToken: (token: string) => ({ userId: token, username: token })
+}));
+
+interface ServerInstance {
+  io: SocketIOServer;
+  url: string;
+  LiveGameService: any;
+  PresenceService: any;
+  GameEngineService: any;
+}
+
+/**
+ * Start a server with its own copy of every module, like a separate Node process
+ */
+async function startInstance(): Promise<ServerInstance> {
+  const httpServer = http.createServer();
+  let instance!: Omit<ServerInstance, 'url'>;
+
+  jest.isolateModules(() => {
+    const { socketAuthMiddleware, setupGameSocketHandlers } = require('../socket/game.socket');
+    const { createClusterAdapter } = require('../socket/cluster-adapter');
+    const { GameEventsService } = require('../services/game-events.service');
+
+    const io = new SocketIOServer(httpServer);
+    io.adapter(createClusterAdapter());
+    io.use(socketAuthMiddleware);
+    io.on('connection', socket => setupGameSocketHandlers(io, socket));
+    GameEventsService.initialize(io);
+
+    instance = {
+      io,
+      LiveGameService: require('../services/live-game.service').LiveGameService,
+      PresenceService: require('../services/presence.service').PresenceService,
+      GameEngineService: require('../services/game-engine.service').GameEngineService,
+    };
+  });
+
+  await new Promise<void>(resolve => httpServer.listen(0, resolve));
+  return { ...instance, url: `http://localhost:${(httpServer.address() as AddressInfo).port}` };
+}
+
+async function waitUntil(condition: () => Promise<boolean>, timeoutMs: number = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+function nextEvent<T = any>(client: ClientSocket, event: string, matches: (data: T) => boolean = () => true): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`No ${event} event received`)), 3000);
+    const listener = (data: T) => {
+      if (matches(data)) {
+        clearTimeout(timeout);
+        client.off(event, listener);
+        resolve(data);
+      }
+    };
+    client.on(event, listener);
+  });
+}
+
+describe('🌐 Two server instances sharing one Redis', () => {
+  let first: ServerInstance;
+  let second: ServerInstance;
+  const clients: ClientSocket[] = [];
+
+  const connect = async (instance: ServerInstance, playerId: string): Promise<ClientSocket> => {
+    const client = connectClient(instance.url, { auth: { token: playerId }, transports: ['websocket'], forceNew: true });
+    clients.push(client);
+    await nextEvent(client, 'connect');
+    return client;
+  };
+
+  const joinGame = async (client: ClientSocket, gameId: string) => {
+    const state = nextEvent(client, 'game:state');
+    client.emit('game:join', { gameId });
+    return state;
+  };
+
+  const startGame = async (): Promise<string> => {
+    const { gameId } = await first.LiveGameService.createGame({
+      gameType: 'human',
+      whitePlayerId: 'white-player',
+      colorPreference: 'white',
+    });
+    await second.LiveGameService.joinGame(gameId, 'black-player');
+    return gameId;
+  };
+
+  // 1. e4 d5 2. exd5, waiting until the duel has started
+  const startCapture = async (gameId: string, white: ClientSocket, black: ClientSocket) => {
+    const play = async (client: ClientSocket, from: string, to: string, reached: (state: any) => boolean) => {
+      const update = nextEvent(client, 'game:state_updated', reached);
+      client.emit('game:move', { gameId, move: { type: 'MOVE', from, to } });
+      await update;
+    };
+    await play(white, 'e2', 'e4', state => state.moveHistory.length === 1);
+    await play(black, 'd7', 'd5', state => state.moveHistory.length === 2);
+    await play(white, 'e4', 'd5', state => !!state.pendingDuel);
+  };
+
+  beforeAll(async () => {
+    first = await startInstance();
+    second = await startInstance();
+
+    // Each instance learns about the other from its heartbeat
+    await waitUntil(async () => (await (first.io.of('/').adapter as any).serverCount()) === 2);
+    await waitUntil(async () => (await (second.io.of('/').adapter as any).serverCount()) === 2);
+  });
+
+  afterEach(() => {
+    for (const client of clients.splice(0)) {
+      client.disconnect();
+    }
+  });
+
+  afterAll(async () => {
+    await Promise.all([first.io.close(), second.io.close()]);
+    mockRedis.flush();
+  });
+
+  it('should send each player their own state when the move is made on the other instance', async () => {
+    const gameId = await startGame();
+    const white = await connect(first, 'white-player');
+    const black = await connect(second, 'black-player');
+    await joinGame(white, gameId);
+    await joinGame(black, gameId);
+
+    const whiteUpdate = nextEvent(white, 'game:state_updated', (state: any) => state.moveHistory.length === 1);
+    const blackUpdate = nextEvent(black, 'game:state_updated', (state: any) => state.moveHistory.length === 1);
+    white.emit('game:move', { gameId, move: { type: 'MOVE', from: 'e2', to: 'e4' } });
+
+    const [whiteState, blackState] = await Promise.all([whiteUpdate, blackUpdate]);
+    expect(blackState.currentTurn).toBe('b');
+    expect(blackState.chess.fen).toBe(whiteState.chess.fen);
+    expect(blackState.chess.fen).toContain('4P3');
+  });
+
+  it('should tell a player when their opponent drops off and comes back through another instance', async () => {
+    const gameId = await startGame();
+    const white = await connect(first, 'white-player');
+    const black = await connect(second, 'black-player');
+    await joinGame(white, gameId);
+    await joinGame(black, gameId);
+
+    const disconnected = nextEvent(white, 'game:player_disconnected');
+    black.disconnect();
+    expect((await disconnected).color).toBe('b');
+    expect(await first.PresenceService.isAway(gameId, 'black-player')).toBe(true);
+
+    // Reconnecting to the first instance cancels the absence recorded by the second
+    const reconnected = nextEvent(white, 'game:player_connected');
+    await joinGame(await connect(first, 'black-player'), gameId);
+    expect(await reconnected).toMatchObject({ color: 'b', reconnected: true });
+    expect(await second.PresenceService.isAway(gameId, 'black-player')).toBe(false);
+  });
+
+  it('should keep a pending duel allocation hidden from the opponent who asks for the state', async () => {
+    const gameId = await startGame();
+    const white = await connect(first, 'white-player');
+    const black = await connect(second, 'black-player');
+    await joinGame(white, gameId);
+    await joinGame(black, gameId);
+
+    await startCapture(gameId, white, black);
+
+    const allocated = nextEvent(white, 'game:duel_allocation_confirmed');
+    white.emit('game:duel_allocation', { gameId, allocation: 2 });
+    await allocated;
+
+    const requestState = (client: ClientSocket) => {
+      const state = nextEvent(client, 'game:state');
+      client.emit('game:get_state', { gameId });
+      return state;
+    };
+    expect((await requestState(black)).pendingDuel.attackerAllocation).toBeUndefined();
+    expect((await requestState(white)).pendingDuel.attackerAllocation).toBe(2);
+  });
+
+  it('should name the action an error answers, so the client stops resending it', async () => {
+    const gameId = await startGame();
+    const white = await connect(first, 'white-player');
+    await joinGame(white, gameId);
+
+    const error = nextEvent(white, 'error');
+    white.emit('game:move', { gameId, move: { type: 'MOVE', from: 'e2', to: 'e5', actionId: 'illegal-move' } });
+    expect(await error).toEqual({ message: 'Invalid move', actionId: 'illegal-move' });
+  });
+
+  it('should count spectators connected to either instance', async () => {
+    const gameId = await startGame();
+    const white = await connect(first, 'white-player');
+    await joinGame(white, gameId);
+
+    const count = nextEvent(white, 'game:spectators', (data: any) => data.count === 1);
+    await joinGame(await connect(second, 'spectator'), gameId);
+    expect(await count).toEqual({ gameId, count: 1 });
+  });
+
+  it('should keep the battle points out of the duel results sent to spectators', async () => {
+    const gameId = await startGame();
+    const white = await connect(first, 'white-player');
+    const black = await connect(second, 'black-player');
+    const spectator = await connect(second, 'spectator');
+    await joinGame(white, gameId);
+    await joinGame(black, gameId);
+    await joinGame(spectator, gameId);
+    await startCapture(gameId, white, black);
+
+    const isDuelResolved = (event: any) => event.type === 'DUEL_RESOLVED';
+    const playerEvent = nextEvent(white, 'game:event', isDuelResolved);
+    const spectatorEvent = nextEvent(spectator, 'game:event', isDuelResolved);
+    const spectatorResult = nextEvent(spectator, 'game:duel_resolved');
+    white.emit('game:duel_allocation', { gameId, allocation: 2 });
+    await nextEvent(white, 'game:duel_allocation_confirmed');
+    black.emit('game:duel_allocation', { gameId, allocation: 1 });
+
+    expect((await playerEvent).payload.attackerRemainingBP).toBeGreaterThanOrEqual(0);
+    const { payload } = await spectatorEvent;
+    expect(payload.winner).toBe('attacker');
+    expect(payload.attackerRemainingBP).toBe(-1);
+    expect(payload.defenderRemainingBP).toBe(-1);
+    expect(payload.outcome.defenderBattlePointsRemaining).toBe(-1);
+    expect(payload.move.duelResult.attackerBattlePointsRemaining).toBe(-1);
+    expect((await spectatorResult).result.attackerBattlePointsRemaining).toBe(-1);
+  });
+
+  it('should apply an expired deadline on one instance only when both of their timers fire', async () => {
+    const { gameId } = await first.LiveGameService.createGame({
+      gameType: 'human',
+      whitePlayerId: 'white-player',
+      colorPreference: 'white',
+      timeControl: { baseTimeMs: 60_000, incrementMs: 0, duelAllocationTimeMs: 10_000, retreatDecisionTimeMs: 10_000, defaultDuelAllocation: 1 },
+    });
+    await second.LiveGameService.joinGame(gameId, 'black-player');
+
+    // White's flag fell a minute ago
+    const gameState = await first.LiveGameService.getGameState(gameId);
+    gameState.clock.turnStartedAt = Date.now() - 2 * 60_000;
+    await first.LiveGameService.saveGameState(gameId, gameState);
+
+    const results = await Promise.all([
+      first.GameEngineService.processTimeouts(gameId),
+      second.GameEngineService.processTimeouts(gameId),
+    ]);
+    expect(results.filter(result => result.success)).toHaveLength(1);
+    expect(results.find(result => !result.success).error).toBe('Timeout already being processed');
+  });
+
+  it('should let one instance play an AI turn that both of them were asked to play', async () => {
+    const { gameId } = await first.LiveGameService.createGame({
+      gameType: 'ai',
+      whitePlayerId: 'human-player',
+      colorPreference: 'black',
+    });
+
+    const results = await Promise.all([
+      first.GameEngineService.processAITurn(gameId),
+      second.GameEngineService.processAITurn(gameId),
+    ]);
+    expect(results.filter(result => result.success)).toHaveLength(1);
+    expect(results.find(result => !result.success).error).toBe('AI turn already in progress');
+    expect((await second.LiveGameService.getGameState(gameId)).moveHistory).toHaveLength(1);
+  });
+});
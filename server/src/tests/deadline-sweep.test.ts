@@ -0,0 +1,111 @@
+import { GameStatus } from '@gambit-chess/shared';
+import { LiveGameService } from '../services/live-game.service';
+import { GameClockService } from '../services/game-clock.service';
+import { PresenceService } from '../services/presence.service';
+import { RedisService } from '../services/redis.service';
+import { prisma } from '../index';
+
+// Deadlines and absences are kept in Redis for every server's sweep
+jest.mock('../services/redis.service', () => ({
+  RedisService: require('./memory-redis').createMemoryRedis()
+}));
+
+jest.mock('../services/game-events.service', () => {
+  const GameEventsService = { processGameEvent: jest.fn(), initialize: jest.fn() };
+  return { __esModule: true, GameEventsService, default: GameEventsService };
+});
+
+// Ending a game would otherwise write its session log to disk
+jest.mock('../services/game-event-tracker.service');
+
+jest.mock('../index', () => ({
+  startServer: jest.fn(),
+  prisma: {
+    game: { create: jest.fn(), update: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+
+/**
+ * A server that times a deadline or an absence may go away before it runs out; the sweep of
+ * any other server applies it instead
+ */
+describe('🧹 Deadline Sweep', () => {
+  const TIME_CONTROL = { baseTimeMs: 60_000, incrementMs: 0, duelAllocationTimeMs: 10_000, retreatDecisionTimeMs: 10_000, defaultDuelAllocation: 1 };
+
+  const startGame = async (timed: boolean): Promise<string> => {
+    const { gameId } = await LiveGameService.createGame({
+      gameType: 'human',
+      whitePlayerId: 'white-player',
+      colorPreference: 'white',
+      rated: false,
+      timeControl: timed ? TIME_CONTROL : undefined,
+    });
+    await LiveGameService.joinGame(gameId, 'black-player');
+    return gameId;
+  };
+
+  const getArchivedResult = (gameId: string) => (prisma.game.update as jest.Mock).mock.calls
+    .map(([args]) => args)
+    .find(args => args.where.id === gameId && args.data.events)?.data.resultReason;
+
+  afterEach(() => {
+    (prisma.game.update as jest.Mock).mockClear();
+  });
+
+  it('should apply a clock deadline that passed without a timer', async () => {
+    const gameId = await startGame(true);
+
+    // Saving the state keeps its deadline in Redis, without arming a timer for it
+    const gameState = (await LiveGameService.getGameState(gameId))!;
+    gameState.clock!.turnStartedAt = Date.now() - 2 * 60_000;
+    await LiveGameService.saveGameState(gameId, gameState);
+
+    await GameClockService.sweep();
+
+    expect(getArchivedResult(gameId)).toBe('TIME_FORFEIT');
+    expect(await LiveGameService.getGameState(gameId)).toBeNull();
+    expect(await RedisService.getSortedSetMembersUpTo('clock_deadlines', Infinity)).not.toContain(gameId);
+  });
+
+  it('should leave a deadline that has not passed, and move one the game has gone past', async () => {
+    const gameId = await startGame(true);
+    const deadline = (await LiveGameService.getGameState(gameId))!.clock!.turnStartedAt! + TIME_CONTROL.baseTimeMs;
+
+    await GameClockService.sweep();
+    expect((await LiveGameService.getGameState(gameId))!.gameStatus).toBe(GameStatus.IN_PROGRESS);
+
+    // A deadline kept from an older state finds nothing expired and is brought up to date
+    await RedisService.addToSortedSet('clock_deadlines', gameId, Date.now() - 1000);
+    await GameClockService.sweep();
+    expect((await LiveGameService.getGameState(gameId))!.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(await RedisService.getSortedSetMembersUpTo('clock_deadlines', Date.now())).not.toContain(gameId);
+    expect(await RedisService.getSortedSetMembersUpTo('clock_deadlines', deadline)).toContain(gameId);
+
+    await GameClockService.cancel(gameId);
+  });
+
+  it('should end the game for an absent player whose grace period ran out without a timer', async () => {
+    const gameId = await startGame(false);
+
+    // Black left through a server that went away before their grace period ran out
+    const since = Date.now() - 2 * PresenceService.getGracePeriodMs();
+    await RedisService.setWithTTL(`presence:${gameId}:black-player`, String(since), 60);
+    await RedisService.addToSortedSet('presence_deadlines', `${gameId}:black-player`, since + PresenceService.getGracePeriodMs());
+
+    await PresenceService.sweep();
+
+    expect(getArchivedResult(gameId)).toBe('ABANDONMENT');
+    expect(await PresenceService.isAway(gameId, 'black-player')).toBe(false);
+    expect(await RedisService.getSortedSetMembersUpTo('presence_deadlines', Infinity)).toEqual([]);
+  });
+
+  it('should drop an absence that ended before the sweep found it', async () => {
+    const gameId = await startGame(false);
+    await RedisService.addToSortedSet('presence_deadlines', `${gameId}:black-player`, Date.now() - 1000);
+
+    await PresenceService.sweep();
+
+    expect((await LiveGameService.getGameState(gameId))!.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(await RedisService.getSortedSetMembersUpTo('presence_deadlines', Infinity)).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+import { DEFAULT_GAME_CONFIG, GameStatus, getChess960FEN, replayGameEvents, resolveStartingPosition } from '@gambit-chess/shared';
+import { LiveGameService } from '../services/live-game.service';
+import GameEngineService from '../services/game-engine.service';
+import { RedisService } from '../services/redis.service';
+import { prisma } from '../index';
+
+// The event log is kept in Redis until the game is archived
+jest.mock('../services/redis.service', () => ({
+  RedisService: require('./memory-redis').createMemoryRedis()
+}));
+
+jest.mock('../services/game-events.service', () => {
+  const GameEventsService = { processGameEvent: jest.fn(), initialize: jest.fn() };
+  return { __esModule: true, GameEventsService, default: GameEventsService };
+});
+
+// Ending a game would otherwise write its session log to disk
+jest.mock('../services/game-event-tracker.service');
+
+jest.mock('../index', () => ({
+  startServer: jest.fn(),
+  prisma: {
+    game: { create: jest.fn(), update: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+
+/**
+ * Every game event is logged with the state it produced, so the game can be rebuilt from its log
+ */
+describe('📜 Game Event Log', () => {
+  const startGameWithFailedCapture = async (): Promise<string> => {
+    const { gameId } = await LiveGameService.createGame({
+      gameType: 'human',
+      whitePlayerId: 'white-player',
+      colorPreference: 'white',
+      rated: false,
+    });
+    await LiveGameService.joinGame(gameId, 'black-player');
+
+    await GameEngineService.processMove(gameId, 'white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    await GameEngineService.processMove(gameId, 'black-player', { type: 'MOVE', from: 'd7', to: 'd5' });
+    await GameEngineService.processMove(gameId, 'white-player', { type: 'MOVE', from: 'e4', to: 'd5' });
+    await GameEngineService.processDuelAllocation(gameId, 'white-player', 0);
+    await GameEngineService.processDuelAllocation(gameId, 'black-player', 2);
+    await GameEngineService.processTacticalRetreat(gameId, 'white-player', 'e4');
+    return gameId;
+  };
+
+  it('should replay the log of a live game into its current state', async () => {
+    const gameId = await startGameWithFailedCapture();
+    const live = (await LiveGameService.getGameState(gameId))!;
+
+    const replayed = replayGameEvents(await LiveGameService.getGameEvents(gameId));
+
+    expect(live.moveHistory[2].tacticalRetreat).toBeDefined();
+    expect(replayed.chess.fen()).toBe(live.chess.fen());
+    expect(replayed.whitePlayer.battlePoints).toBe(live.whitePlayer.battlePoints);
+    expect(replayed.blackPlayer.battlePoints).toBe(live.blackPlayer.battlePoints);
+    expect(replayed.currentTurn).toBe(live.currentTurn);
+    expect(replayed.gameStatus).toBe(live.gameStatus);
+    expect(replayed.moveHistory.map(move => move.san)).toEqual(live.moveHistory.map(move => move.san));
+  });
+
+  it('should replay a practice game that starts from a custom position', async () => {
+    const startingPosition = '3r2k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 30 6/2 - 0 standard';
+    const { gameId, gameState } = await LiveGameService.createGame({
+      gameType: 'practice',
+      anonymousUserId: 'practice-player',
+      ruleset: 'standard',
+      startingPosition,
+    });
+    expect(gameState.whitePlayer.battlePoints).toBe(6);
+    expect(gameState.startingPosition).toBe(startingPosition);
+
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'g2', to: 'g3' });
+    const live = (await LiveGameService.getGameState(gameId))!;
+
+    const replayed = replayGameEvents(await LiveGameService.getGameEvents(gameId));
+    expect(replayed.chess.fen()).toBe(live.chess.fen());
+    expect(replayed.blackPlayer.battlePoints).toBe(2);
+    expect(replayed.whitePlayer.battlePoints).toBe(live.whitePlayer.battlePoints);
+  });
+
+  it('should replay a Chess960 game with its castling rights', async () => {
+    const { gameId, gameState } = await LiveGameService.createGame({
+      gameType: 'practice',
+      anonymousUserId: 'practice-player',
+      ruleset: 'standard',
+      startingPosition: resolveStartingPosition(getChess960FEN(0), 'standard', DEFAULT_GAME_CONFIG).position,
+      chess960Index: 0,
+    });
+    expect(gameState.chess.fen()).toBe('bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w - - 0 1');
+
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'e1', to: 'd3' });
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'h7', to: 'h6' });
+    const live = (await LiveGameService.getGameState(gameId))!;
+    expect(live.castlingRooks).toEqual(['h1', 'f1', 'h8', 'f8']);
+
+    const replayed = replayGameEvents(await LiveGameService.getGameEvents(gameId));
+    expect(replayed.chess960Index).toBe(0);
+    expect(replayed.castlingRooks).toEqual(live.castlingRooks);
+    expect(replayed.chess.fen()).toBe(live.chess.fen());
+  });
+
+  it('should take back and branch a practice game from the snapshots, and replay the takebacks', async () => {
+    const { gameId } = await LiveGameService.createGame({ gameType: 'practice', anonymousUserId: 'practice-player', ruleset: 'standard' });
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'd7', to: 'd5' });
+    const beforeCapture = (await LiveGameService.getGameState(gameId))!;
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'e4', to: 'd5' });
+    await GameEngineService.processDuelAllocation(gameId, 'practice-player', 3);
+    await GameEngineService.processDuelAllocation(gameId, 'practice-player', 1);
+    const captured = (await LiveGameService.getGameState(gameId))!;
+
+    const undo = await GameEngineService.processPracticeNavigation(gameId, 'practice-player', 'undo');
+    expect(undo.success).toBe(true);
+    const undone = (await LiveGameService.getGameState(gameId))!;
+    expect(undone.chess.fen()).toBe(beforeCapture.chess.fen());
+    expect(undone.whitePlayer.battlePoints).toBe(beforeCapture.whitePlayer.battlePoints);
+    expect(undone.moveHistory).toHaveLength(2);
+
+    await GameEngineService.processPracticeNavigation(gameId, 'practice-player', 'redo');
+    const redone = (await LiveGameService.getGameState(gameId))!;
+    expect(redone.chess.fen()).toBe(captured.chess.fen());
+    expect(redone.moveHistory[2].duelResult).toEqual(captured.moveHistory[2].duelResult);
+    expect(await GameEngineService.processPracticeNavigation(gameId, 'practice-player', 'redo'))
+      .toEqual({ success: false, error: 'Nothing to redo', events: [] });
+
+    // Branching from the start keeps the line played so far in the tree
+    await GameEngineService.processPracticeNavigation(gameId, 'practice-player', 'branch', 'n0');
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'd2', to: 'd4' });
+    const branched = (await LiveGameService.getGameState(gameId))!;
+    expect(branched.moveHistory.map(move => move.san)).toEqual(['d4']);
+    expect(branched.practiceTree!.nodes.filter(node => node.parentId === 'n0').map(node => node.move?.san)).toEqual(['e4', 'd4']);
+
+    const replayed = replayGameEvents(await LiveGameService.getGameEvents(gameId));
+    expect(replayed.chess.fen()).toBe(branched.chess.fen());
+    expect(replayed.whitePlayer.battlePoints).toBe(branched.whitePlayer.battlePoints);
+  });
+
+  it('should keep a mated practice game live so the mating move can be taken back', async () => {
+    const { gameId } = await LiveGameService.createGame({ gameType: 'practice', anonymousUserId: 'practice-player', ruleset: 'standard' });
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'f2', to: 'f3' });
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'e7', to: 'e5' });
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'g2', to: 'g4' });
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'd8', to: 'h4' });
+    expect((await LiveGameService.getGameState(gameId))!.gameStatus).toBe(GameStatus.CHECKMATE);
+
+    const undo = await GameEngineService.processPracticeNavigation(gameId, 'practice-player', 'undo');
+    expect(undo.success).toBe(true);
+    const undone = (await LiveGameService.getGameState(gameId))!;
+    expect(undone.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(undone.winner).toBeUndefined();
+    expect(undone.currentTurn).toBe('b');
+    expect(undone.moveHistory).toHaveLength(3);
+
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'g8', to: 'f6' });
+    const branched = (await LiveGameService.getGameState(gameId))!;
+    expect(branched.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(replayGameEvents(await LiveGameService.getGameEvents(gameId)).chess.fen()).toBe(branched.chess.fen());
+
+    // The mate can be gone back to, and the game left from there is archived as mated
+    const mated = branched.practiceTree!.nodes.find(node => node.move?.san === 'Qh4#')!;
+    await GameEngineService.processPracticeNavigation(gameId, 'practice-player', 'branch', mated.id);
+    await LiveGameService.archiveLeftPracticeGame(gameId);
+    expect(await LiveGameService.getGameState(gameId)).toBeNull();
+    const archived = (prisma.game.update as jest.Mock).mock.calls
+      .map(([args]) => args)
+      .find(args => args.where.id === gameId && args.data.events);
+    expect(archived.data.resultReason).toBe('CHECKMATE');
+  });
+
+  it('should only take back moves in practice games', async () => {
+    const gameId = await startGameWithFailedCapture();
+    expect(await GameEngineService.processPracticeNavigation(gameId, 'white-player', 'undo'))
+      .toEqual({ success: false, error: 'Takebacks are only available in practice games', events: [] });
+  });
+
+  it('should delete a practice game\'s snapshots by its tree\'s nodes when it is archived', async () => {
+    const keys = jest.spyOn(RedisService, 'keys');
+    const { gameId } = await LiveGameService.createGame({ gameType: 'practice', anonymousUserId: 'practice-player', ruleset: 'standard' });
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    await GameEngineService.processMove(gameId, 'practice-player', { type: 'MOVE', from: 'd7', to: 'd5' });
+    const nodes = (await LiveGameService.getGameState(gameId))!.practiceTree!.nodes;
+    expect(nodes).toHaveLength(3);
+
+    await GameEngineService.processResignation(gameId, 'practice-player');
+    expect(await LiveGameService.getPracticeSnapshot(gameId, nodes[0].id)).not.toBeNull();
+    await LiveGameService.archiveLeftPracticeGame(gameId);
+
+    for (const node of nodes) {
+      expect(await LiveGameService.getPracticeSnapshot(gameId, node.id)).toBeNull();
+    }
+    expect(keys).not.toHaveBeenCalledWith(expect.stringContaining('practice_snapshot:'));
+    keys.mockRestore();
+  });
+
+  it('should archive the log with the final state it replays to', async () => {
+    const warn = jest.spyOn(console, 'warn');
+    const gameId = await startGameWithFailedCapture();
+    const final = (await LiveGameService.getGameState(gameId))!;
+
+    await GameEngineService.processResignation(gameId, 'black-player');
+
+    const archived = (prisma.game.update as jest.Mock).mock.calls
+      .map(([args]) => args)
+      .find(args => args.where.id === gameId && args.data.events);
+    expect(archived.data.finalFEN).toBe(final.chess.fen());
+    expect(archived.data.whiteBattlePoints).toBe(final.whitePlayer.battlePoints);
+    expect(archived.data.blackBattlePoints).toBe(final.blackPlayer.battlePoints);
+    expect(replayGameEvents(archived.data.events).gameStatus).toBe(GameStatus.RESIGNED);
+    expect(warn).not.toHaveBeenCalledWith(expect.stringContaining('does not replay'), expect.anything());
+    expect(await LiveGameService.getGameEvents(gameId)).toEqual([]);
+
+    warn.mockRestore();
+  });
+});
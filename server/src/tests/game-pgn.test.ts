@@ -0,0 +1,107 @@
+import { replayGambitPGN } from '@gambit-chess/shared';
+import { LiveGameService } from '../services/live-game.service';
+import GameEngineService from '../services/game-engine.service';
+import GamePGNService from '../services/game-pgn.service';
+import { prisma } from '../index';
+
+jest.mock('../services/redis.service', () => ({
+  RedisService: require('./memory-redis').createMemoryRedis()
+}));
+
+jest.mock('../services/game-events.service', () => {
+  const GameEventsService = { processGameEvent: jest.fn(), initialize: jest.fn() };
+  return { __esModule: true, GameEventsService, default: GameEventsService };
+});
+
+jest.mock('../services/game-event-tracker.service');
+
+jest.mock('../index', () => ({
+  startServer: jest.fn(),
+  prisma: {
+    game: { create: jest.fn(), update: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+
+/**
+ * Games are exported as Gambit PGN, and uploaded PGN is only accepted when it replays under its rules
+ */
+describe('♟️ Game PGN', () => {
+  const startGameWithDuel = async (): Promise<string> => {
+    const { gameId } = await LiveGameService.createGame({
+      gameType: 'human',
+      whitePlayerId: 'white-player',
+      colorPreference: 'white',
+      rated: false,
+    });
+    await LiveGameService.joinGame(gameId, 'black-player');
+
+    await GameEngineService.processMove(gameId, 'white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    await GameEngineService.processMove(gameId, 'black-player', { type: 'MOVE', from: 'd7', to: 'd5' });
+    await GameEngineService.processMove(gameId, 'white-player', { type: 'MOVE', from: 'e4', to: 'd5' });
+    await GameEngineService.processDuelAllocation(gameId, 'white-player', 0);
+    await GameEngineService.processDuelAllocation(gameId, 'black-player', 2);
+    await GameEngineService.processTacticalRetreat(gameId, 'white-player', 'e4');
+    return gameId;
+  };
+
+  beforeEach(() => {
+    (prisma.game.findUnique as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should export a live game that replays to its current position', async () => {
+    const gameId = await startGameWithDuel();
+    const live = (await LiveGameService.getGameState(gameId))!;
+
+    const pgn = (await GamePGNService.exportGame(gameId, 'white-player'))!;
+
+    expect(pgn).toContain('[White "Anonymous"]');
+    expect(pgn).toContain('exd5{a:0;d:2}→e4{0}');
+    const replayed = replayGambitPGN(pgn);
+    expect(replayed.chess.fen()).toBe(live.chess.fen());
+    expect(replayed.whitePlayer.battlePoints).toBe(live.whitePlayer.battlePoints);
+  });
+
+  it('should keep the BP pools out of a spectator\'s export', async () => {
+    const gameId = await startGameWithDuel();
+
+    const pgn = (await GamePGNService.exportGame(gameId))!;
+
+    expect(pgn).not.toContain('[%bp');
+  });
+
+  it('should export an archived game from its event log', async () => {
+    const gameId = await startGameWithDuel();
+    await GameEngineService.processResignation(gameId, 'black-player');
+    const archived = (prisma.game.update as jest.Mock).mock.calls
+      .map(([args]) => args)
+      .find(args => args.where.id === gameId && args.data.events);
+    (prisma.game.findUnique as jest.Mock).mockResolvedValue({
+      id: gameId,
+      createdAt: new Date(Date.UTC(2025, 0, 31)),
+      events: archived.data.events,
+      whitePlayer: { username: 'alice' },
+      blackPlayer: null
+    });
+
+    const pgn = (await GamePGNService.exportGame(gameId, 'white-player'))!;
+
+    expect(pgn).toContain('[Date "2025.01.31"]');
+    expect(pgn).toContain('[White "alice"]');
+    expect(pgn).toContain('[Result "1-0"]');
+    expect(pgn).toContain('[ResultReason "resignation"]');
+    expect(GamePGNService.importGame(pgn)).toMatchObject({
+      success: true,
+      game: { result: '1-0', endReason: 'resignation', finalFEN: archived.data.finalFEN }
+    });
+  });
+
+  it('should not export a game that does not exist', async () => {
+    expect(await GamePGNService.exportGame('missing-game')).toBeNull();
+  });
+
+  it('should reject an upload that does not replay', () => {
+    const result = GamePGNService.importGame('[Ruleset "standard"]\n\n1. e4 e5 2. Ke3 *');
+
+    expect(result).toEqual({ success: false, error: 'Move 2. Ke3: illegal move' });
+  });
+});
@@ -0,0 +1,74 @@
+import { GameStatus } from '@gambit-chess/shared';
+import { LiveGameService, GameStateConflictError } from '../services/live-game.service';
+import GameEngineService from '../services/game-engine.service';
+
+// Compare-and-set needs a Redis stand-in that keeps what is written
+jest.mock('../services/redis.service', () => ({
+  RedisService: require('./memory-redis').createMemoryRedis()
+}));
+
+jest.mock('../services/game-events.service', () => {
+  const GameEventsService = { processGameEvent: jest.fn(), initialize: jest.fn() };
+  return { __esModule: true, GameEventsService, default: GameEventsService };
+});
+
+jest.mock('../index', () => ({
+  startServer: jest.fn(),
+  prisma: {
+    game: { create: jest.fn(), update: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+
+/**
+ * Versioned game-state saves, so concurrent actions can't overwrite each other
+ */
+describe('🔢 Game State Versioning', () => {
+  const startGame = async (): Promise<string> => {
+    const { gameId } = await LiveGameService.createGame({
+      gameType: 'human',
+      whitePlayerId: 'white-player',
+      colorPreference: 'white',
+    });
+    await LiveGameService.joinGame(gameId, 'black-player');
+    return gameId;
+  };
+
+  it('should bump the version on every save', async () => {
+    const gameId = await startGame();
+    const before = (await LiveGameService.getGameState(gameId))!;
+
+    const result = await GameEngineService.processMove(gameId, 'white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+
+    expect(result.success).toBe(true);
+    const after = (await LiveGameService.getGameState(gameId))!;
+    expect(after.version).toBe(before.version! + 1);
+  });
+
+  it('should reject a save based on a state that has since been saved over', async () => {
+    const gameId = await startGame();
+    const first = (await LiveGameService.getGameState(gameId))!;
+    const second = (await LiveGameService.getGameState(gameId))!;
+
+    await LiveGameService.saveGameState(gameId, first);
+    await expect(LiveGameService.saveGameState(gameId, second)).rejects.toBeInstanceOf(GameStateConflictError);
+  });
+
+  it('should keep both allocations when attacker and defender submit at the same moment', async () => {
+    const gameId = await startGame();
+    await GameEngineService.processMove(gameId, 'white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    await GameEngineService.processMove(gameId, 'black-player', { type: 'MOVE', from: 'd7', to: 'd5' });
+    await GameEngineService.processMove(gameId, 'white-player', { type: 'MOVE', from: 'e4', to: 'd5' });
+    expect((await LiveGameService.getGameState(gameId))!.gameStatus).toBe(GameStatus.DUEL_IN_PROGRESS);
+
+    const [attacker, defender] = await Promise.all([
+      GameEngineService.processDuelAllocation(gameId, 'white-player', 1),
+      GameEngineService.processDuelAllocation(gameId, 'black-player', 0),
+    ]);
+
+    expect(attacker.success).toBe(true);
+    expect(defender.success).toBe(true);
+    const gameState = (await LiveGameService.getGameState(gameId))!;
+    expect(gameState.pendingDuel).toBeNull();
+    expect(gameState.gameStatus).not.toBe(GameStatus.DUEL_IN_PROGRESS);
+  });
+});
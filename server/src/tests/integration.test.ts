@@ -201,8 +201,7 @@ describe('🚀 Gambit Chess Engine Integration Tests', () => {
     test('should import shared utilities correctly', async () => {
       // Test that shared imports work
       try {
-        const { calculateBPRegen } = await import('../game/bp');
-        const { detectTactics } = await import('../game/tactics');
+        const { calculateBPRegen, detectTactics } = await import('@gambit-chess/shared');
         
         expect(typeof calculateBPRegen).toBe('function');
         expect(typeof detectTactics).toBe('function');
@@ -0,0 +1,71 @@
+import { MatchmakingService } from '../services/matchmaking.service';
+import { RedisService } from '../services/redis.service';
+
+jest.mock('../services/redis.service', () => ({
+  RedisService: require('./memory-redis').createMemoryRedis()
+}));
+
+jest.mock('../services/game-events.service', () => {
+  const GameEventsService = { processGameEvent: jest.fn(), initialize: jest.fn() };
+  return { __esModule: true, GameEventsService, default: GameEventsService };
+});
+
+jest.mock('../index', () => ({
+  startServer: jest.fn(),
+  prisma: {
+    game: { create: jest.fn(), update: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+
+/**
+ * The queue is read from the sorted set of queued player IDs, never by scanning Redis keys
+ */
+describe('⏳ Matchmaking Queue', () => {
+  const join = (playerId: string) => MatchmakingService.joinQueue(
+    { playerId, isAnonymous: true, socketId: `${playerId}-socket` },
+    { ruleset: 'standard' }
+  );
+  const queuedPlayers = () => RedisService.getSortedSetMembersUpTo('matchmaking_queue', Date.now());
+
+  let keysSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    keysSpy = jest.spyOn(RedisService, 'keys');
+  });
+
+  afterEach(() => {
+    expect(keysSpy).not.toHaveBeenCalled();
+    keysSpy.mockRestore();
+    (RedisService as any).flush();
+  });
+
+  it('should pair two queued players and take them both out of the queue', async () => {
+    await join('first-player');
+    const second = await join('second-player');
+    expect(second.status?.playersInQueue).toBe(1);
+    expect(await queuedPlayers()).toEqual(['first-player', 'second-player']);
+
+    await MatchmakingService.sweep();
+
+    expect(await queuedPlayers()).toEqual([]);
+    expect((await join('third-player')).status?.playersInQueue).toBe(0);
+  });
+
+  it('should take a player out of the queue when they leave it', async () => {
+    await join('first-player');
+
+    expect(await MatchmakingService.leaveQueue('first-player', 'other-socket')).toBe(false);
+    expect(await queuedPlayers()).toEqual(['first-player']);
+
+    expect(await MatchmakingService.leaveQueue('first-player', 'first-player-socket')).toBe(true);
+    expect(await queuedPlayers()).toEqual([]);
+  });
+
+  it('should drop a player whose queue entry has expired', async () => {
+    await join('first-player');
+    await RedisService.del('matchmaking:first-player');
+
+    expect((await join('second-player')).status?.playersInQueue).toBe(0);
+    expect(await queuedPlayers()).toEqual(['second-player']);
+  });
+});
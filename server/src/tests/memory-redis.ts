@@ -0,0 +1,169 @@
+import type { RedisService } from '../services/redis.service';
+
+type StoredValue = string | Set<string> | Map<string, number> | string[]; // Sorted sets map members to scores
+
+/**
+ * In-memory stand-in for RedisService, for tests that need Redis to actually keep data.
+ * Several services (or several server instances) given the same stand-in share its data and
+ * its pub/sub channels; messages are delivered asynchronously, like they are over the network.
+ */
+export function createMemoryRedis(): Omit<typeof RedisService, 'getRedisClient'> & { flush(): void } {
+  const store = new Map<string, { value: StoredValue; expiresAt?: number }>();
+  const channels = new Map<string, Set<(message: string) => void>>();
+
+  const read = (key: string): StoredValue | undefined => {
+    const entry = store.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return undefined;
+    }
+    return entry?.value;
+  };
+
+  const write = (key: string, value: StoredValue, ttlSeconds?: number) => {
+    store.set(key, { value, expiresAt: ttlSeconds !== undefined ? Date.now() + ttlSeconds * 1000 : undefined });
+  };
+
+  const expire = async (key: string, ttlSeconds: number) => {
+    const value = read(key);
+    if (value !== undefined) {
+      write(key, value, ttlSeconds);
+    }
+  };
+
+  const patternToRegExp = (pattern: string) =>
+    new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+  return {
+    async setWithTTL(key, value, ttlSeconds) {
+      write(key, value, ttlSeconds);
+    },
+    async setIfAbsent(key, value, ttlSeconds) {
+      if (read(key) !== undefined) {
+        return false;
+      }
+      write(key, value, ttlSeconds);
+      return true;
+    },
+    async setIfVersion(key, value, ttlSeconds, expectedVersion, append) {
+      const current = read(key);
+      const version = typeof current === 'string' ? Number(JSON.parse(current).version) || 0 : 0;
+      if (version !== expectedVersion) {
+        return false;
+      }
+      write(key, value, ttlSeconds);
+      if (append) {
+        const list = read(append.key);
+        const values = [...(Array.isArray(list) ? list : []), ...append.values];
+        if (values.length > 0) {
+          write(append.key, values, ttlSeconds);
+        }
+      }
+      return true;
+    },
+    async acquireLock(key, ttlMs) {
+      if (read(key) !== undefined) {
+        return null;
+      }
+      const token = `lock-${Math.random().toString(36).slice(2)}`;
+      write(key, token, ttlMs / 1000);
+      return token;
+    },
+    async releaseLock(key, token) {
+      if (read(key) !== token) {
+        return false;
+      }
+      store.delete(key);
+      return true;
+    },
+    async get(key) {
+      const value = read(key);
+      return typeof value === 'string' ? value : null;
+    },
+    async del(key) {
+      const existed = read(key) !== undefined;
+      store.delete(key);
+      return existed;
+    },
+    async keys(pattern) {
+      const matcher = patternToRegExp(pattern);
+      return Array.from(store.keys()).filter(key => read(key) !== undefined && matcher.test(key));
+    },
+    async exists(key) {
+      return read(key) !== undefined;
+    },
+    expire,
+    async persist(key) {
+      const value = read(key);
+      if (value !== undefined) {
+        write(key, value);
+      }
+    },
+    async addToSet(key, member, ttlSeconds) {
+      const value = read(key);
+      const members = value instanceof Set ? value : new Set<string>();
+      members.add(member);
+      write(key, members, ttlSeconds);
+    },
+    async removeFromSet(key, member) {
+      const value = read(key);
+      if (!(value instanceof Set) || !value.delete(member)) {
+        return false;
+      }
+      if (value.size === 0) {
+        store.delete(key);
+      }
+      return true;
+    },
+    async getSetMembers(key) {
+      const value = read(key);
+      return value instanceof Set ? Array.from(value) : [];
+    },
+    async addToSortedSet(key, member, score) {
+      const value = read(key);
+      const members = value instanceof Map ? value : new Map<string, number>();
+      members.set(member, score);
+      store.set(key, { value: members, expiresAt: store.get(key)?.expiresAt });
+    },
+    async removeFromSortedSet(key, member) {
+      const value = read(key);
+      if (!(value instanceof Map) || !value.delete(member)) {
+        return false;
+      }
+      if (value.size === 0) {
+        store.delete(key);
+      }
+      return true;
+    },
+    async getSortedSetMembersUpTo(key, maxScore) {
+      const value = read(key);
+      return value instanceof Map
+        ? Array.from(value).filter(([, score]) => score <= maxScore).sort(([, a], [, b]) => a - b).map(([member]) => member)
+        : [];
+    },
+    async appendToList(key, value, ttlSeconds) {
+      const list = read(key);
+      write(key, [...(Array.isArray(list) ? list : []), value], ttlSeconds);
+    },
+    async getList(key) {
+      const list = read(key);
+      return Array.isArray(list) ? [...list] : [];
+    },
+    async publish(channel, message) {
+      for (const listener of Array.from(channels.get(channel) ?? [])) {
+        setImmediate(() => listener(message));
+      }
+    },
+    async subscribe(channel, listener) {
+      const listeners = channels.get(channel) ?? new Set();
+      listeners.add(listener);
+      channels.set(channel, listeners);
+      return async () => {
+        listeners.delete(listener);
+      };
+    },
+    flush() {
+      store.clear();
+    },
+  };
+}
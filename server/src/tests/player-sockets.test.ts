@@ -0,0 +1,68 @@
+import { GameEventsService } from '../services/game-events.service';
+
+jest.unmock('../services/game-events.service');
+
+// The registry lives in Redis, so it needs a stand-in that keeps what is written
+jest.mock('../services/redis.service', () => ({
+  RedisService: require('./memory-redis').createMemoryRedis()
+}));
+
+// Mock the server startup to avoid port conflicts
+jest.mock('../index', () => ({
+  startServer: jest.fn(),
+  prisma: {}
+}));
+
+jest.mock('../socket/game.socket', () => ({
+  broadcastGameEvent: jest.fn(),
+  broadcastGameUpdate: jest.fn(),
+}));
+
+/**
+ * Player-socket registry used for private, per-player updates
+ */
+describe('🔌 Player Socket Registry', () => {
+  const emit = jest.fn();
+  const to = jest.fn(() => ({ emit }));
+
+  beforeEach(async () => {
+    GameEventsService.initialize({ to } as any);
+    await GameEventsService.unregisterSocket('tab-1');
+    await GameEventsService.unregisterSocket('tab-2');
+    await GameEventsService.unregisterSocket('other-game-tab');
+    to.mockClear();
+    emit.mockClear();
+  });
+
+  it('should keep every tab of a player registered', async () => {
+    await GameEventsService.registerPlayerSocket('player-1', 'tab-1', 'game-1');
+    await GameEventsService.registerPlayerSocket('player-1', 'tab-2', 'game-1');
+
+    expect((await GameEventsService.getSocketIdsForPlayer('player-1', 'game-1')).sort()).toEqual(['tab-1', 'tab-2']);
+  });
+
+  it('should send private messages to all of a player\'s sockets on that game only', async () => {
+    await GameEventsService.registerPlayerSocket('player-1', 'tab-1', 'game-1');
+    await GameEventsService.registerPlayerSocket('player-1', 'tab-2', 'game-1');
+    await GameEventsService.registerPlayerSocket('player-1', 'other-game-tab', 'game-2');
+
+    const sent = await GameEventsService.sendToPlayer('player-1', 'game-1', 'game:battle_points_updated', { newAmount: 10 });
+
+    expect(sent).toBe(true);
+    expect(to).toHaveBeenCalledWith(expect.arrayContaining(['tab-1', 'tab-2']));
+    expect((to.mock.calls[0] as any[])[0]).not.toContain('other-game-tab');
+    expect(emit).toHaveBeenCalledWith('game:battle_points_updated', { newAmount: 10 });
+  });
+
+  it('should leave the other tabs in place when one disconnects', async () => {
+    await GameEventsService.registerPlayerSocket('player-1', 'tab-1', 'game-1');
+    await GameEventsService.registerPlayerSocket('player-1', 'tab-2', 'game-1');
+
+    await GameEventsService.unregisterSocket('tab-1');
+    expect(await GameEventsService.getSocketIdsForPlayer('player-1', 'game-1')).toEqual(['tab-2']);
+
+    await GameEventsService.unregisterSocket('tab-2');
+    expect(await GameEventsService.getSocketIdsForPlayer('player-1', 'game-1')).toEqual([]);
+    expect(await GameEventsService.sendToPlayer('player-1', 'game-1', 'game:battle_points_updated', {})).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+import { GameStatus } from '@gambit-chess/shared';
+import { LiveGameService } from '../services/live-game.service';
+import { PresenceService } from '../services/presence.service';
+import { prisma } from '../index';
+
+// Absences are kept in Redis, where any server can see a player come back
+jest.mock('../services/redis.service', () => ({
+  RedisService: require('./memory-redis').createMemoryRedis()
+}));
+
+jest.mock('../services/game-events.service', () => {
+  const GameEventsService = { processGameEvent: jest.fn(), initialize: jest.fn() };
+  return { __esModule: true, GameEventsService, default: GameEventsService };
+});
+
+// Ending a game would otherwise write its session log to disk
+jest.mock('../services/game-event-tracker.service');
+
+jest.mock('../index', () => ({
+  startServer: jest.fn(),
+  prisma: {
+    game: { create: jest.fn(), update: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+
+const GRACE_PERIOD_MS = 100;
+
+/**
+ * A player who leaves a game in progress has a grace period to come back before they lose it
+ */
+describe('🔌 Presence Service', () => {
+  const startGame = async (): Promise<{ gameId: string; gameState: any }> => {
+    const { gameId } = await LiveGameService.createGame({
+      gameType: 'human',
+      whitePlayerId: 'white-player',
+      colorPreference: 'white',
+      rated: false,
+    });
+    const gameState = await LiveGameService.joinGame(gameId, 'black-player');
+    return { gameId, gameState };
+  };
+
+  const getArchived = (gameId: string) => (prisma.game.update as jest.Mock).mock.calls
+    .map(([args]) => args)
+    .find(args => args.where.id === gameId && args.data.events)?.data;
+
+  const waitPastGracePeriod = () => new Promise(resolve => setTimeout(resolve, GRACE_PERIOD_MS * 3));
+
+  // The game is archived first, then its absences are cleared with the rest of it
+  const waitUntilAdjudicated = async (gameId: string, playerIds: string[]) => {
+    const deadline = Date.now() + 3000;
+    const isAnyoneAway = async () => (await Promise.all(playerIds.map(id => PresenceService.isAway(gameId, id)))).some(Boolean);
+    while (!getArchived(gameId) || await isAnyoneAway()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for the abandonment');
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    return getArchived(gameId);
+  };
+
+  beforeAll(() => {
+    process.env.RECONNECT_GRACE_PERIOD_MS = String(GRACE_PERIOD_MS);
+  });
+
+  afterAll(() => {
+    delete process.env.RECONNECT_GRACE_PERIOD_MS;
+  });
+
+  it('should end the game for a player who does not come back within the grace period', async () => {
+    const { gameId, gameState } = await startGame();
+
+    const before = Date.now();
+    const deadline = await PresenceService.playerDisconnected(gameId, 'black-player', gameState);
+    expect(deadline).toBeGreaterThanOrEqual(before + GRACE_PERIOD_MS);
+    expect(await PresenceService.isAway(gameId, 'black-player')).toBe(true);
+    expect(await PresenceService.getReconnectDeadline(gameId, 'black-player')).toBe(deadline);
+
+    const archived = await waitUntilAdjudicated(gameId, ['black-player']);
+    expect(archived.result).toBe('WHITE_WINS');
+    expect(archived.resultReason).toBe('ABANDONMENT');
+  });
+
+  it('should keep the game going for a player who comes back in time', async () => {
+    const { gameId, gameState } = await startGame();
+
+    await PresenceService.playerDisconnected(gameId, 'white-player', gameState);
+    expect(await PresenceService.playerConnected(gameId, 'white-player')).toBe(true);
+    expect(await PresenceService.getReconnectDeadline(gameId, 'white-player')).toBeNull();
+
+    await waitPastGracePeriod();
+
+    expect((await LiveGameService.getGameState(gameId))!.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(getArchived(gameId)).toBeUndefined();
+    // Connecting without having left is not a reconnection
+    expect(await PresenceService.playerConnected(gameId, 'white-player')).toBe(false);
+  });
+
+  it('should keep the first deadline when a player drops off again before coming back', async () => {
+    const { gameId, gameState } = await startGame();
+
+    const first = await PresenceService.playerDisconnected(gameId, 'black-player', gameState);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(await PresenceService.playerDisconnected(gameId, 'black-player', gameState)).toBe(first);
+
+    await PresenceService.playerConnected(gameId, 'black-player');
+  });
+
+  it('should give nobody the win when both players are gone', async () => {
+    const { gameId, gameState } = await startGame();
+
+    await PresenceService.playerDisconnected(gameId, 'white-player', gameState);
+    await PresenceService.playerDisconnected(gameId, 'black-player', gameState);
+    const archived = await waitUntilAdjudicated(gameId, ['white-player', 'black-player']);
+    expect(archived.resultReason).toBe('ABANDONMENT');
+    expect(archived.result).toBeNull();
+  });
+
+  it('should not wait for players of games that do not need them back', async () => {
+    const { gameId, gameState } = await LiveGameService.createGame({ gameType: 'practice', anonymousUserId: 'practice-player', ruleset: 'standard' });
+    expect(await PresenceService.playerDisconnected(gameId, 'practice-player', gameState)).toBeNull();
+
+    const waiting = await LiveGameService.createGame({ gameType: 'human', whitePlayerId: 'white-player', colorPreference: 'white' });
+    expect(await PresenceService.playerDisconnected(waiting.gameId, 'white-player', waiting.gameState)).toBeNull();
+    expect(await PresenceService.isAway(waiting.gameId, 'white-player')).toBe(false);
+  });
+});
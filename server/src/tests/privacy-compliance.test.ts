@@ -1,4 +1,4 @@
-import { getGameStateForPlayer, getFilteringSummary } from '../utils/game-state-filter';
+import { getGameStateForPlayer, getFilteringSummary, getSpectatorGameState } from '../utils/game-state-filter';
 import { DEFAULT_GAME_CONFIG, ADVANCED_GAME_CONFIG } from '@gambit-chess/shared';
 import { Chess } from 'chess.js';
 import { BaseGameState, GameStatus, Player } from '@gambit-chess/shared';
@@ -125,6 +125,16 @@ describe('🔐 Privacy Compliance Tests', () => {
       expect(blackPlayerView.pendingDuel?.defenderAllocation).toBe(3);
       expect(blackPlayerView.pendingDuel?.attackerAllocation).toBeUndefined();
     });
+
+    it('should keep the first allocation hidden while the opponent is still deciding', () => {
+      mockGameState.gameStatus = GameStatus.DUEL_IN_PROGRESS;
+      mockGameState.pendingDuel!.defenderAllocation = undefined;
+
+      const blackPlayerView = getGameStateForPlayer(mockGameState, blackPlayer.id);
+
+      expect(blackPlayerView.pendingDuel?.attackerAllocation).toBeUndefined();
+      expect(blackPlayerView.pendingDuel?.defenderAllocation).toBeUndefined();
+    });
   });
 
   describe('👀 Spectator Privacy', () => {
@@ -144,6 +154,26 @@ describe('🔐 Privacy Compliance Tests', () => {
         expect(spectatorView.pendingDuel.defenderAllocation).toBeUndefined();
       }
     });
+
+    it('should hide past allocations from spectators when allocation history is hidden', () => {
+      const duelMove = {
+        from: 'e4', to: 'd5', color: 'w', piece: 'p', san: 'exd5', captured: 'p',
+        duelResult: { attackerAllocation: 3, defenderAllocation: 2, attackerWon: true }
+      } as any;
+      mockGameState.moveHistory = [duelMove];
+
+      const openView = getSpectatorGameState(mockGameState);
+      expect(openView.moveHistory[0].duelResult?.attackerAllocation).toBe(3);
+
+      mockGameState.config = {
+        ...DEFAULT_GAME_CONFIG,
+        informationHiding: { ...DEFAULT_GAME_CONFIG.informationHiding, hideAllocationHistory: true }
+      };
+      const hiddenView = getSpectatorGameState(mockGameState);
+      expect(hiddenView.moveHistory[0].duelResult?.attackerAllocation).toBeUndefined();
+      expect(hiddenView.moveHistory[0].duelResult?.defenderAllocation).toBeUndefined();
+      expect(hiddenView.moveHistory[0].duelResult?.attackerWon).toBe(true);
+    });
   });
 
   describe('📊 Filtering Summary', () => {
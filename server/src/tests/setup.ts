@@ -13,9 +13,26 @@ jest.mock('../services/redis.service', () => ({
     }),
     get: jest.fn().mockResolvedValue(null),
     set: jest.fn(),
-    setWithTTL: jest.fn(),
+    setWithTTL: jest.fn().mockResolvedValue(undefined),
+    setIfAbsent: jest.fn().mockResolvedValue(true),
+    setIfVersion: jest.fn().mockResolvedValue(true),
+    acquireLock: jest.fn().mockResolvedValue('lock-token'),
+    releaseLock: jest.fn().mockResolvedValue(true),
     del: jest.fn(),
+    keys: jest.fn().mockResolvedValue([]),
     exists: jest.fn().mockResolvedValue(false),
+    expire: jest.fn().mockResolvedValue(undefined),
+    persist: jest.fn().mockResolvedValue(undefined),
+    addToSet: jest.fn().mockResolvedValue(undefined),
+    removeFromSet: jest.fn().mockResolvedValue(false),
+    getSetMembers: jest.fn().mockResolvedValue([]),
+    addToSortedSet: jest.fn().mockResolvedValue(undefined),
+    removeFromSortedSet: jest.fn().mockResolvedValue(false),
+    getSortedSetMembersUpTo: jest.fn().mockResolvedValue([]),
+    appendToList: jest.fn().mockResolvedValue(undefined),
+    getList: jest.fn().mockResolvedValue([]),
+    publish: jest.fn().mockResolvedValue(undefined),
+    subscribe: jest.fn().mockResolvedValue(jest.fn()),
   }
 }));
 
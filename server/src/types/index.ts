@@ -1,2 +1 @@
 export * from './game';
-export * from './tactics';
\ No newline at end of file
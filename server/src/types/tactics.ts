@@ -1,18 +0,0 @@
-import { Direction } from "@gambit-chess/shared";
-import { PieceSymbol, Square } from "chess.js";
-
-export interface RayCastDTO{
-    attacker: {
-        square: Square;
-        type: PieceSymbol;
-    };
-    direction: Direction;
-    firstHit: {
-        square: Square;
-        type: PieceSymbol;
-    };
-    secondHit: {
-        square: Square;
-        type: PieceSymbol;
-    };
-}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { BaseGameState, Player } from '@gambit-chess/shared';
+import { BaseGameState, DuelResult, GambitMove, GameEvent, GameEventType, Player } from '@gambit-chess/shared';
 import { GameConfig } from '@gambit-chess/shared';
 
 /**
@@ -63,7 +63,7 @@ export function getGameStateForPlayer(gameState: BaseGameState, playerId: string
 /**
  * Get minimal game state for spectators (non-players)
  */
-function getSpectatorGameState(gameState: BaseGameState): BaseGameState {
+export function getSpectatorGameState(gameState: BaseGameState): BaseGameState {
   return {
     ...gameState,
     // Hide all battle points for spectators
@@ -76,10 +76,53 @@ function getSpectatorGameState(gameState: BaseGameState): BaseGameState {
       ...gameState.pendingDuel,
       attackerAllocation: undefined,
       defenderAllocation: undefined
-    } : null
+    } : null,
+    // Past allocations stay hidden when the config hides them from players, the BP left after each duel always
+    moveHistory: (gameState.config.informationHiding.hideAllocationHistory
+      ? filterMoveHistoryAllocations(gameState.moveHistory, '', gameState)
+      : gameState.moveHistory
+    ).map(hideMoveBattlePoints)
   };
 }
 
+/**
+ * Get a game event as spectators see it, without the battle points the players are left with
+ */
+export function getSpectatorGameEvent(event: GameEvent): GameEvent {
+  switch (event.type) {
+    case GameEventType.DUEL_RESOLVED: {
+      const { payload } = event as GameEvent<GameEventType.DUEL_RESOLVED>;
+      return {
+        ...event,
+        payload: {
+          ...payload,
+          outcome: hideDuelBattlePoints(payload.outcome),
+          attackerRemainingBP: -1,
+          defenderRemainingBP: -1,
+          move: hideMoveBattlePoints(payload.move)
+        }
+      };
+    }
+    case GameEventType.TACTICAL_RETREAT_MADE: {
+      const { payload } = event as GameEvent<GameEventType.TACTICAL_RETREAT_MADE>;
+      return { ...event, payload: { ...payload, newBP: -1 } };
+    }
+    default:
+      return event;
+  }
+}
+
+/**
+ * Hide the battle points left after a duel (-1, as for hidden pools)
+ */
+export function hideDuelBattlePoints(duelResult: DuelResult): DuelResult {
+  return { ...duelResult, attackerBattlePointsRemaining: -1, defenderBattlePointsRemaining: -1 };
+}
+
+function hideMoveBattlePoints(move: GambitMove): GambitMove {
+  return move.duelResult ? { ...move, duelResult: hideDuelBattlePoints(move.duelResult) } as GambitMove : move;
+}
+
 /**
  * Determine if battle points should be hidden for a specific player
  */
@@ -1,4 +1,5 @@
-import { GameConfig } from '../types/config';
+import { ConfigurationTemplate, GameConfig } from '../types/config';
+import { TimeControl } from '../types/clock';
 import { STANDARD_PIECE_VALUES, TOTAL_STARTING_PIECES_VALUE } from './piece-values';
 import { SpecialAttackType } from '../types/tactics';
 
@@ -18,17 +19,17 @@ export const DEFAULT_GAME_CONFIG: GameConfig = {
       },
       [SpecialAttackType.SKEWER]: {
         enabled: true,
-        formula: 'Math.max(1, Math.abs(frontPieceValue - backPieceValue))',
+        formula: 'max(1, abs(frontPieceValue - backPieceValue))',
         description: 'Regenerate the difference of skewered pieces\' values (minimum 1)'
       },
       [SpecialAttackType.FORK]: {
         enabled: true,
-        formula: 'Math.min(...forkedPiecesValues)',
+        formula: 'min(forkedPiecesValues)',
         description: 'Regenerate the lower of the forked pieces\' values'
       },
       [SpecialAttackType.DISCOVERED_ATTACK]: {
         enabled: true,
-        formula: 'Math.ceil(attackedPieceValue / 2)',
+        formula: 'ceil(attackedPieceValue / 2)',
         description: 'Regenerate half of the attacked piece\'s value (rounded up)'
       },
       [SpecialAttackType.CHECK]: {
@@ -147,12 +148,12 @@ export const ADVANCED_GAME_CONFIG: GameConfig = {
       },
       [SpecialAttackType.SKEWER]: {
         enabled: true,
-        formula: 'Math.max(2, Math.abs(frontPieceValue - backPieceValue) * 1.5)',
+        formula: 'max(2, abs(frontPieceValue - backPieceValue) * 1.5)',
         description: 'Regenerate 150% of the difference of skewered pieces\' values (minimum 2)'
       },
       [SpecialAttackType.FORK]: {
         enabled: true,
-        formula: 'forkedPiecesValues.reduce((sum, value) => sum + value, 0) / 2',
+        formula: 'sum(forkedPiecesValues) / 2',
         description: 'Regenerate 50% of the sum of all forked pieces\' values'
       },
       [SpecialAttackType.DISCOVERED_ATTACK]: {
@@ -242,10 +243,16 @@ export const ATTACKER_WINS_TIES_CONFIG: GameConfig = {
 };
 
 // Configuration templates mapping
-export const GAME_CONFIG_TEMPLATES = {
+export const GAME_CONFIG_TEMPLATES: Record<Exclude<ConfigurationTemplate, 'custom'>, GameConfig> = {
   standard: DEFAULT_GAME_CONFIG,
   beginner: BEGINNER_GAME_CONFIG,
   advanced: ADVANCED_GAME_CONFIG,
   risky: RISKY_GAME_CONFIG, // NEW
   attackerWinsTies: ATTACKER_WINS_TIES_CONFIG, // NEW
-};
\ No newline at end of file
+};
+// Duel and retreat timers used by timed games unless the creator overrides them
+export const DEFAULT_TIME_CONTROL_PHASES: Pick<TimeControl, 'duelAllocationTimeMs' | 'retreatDecisionTimeMs' | 'defaultDuelAllocation'> = {
+  duelAllocationTimeMs: 30000,
+  retreatDecisionTimeMs: 20000,
+  defaultDuelAllocation: 0
+};
@@ -21,16 +21,23 @@ export * from './types/bug-reporting';
 // Export a function to create a new game instance with default configuration
 import { Chess } from 'chess.js';
 import { BaseGameState, GameStatus, Player } from './types/game';
+import { GameConfig } from './types/config';
+import { TimeControl } from './types/clock';
 import { DEFAULT_GAME_CONFIG } from './constants/game-defaults';
+import { createGameClock, startClock } from './utils/clock';
 
 /**
  * Create a new Gambit Chess game state
+ * @param config - Validated game configuration (see resolveGameConfig); defaults to the standard ruleset
+ * @param timeControl - Validated time control (see validateTimeControl); untimed when omitted
  */
 export function createNewGame(
   gameId: string, 
   whitePlayerId: string, 
   blackPlayerId?: string, 
-  gameType?: 'ai' | 'human' | 'practice'
+  gameType?: 'ai' | 'human' | 'practice',
+  config: GameConfig = DEFAULT_GAME_CONFIG,
+  timeControl?: TimeControl
 ): BaseGameState {
   const chess = new Chess();
   const initialFen = chess.fen(); // Get initial FEN
@@ -38,19 +45,26 @@ export function createNewGame(
   const whitePlayer: Player = {
     id: whitePlayerId,
     color: 'w',
-    battlePoints: DEFAULT_GAME_CONFIG.initialBattlePoints
+    battlePoints: config.initialBattlePoints
   };
   
   const blackPlayer: Player = {
     id: blackPlayerId || '', // Empty string if no second player yet
     color: 'b',
-    battlePoints: DEFAULT_GAME_CONFIG.initialBattlePoints
+    battlePoints: config.initialBattlePoints
   };
   
-  const gameStatus = blackPlayerId 
+  // A human game's creator may take either color; the other seat stays empty until someone joins
+  const gameStatus = whitePlayerId && blackPlayerId
     ? GameStatus.IN_PROGRESS 
     : GameStatus.WAITING_FOR_PLAYERS;
   
+  // White's clock starts as soon as both players are present
+  const clock = timeControl ? createGameClock(timeControl) : undefined;
+  if (clock && gameStatus === GameStatus.IN_PROGRESS) {
+    startClock(clock, 'w');
+  }
+  
   return {
     id: gameId,
     chess: chess, // Or perhaps just store the FEN: fen: initialFen
@@ -60,10 +74,12 @@ export function createNewGame(
     moveHistory: [],
     pendingDuel: null,
     gameStatus,
-    config: DEFAULT_GAME_CONFIG,
+    config,
     gameType: gameType,
     // Initialize manual draw tracking fields
     halfmoveClockManual: 0,
-    positionHistory: [{ fen: initialFen, turn: 'w' }] // Initial position, white to move next
+    positionHistory: [{ fen: initialFen, turn: 'w' }], // Initial position, white to move next
+    version: 0, // Not saved yet
+    ...(timeControl ? { timeControl, clock } : {})
   };
 }
\ No newline at end of file
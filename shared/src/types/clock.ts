@@ -0,0 +1,24 @@
+import { Color } from 'chess.js';
+
+// Time control chosen when the game is created
+export interface TimeControl {
+  baseTimeMs: number; // Starting time on each player's clock
+  incrementMs: number; // Added to a player's clock after each completed move
+  duelAllocationTimeMs: number; // Time each player has to submit a duel allocation
+  retreatDecisionTimeMs: number; // Time the attacker has to choose a tactical retreat
+  defaultDuelAllocation: number; // BP allocated for a player who misses the duel deadline (capped by BP and piece capacity)
+}
+
+// Server-tracked clock state
+export interface GameClock {
+  whiteTimeMs: number; // Remaining time as of turnStartedAt
+  blackTimeMs: number;
+  runningFor: Color | null; // Side whose clock is running; null while paused for a duel or retreat decision
+  turnStartedAt: number; // When the running clock was last started
+  phaseDeadline?: number; // Deadline for the pending duel allocations or retreat decision
+}
+
+// The next moment at which the server has to act without player input
+export type ClockDeadline =
+  | { type: 'flag'; color: Color; at: number }
+  | { type: 'phase'; at: number };
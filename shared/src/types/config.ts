@@ -9,7 +9,7 @@ export interface DuelResolutionRules {
 
 // Piece loss and retreat rules
 export interface PieceLossRules {
-  attackerCanLosePiece: boolean; // false = current (always can retreat), true = can lose piece
+  attackerCanLosePiece: boolean; // false = current (always can retreat), true = piece is lost when no retreat is affordable
   retreatPaymentRules: {
     enabled: boolean; // Whether retreats cost BP
     originalSquareRetreatCost: number; // Cost to retreat to original square (0 in current rules)
@@ -62,4 +62,4 @@ export interface TacticalRetreatRules {
 }
 
 // Default configuration template
-export type ConfigurationTemplate = 'standard' | 'beginner' | 'advanced' | 'custom';
\ No newline at end of file
+export type ConfigurationTemplate = 'standard' | 'beginner' | 'advanced' | 'risky' | 'attackerWinsTies' | 'custom';
\ No newline at end of file
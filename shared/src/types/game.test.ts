@@ -77,5 +77,12 @@ describe('Game Types', () => {
       expect(game.moveHistory).toEqual([]);
       expect(game.pendingDuel).toBeNull();
     });
+
+    it('should wait for a white player when only black is seated', () => {
+      const game = createNewGame('test-game-123', '', 'black-player-123');
+
+      expect(game.whitePlayer.id).toBe('');
+      expect(game.gameStatus).toBe(GameStatus.WAITING_FOR_PLAYERS);
+    });
   });
 }); 
\ No newline at end of file
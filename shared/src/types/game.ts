@@ -1,5 +1,6 @@
 import { Chess, Square, Color, PieceSymbol, Move } from 'chess.js';
-import { GameConfig } from './config';
+import { ConfigurationTemplate, GameConfig } from './config';
+import { TimeControl, GameClock } from './clock';
 
 // Player representation
 export interface Player {
@@ -13,6 +14,7 @@ export interface GambitMove extends Move {
   captureAttempt?: boolean;
   duelResult?: DuelResult;
   tacticalRetreat?: TacticalRetreat;
+  attackerPieceLost?: boolean; // Failed attacker was removed from the board (pieceLossRules.attackerCanLosePiece)
 }
 
 // Duel Result
@@ -30,11 +32,12 @@ export interface TacticalRetreat {
   failedCaptureSquare: Square; 
   retreatSquare: Square;
   battlePointsCost: number;
+  defenderPayment?: number; // Share of battlePointsCost paid to the defender (retreatPaymentRules.costToDefenderEnabled)
 }
 
 // BP Calculation Transaction
 export interface BPTransaction {
-  type: 'duel_cost' | 'retreat_cost' | 'regeneration' | 'initial';
+  type: 'duel_cost' | 'retreat_cost' | 'retreat_payment' | 'piece_loss' | 'regeneration' | 'initial';
   player: 'white' | 'black';
   amount: number;
   details: string;
@@ -95,11 +98,66 @@ export interface BaseGameState {
   pendingDuel: PendingDuel | null;
   gameStatus: GameStatus;
   config: GameConfig;
+  ruleset?: ConfigurationTemplate; // Template the config was created from ('custom' for user-supplied configs)
   gameType?: 'ai' | 'human' | 'practice'; // Optional for backward compatibility
-  halfmoveClockManual: number;
-  positionHistory: Array<{ fen: string; turn: Color }>;
+  aiOpponent?: AIOpponent; // Strength and style of the AI side in AI games
+  rated?: boolean; // Human game that updates both players' ratings when it ends
+  halfmoveClockManual: number; // Half-moves since the last pawn advance, successful capture or lost piece
+  positionHistory: Array<{ fen: string; turn: Color }>; // Every position reached, for repetition detection
+  endReason?: GameEndReason; // Why the game ended, set together with a terminal gameStatus
+  winner?: Color; // Winning side of a decisive result
+  drawOffer?: DrawOffer | null; // Pending draw offer, cleared when answered or when the opponent moves
+  startingPosition?: string; // Gambit FEN the game started from; absent for the initial position
+  chess960Index?: number; // Chess960 starting position (0-959) the game was set up from
+  castlingRooks?: Square[]; // Chess960 castling rights: rooks that can still castle (chess.js castles in other games)
+  timeControl?: TimeControl; // Untimed game when absent
+  clock?: GameClock; // Present whenever timeControl is
   availableRetreatOptions?: Array<{ square: Square; cost: number }>; // Server-calculated retreat options
   bpCalculationReport?: BPCalculationReport; // Optional detailed BP calculation report for debug/transparency
+  practiceTree?: PracticeTree; // Practice games: every line explored, for takebacks and branching
+  version?: number; // Bumped by every save; lets the server reject conflicting writes and clients drop stale states
+}
+
+// Practice Tree
+// Positions a practice game has reached, each after a completed move (duel and retreat included).
+// The server keeps a full state snapshot per node; undo, redo and branching restore one.
+export interface PracticeTreeMove {
+  san: string;
+  color: Color;
+  duel?: { attackerAllocation: number; defenderAllocation: number; attackerWon: boolean };
+  retreatSquare?: Square;
+}
+
+export interface PracticeTreeNode {
+  id: string;
+  parentId: string | null; // Null at the root, the position the game started from
+  depth: number; // Moves in the move history at this position
+  eventCount: number; // Length of the event log when the position was reached, for replaying a restore
+  move?: PracticeTreeMove; // The move that led here
+  redoChildId?: string; // Child visited last, where redo goes
+}
+
+export interface PracticeTree {
+  nodes: PracticeTreeNode[];
+  currentId: string;
+  eventCount: number; // Length of the game's event log
+}
+
+export type PracticeNavigation = 'undo' | 'redo' | 'branch';
+
+// AI Opponent
+export type AIDifficulty = 'easy' | 'medium' | 'hard';
+export type AIPersona = 'balanced' | 'aggressive' | 'cautious';
+
+export interface AIOpponent {
+  difficulty: AIDifficulty;
+  persona: AIPersona;
+}
+
+// Draw Offer
+export interface DrawOffer {
+  offeredBy: Color;
+  offeredAt: number;
 }
 
 // Pending Duel
@@ -120,6 +178,10 @@ export interface PendingDuel {
 }
 
 // Game Status
+// Reasons a game can end; draw reasons map onto Prisma's GameResultReason when archived
+export type DrawReason = 'stalemate' | 'threefold_repetition' | 'fifty_move_rule' | 'insufficient_material';
+export type GameEndReason = 'checkmate' | 'resignation' | 'time_forfeit' | 'agreement' | 'abandonment' | DrawReason;
+
 export enum GameStatus {
   WAITING_FOR_PLAYERS = 'WAITING_FOR_PLAYERS',
   IN_PROGRESS = 'IN_PROGRESS',
@@ -128,6 +190,8 @@ export enum GameStatus {
   CHECKMATE = 'CHECKMATE',
   STALEMATE = 'STALEMATE',
   DRAW = 'DRAW',
+  RESIGNED = 'RESIGNED',
+  TIME_FORFEIT = 'TIME_FORFEIT',
   ABANDONED = 'ABANDONED'
 }
 
@@ -142,32 +206,196 @@ export enum GameEventType {
   TACTICAL_RETREAT_MADE = 'TACTICAL_RETREAT_MADE',
   BATTLE_POINTS_UPDATED = 'BATTLE_POINTS_UPDATED',
   GAME_ENDED = 'GAME_ENDED',
-  BP_HISTORY_REQUESTED = 'BP_HISTORY_REQUESTED'
+  PLAYER_RESIGNED = 'PLAYER_RESIGNED',
+  DRAW_OFFERED = 'DRAW_OFFERED',
+  DRAW_ACCEPTED = 'DRAW_ACCEPTED',
+  DRAW_DECLINED = 'DRAW_DECLINED',
+  BP_HISTORY_REQUESTED = 'BP_HISTORY_REQUESTED',
+  PRACTICE_POSITION_RESTORED = 'PRACTICE_POSITION_RESTORED'
+}
+
+// Event payloads; each event records enough to replay the game from its GAME_CREATED event
+export interface GameCreatedPayload {
+  gameType: 'ai' | 'human' | 'practice';
+  whitePlayerId?: string;
+  blackPlayerId?: string;
+  anonymousUserId?: string;
+  colorPreference: 'white' | 'black' | 'random';
+  ruleset?: ConfigurationTemplate;
+  config: GameConfig;
+  startingPosition?: string; // Gambit FEN, for games that do not start from the initial position
+  chess960Index?: number; // Chess960 games; startingPosition holds the position itself
+  timeControl?: TimeControl;
+  aiOpponent?: AIOpponent;
+  rated?: boolean;
+}
+
+export interface PlayerJoinedPayload {
+  playerId: string;
+  color: Color;
+  isAnonymous: boolean;
+}
+
+export interface MoveMadePayload {
+  move: GambitMove;
+  playerId: string;
+  isCheck: boolean;
+  isCheckmate: boolean;
+  isStalemate: boolean;
+  captureAttempt: false; // Capture attempts go through DUEL_INITIATED instead
+}
+
+export interface DuelInitiatedPayload {
+  attacker: {
+    playerId: string;
+    piece: PieceSymbol;
+    from: Square;
+    to: Square;
+  };
+  defender: {
+    piece: PieceSymbol;
+    square: Square;
+  };
+  move: Move;
+}
+
+export interface DuelAllocationSubmittedPayload {
+  playerId: string;
+  allocation: number;
+  isAttacker: boolean;
+}
+
+export interface DuelResolvedPayload {
+  outcome: DuelResult;
+  winner: 'attacker' | 'defender';
+  attackerAllocation: number;
+  defenderAllocation: number;
+  attackerRemainingBP: number;
+  defenderRemainingBP: number;
+  attackerPieceLost: boolean;
+  move: GambitMove; // The capture or failed capture as added to the move history
+}
+
+export interface TacticalRetreatMadePayload {
+  playerId: string;
+  retreat: TacticalRetreat;
+  newBP: number;
+}
+
+export type BattlePointsChangeReason =
+  | 'turn_regeneration'
+  | 'turn_and_tactical_regeneration'
+  | 'duel_participation'
+  | 'tactical_retreat'
+  | 'retreat_payment';
+
+export interface BattlePointsUpdatedPayload {
+  playerId: string;
+  color: Color; // Identifies the pool in practice games, where one player holds both
+  newAmount: number;
+  change: number;
+  reason: BattlePointsChangeReason;
+  tactics?: string[];
+}
+
+export interface GameEndedPayload {
+  result: 'white' | 'black' | 'draw';
+  winner: 'white' | 'black' | null;
+  reason: GameEndReason;
 }
 
-export interface GameEvent {
-  type: GameEventType;
-  gameId: string;
-  timestamp: number;
-  payload: any;
+export interface PlayerDecisionPayload {
+  playerId: string;
+  color: Color;
+}
+
+export interface BPHistoryRequestedPayload {
+  playerId: string;
 }
 
+export interface PracticePositionRestoredPayload {
+  playerId: string;
+  navigation: PracticeNavigation;
+  nodeId: string;
+  eventCount: number; // The game goes back to the state it had after this many events of the log
+}
+
+export interface GameEventPayloads {
+  [GameEventType.GAME_CREATED]: GameCreatedPayload;
+  [GameEventType.PLAYER_JOINED]: PlayerJoinedPayload;
+  [GameEventType.MOVE_MADE]: MoveMadePayload;
+  [GameEventType.DUEL_INITIATED]: DuelInitiatedPayload;
+  [GameEventType.DUEL_ALLOCATION_SUBMITTED]: DuelAllocationSubmittedPayload;
+  [GameEventType.DUEL_RESOLVED]: DuelResolvedPayload;
+  [GameEventType.TACTICAL_RETREAT_MADE]: TacticalRetreatMadePayload;
+  [GameEventType.BATTLE_POINTS_UPDATED]: BattlePointsUpdatedPayload;
+  [GameEventType.GAME_ENDED]: GameEndedPayload;
+  [GameEventType.PLAYER_RESIGNED]: PlayerDecisionPayload;
+  [GameEventType.DRAW_OFFERED]: PlayerDecisionPayload;
+  [GameEventType.DRAW_ACCEPTED]: PlayerDecisionPayload;
+  [GameEventType.DRAW_DECLINED]: PlayerDecisionPayload;
+  [GameEventType.BP_HISTORY_REQUESTED]: BPHistoryRequestedPayload;
+  [GameEventType.PRACTICE_POSITION_RESTORED]: PracticePositionRestoredPayload;
+}
+
+// A union over every event type, so checking `type` narrows `payload`
+export type GameEvent<T extends GameEventType = GameEventType> = T extends GameEventType
+  ? {
+      type: T;
+      gameId: string;
+      timestamp: number;
+      payload: GameEventPayloads[T];
+    }
+  : never;
+
 // Actions
+// actionId is chosen by the client and kept when the action is resent, so the server can
+// recognise a retry and answer it with the original result instead of applying it again
 export type MoveAction = {
   type: 'MOVE';
   from: Square;
   to: Square;
   promotion?: PieceSymbol;
+  actionId?: string;
 };
 
 export type DuelAllocationAction = {
   type: 'DUEL_ALLOCATION';
   allocation: number;
+  actionId?: string;
 };
 
 export type TacticalRetreatAction = {
   type: 'TACTICAL_RETREAT';
   to: Square;
+  actionId?: string;
+};
+
+export type GameAction = MoveAction | DuelAllocationAction | TacticalRetreatAction;
+
+export type ResignAction = {
+  type: 'RESIGN';
+};
+
+export type DrawOfferAction = {
+  type: 'OFFER_DRAW';
+};
+
+export type DrawResponseAction = {
+  type: 'RESPOND_TO_DRAW';
+  accept: boolean;
+};
+
+// opponentAway: the opponent has left too, so the game ends without a winner
+export type AbandonAction = {
+  type: 'ABANDON';
+  opponentAway?: boolean;
+};
+
+// Enforce whichever clock or decision deadline has passed
+export type TimeoutAction = {
+  type: 'TIMEOUT';
 };
 
-export type GameAction = MoveAction | DuelAllocationAction | TacticalRetreatAction;
\ No newline at end of file
+// Everything the rules engine (applyAction) can apply to a game state
+export type RulesAction = GameAction | ResignAction | DrawOfferAction | DrawResponseAction | AbandonAction | TimeoutAction;
\ No newline at end of file
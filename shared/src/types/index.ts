@@ -2,4 +2,5 @@ export * from './config';
 export * from './duel';
 export * from './game';
 export * from './tactics';
-export * from './bug-reporting';
\ No newline at end of file
+export * from './bug-reporting';
+export * from './clock';
\ No newline at end of file
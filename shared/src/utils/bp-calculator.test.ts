@@ -1,11 +1,13 @@
-import { GameConfig, GambitMove, SpecialAttackType, TacticsDTO } from '@gambit-chess/shared';
+import { GameConfig } from '../types/config';
+import { GambitMove } from '../types/game';
+import { SpecialAttackType, TacticsDTO } from '../types/tactics';
 import { PieceSymbol, Square } from 'chess.js';
-import { DEFAULT_GAME_CONFIG } from '@gambit-chess/shared';
+import { DEFAULT_GAME_CONFIG } from '../constants/game-defaults';
 import { calculateBPRegen, calculateBPRegenDetailed } from './bp-calculator';
-import { detectTactics } from '../tactics';
+import { detectTactics } from './tactics';
 
 // Use Jest's mocking system
-jest.mock('../tactics');
+jest.mock('./tactics');
 // Get a typed reference to the mocked function
 const mockedDetectTactics = detectTactics as jest.MockedFunction<typeof detectTactics>; 
 
@@ -1,6 +1,9 @@
-import { GambitMove, GameConfig, SpecialAttackType, TacticsDTO, PinDTO, SkewerDTO, ForkDTO, DiscoveredAttackDTO, CheckDTO, BPRegenerationResult, TacticRegenerationDetail } from "@gambit-chess/shared";
+import { GambitMove, BPRegenerationResult, TacticRegenerationDetail } from "../types/game";
+import { GameConfig } from "../types/config";
+import { SpecialAttackType, TacticsDTO, PinDTO, SkewerDTO, ForkDTO, DiscoveredAttackDTO, CheckDTO } from "../types/tactics";
+import { FormulaVariables, evaluateFormula } from "./formula";
 import { PieceSymbol, Square } from 'chess.js';
-import { detectTactics } from "../tactics";
+import { detectTactics } from "./tactics";
 
 /**
  * Calculate BP regeneration with detailed breakdown for transparency and debugging
@@ -100,7 +103,8 @@ export function calculateBPRegenDetailed(move: GambitMove, config: GameConfig):
 }
 
 /**
- * Process individual tactic regeneration with detailed breakdown
+ * Process individual tactic regeneration with detailed breakdown.
+ * Formulas run through the shared sandboxed evaluator, never through eval.
  */
 function processTacticRegeneration(
     tactic: TacticsDTO, 
@@ -109,10 +113,8 @@ function processTacticRegeneration(
     calculations: string[]
 ): TacticRegenerationDetail | null {
     const breakdown: string[] = [];
-    let configFormula = rule.formula;
-    let substitutedFormula = rule.formula;
-    let evaluatedFormula = '';
-    let result = 0;
+    const configFormula = rule.formula;
+    let variables: FormulaVariables = {};
     
     try {
         switch (tactic.type) {
@@ -121,14 +123,11 @@ function processTacticRegeneration(
                 if (pinTactic.pinnedPiece && pinTactic.pinnedTo) {
                     const pinnedPieceValue = config.pieceValues[pinTactic.pinnedPiece.type];
                     const isPinnedToKing = pinTactic.pinnedTo.type === 'k';
-                    
-                    // Substitute values in formula
-                    substitutedFormula = configFormula
-                        .replace('pinnedPieceValue', pinnedPieceValue.toString())
-                        .replace('isPinnedToKing', isPinnedToKing.toString());
-                    
-                    result = eval(substitutedFormula);
-                    evaluatedFormula = `${pinnedPieceValue} + ${isPinnedToKing ? 1 : 0} = ${result}`;
+                    variables = {
+                        pinnedPieceValue,
+                        pinnedToValue: config.pieceValues[pinTactic.pinnedTo.type],
+                        isPinnedToKing
+                    };
                     
                     breakdown.push(`📌 PIN Details:`);
                     breakdown.push(`   └─ Pinned Piece: ${pinTactic.pinnedPiece.square} (${pinTactic.pinnedPiece.type.toUpperCase()}, value: ${pinnedPieceValue})`);
@@ -143,13 +142,7 @@ function processTacticRegeneration(
                 if (skewerTactic.skeweredPiece && skewerTactic.skeweredTo) {
                     const frontPieceValue = config.pieceValues[skewerTactic.skeweredPiece.type];
                     const backPieceValue = config.pieceValues[skewerTactic.skeweredTo.type];
-                    
-                    substitutedFormula = configFormula
-                        .replace('frontPieceValue', frontPieceValue.toString())
-                        .replace('backPieceValue', backPieceValue.toString());
-                    
-                    result = eval(substitutedFormula);
-                    evaluatedFormula = `max(1, |${frontPieceValue} - ${backPieceValue}|) = ${result}`;
+                    variables = { frontPieceValue, backPieceValue };
                     
                     breakdown.push(`🏹 SKEWER Details:`);
                     breakdown.push(`   └─ Front Piece: ${skewerTactic.skeweredPiece.square} (${skewerTactic.skeweredPiece.type.toUpperCase()}, value: ${frontPieceValue})`);
@@ -163,10 +156,7 @@ function processTacticRegeneration(
                 const forkTactic = tactic as ForkDTO;
                 if (forkTactic.forkedPieces && forkTactic.forkedPieces.length > 0) {
                     const forkedPiecesValues = forkTactic.forkedPieces.map(p => config.pieceValues[p.type]);
-                    
-                    substitutedFormula = configFormula.replace('...forkedPiecesValues', forkedPiecesValues.join(', '));
-                    result = eval(substitutedFormula);
-                    evaluatedFormula = `min(${forkedPiecesValues.join(', ')}) = ${result}`;
+                    variables = { forkedPiecesValues, forkedPiecesCount: forkedPiecesValues.length };
                     
                     breakdown.push(`🍴 FORK Details:`);
                     breakdown.push(`   └─ Forked By: ${forkTactic.forkedBy.square} (${forkTactic.forkedBy.type.toUpperCase()})`);
@@ -181,10 +171,7 @@ function processTacticRegeneration(
                 const discoveredAttackTactic = tactic as DiscoveredAttackDTO;
                 if (discoveredAttackTactic.attackedPiece) {
                     const attackedPieceValue = config.pieceValues[discoveredAttackTactic.attackedPiece.type as PieceSymbol];
-                    
-                    substitutedFormula = configFormula.replace('attackedPieceValue', attackedPieceValue.toString());
-                    result = eval(substitutedFormula);
-                    evaluatedFormula = `⌈${attackedPieceValue}/2⌉ = ${result}`;
+                    variables = { attackedPieceValue, isCheck: !!discoveredAttackTactic.isCheck };
                     
                     breakdown.push(`💨 DISCOVERED ATTACK Details:`);
                     breakdown.push(`   └─ Attacked Piece: ${discoveredAttackTactic.attackedPiece.square} (${discoveredAttackTactic.attackedPiece.type.toUpperCase()}, value: ${attackedPieceValue})`);
@@ -195,9 +182,7 @@ function processTacticRegeneration(
                 
             case SpecialAttackType.CHECK:
                 const checkTactic = tactic as CheckDTO;
-                result = eval(configFormula);
-                evaluatedFormula = `${result}`;
-                substitutedFormula = configFormula;
+                variables = { isDoubleCheck: !!checkTactic.isDoubleCheck };
                 
                 breakdown.push(`👑 CHECK Details:`);
                 breakdown.push(`   └─ Checking Piece: ${checkTactic.checkingPiece.square} (${checkTactic.checkingPiece.type.toUpperCase()})`);
@@ -209,6 +194,8 @@ function processTacticRegeneration(
                 return null;
         }
         
+        const { result, substitutedFormula, evaluatedFormula } = evaluateFormula(configFormula, variables);
+        
         calculations.push(`✨ ${tactic.type.toUpperCase()}: +${result} BP`);
         calculations.push(`   └─ Formula: ${configFormula}`);
         calculations.push(`   └─ Substituted: ${substitutedFormula}`);
@@ -225,7 +212,8 @@ function processTacticRegeneration(
         };
         
     } catch (error) {
-        calculations.push(`💥 ${tactic.type.toUpperCase()}: Error evaluating formula "${configFormula}" - ${error}`);
+        const message = error instanceof Error ? error.message : String(error);
+        calculations.push(`💥 ${tactic.type.toUpperCase()}: Error evaluating formula "${configFormula}" - ${message}`);
         console.error(`Error evaluating BP regen formula for ${tactic.type}: ${configFormula}`, error);
         return null;
     }
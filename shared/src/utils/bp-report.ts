@@ -0,0 +1,176 @@
+import { BaseGameState, BPCalculationReport, GambitMove } from '../types/game';
+import { calculateBPRegenDetailed } from './bp-calculator';
+import { detectTactics } from './tactics';
+
+/**
+ * Enhanced BP calculation report: Track ALL BP transactions for transparency
+ * Includes duel costs, retreat costs, and regeneration calculations
+ */
+export function generateComprehensiveBPReport(gameState: BaseGameState, lastMove?: GambitMove): BPCalculationReport {
+  const report: BPCalculationReport = {
+    playerBP: {
+      white: gameState.whitePlayer.battlePoints,
+      black: gameState.blackPlayer.battlePoints
+    },
+    transactions: [],
+    calculations: [],
+    hiddenInfo: gameState.config.informationHiding.hideBattlePoints,
+    tactics: [],
+    duelDetails: undefined,
+    regenerationDetails: undefined,
+    // Include move information for client display consistency
+    moveInfo: lastMove ? {
+      moveNumber: gameState.moveHistory.length - 1, // Half-turn index of this move
+      notation: lastMove.san || `${lastMove.from}-${lastMove.to}`,
+      color: lastMove.color,
+      captureAttempt: !!lastMove.captured || !!lastMove.duelResult,
+      duelOutcome: lastMove.duelResult ? (lastMove.duelResult.attackerWon ? 'won' : 'lost') : 'none',
+      retreatInfo: lastMove.tacticalRetreat ? {
+        from: lastMove.tacticalRetreat.originalSquare,
+        to: lastMove.tacticalRetreat.retreatSquare,
+        cost: lastMove.tacticalRetreat.battlePointsCost
+      } : undefined
+    } : undefined
+  };
+
+  // Add configuration details
+  report.calculations.push(`🎮 Game Configuration:`);
+  report.calculations.push(`  - Initial BP: ${gameState.config.initialBattlePoints}`);
+  report.calculations.push(`  - Max piece BP: ${gameState.config.maxPieceBattlePoints}`);
+  report.calculations.push(`  - Base turn regen: ${gameState.config.regenerationRules.baseTurnRegeneration}`);
+  report.calculations.push(`  - Information hiding: ${JSON.stringify(gameState.config.informationHiding)}`);
+
+  // Add piece values
+  report.calculations.push(`📊 Piece Values: ${JSON.stringify(gameState.config.pieceValues)}`);
+
+  // Analyze last move if provided
+  if (lastMove) {
+    report.calculations.push(`\n🎯 Last Move Analysis: ${lastMove.san || `${lastMove.from}-${lastMove.to}`}`);
+    
+    // 1. DUEL COSTS (Both players spend BP)
+    if (lastMove.duelResult) {
+      const duel = lastMove.duelResult;
+      const attackerColor = lastMove.color;
+      const defenderColor = attackerColor === 'w' ? 'b' : 'w';
+      
+      // Record attacker duel cost
+      report.transactions.push({
+        type: 'duel_cost',
+        player: attackerColor === 'w' ? 'white' : 'black',
+        amount: -duel.attackerAllocation,
+        details: `Duel allocation as attacker: ${duel.attackerAllocation} BP`,
+        formula: `Attacker spent ${duel.attackerAllocation} BP in duel`
+      });
+      
+      // Record defender duel cost
+      report.transactions.push({
+        type: 'duel_cost',
+        player: defenderColor === 'w' ? 'white' : 'black',
+        amount: -duel.defenderAllocation,
+        details: `Duel allocation as defender: ${duel.defenderAllocation} BP`,
+        formula: `Defender spent ${duel.defenderAllocation} BP in duel`
+      });
+      
+      report.duelDetails = {
+        attackerAllocation: duel.attackerAllocation,
+        defenderAllocation: duel.defenderAllocation,
+        winner: duel.attackerWon ? 'attacker' : 'defender',
+        effectiveAllocations: {
+          attacker: `${duel.attackerAllocation} BP`,
+          defender: `${duel.defenderAllocation} BP`
+        }
+      };
+      
+      report.calculations.push(`  ⚔️ Duel: ${duel.attackerAllocation} vs ${duel.defenderAllocation} → ${duel.attackerWon ? 'CAPTURE' : 'FAILED'}`);
+      report.calculations.push(`  📉 BP cost: Attacker -${duel.attackerAllocation}, Defender -${duel.defenderAllocation}`);
+    }
+
+    // 2. TACTICAL RETREAT COSTS (Attacker only, if duel failed)
+    if (lastMove.tacticalRetreat) {
+      const retreat = lastMove.tacticalRetreat;
+      const attackerColor = lastMove.color;
+      
+      report.transactions.push({
+        type: 'retreat_cost',
+        player: attackerColor === 'w' ? 'white' : 'black',
+        amount: -retreat.battlePointsCost,
+        details: `Tactical retreat: ${retreat.originalSquare} → ${retreat.retreatSquare}`,
+        formula: `Retreat cost calculated by distance and piece type: ${retreat.battlePointsCost} BP`
+      });
+      
+      report.calculations.push(`  🏃 Tactical Retreat: ${retreat.originalSquare} → ${retreat.retreatSquare}`);
+      report.calculations.push(`  💰 Retreat cost: ${retreat.battlePointsCost} BP`);
+      
+      if (retreat.defenderPayment) {
+        const percentage = gameState.config.pieceLossRules.retreatPaymentRules.costToDefenderPercentage;
+        report.transactions.push({
+          type: 'retreat_payment',
+          player: attackerColor === 'w' ? 'black' : 'white',
+          amount: retreat.defenderPayment,
+          details: `Share of opponent's retreat cost`,
+          formula: `floor(${retreat.battlePointsCost} × ${percentage}%) = ${retreat.defenderPayment} BP`
+        });
+        report.calculations.push(`  🤝 Paid to defender: ${retreat.defenderPayment} BP`);
+      }
+    }
+
+    // Failed attacker removed from the board (risky ruleset)
+    if (lastMove.attackerPieceLost) {
+      report.transactions.push({
+        type: 'piece_loss',
+        player: lastMove.color === 'w' ? 'white' : 'black',
+        amount: 0,
+        details: `${lastMove.piece.toUpperCase()} on ${lastMove.from} lost after failed capture (no affordable retreat)`
+      });
+      report.calculations.push(`  💀 Piece lost: ${lastMove.piece.toUpperCase()} on ${lastMove.from}`);
+    }
+
+    // 3. BP REGENERATION (Player who just moved gains BP from tactics)
+    const tactics = detectTactics(lastMove);
+    if (tactics.length > 0) {
+      const playerColor = lastMove.color;
+      
+      // Use the new detailed calculation system
+      const regenResult = calculateBPRegenDetailed(lastMove, gameState.config);
+      
+      report.transactions.push({
+        type: 'regeneration',
+        player: playerColor === 'w' ? 'white' : 'black',
+        amount: regenResult.totalBP,
+        details: `Tactical advantage BP regeneration`,
+        formula: regenResult.formula
+      });
+      
+      report.tactics = tactics;
+      report.regenerationDetails = regenResult;
+      
+      // Add the detailed calculations from the new system
+      report.calculations.push(`  ✨ Tactics detected: ${tactics.map(t => t.type).join(', ')}`);
+      report.calculations.push(`  📈 BP regeneration: +${regenResult.totalBP} BP`);
+      report.calculations.push(`  🧮 Formula: ${regenResult.formula}`);
+      
+      // Add all the detailed step-by-step calculations
+      regenResult.calculations.forEach(calc => {
+        report.calculations.push(`  ${calc}`);
+      });
+      
+      // Add detailed breakdown for each tactic
+      regenResult.tacticDetails.forEach(detail => {
+        report.calculations.push(`  📋 ${detail.type.toUpperCase()} Breakdown:`);
+        detail.breakdown.forEach(line => {
+          report.calculations.push(`    ${line}`);
+        });
+      });
+    }
+  }
+
+  // Add retreat options if available
+  if (gameState.availableRetreatOptions) {
+    report.calculations.push(`\n🏃 Available Retreat Options:`);
+    gameState.availableRetreatOptions.forEach(option => {
+      report.calculations.push(`  - ${option.square}: ${option.cost} BP`);
+    });
+  }
+
+  return report;
+}
@@ -0,0 +1,103 @@
+import { DEFAULT_GAME_CONFIG } from '../constants/game-defaults';
+import { BaseGameState, GameEvent, GameEventType, GameStatus, RulesAction } from '../types/game';
+import { getChess960BackRank, getChess960FEN } from './castling';
+import { loadGambitFEN, toGambitFEN } from './gambit-fen';
+import { replayGameEvents } from './game-replay';
+import { replayGambitPGN, writeGambitPGN } from './pgn';
+import { applyAction } from './rules-engine';
+
+describe('Castling', () => {
+  // White: Kb1, Ra1, Rg1 with both Chess960 castlings available; Black: Kh8
+  const CASTLING_POSITION = '7k/8/8/8/8/8/8/RK4R1 w GA - 0 1 39/39 - 0 standard';
+
+  // Plays actions in order, keeping every event so the game can be replayed
+  const startGame = (position: string) => {
+    let state = loadGambitFEN(position, { gameId: 'castling-test', whitePlayerId: 'white', blackPlayerId: 'black', gameType: 'human' });
+    const events: GameEvent[] = [{
+      type: GameEventType.GAME_CREATED,
+      gameId: state.id,
+      timestamp: 0,
+      payload: {
+        gameType: 'human',
+        whitePlayerId: 'white',
+        blackPlayerId: 'black',
+        colorPreference: 'white',
+        ruleset: 'standard',
+        config: DEFAULT_GAME_CONFIG,
+        startingPosition: state.startingPosition
+      }
+    } as GameEvent];
+
+    const play = (playerId: string, action: RulesAction): BaseGameState => {
+      const result = applyAction(state, action, { playerId });
+      expect(result.error).toBeUndefined();
+      state = result.state;
+      events.push(...result.events);
+      return state;
+    };
+    return { play, events, get state() { return state; } };
+  };
+
+  it('should number the Chess960 back ranks like Scharnagl', () => {
+    expect(getChess960BackRank(518)).toBe('RNBQKBNR');
+    expect(getChess960BackRank(0)).toBe('BBQNNRKR');
+    expect(getChess960FEN(0)).toBe('bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w HFhf - 0 1');
+    expect(() => getChess960BackRank(960)).toThrow('Chess960 positions are numbered 0 to 959');
+
+    const backRanks = new Set(Array.from({ length: 960 }, (_, index) => getChess960BackRank(index)));
+    expect(backRanks.size).toBe(960);
+    for (const backRank of backRanks) {
+      // Bishops on opposite colors, the king between the rooks
+      expect(backRank.indexOf('B') % 2).not.toBe(backRank.lastIndexOf('B') % 2);
+      expect(backRank).toMatch(/R.*K.*R/);
+    }
+  });
+
+  it('should castle a Chess960 king onto its rook or to its destination, and replay the castling', () => {
+    const queenside = startGame(CASTLING_POSITION);
+    const castled = queenside.play('white', { type: 'MOVE', from: 'b1', to: 'a1' });
+
+    expect(castled.chess.get('c1')).toEqual({ type: 'k', color: 'w' });
+    expect(castled.chess.get('d1')).toEqual({ type: 'r', color: 'w' });
+    expect(castled.moveHistory[0].san).toBe('O-O-O');
+    expect(castled.castlingRooks).toEqual([]);
+    expect(replayGameEvents(queenside.events).chess.fen()).toBe(castled.chess.fen());
+    expect(replayGambitPGN(writeGambitPGN(castled)).chess.fen()).toBe(castled.chess.fen());
+
+    // g1 is not a square the king reaches by an ordinary move, so it can only mean castling
+    const kingside = startGame(CASTLING_POSITION);
+    const after = kingside.play('white', { type: 'MOVE', from: 'b1', to: 'g1' });
+    expect(after.chess.get('g1')).toEqual({ type: 'k', color: 'w' });
+    expect(after.chess.get('f1')).toEqual({ type: 'r', color: 'w' });
+    expect(after.moveHistory[0].san).toBe('O-O');
+  });
+
+  it('should not castle through an attacked square', () => {
+    const game = startGame('4r2k/8/8/8/8/8/8/RK4R1 w GA - 0 1 39/39 - 0 standard');
+
+    const result = applyAction(game.state, { type: 'MOVE', from: 'b1', to: 'g1' }, { playerId: 'white' });
+    expect(result.error).toBe('Invalid move');
+    expect(game.play('white', { type: 'MOVE', from: 'b1', to: 'a1' }).chess.get('d1')?.type).toBe('r');
+  });
+
+  it('should drop the castling right of a rook that retreats from its square', () => {
+    const game = startGame('6k1/8/8/6n1/8/8/8/RK4R1 w GA - 0 1 39/39 - 0 standard');
+    game.play('white', { type: 'MOVE', from: 'g1', to: 'g5' });
+    game.play('white', { type: 'DUEL_ALLOCATION', allocation: 0 });
+    game.play('black', { type: 'DUEL_ALLOCATION', allocation: 5 });
+    const after = game.play('white', { type: 'TACTICAL_RETREAT', to: 'g3' });
+
+    expect(after.castlingRooks).toEqual(['a1']);
+    expect(toGambitFEN(after).split(' ')[2]).toBe('A');
+    expect(replayGameEvents(game.events).castlingRooks).toEqual(['a1']);
+
+    // chess.js keeps the rights of a standard game, so a rook retreating from its corner clears them there
+    const standard = startGame('4k3/8/8/7n/8/8/8/4K2R w K - 0 1 39/39 - 0 standard');
+    standard.play('white', { type: 'MOVE', from: 'h1', to: 'h5' });
+    standard.play('white', { type: 'DUEL_ALLOCATION', allocation: 0 });
+    standard.play('black', { type: 'DUEL_ALLOCATION', allocation: 5 });
+    const retreated = standard.play('white', { type: 'TACTICAL_RETREAT', to: 'h3' });
+    expect(retreated.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(retreated.chess.fen().split(' ')[2]).toBe('-');
+  });
+});
@@ -0,0 +1,272 @@
+import { Chess, Color, Move, PieceSymbol, Square } from 'chess.js';
+import { BaseGameState } from '../types/game';
+import { getKingPosition, getOppositeColor } from './chess-utils';
+
+/**
+ * Castling that chess.js does not handle itself
+ *
+ * chess.js only castles with the king on the e-file and the rooks in the corners. Chess960 games
+ * track their castling rights in `castlingRooks` instead and leave the chess.js castling field
+ * empty; the king castles by moving onto its own rook, or straight to its destination when that
+ * is not also an ordinary king move. Gambit's retreats and lost attackers move pieces behind
+ * chess.js's back, so the rights they invalidate are dropped here as well.
+ */
+
+export const CHESS960_POSITIONS = 960;
+export const CHESS960_STANDARD_INDEX = 518; // RNBQKBNR
+
+export interface Chess960Castling {
+  color: Color;
+  side: 'k' | 'q';
+  kingFrom: Square;
+  kingTo: Square;
+  rookFrom: Square;
+  rookTo: Square;
+}
+
+const FILES = 'abcdefgh';
+
+// Knight placements among the five squares left after the bishops and queen, by Scharnagl number
+const KNIGHT_PLACEMENTS = [[0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]];
+
+/**
+ * White's back rank for a Chess960 position, numbered 0-959 as in Scharnagl's scheme
+ */
+export function getChess960BackRank(index: number): string {
+  if (!Number.isInteger(index) || index < 0 || index >= CHESS960_POSITIONS) {
+    throw new Error(`Chess960 positions are numbered 0 to ${CHESS960_POSITIONS - 1}, not ${index}`);
+  }
+
+  const rank: string[] = new Array(8).fill('');
+  let rest = index;
+  rank[(rest % 4) * 2 + 1] = 'B'; // Light-squared bishop
+  rest = Math.floor(rest / 4);
+  rank[(rest % 4) * 2] = 'B'; // Dark-squared bishop
+  rest = Math.floor(rest / 4);
+
+  const empty = () => rank.map((piece, file) => piece ? -1 : file).filter(file => file >= 0);
+  rank[empty()[rest % 6]] = 'Q';
+  const knights = KNIGHT_PLACEMENTS[Math.floor(rest / 6)].map(slot => empty()[slot]);
+  knights.forEach(file => { rank[file] = 'N'; });
+
+  const [queensideRook, king, kingsideRook] = empty();
+  rank[queensideRook] = 'R';
+  rank[king] = 'K';
+  rank[kingsideRook] = 'R';
+  return rank.join('');
+}
+
+export function randomChess960Index(): number {
+  return Math.floor(Math.random() * CHESS960_POSITIONS);
+}
+
+/**
+ * Starting FEN of a Chess960 position, with its castling rights as Shredder-FEN file letters
+ */
+export function getChess960FEN(index: number): string {
+  const backRank = getChess960BackRank(index);
+  const rookFiles = [...backRank].map((piece, file) => piece === 'R' ? FILES[file] : '').join('');
+  const castling = [...rookFiles].reverse().join('');
+  return `${backRank.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${backRank} w ${castling.toUpperCase()}${castling} - 0 1`;
+}
+
+/**
+ * Write Chess960 castling rights as Shredder-FEN file letters, kingside first: 'HAha'
+ */
+export function formatShredderCastling(castlingRooks: Square[]): string {
+  const letters = (rank: '1' | '8') => castlingRooks
+    .filter(square => square[1] === rank)
+    .map(square => square[0])
+    .sort()
+    .reverse()
+    .join('');
+  return `${letters('1').toUpperCase()}${letters('8')}` || '-';
+}
+
+export function isShredderCastling(field: string): boolean {
+  return /^[A-H]{0,2}[a-h]{0,2}$/.test(field) && field.length > 0;
+}
+
+/**
+ * Read Shredder-FEN castling rights, checking each names a rook beside its own king on the back rank
+ */
+export function parseShredderCastling(field: string, chess: Chess): Square[] {
+  const castlingRooks = [...field].map(letter => {
+    const color: Color = letter === letter.toUpperCase() ? 'w' : 'b';
+    return `${letter.toLowerCase()}${color === 'w' ? '1' : '8'}` as Square;
+  });
+
+  for (const rookSquare of castlingRooks) {
+    const color: Color = rookSquare[1] === '1' ? 'w' : 'b';
+    const rook = chess.get(rookSquare);
+    const kingSquare = getKingPosition(chess, color);
+    if (rook?.type !== 'r' || rook.color !== color || kingSquare?.[1] !== rookSquare[1]) {
+      throw new Error(`Invalid castling rights: ${field}`);
+    }
+  }
+  const sides = castlingRooks.map(rookSquare => `${rookSquare[1]}${getCastlingSide(chess, rookSquare)}`);
+  if (new Set(sides).size !== sides.length) {
+    throw new Error(`Invalid castling rights: ${field}`);
+  }
+  return castlingRooks;
+}
+
+/**
+ * Castlings the side to move can play in a Chess960 game
+ */
+export function getChess960Castlings(chess: Chess, castlingRooks: Square[]): Chess960Castling[] {
+  const color = chess.turn();
+  const rank = color === 'w' ? '1' : '8';
+  const kingFrom = getKingPosition(chess, color);
+  if (!kingFrom || kingFrom[1] !== rank || chess.inCheck()) {
+    return [];
+  }
+
+  return castlingRooks
+    .filter(rookFrom => rookFrom[1] === rank && chess.get(rookFrom)?.type === 'r')
+    .map(rookFrom => {
+      const side = getCastlingSide(chess, rookFrom);
+      return {
+        color,
+        side,
+        kingFrom,
+        kingTo: `${side === 'k' ? 'g' : 'c'}${rank}` as Square,
+        rookFrom,
+        rookTo: `${side === 'k' ? 'f' : 'd'}${rank}` as Square
+      };
+    })
+    .filter(castling => isCastlingLegal(chess, castling));
+}
+
+/**
+ * The castling a king move asks for: onto its own rook, or to the king's destination square
+ * when the king could not go there by an ordinary move
+ */
+export function findChess960Castling(
+  chess: Chess,
+  castlingRooks: Square[],
+  from: Square,
+  to: Square
+): Chess960Castling | null {
+  const castlings = getChess960Castlings(chess, castlingRooks).filter(castling => castling.kingFrom === from);
+  const ontoRook = castlings.find(castling => castling.rookFrom === to);
+  if (ontoRook) {
+    return ontoRook;
+  }
+  const isKingMove = chess.moves({ square: from, verbose: true }).some(move => move.to === to);
+  return isKingMove ? null : castlings.find(castling => castling.kingTo === to) ?? null;
+}
+
+/**
+ * Play a Chess960 castling on the board. chess.js cannot, so the position is edited and reloaded,
+ * and the move is described the way chess.js describes its own castling.
+ */
+export function playChess960Castling(chess: Chess, castling: Chess960Castling): Move {
+  const before = chess.fen();
+  const fields = before.split(' ');
+  const { color, side, kingFrom, kingTo, rookFrom, rookTo } = castling;
+
+  chess.remove(kingFrom);
+  chess.remove(rookFrom);
+  chess.put({ type: 'k', color }, kingTo);
+  chess.put({ type: 'r', color }, rookTo);
+  fields[0] = chess.fen().split(' ')[0];
+  fields[1] = getOppositeColor(color);
+  fields[3] = '-';
+  fields[4] = String(parseInt(fields[4]) + 1);
+  fields[5] = String(parseInt(fields[5]) + (color === 'b' ? 1 : 0));
+  chess.load(fields.join(' '));
+
+  const suffix = chess.isCheckmate() ? '#' : chess.inCheck() ? '+' : '';
+  return {
+    color,
+    from: kingFrom,
+    to: kingTo,
+    piece: 'k',
+    flags: side,
+    san: `${side === 'k' ? 'O-O' : 'O-O-O'}${suffix}`,
+    lan: `${kingFrom}${rookFrom}`,
+    before,
+    after: chess.fen(),
+    isCapture: () => false,
+    isPromotion: () => false,
+    isEnPassant: () => false,
+    isKingsideCastle: () => side === 'k',
+    isQueensideCastle: () => side === 'q',
+    isBigPawn: () => false
+  };
+}
+
+/**
+ * Drop the Chess960 castling rights a piece gives up by moving from a square (or being removed
+ * from it, without `to`): a king gives up both, a rook leaving or captured on its square its own
+ */
+export function revokeCastling(
+  state: BaseGameState,
+  moved: { color: Color; piece: PieceSymbol; from: string; to?: string }
+): void {
+  if (!state.castlingRooks) {
+    return;
+  }
+  const rank = moved.color === 'w' ? '1' : '8';
+  state.castlingRooks = state.castlingRooks.filter(square =>
+    !(moved.piece === 'k' && square[1] === rank) && square !== moved.from && square !== moved.to
+  );
+}
+
+/**
+ * The chess.js castling field, without the rights whose king or rook has been moved off its square
+ * by a retreat or a lost attacker
+ */
+export function getAvailableCastlingField(chess: Chess): string {
+  const castling = chess.fen().split(' ')[2];
+  const homes: Record<string, [Square, Square, Color]> = {
+    K: ['e1', 'h1', 'w'],
+    Q: ['e1', 'a1', 'w'],
+    k: ['e8', 'h8', 'b'],
+    q: ['e8', 'a8', 'b']
+  };
+  const available = [...castling].filter(right => {
+    const [kingSquare, rookSquare, color] = homes[right] ?? [];
+    const king = kingSquare && chess.get(kingSquare);
+    const rook = rookSquare && chess.get(rookSquare);
+    return king && king.type === 'k' && king.color === color && rook && rook.type === 'r' && rook.color === color;
+  });
+  return available.join('') || '-';
+}
+
+function getCastlingSide(chess: Chess, rookSquare: Square): 'k' | 'q' {
+  const color: Color = rookSquare[1] === '1' ? 'w' : 'b';
+  const kingSquare = getKingPosition(chess, color)!;
+  return rookSquare[0] > kingSquare[0] ? 'k' : 'q';
+}
+
+/**
+ * Everything between the king and rook and their destinations is empty, the king does not cross
+ * an attacked square and does not end in check
+ */
+function isCastlingLegal(chess: Chess, castling: Chess960Castling): boolean {
+  const { color, kingFrom, kingTo, rookFrom, rookTo } = castling;
+  const rank = kingFrom[1];
+  const between = (from: Square, to: Square): Square[] => {
+    const [low, high] = [FILES.indexOf(from[0]), FILES.indexOf(to[0])].sort((a, b) => a - b);
+    return [...FILES.slice(low, high + 1)].map(file => `${file}${rank}` as Square);
+  };
+
+  const occupied = [...between(kingFrom, kingTo), ...between(rookFrom, rookTo)]
+    .some(square => square !== kingFrom && square !== rookFrom && chess.get(square));
+  if (occupied) {
+    return false;
+  }
+
+  const them = getOppositeColor(color);
+  const crossed = between(kingFrom, kingTo).filter(square => square !== kingFrom && square !== kingTo);
+  if (crossed.some(square => chess.isAttacked(square, them))) {
+    return false;
+  }
+
+  const after = new Chess(chess.fen());
+  playChess960Castling(after, castling);
+  const kingAfter = getKingPosition(after, color);
+  return !!kingAfter && !after.isAttacked(kingAfter, them);
+}
@@ -0,0 +1,102 @@
+import { createNewGame } from '../index';
+import { GameStatus } from '../types/game';
+import { TimeControl } from '../types/clock';
+import {
+  getRemainingTime,
+  completeMoveOnClock,
+  pauseClockForPhase,
+  getClockDeadline,
+  getExpiredClockDeadline,
+  getDefaultDuelAllocation
+} from './clock';
+import { validateTimeControl } from '../validators/time-control';
+
+describe('Game Clock', () => {
+  const timeControl: TimeControl = {
+    baseTimeMs: 60000,
+    incrementMs: 2000,
+    duelAllocationTimeMs: 15000,
+    retreatDecisionTimeMs: 10000,
+    defaultDuelAllocation: 1
+  };
+
+  const createTimedGame = () => createNewGame('clock-test', 'white', 'black', 'human', undefined, timeControl);
+
+  it('should start the white clock when both players are present', () => {
+    const gameState = createTimedGame();
+    expect(gameState.clock?.runningFor).toBe('w');
+    expect(createNewGame('clock-test', 'white', undefined, 'human', undefined, timeControl).clock?.runningFor).toBeNull();
+  });
+
+  it('should charge elapsed time and add the increment when a move completes', () => {
+    const gameState = createTimedGame();
+    const clock = gameState.clock!;
+    const start = clock.turnStartedAt;
+
+    completeMoveOnClock(clock, timeControl, 'w', start + 5000);
+
+    expect(clock.whiteTimeMs).toBe(57000);
+    expect(clock.runningFor).toBe('b');
+    expect(getRemainingTime(clock, 'b', start + 8000)).toBe(57000);
+  });
+
+  it('should pause the main clocks during a duel and give the increment when it resolves', () => {
+    const gameState = createTimedGame();
+    const clock = gameState.clock!;
+    const start = clock.turnStartedAt;
+
+    pauseClockForPhase(clock, timeControl.duelAllocationTimeMs, start + 4000);
+    gameState.gameStatus = GameStatus.DUEL_IN_PROGRESS;
+
+    expect(clock.runningFor).toBeNull();
+    expect(getRemainingTime(clock, 'w', start + 20000)).toBe(56000);
+    expect(getClockDeadline(gameState)).toEqual({ type: 'phase', at: start + 19000 });
+
+    completeMoveOnClock(clock, timeControl, 'w', start + 12000);
+    gameState.gameStatus = GameStatus.IN_PROGRESS;
+
+    expect(clock.whiteTimeMs).toBe(58000);
+    expect(getClockDeadline(gameState)).toEqual({ type: 'flag', color: 'b', at: start + 72000 });
+  });
+
+  it('should only report deadlines that have passed', () => {
+    const gameState = createTimedGame();
+    const start = gameState.clock!.turnStartedAt;
+
+    expect(getExpiredClockDeadline(gameState, start + 59999)).toBeNull();
+    expect(getExpiredClockDeadline(gameState, start + 60000)).toEqual({ type: 'flag', color: 'w', at: start + 60000 });
+  });
+
+  it('should have no deadlines in untimed games', () => {
+    expect(getClockDeadline(createNewGame('clock-test', 'white', 'black'))).toBeNull();
+  });
+
+  it('should cap the default duel allocation by battle points and piece capacity', () => {
+    const gameState = createTimedGame();
+    gameState.timeControl = { ...timeControl, defaultDuelAllocation: 5 };
+    gameState.whitePlayer.battlePoints = 2;
+
+    expect(getDefaultDuelAllocation(gameState, 'w', 'q')).toBe(2);
+    expect(getDefaultDuelAllocation(gameState, 'b', 'p')).toBe(1);
+  });
+
+  describe('validateTimeControl', () => {
+    it('should fill in the duel and retreat timers', () => {
+      const result = validateTimeControl({ baseTimeMs: 300000, incrementMs: 3000 });
+      expect(result.valid).toBe(true);
+      expect(result.timeControl).toEqual({
+        baseTimeMs: 300000,
+        incrementMs: 3000,
+        duelAllocationTimeMs: 30000,
+        retreatDecisionTimeMs: 20000,
+        defaultDuelAllocation: 0
+      });
+    });
+
+    it('should reject out-of-range values', () => {
+      const result = validateTimeControl({ baseTimeMs: 300000, incrementMs: -1 });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('incrementMs');
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { Color, PieceSymbol } from 'chess.js';
+import { BaseGameState, GameStatus } from '../types/game';
+import { TimeControl, GameClock, ClockDeadline } from '../types/clock';
+
+/**
+ * Chess clock helpers for timed Gambit Chess games
+ *
+ * The main clocks only run while a player is choosing a move. Duels and retreat decisions pause
+ * them and run on their own deadline instead, so the defender is never charged for the
+ * attacker's retreat and neither side can stall a duel.
+ */
+
+/**
+ * Create a paused clock with the full base time on both sides
+ */
+export function createGameClock(timeControl: TimeControl, now: number = Date.now()): GameClock {
+  return {
+    whiteTimeMs: timeControl.baseTimeMs,
+    blackTimeMs: timeControl.baseTimeMs,
+    runningFor: null,
+    turnStartedAt: now
+  };
+}
+
+/**
+ * Remaining time for a side, including the time elapsed on a running clock
+ */
+export function getRemainingTime(clock: GameClock, color: Color, now: number = Date.now()): number {
+  const stored = color === 'w' ? clock.whiteTimeMs : clock.blackTimeMs;
+  if (clock.runningFor !== color) {
+    return stored;
+  }
+  return Math.max(0, stored - (now - clock.turnStartedAt));
+}
+
+/**
+ * Start a side's clock
+ */
+export function startClock(clock: GameClock, color: Color, now: number = Date.now()): void {
+  clock.runningFor = color;
+  clock.turnStartedAt = now;
+  clock.phaseDeadline = undefined;
+}
+
+/**
+ * Stop the running clock, charging the elapsed time to its side
+ */
+export function stopClock(clock: GameClock, now: number = Date.now()): void {
+  if (clock.runningFor) {
+    const remaining = getRemainingTime(clock, clock.runningFor, now);
+    if (clock.runningFor === 'w') {
+      clock.whiteTimeMs = remaining;
+    } else {
+      clock.blackTimeMs = remaining;
+    }
+  }
+  clock.runningFor = null;
+  clock.phaseDeadline = undefined;
+}
+
+/**
+ * Pause the main clocks for a duel or retreat decision that must finish within durationMs
+ */
+export function pauseClockForPhase(clock: GameClock, durationMs: number, now: number = Date.now()): void {
+  stopClock(clock, now);
+  clock.phaseDeadline = now + durationMs;
+}
+
+/**
+ * Finish a move: stop the mover's clock, add the increment and start the opponent's clock.
+ * Works from a paused clock too, which is how moves that went through a duel are completed.
+ */
+export function completeMoveOnClock(
+  clock: GameClock,
+  timeControl: TimeControl,
+  mover: Color,
+  now: number = Date.now()
+): void {
+  stopClock(clock, now);
+  if (mover === 'w') {
+    clock.whiteTimeMs += timeControl.incrementMs;
+  } else {
+    clock.blackTimeMs += timeControl.incrementMs;
+  }
+  startClock(clock, mover === 'w' ? 'b' : 'w', now);
+}
+
+/**
+ * The next deadline the server must enforce, or null for untimed, paused or finished games
+ */
+export function getClockDeadline(gameState: BaseGameState): ClockDeadline | null {
+  const clock = gameState.clock;
+  if (!clock) {
+    return null;
+  }
+
+  if (
+    clock.phaseDeadline !== undefined &&
+    (gameState.gameStatus === GameStatus.DUEL_IN_PROGRESS ||
+     gameState.gameStatus === GameStatus.TACTICAL_RETREAT_DECISION)
+  ) {
+    return { type: 'phase', at: clock.phaseDeadline };
+  }
+
+  if (clock.runningFor && gameState.gameStatus === GameStatus.IN_PROGRESS) {
+    const stored = clock.runningFor === 'w' ? clock.whiteTimeMs : clock.blackTimeMs;
+    return { type: 'flag', color: clock.runningFor, at: clock.turnStartedAt + stored };
+  }
+
+  return null;
+}
+
+/**
+ * The deadline that has already passed, if any
+ */
+export function getExpiredClockDeadline(gameState: BaseGameState, now: number = Date.now()): ClockDeadline | null {
+  const deadline = getClockDeadline(gameState);
+  return deadline && deadline.at <= now ? deadline : null;
+}
+
+/**
+ * Allocation submitted on behalf of a player who missed the duel deadline
+ */
+export function getDefaultDuelAllocation(gameState: BaseGameState, color: Color, pieceType: PieceSymbol): number {
+  const player = color === 'w' ? gameState.whitePlayer : gameState.blackPlayer;
+  const requested = gameState.timeControl?.defaultDuelAllocation ?? 0;
+  return Math.max(0, Math.min(requested, player.battlePoints, gameState.config.pieceBPCapacities[pieceType]));
+}
@@ -0,0 +1,67 @@
+import { Chess } from 'chess.js';
+import { createNewGame } from '../index';
+import { detectDraw, recordPositionForDrawRules, countPositionRepetitions } from './draw-rules';
+
+describe('Draw Rules', () => {
+  const playMoves = (gameState: ReturnType<typeof createNewGame>, moves: string[]) => {
+    for (const san of moves) {
+      const move = gameState.chess.move(san);
+      recordPositionForDrawRules(gameState, move.piece === 'p' || !!move.captured);
+    }
+  };
+
+  it('should not detect a draw in the starting position', () => {
+    const gameState = createNewGame('draw-test', 'p1', 'p2');
+    expect(detectDraw(gameState)).toBeNull();
+  });
+
+  it('should detect threefold repetition without relying on chess.js history', () => {
+    const gameState = createNewGame('draw-test', 'p1', 'p2');
+    playMoves(gameState, ['Nf3', 'Nf6', 'Ng1', 'Ng8', 'Nf3', 'Nf6', 'Ng1']);
+    expect(detectDraw(gameState)).toBeNull();
+
+    // Reloading from FEN drops chess.js history, as LiveGameService.getGameState does
+    gameState.chess = new Chess(gameState.chess.fen());
+    playMoves(gameState, ['Ng8']);
+
+    expect(countPositionRepetitions(gameState)).toBe(3);
+    expect(detectDraw(gameState)).toBe('threefold_repetition');
+  });
+
+  it('should count a retreat back to the original square as a repeatable move', () => {
+    const gameState = createNewGame('draw-test', 'p1', 'p2');
+    playMoves(gameState, ['Nf3', 'Nf6']);
+    const clockBefore = gameState.halfmoveClockManual;
+
+    // Failed capture followed by a retreat: the board is unchanged but the turn passes
+    const fenParts = gameState.chess.fen().split(' ');
+    fenParts[1] = 'b';
+    gameState.chess.load(fenParts.join(' '));
+    recordPositionForDrawRules(gameState, false);
+
+    expect(gameState.halfmoveClockManual).toBe(clockBefore + 1);
+  });
+
+  it('should apply the fifty-move rule from the manual half-move clock', () => {
+    const gameState = createNewGame('draw-test', 'p1', 'p2');
+    gameState.halfmoveClockManual = 99;
+    playMoves(gameState, ['Nf3']);
+
+    expect(detectDraw(gameState)).toBe('fifty_move_rule');
+  });
+
+  it('should reset the half-move clock on irreversible moves', () => {
+    const gameState = createNewGame('draw-test', 'p1', 'p2');
+    gameState.halfmoveClockManual = 40;
+    playMoves(gameState, ['e4']);
+
+    expect(gameState.halfmoveClockManual).toBe(0);
+  });
+
+  it('should detect insufficient material', () => {
+    const gameState = createNewGame('draw-test', 'p1', 'p2');
+    gameState.chess.load('8/8/4k3/8/8/3NK3/8/8 w - - 0 1');
+
+    expect(detectDraw(gameState)).toBe('insufficient_material');
+  });
+});
@@ -0,0 +1,58 @@
+import { BaseGameState, DrawReason } from '../types/game';
+
+/**
+ * Draw rules adapted to Gambit Chess
+ *
+ * chess.js only knows about moves it made itself, and its history is lost whenever a game is
+ * reloaded from FEN, so draws are tracked with the manual counters on BaseGameState:
+ * - A failed capture is not a capture: the retreat that follows is an ordinary (reversible) move
+ * - Successful captures, pawn advances and lost attackers are irreversible and reset the clock
+ */
+
+export const FIFTY_MOVE_RULE_HALFMOVES = 100;
+export const REPETITION_COUNT_FOR_DRAW = 3;
+
+/**
+ * Reduce a FEN to the fields that identify a position for repetition purposes
+ * (placement, side to move, castling rights and en passant square)
+ */
+export function getRepetitionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+/**
+ * Record the position currently on the board after a half-move has been completed
+ * @param irreversible - true for pawn advances, successful captures and lost attackers
+ */
+export function recordPositionForDrawRules(gameState: BaseGameState, irreversible: boolean): void {
+  gameState.halfmoveClockManual = irreversible ? 0 : gameState.halfmoveClockManual + 1;
+  gameState.positionHistory.push({
+    fen: gameState.chess.fen(),
+    turn: gameState.chess.turn()
+  });
+}
+
+/**
+ * Count how often the current position has occurred
+ */
+export function countPositionRepetitions(gameState: BaseGameState): number {
+  const currentKey = getRepetitionKey(gameState.chess.fen());
+  return gameState.positionHistory.filter(entry => getRepetitionKey(entry.fen) === currentKey).length;
+}
+
+/**
+ * Detect an automatic draw in the current position.
+ * Stalemate is left to the caller since it is checked alongside checkmate.
+ */
+export function detectDraw(gameState: BaseGameState): Exclude<DrawReason, 'stalemate'> | null {
+  if (gameState.chess.isInsufficientMaterial()) {
+    return 'insufficient_material';
+  }
+  if (countPositionRepetitions(gameState) >= REPETITION_COUNT_FOR_DRAW) {
+    return 'threefold_repetition';
+  }
+  if (gameState.halfmoveClockManual >= FIFTY_MOVE_RULE_HALFMOVES) {
+    return 'fifty_move_rule';
+  }
+  return null;
+}
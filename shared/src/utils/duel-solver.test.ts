@@ -0,0 +1,84 @@
+import { DEFAULT_GAME_CONFIG, RISKY_GAME_CONFIG, ATTACKER_WINS_TIES_CONFIG } from '../constants/game-defaults';
+import { createNewGame } from '../index';
+import { solveDuel, sampleAllocation, estimateBattlePoints, getMaxUsefulAllocation } from './duel-solver';
+
+describe('Duel Solver', () => {
+  it('should return probability distributions over every useful allocation', () => {
+    const equilibrium = solveDuel({
+      attackerType: 'n',
+      defenderType: 'b',
+      attackerBattlePoints: 20,
+      defenderBattlePoints: 20,
+      config: DEFAULT_GAME_CONFIG
+    });
+
+    expect(equilibrium.attackerStrategy).toHaveLength(getMaxUsefulAllocation('n', DEFAULT_GAME_CONFIG) + 1);
+    expect(equilibrium.attackerStrategy.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+    expect(equilibrium.defenderStrategy.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+    expect(equilibrium.attackerWinProbability).toBeGreaterThan(0);
+    expect(equilibrium.attackerWinProbability).toBeLessThan(1);
+  });
+
+  it('should converge to an approximate equilibrium', () => {
+    const equilibrium = solveDuel({
+      attackerType: 'r',
+      defenderType: 'q',
+      attackerBattlePoints: 15,
+      defenderBattlePoints: 12,
+      config: DEFAULT_GAME_CONFIG
+    });
+
+    expect(equilibrium.exploitability).toBeLessThan(0.1);
+  });
+
+  it('should never allocate against a defender with no battle points when the attacker wins ties', () => {
+    const equilibrium = solveDuel({
+      attackerType: 'p',
+      defenderType: 'q',
+      attackerBattlePoints: 10,
+      defenderBattlePoints: 0,
+      config: ATTACKER_WINS_TIES_CONFIG
+    });
+
+    expect(equilibrium.attackerStrategy[0]).toBeCloseTo(1);
+    expect(equilibrium.attackerWinProbability).toBeCloseTo(1);
+  });
+
+  it('should make the attacker keep enough for a retreat when the piece is at risk', () => {
+    const input = {
+      attackerType: 'n' as const,
+      defenderType: 'n' as const,
+      attackerBattlePoints: 6,
+      defenderBattlePoints: 6,
+      minRetreatCost: 3
+    };
+    const safe = solveDuel({ ...input, config: DEFAULT_GAME_CONFIG });
+    const risky = solveDuel({ ...input, config: RISKY_GAME_CONFIG });
+
+    expect(risky.expectedAttackerAllocation).toBeLessThan(safe.expectedAttackerAllocation);
+  });
+
+  it('should sample allocations according to the strategy', () => {
+    expect(sampleAllocation([0, 0, 1])).toBe(2);
+    expect(sampleAllocation([0.5, 0.5], () => 0.25)).toBe(0);
+    expect(sampleAllocation([0.5, 0.5], () => 0.75)).toBe(1);
+  });
+
+  it('should estimate battle points from public information', () => {
+    const gameState = createNewGame('solver-test', 'p1', 'p2');
+    gameState.moveHistory.push(gameState.chess.move('e4'));
+    gameState.moveHistory.push(Object.assign(gameState.chess.move('d5'), {
+      duelResult: {
+        attackerAllocation: 3,
+        defenderAllocation: 2,
+        attackerWon: false,
+        attackerBattlePointsRemaining: 0,
+        defenderBattlePointsRemaining: 0
+      }
+    }));
+
+    const base = DEFAULT_GAME_CONFIG.regenerationRules.baseTurnRegeneration;
+    expect(estimateBattlePoints(gameState, 'w')).toBe(DEFAULT_GAME_CONFIG.initialBattlePoints + base - 2);
+    expect(estimateBattlePoints(gameState, 'b')).toBe(DEFAULT_GAME_CONFIG.initialBattlePoints - 3);
+  });
+});
@@ -0,0 +1,224 @@
+import { Color, PieceSymbol } from 'chess.js';
+import { GameConfig } from '../types/config';
+import { BaseGameState } from '../types/game';
+import { calculateEffectiveAllocation } from './duels';
+
+/**
+ * Duel allocation as a two-player sealed-bid game
+ *
+ * Both sides secretly commit BP and pay what they commit, win or lose. The attacker gains the
+ * defending piece's value on a win; on a loss it pays for the cheapest retreat, or loses its own
+ * piece when the risky rules apply and it can no longer afford one. Everything is measured in
+ * pawns, with bpValue converting battle points. The game is zero-sum from the attacker's side,
+ * so regret matching converges to an approximate mixed-strategy equilibrium.
+ */
+
+export interface DuelGameInput {
+  attackerType: PieceSymbol;
+  defenderType: PieceSymbol;
+  attackerBattlePoints: number;
+  defenderBattlePoints: number; // True pool, or an estimate when battle points are hidden
+  config: GameConfig;
+  captureValue?: number; // Attacker's gain on a win; defaults to the defending piece's value
+  minRetreatCost?: number; // Cheapest retreat after a failed capture; defaults to 0
+  bpValue?: number; // Worth of one battle point in pawns
+  iterations?: number;
+}
+
+export interface DuelEquilibrium {
+  attackerStrategy: number[]; // attackerStrategy[n] = probability of allocating n BP
+  defenderStrategy: number[];
+  attackerWinProbability: number;
+  expectedAttackerAllocation: number;
+  expectedDefenderAllocation: number;
+  value: number; // Expected payoff to the attacker, in pawns
+  exploitability: number; // Combined gain available from best responses; 0 at an exact equilibrium
+}
+
+export const DEFAULT_DUEL_BP_VALUE = 0.25;
+const DEFAULT_SOLVER_ITERATIONS = 2000;
+
+/**
+ * Highest allocation that still raises a piece's effective BP
+ */
+export function getMaxUsefulAllocation(pieceType: PieceSymbol, config: GameConfig): number {
+  const capacity = config.pieceValues[pieceType];
+  return Math.max(capacity, capacity + 2 * (config.maxPieceBattlePoints - capacity));
+}
+
+/**
+ * Approximate the mixed-strategy equilibrium of a duel
+ */
+export function solveDuel(input: DuelGameInput): DuelEquilibrium {
+  const { config } = input;
+  const payoff = buildPayoffMatrix(input);
+  const attackerCount = payoff.length;
+  const defenderCount = payoff[0].length;
+
+  // Regret matching+: each side plays in proportion to its positive regrets,
+  // and the average strategies converge to an equilibrium
+  const attackerRegrets = new Array<number>(attackerCount).fill(0);
+  const defenderRegrets = new Array<number>(defenderCount).fill(0);
+  const attackerSum = new Array<number>(attackerCount).fill(0);
+  const defenderSum = new Array<number>(defenderCount).fill(0);
+  const iterations = input.iterations ?? DEFAULT_SOLVER_ITERATIONS;
+
+  for (let iteration = 1; iteration <= iterations; iteration++) {
+    const attackerStrategy = strategyFromRegrets(attackerRegrets);
+    const defenderStrategy = strategyFromRegrets(defenderRegrets);
+
+    const attackerValues = payoff.map(row => dot(row, defenderStrategy));
+    const defenderValues = transposeDot(payoff, attackerStrategy).map(value => -value);
+    const attackerExpected = dot(attackerValues, attackerStrategy);
+    const defenderExpected = dot(defenderValues, defenderStrategy);
+
+    for (let a = 0; a < attackerCount; a++) {
+      attackerRegrets[a] = Math.max(0, attackerRegrets[a] + attackerValues[a] - attackerExpected);
+      attackerSum[a] += iteration * attackerStrategy[a];
+    }
+    for (let d = 0; d < defenderCount; d++) {
+      defenderRegrets[d] = Math.max(0, defenderRegrets[d] + defenderValues[d] - defenderExpected);
+      defenderSum[d] += iteration * defenderStrategy[d];
+    }
+  }
+
+  const attackerStrategy = normalize(attackerSum);
+  const defenderStrategy = normalize(defenderSum);
+
+  const attackerBestResponse = Math.max(...payoff.map(row => dot(row, defenderStrategy)));
+  const defenderBestResponse = Math.min(...transposeDot(payoff, attackerStrategy));
+
+  let attackerWinProbability = 0;
+  for (let a = 0; a < attackerCount; a++) {
+    for (let d = 0; d < defenderCount; d++) {
+      if (attackerWins(input.attackerType, a, input.defenderType, d, config)) {
+        attackerWinProbability += attackerStrategy[a] * defenderStrategy[d];
+      }
+    }
+  }
+
+  return {
+    attackerStrategy,
+    defenderStrategy,
+    attackerWinProbability,
+    expectedAttackerAllocation: attackerStrategy.reduce((sum, p, n) => sum + p * n, 0),
+    expectedDefenderAllocation: defenderStrategy.reduce((sum, p, n) => sum + p * n, 0),
+    value: dot(attackerStrategy, payoff.map(row => dot(row, defenderStrategy))),
+    exploitability: Math.max(0, attackerBestResponse - defenderBestResponse)
+  };
+}
+
+/**
+ * Draw an allocation from a mixed strategy
+ */
+export function sampleAllocation(strategy: number[], random: () => number = Math.random): number {
+  let threshold = random();
+  for (let n = 0; n < strategy.length; n++) {
+    threshold -= strategy[n];
+    if (threshold < 0) {
+      return n;
+    }
+  }
+  return strategy.length - 1;
+}
+
+/**
+ * Estimate a player's battle points from public information only: starting BP, base regeneration
+ * for each quiet move, and duel allocations and retreat costs when the allocation history is shown.
+ * Tactic regeneration is invisible, so this tends to underestimate.
+ */
+export function estimateBattlePoints(gameState: BaseGameState, color: Color): number {
+  const { config } = gameState;
+  let estimate = config.initialBattlePoints;
+
+  for (const move of gameState.moveHistory) {
+    if (move.duelResult) {
+      if (!config.informationHiding.hideAllocationHistory) {
+        estimate -= move.color === color ? move.duelResult.attackerAllocation : move.duelResult.defenderAllocation;
+      }
+      if (move.color === color && move.tacticalRetreat) {
+        estimate -= move.tacticalRetreat.battlePointsCost;
+      }
+      if (move.color !== color && move.tacticalRetreat?.defenderPayment) {
+        estimate += move.tacticalRetreat.defenderPayment;
+      }
+    } else if (move.color === color) {
+      estimate += config.regenerationRules.baseTurnRegeneration;
+    }
+  }
+
+  return Math.max(0, Math.floor(estimate));
+}
+
+function buildPayoffMatrix(input: DuelGameInput): number[][] {
+  const { config } = input;
+  const bpValue = input.bpValue ?? DEFAULT_DUEL_BP_VALUE;
+  const captureValue = input.captureValue ?? config.pieceValues[input.defenderType];
+  const minRetreatCost = input.minRetreatCost ?? 0;
+  const maxAttacker = Math.max(0, Math.min(Math.floor(input.attackerBattlePoints), getMaxUsefulAllocation(input.attackerType, config)));
+  const maxDefender = Math.max(0, Math.min(Math.floor(input.defenderBattlePoints), getMaxUsefulAllocation(input.defenderType, config)));
+
+  const payoff: number[][] = [];
+  for (let a = 0; a <= maxAttacker; a++) {
+    // A failed attacker that can't afford to retreat loses the piece under the risky rules
+    const losesPiece = config.pieceLossRules.attackerCanLosePiece && input.attackerBattlePoints - a < minRetreatCost;
+    const failureCost = losesPiece ? config.pieceValues[input.attackerType] : minRetreatCost * bpValue;
+
+    const row: number[] = [];
+    for (let d = 0; d <= maxDefender; d++) {
+      const outcome = attackerWins(input.attackerType, a, input.defenderType, d, config) ? captureValue : -failureCost;
+      row.push(outcome - bpValue * (a - d));
+    }
+    payoff.push(row);
+  }
+  return payoff;
+}
+
+function attackerWins(
+  attackerType: PieceSymbol,
+  attackerAllocation: number,
+  defenderType: PieceSymbol,
+  defenderAllocation: number,
+  config: GameConfig
+): boolean {
+  const attackerEffective = calculateEffectiveAllocation(attackerType, attackerAllocation, config);
+  const defenderEffective = calculateEffectiveAllocation(defenderType, defenderAllocation, config);
+  if (attackerEffective === defenderEffective) {
+    return !config.duelResolutionRules.defenderWinsTies;
+  }
+  return attackerEffective > defenderEffective;
+}
+
+function strategyFromRegrets(regrets: number[]): number[] {
+  const total = regrets.reduce((sum, regret) => sum + regret, 0);
+  if (total <= 0) {
+    return regrets.map(() => 1 / regrets.length);
+  }
+  return regrets.map(regret => regret / total);
+}
+
+function normalize(weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return total > 0 ? weights.map(weight => weight / total) : weights.map(() => 1 / weights.length);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Attacker's payoff for each defender allocation against a mixed attacker strategy
+ */
+function transposeDot(payoff: number[][], attackerStrategy: number[]): number[] {
+  const values = new Array<number>(payoff[0].length).fill(0);
+  for (let a = 0; a < payoff.length; a++) {
+    for (let d = 0; d < values.length; d++) {
+      values[d] += attackerStrategy[a] * payoff[a][d];
+    }
+  }
+  return values;
+}
@@ -0,0 +1,94 @@
+import { evaluateFormula, parseFormula, validateFormula, validateTacticFormula } from './formula';
+import { SpecialAttackType } from '../types/tactics';
+
+describe('Regeneration Formula Language', () => {
+  describe('evaluateFormula', () => {
+    it('should evaluate arithmetic with operator precedence', () => {
+      expect(evaluateFormula('1 + 2 * 3', {}).result).toBe(7);
+      expect(evaluateFormula('(1 + 2) * 3', {}).result).toBe(9);
+      expect(evaluateFormula('-4 + 10 % 4', {}).result).toBe(-2);
+    });
+
+    it('should evaluate conditionals and produce substituted/evaluated strings', () => {
+      const evaluation = evaluateFormula('pinnedPieceValue + (isPinnedToKing ? 1 : 0)', {
+        pinnedPieceValue: 5,
+        isPinnedToKing: true
+      });
+
+      expect(evaluation.result).toBe(6);
+      expect(evaluation.substitutedFormula).toBe('5 + (true ? 1 : 0)');
+      expect(evaluation.evaluatedFormula).toBe('5 + 1 = 6');
+    });
+
+    it('should flatten list variables passed to functions', () => {
+      const evaluation = evaluateFormula('min(forkedPiecesValues)', { forkedPiecesValues: [5, 3] });
+
+      expect(evaluation.result).toBe(3);
+      expect(evaluation.substitutedFormula).toBe('min(5, 3)');
+      expect(evaluation.evaluatedFormula).toBe('min(5, 3) = 3');
+      expect(evaluateFormula('sum(forkedPiecesValues) / 2', { forkedPiecesValues: [5, 3, 9] }).result).toBe(8.5);
+    });
+
+    it('should accept Math prefixes and spreads from older configs', () => {
+      const evaluation = evaluateFormula('Math.min(...forkedPiecesValues)', { forkedPiecesValues: [9, 3] });
+      expect(evaluation.result).toBe(3);
+      expect(evaluation.substitutedFormula).toBe('Math.min(9, 3)');
+
+      expect(evaluateFormula('Math.max(1, Math.abs(a - b))', { a: 5, b: 5 }).result).toBe(1);
+    });
+
+    it('should report a constant formula as just its value', () => {
+      expect(evaluateFormula('2', {}).evaluatedFormula).toBe('2');
+    });
+
+    it('should reject unknown variables and functions', () => {
+      expect(() => evaluateFormula('pinnedPieceValue + 1', {})).toThrow("Unknown variable 'pinnedPieceValue'");
+      expect(() => evaluateFormula('pow(2, 3)', {})).toThrow("Unknown function 'pow'");
+    });
+
+    it('should reject non-numeric results', () => {
+      expect(() => evaluateFormula('1 / 0', {})).toThrow('finite number');
+      expect(() => evaluateFormula('isCheck', { isCheck: true })).toThrow('finite number');
+      expect(() => evaluateFormula('forkedPiecesValues + 1', { forkedPiecesValues: [1] })).toThrow('expects a number');
+    });
+  });
+
+  describe('parseFormula', () => {
+    it.each([
+      ['process.exit(1)', 'Property access is not allowed'],
+      ['constructor.constructor("return this")()', 'Property access is not allowed'],
+      ['this["x"]', "Unexpected character '['"],
+      ['globalThis = 1', "Unexpected character '='"],
+      ['(x) => x', "Unexpected character '='"],
+      ['`${1}`', "Unexpected character '`'"],
+      ['1 +', 'Unexpected end of formula'],
+      ['abs(1, 2)', "Function 'abs' expects exactly 1 argument"],
+      ['(1 + 2', "Expected ')'"]
+    ])('should reject %s', (formula, message) => {
+      expect(() => parseFormula(formula)).toThrow(message);
+    });
+
+    it('should limit nesting depth', () => {
+      expect(() => parseFormula('('.repeat(100) + '1' + ')'.repeat(100))).toThrow('nested too deeply');
+    });
+  });
+
+  describe('validateFormula', () => {
+    it('should accept formulas using only whitelisted variables', () => {
+      expect(validateTacticFormula(SpecialAttackType.SKEWER, 'max(1, abs(frontPieceValue - backPieceValue))')).toEqual({ valid: true });
+      expect(validateTacticFormula(SpecialAttackType.FORK, 'forkedPiecesCount >= 3 ? sum(forkedPiecesValues) : min(forkedPiecesValues)')).toEqual({ valid: true });
+    });
+
+    it('should reject variables belonging to another tactic', () => {
+      const result = validateTacticFormula(SpecialAttackType.CHECK, 'pinnedPieceValue');
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("Unknown variable 'pinnedPieceValue'");
+    });
+
+    it('should catch type errors with sample values', () => {
+      const result = validateFormula('values * 2', { values: 'number[]' });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('expects a number');
+    });
+  });
+});
@@ -0,0 +1,568 @@
+import { SpecialAttackType } from '../types/tactics';
+
+/**
+ * Sandboxed expression language for BP regeneration formulas
+ *
+ * Formulas are parsed into a small AST and evaluated without touching the JS runtime, so a
+ * custom config can only compute numbers from the variables exposed for its tactic.
+ *
+ * Supported syntax:
+ * - Literals: numbers (2, 1.5) and booleans (true, false)
+ * - Variables: per tactic, see TACTIC_FORMULA_VARIABLES
+ * - Arithmetic: + - * / %   Comparison: < <= > >= == != (=== and !== are aliases)
+ * - Logic: && || !   Conditional: cond ? a : b   Grouping: ( )
+ * - Functions: min, max, sum (accept numbers and number lists), abs, ceil, floor, round
+ *   `Math.` prefixes and `...list` spreads are accepted for compatibility with older configs.
+ */
+
+export type FormulaValue = number | boolean | number[];
+export type FormulaVariableType = 'number' | 'boolean' | 'number[]';
+export type FormulaVariables = Record<string, FormulaValue>;
+
+export interface FormulaEvaluation {
+  result: number;
+  substitutedFormula: string; // Formula text with variables replaced by their values
+  evaluatedFormula: string;   // Formula reduced to plain arithmetic, followed by the result
+}
+
+/**
+ * Variables exposed to each tactic's regeneration formula
+ */
+export const TACTIC_FORMULA_VARIABLES: Record<SpecialAttackType, Record<string, FormulaVariableType>> = {
+  [SpecialAttackType.PIN]: {
+    pinnedPieceValue: 'number',
+    pinnedToValue: 'number',
+    isPinnedToKing: 'boolean'
+  },
+  [SpecialAttackType.SKEWER]: {
+    frontPieceValue: 'number',
+    backPieceValue: 'number'
+  },
+  [SpecialAttackType.FORK]: {
+    forkedPiecesValues: 'number[]',
+    forkedPiecesCount: 'number'
+  },
+  [SpecialAttackType.DISCOVERED_ATTACK]: {
+    attackedPieceValue: 'number',
+    isCheck: 'boolean'
+  },
+  [SpecialAttackType.CHECK]: {
+    isDoubleCheck: 'boolean'
+  }
+};
+
+const MAX_NESTING_DEPTH = 32;
+
+type NumericFunction = (values: number[]) => number;
+
+const FUNCTIONS: Record<string, { arity: 'single' | 'list'; apply: NumericFunction }> = {
+  min: { arity: 'list', apply: values => Math.min(...values) },
+  max: { arity: 'list', apply: values => Math.max(...values) },
+  sum: { arity: 'list', apply: values => values.reduce((total, value) => total + value, 0) },
+  abs: { arity: 'single', apply: ([value]) => Math.abs(value) },
+  ceil: { arity: 'single', apply: ([value]) => Math.ceil(value) },
+  floor: { arity: 'single', apply: ([value]) => Math.floor(value) },
+  round: { arity: 'single', apply: ([value]) => Math.round(value) }
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenKind = 'number' | 'identifier' | 'operator' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['...', '===', '!==', '==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ','];
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < formula.length) {
+    const char = formula[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const numberMatch = /^(\d+(\.\d+)?|\.\d+)/.exec(formula.slice(pos));
+    if (numberMatch) {
+      tokens.push({ kind: 'number', text: numberMatch[0], start: pos, end: pos + numberMatch[0].length });
+      pos += numberMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(formula.slice(pos));
+    if (identifierMatch) {
+      const text = identifierMatch[0];
+      const parts = text.split('.');
+      if (parts.length > 2 || (parts.length === 2 && parts[0] !== 'Math')) {
+        throw new Error(`Property access is not allowed ('${text}' at position ${pos})`);
+      }
+      tokens.push({ kind: 'identifier', text, start: pos, end: pos + text.length });
+      pos += text.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => formula.startsWith(op, pos));
+    if (operator) {
+      tokens.push({ kind: 'operator', text: operator, start: pos, end: pos + operator.length });
+      pos += operator.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character '${char}' at position ${pos}`);
+  }
+
+  tokens.push({ kind: 'end', text: '', start: formula.length, end: formula.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; operator: '-' | '+' | '!'; operand: FormulaNode }
+  | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+// Binding strength of each binary operator (higher binds tighter)
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7
+};
+const CONDITIONAL_PRECEDENCE = 1;
+const UNARY_PRECEDENCE = 8;
+const ATOM_PRECEDENCE = 9;
+
+class FormulaParser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseExpression();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw new Error(`Unexpected '${token.text}' at position ${token.start}`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(text: string): boolean {
+    const token = this.peek();
+    return token.kind === 'operator' && token.text === text;
+  }
+
+  private expect(text: string): void {
+    const token = this.next();
+    if (token.kind !== 'operator' || token.text !== text) {
+      const found = token.kind === 'end' ? 'end of formula' : `'${token.text}'`;
+      throw new Error(`Expected '${text}' but found ${found} at position ${token.start}`);
+    }
+  }
+
+  private parseExpression(): FormulaNode {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new Error(`Formula is nested too deeply (max ${MAX_NESTING_DEPTH} levels)`);
+    }
+    const node = this.parseConditional();
+    this.depth--;
+    return node;
+  }
+
+  private parseConditional(): FormulaNode {
+    const test = this.parseBinary(BINARY_PRECEDENCE['||']);
+    if (!this.isOperator('?')) {
+      return test;
+    }
+    this.next();
+    const consequent = this.parseExpression();
+    this.expect(':');
+    const alternate = this.parseExpression();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): FormulaNode {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.peek();
+      const precedence = token.kind === 'operator' ? BINARY_PRECEDENCE[token.text] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.next();
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: 'binary', operator: token.text, left, right };
+    }
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek();
+    if (token.kind === 'operator' && (token.text === '-' || token.text === '+' || token.text === '!')) {
+      this.next();
+      if (++this.depth > MAX_NESTING_DEPTH) {
+        throw new Error(`Formula is nested too deeply (max ${MAX_NESTING_DEPTH} levels)`);
+      }
+      const operand = this.parseUnary();
+      this.depth--;
+      return { kind: 'unary', operator: token.text, operand };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    if (token.kind === 'number') {
+      return { kind: 'number', value: parseFloat(token.text) };
+    }
+
+    if (token.kind === 'identifier') {
+      if (token.text === 'true' || token.text === 'false') {
+        return { kind: 'boolean', value: token.text === 'true' };
+      }
+      if (this.isOperator('(')) {
+        return this.parseCall(token);
+      }
+      if (token.text.includes('.')) {
+        throw new Error(`'${token.text}' is not a value (position ${token.start})`);
+      }
+      return { kind: 'variable', name: token.text };
+    }
+
+    if (token.kind === 'operator' && token.text === '(') {
+      const node = this.parseExpression();
+      this.expect(')');
+      return node;
+    }
+
+    const found = token.kind === 'end' ? 'end of formula' : `'${token.text}'`;
+    throw new Error(`Unexpected ${found} at position ${token.start}`);
+  }
+
+  private parseCall(nameToken: Token): FormulaNode {
+    const name = nameToken.text.replace(/^Math\./, '');
+    const fn = FUNCTIONS[name];
+    if (!fn || (nameToken.text.startsWith('Math.') && name === 'sum')) {
+      throw new Error(`Unknown function '${nameToken.text}' at position ${nameToken.start}. Allowed: ${FORMULA_FUNCTIONS.join(', ')}`);
+    }
+
+    this.expect('(');
+    const args: FormulaNode[] = [];
+    while (!this.isOperator(')')) {
+      if (args.length > 0) {
+        this.expect(',');
+      }
+      if (this.isOperator('...')) {
+        this.next(); // Spread is a no-op: list arguments are flattened anyway
+      }
+      args.push(this.parseExpression());
+    }
+    this.expect(')');
+
+    if (fn.arity === 'single' && args.length !== 1) {
+      throw new Error(`Function '${name}' expects exactly 1 argument but got ${args.length}`);
+    }
+    if (fn.arity === 'list' && name !== 'sum' && args.length === 0) {
+      throw new Error(`Function '${name}' expects at least 1 argument`);
+    }
+
+    return { kind: 'call', name, args };
+  }
+}
+
+/**
+ * Parse a formula into its AST. Throws with a descriptive message on syntax errors.
+ */
+export function parseFormula(formula: string): FormulaNode {
+  return new FormulaParser(tokenize(formula)).parse();
+}
+
+// ---------------------------------------------------------------------------
+// Evaluator
+// ---------------------------------------------------------------------------
+
+function describe(value: FormulaValue): string {
+  return Array.isArray(value) ? 'a list' : `a ${typeof value}`;
+}
+
+function asNumber(value: FormulaValue, context: string): number {
+  if (typeof value !== 'number') {
+    throw new Error(`${context} expects a number but got ${describe(value)}`);
+  }
+  return value;
+}
+
+function isTruthy(value: FormulaValue): boolean {
+  if (Array.isArray(value)) {
+    throw new Error('A list cannot be used as a condition');
+  }
+  return typeof value === 'number' ? value !== 0 : value;
+}
+
+function lookupVariable(name: string, variables: FormulaVariables): FormulaValue {
+  if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+    const available = Object.keys(variables);
+    throw new Error(`Unknown variable '${name}'. Available: ${available.length > 0 ? available.join(', ') : 'none'}`);
+  }
+  return variables[name];
+}
+
+function flattenArguments(name: string, args: FormulaValue[]): number[] {
+  const values: number[] = [];
+  for (const arg of args) {
+    if (Array.isArray(arg)) {
+      values.push(...arg);
+    } else {
+      values.push(asNumber(arg, `Function '${name}'`));
+    }
+  }
+  return values;
+}
+
+function evaluateNode(node: FormulaNode, variables: FormulaVariables): FormulaValue {
+  switch (node.kind) {
+    case 'number':
+    case 'boolean':
+      return node.value;
+
+    case 'variable':
+      return lookupVariable(node.name, variables);
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, variables);
+      if (node.operator === '!') {
+        return !isTruthy(operand);
+      }
+      const value = asNumber(operand, `Unary '${node.operator}'`);
+      return node.operator === '-' ? -value : value;
+    }
+
+    case 'conditional':
+      return isTruthy(evaluateNode(node.test, variables))
+        ? evaluateNode(node.consequent, variables)
+        : evaluateNode(node.alternate, variables);
+
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      const values = flattenArguments(node.name, node.args.map(arg => evaluateNode(arg, variables)));
+      if (fn.arity === 'list' && node.name !== 'sum' && values.length === 0) {
+        throw new Error(`Function '${node.name}' received an empty list`);
+      }
+      return fn.apply(values);
+    }
+
+    case 'binary': {
+      const { operator } = node;
+      if (operator === '&&') {
+        const left = evaluateNode(node.left, variables);
+        return isTruthy(left) ? isTruthy(evaluateNode(node.right, variables)) : false;
+      }
+      if (operator === '||') {
+        const left = evaluateNode(node.left, variables);
+        return isTruthy(left) ? true : isTruthy(evaluateNode(node.right, variables));
+      }
+
+      const left = evaluateNode(node.left, variables);
+      const right = evaluateNode(node.right, variables);
+
+      if (operator === '==' || operator === '===' || operator === '!=' || operator === '!==') {
+        if (Array.isArray(left) || Array.isArray(right)) {
+          throw new Error('Lists cannot be compared');
+        }
+        const equal = left === right;
+        return operator === '==' || operator === '===' ? equal : !equal;
+      }
+
+      const a = asNumber(left, `Operator '${operator}'`);
+      const b = asNumber(right, `Operator '${operator}'`);
+      switch (operator) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '%': return a % b;
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+      }
+      throw new Error(`Unsupported operator '${operator}'`);
+    }
+  }
+}
+
+function formatValue(value: FormulaValue): string {
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Render the formula with conditionals, comparisons and variables resolved,
+ * leaving arithmetic and function calls visible for the calculation report.
+ */
+function renderReduced(node: FormulaNode, variables: FormulaVariables): { text: string; precedence: number } {
+  switch (node.kind) {
+    case 'number':
+    case 'boolean':
+      return { text: String(node.value), precedence: ATOM_PRECEDENCE };
+
+    case 'variable': {
+      const value = lookupVariable(node.name, variables);
+      return { text: Array.isArray(value) ? `[${formatValue(value)}]` : formatValue(value), precedence: ATOM_PRECEDENCE };
+    }
+
+    case 'conditional':
+      return renderReduced(isTruthy(evaluateNode(node.test, variables)) ? node.consequent : node.alternate, variables);
+
+    case 'call': {
+      const args = node.args.map(arg => {
+        if (arg.kind === 'variable') {
+          return formatValue(lookupVariable(arg.name, variables));
+        }
+        return renderReduced(arg, variables).text;
+      });
+      return { text: `${node.name}(${args.join(', ')})`, precedence: ATOM_PRECEDENCE };
+    }
+
+    case 'unary': {
+      if (node.operator === '!') {
+        return { text: formatValue(evaluateNode(node, variables)), precedence: ATOM_PRECEDENCE };
+      }
+      const operand = renderReduced(node.operand, variables);
+      const text = operand.precedence < UNARY_PRECEDENCE ? `(${operand.text})` : operand.text;
+      return { text: `${node.operator}${text}`, precedence: UNARY_PRECEDENCE };
+    }
+
+    case 'binary': {
+      const precedence = BINARY_PRECEDENCE[node.operator];
+      if (precedence < BINARY_PRECEDENCE['+']) {
+        // Logic and comparisons collapse to their value
+        return { text: formatValue(evaluateNode(node, variables)), precedence: ATOM_PRECEDENCE };
+      }
+      const left = renderReduced(node.left, variables);
+      const right = renderReduced(node.right, variables);
+      const leftText = left.precedence < precedence ? `(${left.text})` : left.text;
+      const rightText = right.precedence <= precedence ? `(${right.text})` : right.text;
+      return { text: `${leftText} ${node.operator} ${rightText}`, precedence };
+    }
+  }
+}
+
+/**
+ * Replace variable names in the original formula text with their values
+ */
+function substituteVariables(formula: string, variables: FormulaVariables): string {
+  const tokens = tokenize(formula);
+  let output = '';
+  let cursor = 0;
+
+  tokens.forEach((token, i) => {
+    if (token.kind !== 'identifier' && !(token.kind === 'operator' && token.text === '...')) {
+      return;
+    }
+
+    let replacement: string | undefined;
+    if (token.kind === 'operator') {
+      // Drop the spread when it precedes a list variable that gets inlined
+      const nextToken = tokens[i + 1];
+      if (nextToken?.kind === 'identifier' && Array.isArray(variables[nextToken.text])) {
+        replacement = '';
+      }
+    } else if (Object.prototype.hasOwnProperty.call(variables, token.text)) {
+      replacement = formatValue(variables[token.text]);
+    }
+
+    if (replacement !== undefined) {
+      output += formula.slice(cursor, token.start) + replacement;
+      cursor = token.end;
+    }
+  });
+
+  return output + formula.slice(cursor);
+}
+
+/**
+ * Evaluate a formula against a set of variables.
+ * Throws with a descriptive message if the formula is invalid or does not produce a finite number.
+ */
+export function evaluateFormula(formula: string, variables: FormulaVariables): FormulaEvaluation {
+  const ast = parseFormula(formula);
+  const value = evaluateNode(ast, variables);
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Formula must produce a finite number but produced ${Array.isArray(value) ? 'a list' : String(value)}`);
+  }
+
+  const reduced = renderReduced(ast, variables).text;
+  return {
+    result: value,
+    substitutedFormula: substituteVariables(formula, variables),
+    evaluatedFormula: reduced === String(value) ? reduced : `${reduced} = ${value}`
+  };
+}
+
+// Sample values used to type-check formulas before a game starts
+const SAMPLE_VALUES: Record<FormulaVariableType, FormulaValue[]> = {
+  'number': [3, 9],
+  'boolean': [true, false],
+  'number[]': [[3, 5], [1, 9, 3]]
+};
+
+/**
+ * Validate a formula against the variables available to it.
+ * Checks syntax, unknown variables/functions and type errors by evaluating with sample values.
+ */
+export function validateFormula(
+  formula: string,
+  allowedVariables: Record<string, FormulaVariableType>
+): { valid: boolean; error?: string } {
+  try {
+    parseFormula(formula);
+    for (let sample = 0; sample < 2; sample++) {
+      const variables: FormulaVariables = {};
+      for (const [name, type] of Object.entries(allowedVariables)) {
+        variables[name] = SAMPLE_VALUES[type][sample];
+      }
+      evaluateFormula(formula, variables);
+    }
+    return { valid: true };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Validate a regeneration formula for a specific tactic
+ */
+export function validateTacticFormula(tactic: SpecialAttackType, formula: string): { valid: boolean; error?: string } {
+  return validateFormula(formula, TACTIC_FORMULA_VARIABLES[tactic]);
+}
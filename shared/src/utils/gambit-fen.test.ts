@@ -0,0 +1,87 @@
+import { DEFAULT_GAME_CONFIG } from '../constants/game-defaults';
+import { createNewGame } from '../index';
+import { BaseGameState, GameStatus, RulesAction } from '../types/game';
+import { loadGambitFEN, parseGambitFEN, toGambitFEN } from './gambit-fen';
+import { applyAction } from './rules-engine';
+
+describe('Gambit FEN', () => {
+  const play = (state: BaseGameState, playerId: string, action: RulesAction): BaseGameState => {
+    const result = applyAction(state, action, { playerId });
+    expect(result.error).toBeUndefined();
+    return result.state;
+  };
+
+  // 1. e4 d5 2. exd5, with the duel for the capture still open
+  const startDuel = (): BaseGameState => {
+    let state = createNewGame('fen-test', 'white', 'black', 'human', DEFAULT_GAME_CONFIG);
+    state.ruleset = 'standard';
+    state = play(state, 'white', { type: 'MOVE', from: 'e2', to: 'e4' });
+    state = play(state, 'black', { type: 'MOVE', from: 'd7', to: 'd5' });
+    return play(state, 'white', { type: 'MOVE', from: 'e4', to: 'd5' });
+  };
+
+  it('should describe the BP pools, manual clock and ruleset of a position', () => {
+    let state = createNewGame('fen-test', 'white', 'black', 'human', DEFAULT_GAME_CONFIG);
+    state.ruleset = 'standard';
+    state = play(state, 'white', { type: 'MOVE', from: 'g1', to: 'f3' });
+
+    const fen = toGambitFEN(state);
+
+    expect(fen).toBe(`${state.chess.fen()} ${state.whitePlayer.battlePoints}/${state.blackPlayer.battlePoints} - 1 standard`);
+    expect(parseGambitFEN(fen)).toEqual({
+      fen: state.chess.fen(),
+      battlePoints: { white: state.whitePlayer.battlePoints, black: state.blackPlayer.battlePoints },
+      halfmoveClockManual: 1,
+      ruleset: 'standard'
+    });
+  });
+
+  it('should load a pending duel that plays on like the original', () => {
+    const original = play(startDuel(), 'white', { type: 'DUEL_ALLOCATION', allocation: 2 });
+    const fen = toGambitFEN(original);
+    expect(fen).toContain(' duel:e4d5:2:- ');
+
+    const loaded = loadGambitFEN(fen);
+    expect(loaded.gameStatus).toBe(GameStatus.DUEL_IN_PROGRESS);
+    expect(loaded.pendingDuel).toMatchObject({ attackerColor: 'w', attackerAllocation: 2, defendingPiece: { type: 'p', square: 'd5' } });
+
+    const resolved = play(loaded, 'black', { type: 'DUEL_ALLOCATION', allocation: 1 });
+    const expected = play(original, 'black', { type: 'DUEL_ALLOCATION', allocation: 1 });
+    expect(toGambitFEN(resolved)).toBe(toGambitFEN(expected));
+  });
+
+  it('should load a retreat decision with the retreat options of the failed capture', () => {
+    let original = play(startDuel(), 'white', { type: 'DUEL_ALLOCATION', allocation: 0 });
+    original = play(original, 'black', { type: 'DUEL_ALLOCATION', allocation: 2 });
+    const fen = toGambitFEN(original);
+    expect(fen).toContain(' retreat:e4d5:0:2 ');
+
+    const loaded = loadGambitFEN(fen);
+
+    expect(loaded.gameStatus).toBe(GameStatus.TACTICAL_RETREAT_DECISION);
+    expect(loaded.currentTurn).toBe('w');
+    expect(loaded.availableRetreatOptions).toEqual(original.availableRetreatOptions);
+    expect(loaded.moveHistory[0].duelResult).toEqual(original.moveHistory[2].duelResult);
+    const retreated = play(loaded, 'white', { type: 'TACTICAL_RETREAT', to: 'e4' });
+    expect(toGambitFEN(retreated)).toBe(toGambitFEN(play(original, 'white', { type: 'TACTICAL_RETREAT', to: 'e4' })));
+  });
+
+  it('should need the config of a custom ruleset', () => {
+    const fen = `${createNewGame('fen-test', 'white').chess.fen()} 5/5 - 0 custom`;
+
+    expect(() => loadGambitFEN(fen)).toThrow("The 'custom' ruleset requires a config");
+    const loaded = loadGambitFEN(fen, { config: { ...DEFAULT_GAME_CONFIG, initialBattlePoints: 5 }, gameType: 'practice' });
+    expect(loaded.ruleset).toBe('custom');
+    expect(loaded.whitePlayer.battlePoints).toBe(5);
+  });
+
+  it('should reject positions it cannot describe', () => {
+    const start = createNewGame('fen-test', 'white').chess.fen();
+
+    expect(() => parseGambitFEN(start)).toThrow('A Gambit FEN has 10 fields, not 6');
+    expect(() => parseGambitFEN(`${start} 40/x - 0 standard`)).toThrow('Invalid BP pools');
+    expect(() => parseGambitFEN(`${start} 40/40 duel:e2e4:-:- 0 standard`)).toThrow('e2e4 is not a capture');
+    expect(() => parseGambitFEN(`${start} 40/40 duel:e2e5:-:- 0 standard`)).toThrow('not a legal move');
+    expect(() => parseGambitFEN(`${start} 40/40 - 0 blitz`)).toThrow('Unknown ruleset');
+  });
+});
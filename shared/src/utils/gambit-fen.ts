@@ -0,0 +1,286 @@
+import { Chess, Move, PieceSymbol, Square, validateFen } from 'chess.js';
+import { ConfigurationTemplate, GameConfig } from '../types/config';
+import { TimeControl } from '../types/clock';
+import { BaseGameState, DuelResult, GameStatus } from '../types/game';
+import { configurationTemplateSchema, resolveGameConfig } from '../validators/config';
+import { createNewGame } from '../index';
+import { formatShredderCastling, isShredderCastling, parseShredderCastling } from './castling';
+import { pauseClockForPhase, startClock } from './clock';
+import { chessToGambitMove } from './notation';
+import { createPendingDuel } from './rules-engine';
+import { calculateTacticalRetreats } from './tactical-retreat';
+
+/**
+ * Gambit FEN: a FEN extended with what a plain FEN cannot say about a Gambit position
+ *
+ *   <FEN> <white BP>/<black BP> <phase> <manual halfmove clock> <ruleset>
+ *
+ * The phase is `-` during ordinary play, `duel:e4d5:3:-` while the capture e4xd5 waits for its
+ * allocations (`-` for one not yet submitted, a promotion piece after the squares), or
+ * `retreat:e4d5` while the attacker of that failed capture chooses a retreat, optionally followed
+ * by the duel's allocations. In both phases the FEN's side to move is the attacker.
+ *
+ *   rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2 40/39 duel:e4d5:-:- 0 standard
+ *
+ * A custom ruleset is only named; its config has to be supplied when the position is loaded.
+ * Chess960 castling rights are written as Shredder-FEN file letters (`HAha`) in the FEN's castling field.
+ */
+
+export interface GambitCapture {
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+  attackerAllocation?: number;
+  defenderAllocation?: number;
+}
+
+export interface GambitPosition {
+  fen: string; // As chess.js reads it, so without any Chess960 castling rights
+  battlePoints: { white: number; black: number };
+  castlingRooks?: Square[]; // Chess960 castling rights
+  duel?: GambitCapture; // Capture waiting for its duel
+  retreat?: GambitCapture; // Failed capture waiting for the attacker's retreat
+  halfmoveClockManual: number;
+  ruleset: ConfigurationTemplate;
+}
+
+export interface LoadGambitFENOptions {
+  gameId?: string;
+  whitePlayerId?: string;
+  blackPlayerId?: string;
+  gameType?: 'ai' | 'human' | 'practice';
+  config?: GameConfig; // Required for the custom ruleset
+  timeControl?: TimeControl;
+}
+
+const FEN_FIELDS = 6;
+const GAMBIT_FIELDS = 4;
+const CAPTURE_PATTERN = /^(duel|retreat):([a-h][1-8])([a-h][1-8])([nbrq])?(?::(\d+|-):(\d+|-))?$/;
+
+/**
+ * Describe a game state's position as Gambit FEN
+ */
+export function toGambitFEN(gameState: BaseGameState): string {
+  return formatGambitFEN({
+    fen: gameState.chess.fen(),
+    battlePoints: { white: gameState.whitePlayer.battlePoints, black: gameState.blackPlayer.battlePoints },
+    castlingRooks: gameState.castlingRooks,
+    ...getCaptureInProgress(gameState),
+    halfmoveClockManual: gameState.halfmoveClockManual,
+    ruleset: gameState.ruleset ?? 'custom'
+  });
+}
+
+/**
+ * Write a position as Gambit FEN
+ */
+export function formatGambitFEN(position: GambitPosition): string {
+  let phase = '-';
+  if (position.duel) {
+    phase = `duel:${formatCapture(position.duel)}:${position.duel.attackerAllocation ?? '-'}:${position.duel.defenderAllocation ?? '-'}`;
+  } else if (position.retreat) {
+    const { attackerAllocation, defenderAllocation } = position.retreat;
+    const allocations = attackerAllocation !== undefined && defenderAllocation !== undefined
+      ? `:${attackerAllocation}:${defenderAllocation}`
+      : '';
+    phase = `retreat:${formatCapture(position.retreat)}${allocations}`;
+  }
+
+  const fenFields = position.fen.split(' ');
+  if (position.castlingRooks?.length) {
+    fenFields[2] = formatShredderCastling(position.castlingRooks);
+  }
+
+  return [
+    fenFields.join(' '),
+    `${position.battlePoints.white}/${position.battlePoints.black}`,
+    phase,
+    position.halfmoveClockManual,
+    position.ruleset
+  ].join(' ');
+}
+
+/**
+ * Read a Gambit FEN, checking that the position and any capture in progress are legal
+ */
+export function parseGambitFEN(text: string): GambitPosition {
+  const fields = text.trim().split(/\s+/);
+  if (fields.length !== FEN_FIELDS + GAMBIT_FIELDS) {
+    throw new Error(`A Gambit FEN has ${FEN_FIELDS + GAMBIT_FIELDS} fields, not ${fields.length}`);
+  }
+
+  const fenFields = fields.slice(0, FEN_FIELDS);
+  const chess960Castling = isShredderCastling(fenFields[2]) ? fenFields[2] : null;
+  if (chess960Castling) {
+    fenFields[2] = '-';
+  }
+  const fen = fenFields.join(' ');
+  const [poolsField, phaseField, halfmoveField, rulesetField] = fields.slice(FEN_FIELDS);
+  const fenValidation = validateFen(fen);
+  if (!fenValidation.ok) {
+    throw new Error(`Invalid FEN: ${fenValidation.error}`);
+  }
+
+  const pools = poolsField.match(/^(\d+)\/(\d+)$/);
+  if (!pools) {
+    throw new Error(`Invalid BP pools: ${poolsField}`);
+  }
+  if (!/^\d+$/.test(halfmoveField)) {
+    throw new Error(`Invalid manual halfmove clock: ${halfmoveField}`);
+  }
+  const ruleset = configurationTemplateSchema.safeParse(rulesetField);
+  if (!ruleset.success) {
+    throw new Error(`Unknown ruleset: ${rulesetField}`);
+  }
+
+  const position: GambitPosition = {
+    fen,
+    battlePoints: { white: parseInt(pools[1]), black: parseInt(pools[2]) },
+    halfmoveClockManual: parseInt(halfmoveField),
+    ruleset: ruleset.data
+  };
+  if (chess960Castling) {
+    position.castlingRooks = parseShredderCastling(chess960Castling, new Chess(fen));
+  }
+
+  if (phaseField !== '-') {
+    const { phase, capture } = parsePhaseField(phaseField);
+    // Throws unless the side to move can make this capture
+    findCapture(fen, capture);
+    if (phase === 'duel') {
+      if (capture.attackerAllocation !== undefined && capture.defenderAllocation !== undefined) {
+        throw new Error('A duel with both allocations has already been resolved');
+      }
+      position.duel = capture;
+    } else {
+      position.retreat = capture;
+    }
+  }
+  return position;
+}
+
+/**
+ * Create a game that starts from a Gambit FEN position
+ */
+export function loadGambitFEN(position: string | GambitPosition, options: LoadGambitFENOptions = {}): BaseGameState {
+  const parsed = typeof position === 'string' ? parseGambitFEN(position) : position;
+  const resolved = resolveGameConfig(parsed.ruleset, options.config);
+  if (!resolved.valid) {
+    throw new Error(resolved.error);
+  }
+
+  const state = createNewGame(
+    options.gameId ?? 'gambit-fen',
+    options.whitePlayerId ?? 'white',
+    options.blackPlayerId ?? 'black',
+    options.gameType,
+    resolved.config,
+    options.timeControl
+  );
+  state.ruleset = resolved.ruleset;
+  state.startingPosition = formatGambitFEN(parsed);
+  state.chess = new Chess(parsed.fen);
+  state.currentTurn = state.chess.turn();
+  state.positionHistory = [{ fen: parsed.fen, turn: state.currentTurn }];
+  state.halfmoveClockManual = parsed.halfmoveClockManual;
+  if (parsed.castlingRooks) {
+    state.castlingRooks = parsed.castlingRooks;
+  }
+  state.whitePlayer.battlePoints = parsed.battlePoints.white;
+  state.blackPlayer.battlePoints = parsed.battlePoints.black;
+  // A human game's clock starts once the opponent joins
+  if (state.clock && state.gameStatus === GameStatus.IN_PROGRESS) {
+    startClock(state.clock, state.currentTurn);
+  }
+
+  if (parsed.duel) {
+    state.pendingDuel = {
+      ...createPendingDuel(findCapture(parsed.fen, parsed.duel), state.currentTurn),
+      attackerAllocation: parsed.duel.attackerAllocation,
+      defenderAllocation: parsed.duel.defenderAllocation
+    };
+    state.gameStatus = GameStatus.DUEL_IN_PROGRESS;
+    if (state.clock && state.timeControl) {
+      pauseClockForPhase(state.clock, state.timeControl.duelAllocationTimeMs);
+    }
+  } else if (parsed.retreat) {
+    const { from, to, attackerAllocation, defenderAllocation } = parsed.retreat;
+    const duelResult: DuelResult | undefined = attackerAllocation !== undefined && defenderAllocation !== undefined ? {
+      attackerAllocation,
+      defenderAllocation,
+      attackerWon: false,
+      attackerBattlePointsRemaining: state.currentTurn === 'w' ? parsed.battlePoints.white : parsed.battlePoints.black,
+      defenderBattlePointsRemaining: state.currentTurn === 'w' ? parsed.battlePoints.black : parsed.battlePoints.white
+    } : undefined;
+    const failedCapture = chessToGambitMove(findCapture(parsed.fen, parsed.retreat), duelResult);
+    failedCapture.captureAttempt = true;
+
+    state.moveHistory = [failedCapture];
+    state.gameStatus = GameStatus.TACTICAL_RETREAT_DECISION;
+    state.availableRetreatOptions = calculateTacticalRetreats(state.chess, from, to, state.config);
+    if (state.clock && state.timeControl) {
+      pauseClockForPhase(state.clock, state.timeControl.retreatDecisionTimeMs);
+    }
+  }
+  return state;
+}
+
+function getCaptureInProgress(gameState: BaseGameState): Pick<GambitPosition, 'duel' | 'retreat'> {
+  if (gameState.gameStatus === GameStatus.DUEL_IN_PROGRESS && gameState.pendingDuel) {
+    const { move, attackerAllocation, defenderAllocation } = gameState.pendingDuel;
+    return { duel: { from: move.from, to: move.to, promotion: move.promotion, attackerAllocation, defenderAllocation } };
+  }
+
+  const failedCapture = gameState.moveHistory[gameState.moveHistory.length - 1];
+  if (gameState.gameStatus === GameStatus.TACTICAL_RETREAT_DECISION && failedCapture) {
+    return {
+      retreat: {
+        from: failedCapture.from,
+        to: failedCapture.to,
+        promotion: failedCapture.promotion,
+        attackerAllocation: failedCapture.duelResult?.attackerAllocation,
+        defenderAllocation: failedCapture.duelResult?.defenderAllocation
+      }
+    };
+  }
+  return {};
+}
+
+function formatCapture(capture: GambitCapture): string {
+  return `${capture.from}${capture.to}${capture.promotion ?? ''}`;
+}
+
+function parsePhaseField(field: string): { phase: 'duel' | 'retreat'; capture: GambitCapture } {
+  const match = field.match(CAPTURE_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid phase: ${field}`);
+  }
+  const [, phase, from, to, promotion, attacker, defender] = match;
+  if (phase === 'retreat' && (attacker === '-' || defender === '-')) {
+    throw new Error('A failed capture lists both of its allocations or neither');
+  }
+
+  return {
+    phase: phase as 'duel' | 'retreat',
+    capture: {
+      from: from as Square,
+      to: to as Square,
+      ...(promotion ? { promotion: promotion as PieceSymbol } : {}),
+      ...(attacker !== undefined && attacker !== '-' ? { attackerAllocation: parseInt(attacker) } : {}),
+      ...(defender !== undefined && defender !== '-' ? { defenderAllocation: parseInt(defender) } : {})
+    }
+  };
+}
+
+function findCapture(fen: string, capture: GambitCapture): Move {
+  let move: Move;
+  try {
+    move = new Chess(fen).move({ from: capture.from, to: capture.to, promotion: capture.promotion });
+  } catch {
+    throw new Error(`${capture.from}${capture.to} is not a legal move in this position`);
+  }
+  if (!move.captured) {
+    throw new Error(`${capture.from}${capture.to} is not a capture`);
+  }
+  return move;
+}
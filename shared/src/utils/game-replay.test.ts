@@ -0,0 +1,141 @@
+import { Chess } from 'chess.js';
+import { DEFAULT_GAME_CONFIG } from '../constants/game-defaults';
+import { GambitMove, GameEvent, GameEventPayloads, GameEventType, GameStatus } from '../types/game';
+import { applyGameEvent, checkReplayConsistency, replayGameEvents } from './game-replay';
+import { chessToGambitMove } from './notation';
+
+describe('Game Replay', () => {
+  const event = <T extends GameEventType>(type: T, payload: GameEventPayloads[T]): GameEvent =>
+    // Stored events come back from JSON, without the methods chess.js puts on moves
+    JSON.parse(JSON.stringify({ type, gameId: 'replay-test', timestamp: 1000, payload }));
+
+  const play = (fen: string, san: string): GambitMove => chessToGambitMove(new Chess(fen).move(san));
+
+  const START = new Chess().fen();
+  const AFTER_E4 = new Chess(START).move('e4').after;
+  const AFTER_E4_D5 = new Chess(AFTER_E4).move('d5').after;
+
+  // 1. e4 d5 2. exd5 fails, and the pawn stays on e4
+  const failedCaptureEvents = (): GameEvent[] => {
+    const capture = play(AFTER_E4_D5, 'exd5');
+    const attackerBP = DEFAULT_GAME_CONFIG.initialBattlePoints - 3;
+    const defenderBP = DEFAULT_GAME_CONFIG.initialBattlePoints - 2;
+    return [
+      event(GameEventType.GAME_CREATED, {
+        gameType: 'human',
+        whitePlayerId: 'white-player',
+        colorPreference: 'white',
+        ruleset: 'standard',
+        config: DEFAULT_GAME_CONFIG
+      }),
+      event(GameEventType.PLAYER_JOINED, { playerId: 'black-player', color: 'b', isAnonymous: false }),
+      event(GameEventType.MOVE_MADE, {
+        move: play(START, 'e4'), playerId: 'white-player', isCheck: false, isCheckmate: false, isStalemate: false, captureAttempt: false
+      }),
+      event(GameEventType.MOVE_MADE, {
+        move: play(AFTER_E4, 'd5'), playerId: 'black-player', isCheck: false, isCheckmate: false, isStalemate: false, captureAttempt: false
+      }),
+      event(GameEventType.DUEL_INITIATED, {
+        attacker: { playerId: 'white-player', piece: 'p', from: 'e4', to: 'd5' },
+        defender: { piece: 'p', square: 'd5' },
+        move: capture
+      }),
+      event(GameEventType.DUEL_ALLOCATION_SUBMITTED, { playerId: 'white-player', allocation: 3, isAttacker: true }),
+      event(GameEventType.DUEL_ALLOCATION_SUBMITTED, { playerId: 'black-player', allocation: 2, isAttacker: false }),
+      event(GameEventType.DUEL_RESOLVED, {
+        outcome: {
+          attackerAllocation: 3,
+          defenderAllocation: 2,
+          attackerWon: false,
+          attackerBattlePointsRemaining: attackerBP,
+          defenderBattlePointsRemaining: defenderBP
+        },
+        winner: 'defender',
+        attackerAllocation: 3,
+        defenderAllocation: 2,
+        attackerRemainingBP: attackerBP,
+        defenderRemainingBP: defenderBP,
+        attackerPieceLost: false,
+        move: capture
+      }),
+      event(GameEventType.TACTICAL_RETREAT_MADE, {
+        playerId: 'white-player',
+        retreat: { originalSquare: 'e4', failedCaptureSquare: 'd5', retreatSquare: 'e4', battlePointsCost: 0 },
+        newBP: attackerBP
+      })
+    ];
+  };
+
+  it('should rebuild the board, BP pools and move history from the events', () => {
+    const events = failedCaptureEvents();
+    const gameState = replayGameEvents(events);
+
+    expect(gameState.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(gameState.blackPlayer.id).toBe('black-player');
+    // The failed capture hands the turn to black without moving anything
+    expect(gameState.chess.fen()).toBe('rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 2');
+    expect(gameState.currentTurn).toBe('b');
+    expect(gameState.whitePlayer.battlePoints).toBe(DEFAULT_GAME_CONFIG.initialBattlePoints - 3);
+    expect(gameState.blackPlayer.battlePoints).toBe(DEFAULT_GAME_CONFIG.initialBattlePoints - 2);
+    expect(gameState.moveHistory).toHaveLength(3);
+    expect(gameState.moveHistory[2].tacticalRetreat?.retreatSquare).toBe('e4');
+  });
+
+  it('should wait for the retreat decision after a failed capture', () => {
+    const events = failedCaptureEvents();
+    const gameState = replayGameEvents(events.slice(0, -1));
+
+    expect(gameState.gameStatus).toBe(GameStatus.TACTICAL_RETREAT_DECISION);
+    expect(gameState.currentTurn).toBe('w');
+    expect(gameState.pendingDuel).toBeNull();
+    expect(gameState.availableRetreatOptions?.some(option => option.square === 'e4')).toBe(true);
+  });
+
+  it('should leave the state it is given untouched', () => {
+    const events = failedCaptureEvents();
+    const before = replayGameEvents(events.slice(0, 2));
+    const fenBefore = before.chess.fen();
+
+    const after = applyGameEvent(before, events[2]);
+
+    expect(after.chess.fen()).toBe(AFTER_E4);
+    expect(before.chess.fen()).toBe(fenBefore);
+    expect(before.moveHistory).toHaveLength(0);
+    expect(before.currentTurn).toBe('w');
+  });
+
+  it('should end the game with the winner from GAME_ENDED', () => {
+    const gameState = replayGameEvents([
+      ...failedCaptureEvents(),
+      event(GameEventType.PLAYER_RESIGNED, { playerId: 'black-player', color: 'b' }),
+      event(GameEventType.GAME_ENDED, { result: 'white', winner: 'white', reason: 'resignation' })
+    ]);
+
+    expect(gameState.gameStatus).toBe(GameStatus.RESIGNED);
+    expect(gameState.endReason).toBe('resignation');
+    expect(gameState.winner).toBe('w');
+  });
+
+  it('should report where the replay differs from the stored final state', () => {
+    const events = failedCaptureEvents();
+    const replayed = replayGameEvents(events);
+    const stored = {
+      finalFEN: replayed.chess.fen(),
+      whiteBattlePoints: replayed.whitePlayer.battlePoints,
+      blackBattlePoints: replayed.blackPlayer.battlePoints
+    };
+
+    expect(checkReplayConsistency(events, stored)).toEqual({ consistent: true, mismatches: [] });
+
+    const result = checkReplayConsistency(events, { ...stored, blackBattlePoints: stored.blackBattlePoints + 1 });
+    expect(result.consistent).toBe(false);
+    expect(result.mismatches).toEqual([expect.stringContaining('Black BP')]);
+  });
+
+  it('should not replay events that come before GAME_CREATED', () => {
+    const events = failedCaptureEvents().slice(1);
+
+    expect(() => replayGameEvents(events)).toThrow('before GAME_CREATED');
+    expect(checkReplayConsistency(events, { finalFEN: START, whiteBattlePoints: 0, blackBattlePoints: 0 }).consistent).toBe(false);
+  });
+});
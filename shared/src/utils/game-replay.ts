@@ -0,0 +1,267 @@
+import { Color, Square } from 'chess.js';
+import { BaseGameState, GameEndReason, GameEvent, GameEventType, GameStatus } from '../types/game';
+import { isGameActive } from '../validators/game-end';
+import { createNewGame } from '../index';
+import { getChess960Castlings, playChess960Castling, revokeCastling } from './castling';
+import { getOppositeColor } from './chess-utils';
+import { startClock } from './clock';
+import { loadGambitFEN } from './gambit-fen';
+import {
+  awaitRetreatDecision,
+  copyGameState,
+  declineDrawOfferByMoving,
+  finishGame,
+  moveRetreatingPiece,
+  passTurn,
+  passTurnAfterFailedCapture,
+  recordCompletedMove,
+  startDuel
+} from './rules-engine';
+import { calculateTacticalRetreats } from './tactical-retreat';
+
+/**
+ * Game replay from the event stream
+ *
+ * Events record outcomes (duel results, BP pools after each change) rather than the inputs the
+ * server computed them from, so replaying never re-runs duel resolution or BP regeneration.
+ * Each event takes the game through the same steps as the rules engine (its state transitions),
+ * at the event's timestamp, which runs the clocks the way the game did. A game-ending move's
+ * GAME_ENDED comes before it, so those steps leave an ended game ended. A practice takeback
+ * returns to the state the log had reached at an earlier event.
+ */
+
+const END_STATUSES: Record<GameEndReason, GameStatus> = {
+  checkmate: GameStatus.CHECKMATE,
+  stalemate: GameStatus.STALEMATE,
+  resignation: GameStatus.RESIGNED,
+  time_forfeit: GameStatus.TIME_FORFEIT,
+  abandonment: GameStatus.ABANDONED,
+  agreement: GameStatus.DRAW,
+  threefold_repetition: GameStatus.DRAW,
+  fifty_move_rule: GameStatus.DRAW,
+  insufficient_material: GameStatus.DRAW
+};
+
+/**
+ * Apply one event to a game state, returning the next state without changing the one passed in.
+ * The state is null before the GAME_CREATED event, which must come first.
+ */
+export function applyGameEvent(state: BaseGameState | null, event: GameEvent): BaseGameState {
+  if (event.type === GameEventType.GAME_CREATED) {
+    const { payload } = event;
+    const created = payload.startingPosition
+      ? loadGambitFEN(payload.startingPosition, {
+        gameId: event.gameId,
+        whitePlayerId: payload.whitePlayerId || '',
+        blackPlayerId: payload.blackPlayerId || '',
+        gameType: payload.gameType,
+        config: payload.ruleset === 'custom' ? payload.config : undefined,
+        timeControl: payload.timeControl
+      })
+      : createNewGame(
+        event.gameId,
+        payload.whitePlayerId || '',
+        payload.blackPlayerId,
+        payload.gameType,
+        payload.config,
+        payload.timeControl
+      );
+    created.ruleset = payload.ruleset;
+    created.aiOpponent = payload.aiOpponent;
+    created.rated = payload.rated;
+    if (payload.chess960Index !== undefined) {
+      created.chess960Index = payload.chess960Index;
+    }
+    if (created.clock) {
+      created.clock.turnStartedAt = event.timestamp;
+    }
+    return created;
+  }
+
+  if (!state) {
+    throw new Error(`Cannot apply ${event.type} before GAME_CREATED`);
+  }
+  const next = copyGameState(state);
+
+  switch (event.type) {
+    case GameEventType.PLAYER_JOINED: {
+      getPlayer(next, event.payload.color).id = event.payload.playerId;
+      next.gameStatus = GameStatus.IN_PROGRESS;
+      if (event.payload.isAnonymous) {
+        next.rated = false;
+      }
+      // White's clock starts once both players are present
+      if (next.clock) {
+        startClock(next.clock, 'w', event.timestamp);
+      }
+      break;
+    }
+
+    case GameEventType.MOVE_MADE: {
+      const { move } = event.payload;
+      declineDrawOfferByMoving(next, move.color);
+      // The move's flags say which side a Chess960 king castled to
+      const castling = next.castlingRooks && move.piece === 'k' && /[kq]/.test(move.flags)
+        ? getChess960Castlings(next.chess, next.castlingRooks).find(candidate => move.flags.includes(candidate.side))
+        : undefined;
+      if (castling) {
+        playChess960Castling(next.chess, castling);
+      } else {
+        next.chess.move({ from: move.from, to: move.to, promotion: move.promotion });
+      }
+      recordCompletedMove(next, move, move.piece === 'p');
+      passTurn(next, move.color, event.timestamp);
+      break;
+    }
+
+    case GameEventType.DUEL_INITIATED: {
+      const { move } = event.payload;
+      declineDrawOfferByMoving(next, move.color);
+      startDuel(next, move, event.timestamp);
+      break;
+    }
+
+    case GameEventType.DUEL_ALLOCATION_SUBMITTED: {
+      if (next.pendingDuel) {
+        if (event.payload.isAttacker) {
+          next.pendingDuel.attackerAllocation = event.payload.allocation;
+        } else {
+          next.pendingDuel.defenderAllocation = event.payload.allocation;
+        }
+      }
+      break;
+    }
+
+    case GameEventType.DUEL_RESOLVED: {
+      const { move, outcome } = event.payload;
+      const attackerColor = move.color;
+      getPlayer(next, attackerColor).battlePoints = event.payload.attackerRemainingBP;
+      getPlayer(next, getOppositeColor(attackerColor)).battlePoints = event.payload.defenderRemainingBP;
+      next.pendingDuel = null;
+
+      if (outcome.attackerWon) {
+        next.chess.move({ from: move.from, to: move.to, promotion: move.promotion });
+        recordCompletedMove(next, move, true);
+        passTurn(next, attackerColor, event.timestamp);
+        break;
+      }
+
+      next.moveHistory.push(move);
+      if (move.attackerPieceLost) {
+        next.chess.remove(move.from as Square);
+        revokeCastling(next, { color: move.color, piece: move.piece, from: move.from });
+        passTurnAfterFailedCapture(next, true, event.timestamp);
+      } else if (move.tacticalRetreat) {
+        // Forced home at no cost
+        passTurnAfterFailedCapture(next, false, event.timestamp);
+      } else if (isGameActive(next)) {
+        const retreatOptions = calculateTacticalRetreats(next.chess, move.from as Square, move.to as Square, next.config);
+        awaitRetreatDecision(next, attackerColor, retreatOptions, event.timestamp);
+      }
+      break;
+    }
+
+    case GameEventType.TACTICAL_RETREAT_MADE: {
+      const { retreat } = event.payload;
+      moveRetreatingPiece(next, retreat);
+      getPlayer(next, next.moveHistory[next.moveHistory.length - 1].color).battlePoints = event.payload.newBP;
+      passTurnAfterFailedCapture(next, false, event.timestamp);
+      break;
+    }
+
+    case GameEventType.BATTLE_POINTS_UPDATED: {
+      getPlayer(next, event.payload.color).battlePoints = event.payload.newAmount;
+      break;
+    }
+
+    case GameEventType.GAME_ENDED: {
+      const { reason, winner } = event.payload;
+      finishGame(next, END_STATUSES[reason], reason, winner === 'white' ? 'w' : winner === 'black' ? 'b' : undefined, event.timestamp);
+      break;
+    }
+
+    case GameEventType.DRAW_OFFERED: {
+      next.drawOffer = { offeredBy: event.payload.color, offeredAt: event.timestamp };
+      break;
+    }
+
+    case GameEventType.DRAW_ACCEPTED:
+    case GameEventType.DRAW_DECLINED: {
+      next.drawOffer = null;
+      break;
+    }
+
+    // Resignation is settled by the GAME_ENDED event that follows; history requests change nothing
+    case GameEventType.PLAYER_RESIGNED:
+    case GameEventType.BP_HISTORY_REQUESTED:
+      break;
+
+    // Goes back to an earlier state of the log, which only replayGameEvents keeps
+    case GameEventType.PRACTICE_POSITION_RESTORED:
+      throw new Error('A practice takeback can only be replayed with the events before it');
+  }
+
+  return next;
+}
+
+/**
+ * Rebuild a game from its complete event stream, starting with GAME_CREATED
+ */
+export function replayGameEvents(events: GameEvent[]): BaseGameState {
+  // State after each event, for practice takebacks to go back to
+  const states: BaseGameState[] = [];
+  for (const event of events) {
+    if (event.type === GameEventType.PRACTICE_POSITION_RESTORED) {
+      const restored = states[event.payload.eventCount - 1];
+      if (!restored) {
+        throw new Error(`Cannot go back to event ${event.payload.eventCount} of ${states.length}`);
+      }
+      // The restored position's clock runs from the takeback, as it did in the game
+      const state = copyGameState(restored);
+      if (state.clock) {
+        state.clock.turnStartedAt = event.timestamp;
+      }
+      states.push(state);
+    } else {
+      states.push(applyGameEvent(states[states.length - 1] ?? null, event));
+    }
+  }
+
+  if (states.length === 0) {
+    throw new Error('Cannot replay a game without events');
+  }
+  return states[states.length - 1];
+}
+
+/**
+ * Check that replaying a game's events reproduces the final position and BP pools that were
+ * stored for it. Returns a description of each difference, or of why the events don't replay.
+ */
+export function checkReplayConsistency(
+  events: GameEvent[],
+  expected: { finalFEN: string; whiteBattlePoints: number; blackBattlePoints: number }
+): { consistent: boolean; mismatches: string[] } {
+  let replayed: BaseGameState;
+  try {
+    replayed = replayGameEvents(events);
+  } catch (error) {
+    return { consistent: false, mismatches: [`Replay failed: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const mismatches: string[] = [];
+  const fen = replayed.chess.fen();
+  if (fen !== expected.finalFEN) {
+    mismatches.push(`FEN: replayed ${fen}, stored ${expected.finalFEN}`);
+  }
+  if (replayed.whitePlayer.battlePoints !== expected.whiteBattlePoints) {
+    mismatches.push(`White BP: replayed ${replayed.whitePlayer.battlePoints}, stored ${expected.whiteBattlePoints}`);
+  }
+  if (replayed.blackPlayer.battlePoints !== expected.blackBattlePoints) {
+    mismatches.push(`Black BP: replayed ${replayed.blackPlayer.battlePoints}, stored ${expected.blackBattlePoints}`);
+  }
+  return { consistent: mismatches.length === 0, mismatches };
+}
+
+function getPlayer(state: BaseGameState, color: Color) {
+  return color === 'w' ? state.whitePlayer : state.blackPlayer;
+}
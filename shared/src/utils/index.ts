@@ -2,4 +2,16 @@ export * from './tactical-retreat';
 export * from './knight-retreat-utils';
 export * from './notation';
 export * from './chess-utils';
-export * from './duels';
\ No newline at end of file
+export * from './duels';export * from './formula';
+export * from './draw-rules';
+export * from './clock';
+export * from './duel-solver';
+export * from './game-replay';
+export * from './tactics';
+export * from './bp-calculator';
+export * from './bp-report';
+export * from './rules-engine';
+export * from './pgn';
+export * from './gambit-fen';
+export * from './castling';
+export * from './practice-tree';
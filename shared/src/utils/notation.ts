@@ -7,8 +7,12 @@ import { GambitMove, DuelResult, TacticalRetreat } from '../types/game';
  * Extends Standard Algebraic Notation (SAN) with:
  * 1. Duel information: {a:5;d:3} - attacker allocated 5, defender allocated 3
  * 2. Tactical retreat: →e4{2} - retreated to e4 with a cost of 2 BP
+ *    →e4{2;d+1} - as above, with 1 BP of the cost paid to the defender
+ * 3. Piece loss: {lost} - the failed attacker was removed from the board
  */
 
+const PIECE_LOST_NOTATION = '{lost}';
+
 /**
  * Convert a GambitMove to extended notation string
  */
@@ -20,6 +24,10 @@ export function moveToExtendedNotation(move: GambitMove): string {
     notation += duelToNotation(move.duelResult);
   }
   
+  if (move.attackerPieceLost) {
+    notation += PIECE_LOST_NOTATION;
+  }
+  
   // Add tactical retreat information if present
   if (move.tacticalRetreat) {
     notation += retreatToNotation(move.tacticalRetreat);
@@ -39,7 +47,8 @@ export function duelToNotation(duelResult: DuelResult): string {
  * Convert tactical retreat to notation string
  */
 export function retreatToNotation(retreat: TacticalRetreat): string {
-  return `→${retreat.retreatSquare}{${retreat.battlePointsCost}}`;
+  const payment = retreat.defenderPayment ? `;d+${retreat.defenderPayment}` : '';
+  return `→${retreat.retreatSquare}{${retreat.battlePointsCost}${payment}}`;
 }
 
 /**
@@ -54,11 +63,13 @@ export function parseExtendedNotation(notation: string): {
   retreat?: {
     square: string;
     cost: number;
+    defenderPayment?: number;
   };
+  pieceLost?: boolean;
 } {
   // Regular expressions for matching parts of the notation
   const duelRegex = /\{a:(\d+);d:(\d+)\}/;
-  const retreatRegex = /→([a-h][1-8])\{(\d+)\}/;
+  const retreatRegex = /→([a-h][1-8])\{(\d+)(?:;d\+(\d+))?\}/;
   
   // Extract duel information
   const duelMatch = notation.match(duelRegex);
@@ -71,9 +82,12 @@ export function parseExtendedNotation(notation: string): {
   const retreatMatch = notation.match(retreatRegex);
   const retreat = retreatMatch ? {
     square: retreatMatch[1],
-    cost: parseInt(retreatMatch[2])
+    cost: parseInt(retreatMatch[2]),
+    ...(retreatMatch[3] ? { defenderPayment: parseInt(retreatMatch[3]) } : {})
   } : undefined;
   
+  const pieceLost = notation.includes(PIECE_LOST_NOTATION);
+  
   // Remove duel and retreat notation to get the base move
   let baseMove = notation;
   if (duelMatch) {
@@ -82,11 +96,15 @@ export function parseExtendedNotation(notation: string): {
   if (retreatMatch) {
     baseMove = baseMove.replace(retreatMatch[0], '');
   }
+  if (pieceLost) {
+    baseMove = baseMove.replace(PIECE_LOST_NOTATION, '');
+  }
   
   return {
     baseMove: baseMove.trim(),
     duel,
-    retreat
+    retreat,
+    ...(pieceLost ? { pieceLost } : {})
   };
 }
 
@@ -122,6 +140,10 @@ export function generateGambitPGN(
       }
     }
     
+    if (move.attackerPieceLost) {
+      notation += PIECE_LOST_NOTATION;
+    }
+    
     // Add tactical retreat information
     if (move.tacticalRetreat) {
       notation += retreatToNotation(move.tacticalRetreat);
@@ -0,0 +1,118 @@
+import { DEFAULT_GAME_CONFIG } from '../constants/game-defaults';
+import { createNewGame } from '../index';
+import { BaseGameState, GameStatus, RulesAction } from '../types/game';
+import { loadGambitFEN } from './gambit-fen';
+import { applyAction } from './rules-engine';
+import { parseGambitPGN, replayGambitPGN, writeGambitPGN } from './pgn';
+
+describe('Gambit PGN', () => {
+  const play = (state: BaseGameState, playerId: string, action: RulesAction): BaseGameState => {
+    const result = applyAction(state, action, { playerId });
+    expect(result.error).toBeUndefined();
+    return result.state;
+  };
+
+  // 1. e4 d5 2. exd5 (won) Nf6 3. Nc3 Nxd5 (fails, the knight retreats to f6)
+  const playGame = (): BaseGameState => {
+    let state = createNewGame('pgn-test', 'white-player', 'black-player', 'human', DEFAULT_GAME_CONFIG);
+    state.ruleset = 'standard';
+    state = play(state, 'white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    state = play(state, 'black-player', { type: 'MOVE', from: 'd7', to: 'd5' });
+    state = play(state, 'white-player', { type: 'MOVE', from: 'e4', to: 'd5' });
+    state = play(state, 'white-player', { type: 'DUEL_ALLOCATION', allocation: 3 });
+    state = play(state, 'black-player', { type: 'DUEL_ALLOCATION', allocation: 1 });
+    state = play(state, 'black-player', { type: 'MOVE', from: 'g8', to: 'f6' });
+    state = play(state, 'white-player', { type: 'MOVE', from: 'b1', to: 'c3' });
+    state = play(state, 'black-player', { type: 'MOVE', from: 'f6', to: 'd5' });
+    state = play(state, 'black-player', { type: 'DUEL_ALLOCATION', allocation: 1 });
+    state = play(state, 'white-player', { type: 'DUEL_ALLOCATION', allocation: 4 });
+    return play(state, 'black-player', { type: 'TACTICAL_RETREAT', to: 'f6' });
+  };
+
+  it('should write the headers and extended notation of a game', () => {
+    const pgn = writeGambitPGN(playGame(), { white: 'Alice', black: 'Bob', date: new Date(Date.UTC(2025, 2, 7)) });
+
+    expect(pgn).toContain('[Date "2025.03.07"]');
+    expect(pgn).toContain('[White "Alice"]');
+    expect(pgn).toContain('[Result "*"]');
+    expect(pgn).toContain('[Ruleset "standard"]');
+    expect(pgn).toContain(`[InitialBP "${DEFAULT_GAME_CONFIG.initialBattlePoints}"]`);
+    expect(pgn).not.toContain('GambitConfig');
+    expect(pgn).toMatch(/1\. e4 d5 2\. exd5\{a:3;d:1\} Nf6 3\. Nc3 Nxd5\{a:1;d:4\}→f6\{\d+\} \*/);
+  });
+
+  it('should replay its own PGN, BP comments included, into the same game', () => {
+    const game = playGame();
+    const pgn = writeGambitPGN(game, { battlePoints: true });
+    expect(pgn).toContain(`{[%bp ${game.whitePlayer.battlePoints} ${game.blackPlayer.battlePoints}]}`);
+
+    const replayed = replayGambitPGN(pgn);
+
+    expect(replayed.chess.fen()).toBe(game.chess.fen());
+    expect(replayed.whitePlayer.battlePoints).toBe(game.whitePlayer.battlePoints);
+    expect(replayed.blackPlayer.battlePoints).toBe(game.blackPlayer.battlePoints);
+    expect(replayed.moveHistory.map(move => move.san)).toEqual(game.moveHistory.map(move => move.san));
+    expect(replayed.moveHistory[5].tacticalRetreat).toEqual(game.moveHistory[5].tacticalRetreat);
+  });
+
+  it('should record why the game ended and end the replay the same way', () => {
+    const resigned = play(playGame(), 'white-player', { type: 'RESIGN' });
+    const pgn = writeGambitPGN(resigned);
+    expect(pgn).toContain('[Result "0-1"]');
+    expect(pgn).toContain('[ResultReason "resignation"]');
+
+    const replayed = replayGambitPGN(pgn);
+    expect(replayed.gameStatus).toBe(GameStatus.RESIGNED);
+    expect(replayed.winner).toBe('b');
+
+    // A result the moves do not lead to is rejected
+    expect(() => replayGambitPGN(pgn.replace('[ResultReason "resignation"]', '[ResultReason "checkmate"]')))
+      .toThrow('The moves do not end the game by checkmate');
+  });
+
+  it('should start the replay from the Gambit FEN of a game from a custom position', () => {
+    let game = loadGambitFEN('3r2k1/5ppp/8/8/8/8/5PPP/3R2K1 b - - 0 30 6/2 - 0 standard');
+    game = play(game, 'black', { type: 'MOVE', from: 'd8', to: 'd1' });
+    game = play(game, 'black', { type: 'DUEL_ALLOCATION', allocation: 1 });
+    game = play(game, 'white', { type: 'DUEL_ALLOCATION', allocation: 0 });
+
+    const pgn = writeGambitPGN(game, { battlePoints: true });
+
+    expect(pgn).toContain('[SetUp "1"]');
+    expect(pgn).toContain('[FEN "3r2k1/5ppp/8/8/8/8/5PPP/3R2K1 b - - 0 30"]');
+    expect(pgn).toContain('[GambitFEN "3r2k1/5ppp/8/8/8/8/5PPP/3R2K1 b - - 0 30 6/2 - 0 standard"]');
+    expect(pgn).toContain('30... Rxd1#{a:1;d:0}');
+    const replayed = replayGambitPGN(pgn);
+    expect(replayed.gameStatus).toBe(GameStatus.CHECKMATE);
+    expect(replayed.chess.fen()).toBe(game.chess.fen());
+  });
+
+  it('should read hand-written PGN with comments, glyphs and numbers against the moves', () => {
+    const pgn = parseGambitPGN([
+      '[Event "Club night"]',
+      '[Ruleset "standard"]',
+      '',
+      '1.e4 {King\'s pawn} d5 $1 2.exd5{a:2;d:0}! ; a line comment',
+      'Qxd5 *'
+    ].join('\n'));
+
+    expect(pgn.headers.Event).toBe('Club night');
+    expect(pgn.result).toBe('*');
+    expect(pgn.moves.map(move => move.san)).toEqual(['e4', 'd5', 'exd5', 'Qxd5']);
+    expect(pgn.moves[2].duel).toEqual({ attackerAllocation: 2, defenderAllocation: 0 });
+    // The queen's capture has no allocations, so it cannot be replayed
+    expect(() => replayGambitPGN(pgn)).toThrow('Move 2... Qxd5: the capture is missing its duel allocations');
+  });
+
+  it('should reject annotations the rules do not produce', () => {
+    const pgn = writeGambitPGN(playGame(), { battlePoints: true });
+
+    expect(() => replayGambitPGN(pgn.replace(/\[%bp \d+/, '[%bp 999'))).toThrow('Move 1. e4: the BP pools are');
+    expect(() => replayGambitPGN(pgn.replace(/→f6\{\d+\}/, '→f6{9}'))).toThrow('the retreat costs');
+    expect(() => replayGambitPGN(pgn.replace('exd5{a:3;d:1}', 'exd5{duel:capture}')))
+      .toThrow('the duel allocations are hidden');
+    expect(() => replayGambitPGN(pgn.replace('Nc3', 'Nc4'))).toThrow('Move 3. Nc4: illegal move');
+    expect(() => replayGambitPGN(pgn.replace('[Ruleset "standard"]', '[Ruleset "blitz"]'))).toThrow('Unknown ruleset');
+    expect(() => parseGambitPGN('1. e4 (1. d4) e5 *')).toThrow('Variations are not supported');
+  });
+});
@@ -0,0 +1,541 @@
+import { Chess, Color, Move, Square } from 'chess.js';
+import { BaseGameState, GambitMove, GameEndReason, GameStatus, RulesAction } from '../types/game';
+import { TimeControl } from '../types/clock';
+import { configurationTemplateSchema, resolveGameConfig } from '../validators/config';
+import { resolveStartingPosition } from '../validators/starting-position';
+import { validateTimeControl } from '../validators/time-control';
+import { createNewGame } from '../index';
+import { getChess960Castlings } from './castling';
+import { loadGambitFEN } from './gambit-fen';
+import { duelToNotation, parseExtendedNotation, retreatToNotation } from './notation';
+import { applyAction } from './rules-engine';
+
+/**
+ * Gambit PGN: whole games in Portable Game Notation
+ *
+ * Moves are written in extended notation (see notation.ts), so the annotations have to stay
+ * attached to the SAN they belong to; anything in braces after whitespace is an ordinary comment.
+ * Comments may carry the BP pools after a move as `{[%bp 38 41]}` (White's pool first).
+ * Besides the Seven Tag Roster, the headers record the ruleset (with the config itself for
+ * custom rulesets), the initial BP, the time control, why the game ended and, for games from a
+ * custom or Chess960 position, the Gambit FEN it started from.
+ *
+ * Reading a PGN replays it through applyAction, so every duel, retreat cost and BP pool it
+ * claims is checked against the rules rather than trusted.
+ */
+
+export type PGNResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface GambitPGNMove {
+  notation: string; // Extended notation as written
+  san: string; // The move without its Gambit annotations
+  duel?: { attackerAllocation: number; defenderAllocation: number };
+  duelHidden?: boolean; // Written as {duel:capture} or {duel:failed} because allocations were hidden
+  retreat?: { square: string; cost: number; defenderPayment?: number };
+  pieceLost?: boolean;
+  battlePoints?: { white: number; black: number }; // Pools after the move, from a [%bp] comment
+}
+
+export interface GambitPGN {
+  headers: Record<string, string>;
+  moves: GambitPGNMove[];
+  result: PGNResult;
+}
+
+export interface WriteGambitPGNOptions {
+  event?: string;
+  site?: string;
+  date?: Date;
+  white?: string; // Player names; the player IDs are used when omitted
+  black?: string;
+  battlePoints?: boolean; // Add the BP pools after every move; needs the duel allocations
+}
+
+const RESULTS: PGNResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+const END_REASONS: GameEndReason[] = [
+  'checkmate', 'stalemate', 'resignation', 'time_forfeit', 'agreement', 'abandonment',
+  'threefold_repetition', 'fifty_move_rule', 'insufficient_material'
+];
+
+// Player IDs of replayed games
+const WHITE_ID = 'white';
+const BLACK_ID = 'black';
+
+const HEADER_PATTERN = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+const BP_COMMENT_PATTERN = /\[%bp\s+(\d+)\s+(\d+)\]/;
+const HIDDEN_DUEL_PATTERN = /\{duel:(?:capture|failed)\}/;
+const CASTLING_SAN_PATTERN = /^O-O(-O)?[+#]?$/;
+const MAX_LINE_LENGTH = 80;
+
+/**
+ * Write a game as Gambit PGN.
+ * Duels whose allocations were filtered out of the state are written as {duel:capture} or
+ * {duel:failed}; such a PGN records the game but cannot be replayed.
+ */
+export function writeGambitPGN(gameState: BaseGameState, options: WriteGambitPGNOptions = {}): string {
+  const result = getPGNResult(gameState);
+  const ruleset = gameState.ruleset ?? 'custom';
+  const headers: Record<string, string> = {
+    Event: options.event ?? 'Gambit Chess game',
+    Site: options.site ?? '?',
+    Date: options.date ? formatPGNDate(options.date) : '????.??.??',
+    Round: '-',
+    White: options.white ?? gameState.whitePlayer.id,
+    Black: options.black ?? gameState.blackPlayer.id,
+    Result: result,
+    Ruleset: ruleset,
+    InitialBP: String(gameState.config.initialBattlePoints)
+  };
+  if (ruleset === 'custom') {
+    headers.GambitConfig = JSON.stringify(gameState.config);
+  }
+  if (gameState.chess960Index !== undefined) {
+    headers.Variant = 'Chess960';
+  }
+  if (gameState.startingPosition) {
+    // FEN for other PGN readers, GambitFEN for the BP pools and the rest
+    headers.SetUp = '1';
+    headers.FEN = gameState.startingPosition.split(' ').slice(0, 6).join(' ');
+    headers.GambitFEN = gameState.startingPosition;
+  }
+  if (gameState.timeControl) {
+    headers.TimeControl = `${gameState.timeControl.baseTimeMs / 1000}+${gameState.timeControl.incrementMs / 1000}`;
+  }
+  if (gameState.endReason) {
+    headers.ResultReason = gameState.endReason;
+  }
+
+  const pools = options.battlePoints ? replayBattlePoints(headers, gameState.moveHistory) : [];
+
+  const tokens: string[] = [];
+  let moveNumber = new Chess(gameState.positionHistory[0]?.fen).moveNumber();
+  let needsNumber = true;
+  gameState.moveHistory.forEach((move, index) => {
+    if (move.color === 'w') {
+      tokens.push(`${moveNumber}.`);
+    } else if (needsNumber) {
+      tokens.push(`${moveNumber}...`);
+    }
+    tokens.push(moveToPGNNotation(move));
+    needsNumber = false;
+
+    if (pools[index]) {
+      tokens.push(`{[%bp ${pools[index].white} ${pools[index].black}]}`);
+      // A black move that follows a comment is numbered again
+      needsNumber = true;
+    }
+    if (move.color === 'b') {
+      moveNumber++;
+    }
+  });
+  tokens.push(result);
+
+  const headerLines = Object.entries(headers).map(([name, value]) => `[${name} "${escapeHeaderValue(value)}"]`);
+  return `${headerLines.join('\n')}\n\n${wrapMovetext(tokens).join('\n')}\n`;
+}
+
+/**
+ * Read the headers and moves of a Gambit PGN, without checking them against the rules.
+ * Throws on text that is not PGN; variations are not supported.
+ */
+export function parseGambitPGN(text: string): GambitPGN {
+  const headers: Record<string, string> = {};
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  let index = 0;
+  for (; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (line === '' || line.startsWith('%')) {
+      continue;
+    }
+    if (!line.startsWith('[')) {
+      break;
+    }
+    const match = line.match(HEADER_PATTERN);
+    if (!match) {
+      throw new Error(`Malformed header: ${line}`);
+    }
+    headers[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+  }
+
+  const movetext = lines.slice(index).filter(line => !line.startsWith('%')).join('\n');
+  const moves: GambitPGNMove[] = [];
+  let resultToken: PGNResult | undefined;
+
+  let position = 0;
+  while (position < movetext.length) {
+    const char = movetext[position];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+    if (resultToken) {
+      throw new Error(`Unexpected text after the result ${resultToken}`);
+    }
+
+    if (char === '{') {
+      const end = movetext.indexOf('}', position);
+      if (end === -1) {
+        throw new Error('Unterminated comment');
+      }
+      const pools = movetext.slice(position + 1, end).match(BP_COMMENT_PATTERN);
+      if (pools && moves.length > 0) {
+        moves[moves.length - 1].battlePoints = { white: parseInt(pools[1]), black: parseInt(pools[2]) };
+      }
+      position = end + 1;
+      continue;
+    }
+    if (char === ';') {
+      const end = movetext.indexOf('\n', position);
+      position = end === -1 ? movetext.length : end + 1;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      throw new Error('Variations are not supported');
+    }
+
+    const end = movetext.slice(position).search(/\s/);
+    const token = end === -1 ? movetext.slice(position) : movetext.slice(position, position + end);
+    position += token.length;
+
+    if ((RESULTS as string[]).includes(token)) {
+      resultToken = token as PGNResult;
+    } else if (!/^(\d+\.*|\$\d+)$/.test(token)) {
+      // Numbers may be written against the move ("1.e4")
+      moves.push(parseMoveToken(token.replace(/^\d+\.+/, '')));
+    }
+  }
+
+  const headerResult = headers.Result as PGNResult | undefined;
+  if (headerResult !== undefined && !RESULTS.includes(headerResult)) {
+    throw new Error(`Invalid Result header: ${headerResult}`);
+  }
+  if (headerResult && resultToken && headerResult !== resultToken) {
+    throw new Error(`The Result header (${headerResult}) does not match the movetext (${resultToken})`);
+  }
+
+  return { headers, moves, result: resultToken ?? headerResult ?? '*' };
+}
+
+/**
+ * Replay a Gambit PGN into the game state it describes.
+ * Moves, duel allocations and retreats are applied with applyAction; the BP comments, retreat
+ * costs, lost pieces and the result must all match what the rules produce, or an error is thrown.
+ */
+export function replayGambitPGN(pgn: string | GambitPGN): BaseGameState {
+  const game = typeof pgn === 'string' ? parseGambitPGN(pgn) : pgn;
+  const start = createStartingState(game.headers);
+  const states = playPGNMoves(start, game.moves);
+  return finishPGNGame(states[states.length - 1] ?? start, game);
+}
+
+/**
+ * PGN result token for a game state
+ */
+export function getPGNResult(gameState: BaseGameState): PGNResult {
+  if (!gameState.endReason) {
+    return '*';
+  }
+  if (!gameState.winner) {
+    return '1/2-1/2';
+  }
+  return gameState.winner === 'w' ? '1-0' : '0-1';
+}
+
+function moveToPGNNotation(move: GambitMove): string {
+  let notation = move.san || `${move.from}-${move.to}`;
+  if (move.duelResult) {
+    const hidden = move.duelResult.attackerAllocation === undefined || move.duelResult.defenderAllocation === undefined;
+    notation += hidden
+      ? `{duel:${move.duelResult.attackerWon ? 'capture' : 'failed'}}`
+      : duelToNotation(move.duelResult);
+  }
+  if (move.attackerPieceLost) {
+    notation += '{lost}';
+  }
+  if (move.tacticalRetreat) {
+    notation += retreatToNotation(move.tacticalRetreat);
+  }
+  return notation;
+}
+
+function parseMoveToken(token: string): GambitPGNMove {
+  const duelHidden = HIDDEN_DUEL_PATTERN.test(token);
+  const parsed = parseExtendedNotation(token.replace(HIDDEN_DUEL_PATTERN, ''));
+  // Move assessment glyphs ("!", "?!") are not part of the SAN
+  const san = parsed.baseMove.replace(/[!?]+$/, '');
+  if (!san || /[{}→]/.test(san)) {
+    throw new Error(`Unrecognised move: ${token}`);
+  }
+
+  return {
+    notation: token,
+    san,
+    ...(parsed.duel ? { duel: parsed.duel } : {}),
+    ...(duelHidden ? { duelHidden } : {}),
+    ...(parsed.retreat ? { retreat: parsed.retreat } : {}),
+    ...(parsed.pieceLost ? { pieceLost: true } : {})
+  };
+}
+
+/**
+ * The game the headers describe, before any move has been played
+ */
+function createStartingState(headers: Record<string, string>): BaseGameState {
+  const ruleset = configurationTemplateSchema.safeParse(headers.Ruleset ?? 'standard');
+  if (!ruleset.success) {
+    throw new Error(`Unknown ruleset: ${headers.Ruleset}`);
+  }
+
+  let customConfig: unknown;
+  if (headers.GambitConfig !== undefined) {
+    try {
+      customConfig = JSON.parse(headers.GambitConfig);
+    } catch {
+      throw new Error('The GambitConfig header is not valid JSON');
+    }
+  }
+  const resolved = resolveGameConfig(ruleset.data, customConfig);
+  if (!resolved.valid) {
+    throw new Error(resolved.error);
+  }
+  const config = resolved.config!;
+  if (headers.InitialBP !== undefined && Number(headers.InitialBP) !== config.initialBattlePoints) {
+    throw new Error(`InitialBP ${headers.InitialBP} does not match the ${resolved.ruleset} ruleset (${config.initialBattlePoints})`);
+  }
+
+  const timeControl = parseTimeControl(headers.TimeControl);
+  const startingPosition = headers.GambitFEN ?? headers.FEN;
+  if (startingPosition === undefined) {
+    const state = createNewGame('pgn-replay', WHITE_ID, BLACK_ID, 'human', config, timeControl);
+    state.ruleset = resolved.ruleset;
+    return state;
+  }
+
+  const start = resolveStartingPosition(startingPosition, resolved.ruleset!, config);
+  if (!start.valid) {
+    throw new Error(`Invalid starting position: ${start.error}`);
+  }
+  return loadGambitFEN(start.position!, {
+    gameId: 'pgn-replay',
+    whitePlayerId: WHITE_ID,
+    blackPlayerId: BLACK_ID,
+    gameType: 'human',
+    config: resolved.ruleset === 'custom' ? config : undefined,
+    timeControl
+  });
+}
+
+function parseTimeControl(header: string | undefined): TimeControl | undefined {
+  if (header === undefined || header === '-') {
+    return undefined;
+  }
+  const match = header.match(/^(\d+)(?:\+(\d+))?$/);
+  if (!match) {
+    throw new Error(`Unsupported TimeControl: ${header}`);
+  }
+  const validation = validateTimeControl({
+    baseTimeMs: parseInt(match[1]) * 1000,
+    incrementMs: parseInt(match[2] ?? '0') * 1000
+  });
+  if (!validation.valid) {
+    throw new Error(`Invalid TimeControl ${header}: ${validation.error}`);
+  }
+  return validation.timeControl;
+}
+
+/**
+ * Play PGN moves in order, returning the state after each
+ */
+function playPGNMoves(start: BaseGameState, moves: GambitPGNMove[]): BaseGameState[] {
+  // Replays run on a stopped clock, so no flag falls while the game is rebuilt
+  const now = start.clock?.turnStartedAt;
+  let state = start;
+  let moveNumber = start.chess.moveNumber();
+
+  return moves.map(move => {
+    const mover = state.currentTurn;
+    state = playPGNMove(state, move, `Move ${moveNumber}${mover === 'w' ? '.' : '...'} ${move.notation}`, now);
+    if (mover === 'b') {
+      moveNumber++;
+    }
+    return state;
+  });
+}
+
+/**
+ * Play one PGN move: the move itself, the duel it starts and the retreat that follows a failed capture
+ */
+function playPGNMove(state: BaseGameState, move: GambitPGNMove, label: string, now?: number): BaseGameState {
+  const fail = (reason: string) => new Error(`${label}: ${reason}`);
+  const play = (current: BaseGameState, action: RulesAction, color: Color, at = now): BaseGameState => {
+    const result = applyAction(current, action, { playerId: playerIdFor(color), now: at });
+    if (result.error) {
+      throw fail(result.error);
+    }
+    return result.state;
+  };
+
+  if (move.duelHidden) {
+    throw fail('the duel allocations are hidden, so the game cannot be replayed');
+  }
+
+  const attacker = state.currentTurn;
+  const defender: Color = attacker === 'w' ? 'b' : 'w';
+  let chessMove: Pick<Move, 'from' | 'to' | 'promotion'> | undefined;
+  const castlingSide = move.san.match(CASTLING_SAN_PATTERN);
+  if (state.castlingRooks && castlingSide) {
+    // Chess960 castling is played as the king moving onto its rook
+    const side = castlingSide[1] ? 'q' : 'k';
+    const castling = getChess960Castlings(state.chess, state.castlingRooks).find(candidate => candidate.side === side);
+    chessMove = castling && { from: castling.kingFrom, to: castling.rookFrom };
+  } else {
+    try {
+      chessMove = new Chess(state.chess.fen()).move(move.san);
+    } catch {
+      chessMove = undefined;
+    }
+  }
+  if (!chessMove) {
+    throw fail('illegal move');
+  }
+
+  let next = play(state, { type: 'MOVE', from: chessMove.from, to: chessMove.to, promotion: chessMove.promotion }, attacker);
+
+  if (next.pendingDuel) {
+    if (!move.duel) {
+      throw fail('the capture is missing its duel allocations');
+    }
+    next = play(next, { type: 'DUEL_ALLOCATION', allocation: move.duel.attackerAllocation }, attacker);
+    next = play(next, { type: 'DUEL_ALLOCATION', allocation: move.duel.defenderAllocation }, defender);
+    const played = next.moveHistory[next.moveHistory.length - 1];
+    if (!!played.attackerPieceLost !== !!move.pieceLost) {
+      throw fail(played.attackerPieceLost ? 'the attacker is lost, but the move does not say so' : 'the attacker is not lost');
+    }
+  } else if (move.duel) {
+    throw fail('duel allocations on a move that is not a capture');
+  }
+
+  if (next.gameStatus === GameStatus.TACTICAL_RETREAT_DECISION) {
+    if (!move.retreat) {
+      throw fail('the failed capture is missing its retreat');
+    }
+    const option = next.availableRetreatOptions?.find(candidate => candidate.square === move.retreat!.square);
+    const originalSquare = next.moveHistory[next.moveHistory.length - 1].from;
+    // A missed retreat deadline leaves the piece on its square for free, whatever that usually costs
+    const timedOut = move.retreat.square === originalSquare && move.retreat.cost === 0 && option?.cost !== 0 && !!next.clock;
+    next = timedOut
+      ? play(next, { type: 'TIMEOUT' }, attacker, Number.MAX_SAFE_INTEGER)
+      : play(next, { type: 'TACTICAL_RETREAT', to: move.retreat.square as Square }, attacker);
+
+    const retreat = next.moveHistory[next.moveHistory.length - 1].tacticalRetreat!;
+    if (retreat.battlePointsCost !== move.retreat.cost || (retreat.defenderPayment ?? 0) !== (move.retreat.defenderPayment ?? 0)) {
+      throw fail(`the retreat costs ${retreatToNotation(retreat)}`);
+    }
+  } else if (move.retreat) {
+    throw fail('a retreat without a failed capture');
+  }
+
+  if (move.battlePoints) {
+    const white = next.whitePlayer.battlePoints;
+    const black = next.blackPlayer.battlePoints;
+    if (white !== move.battlePoints.white || black !== move.battlePoints.black) {
+      throw fail(`the BP pools are ${white} and ${black}, not ${move.battlePoints.white} and ${move.battlePoints.black}`);
+    }
+  }
+  return next;
+}
+
+/**
+ * End the game the way the headers say, when the moves alone do not end it, and check the result
+ */
+function finishPGNGame(state: BaseGameState, game: GambitPGN): BaseGameState {
+  const reason = game.headers.ResultReason as GameEndReason | undefined;
+  if (reason !== undefined && !END_REASONS.includes(reason)) {
+    throw new Error(`Unknown ResultReason: ${reason}`);
+  }
+
+  let final = state;
+  if (reason && !state.endReason) {
+    const loser: Color | undefined = game.result === '1-0' ? 'b' : game.result === '0-1' ? 'w' : undefined;
+    const play = (current: BaseGameState, action: RulesAction, color: Color, now?: number): BaseGameState => {
+      const result = applyAction(current, action, { playerId: playerIdFor(color), now });
+      if (result.error) {
+        throw new Error(`The game cannot end by ${reason}: ${result.error}`);
+      }
+      return result.state;
+    };
+
+    switch (reason) {
+      case 'resignation':
+        final = play(state, { type: 'RESIGN' }, loser ?? state.currentTurn);
+        break;
+      case 'agreement':
+        final = play(state, { type: 'OFFER_DRAW' }, 'w');
+        final = play(final, { type: 'RESPOND_TO_DRAW', accept: true }, 'b');
+        break;
+      case 'abandonment':
+        final = play(state, { type: 'ABANDON', opponentAway: !loser }, loser ?? 'w');
+        break;
+      case 'time_forfeit':
+        if (!state.clock) {
+          throw new Error('A time forfeit needs a TimeControl header');
+        }
+        final = play(state, { type: 'TIMEOUT' }, state.currentTurn, Number.MAX_SAFE_INTEGER);
+        break;
+      default:
+        throw new Error(`The moves do not end the game by ${reason}`);
+    }
+  }
+
+  if (reason && final.endReason !== reason) {
+    throw new Error(`The game ends by ${final.endReason}, not ${reason}`);
+  }
+  const replayedResult = getPGNResult(final);
+  if (replayedResult !== game.result) {
+    throw new Error(`The moves give the result ${replayedResult}, not ${game.result}`);
+  }
+  return final;
+}
+
+/**
+ * BP pools after each move, found by replaying the moves as they would be written
+ */
+function replayBattlePoints(headers: Record<string, string>, moves: GambitMove[]): Array<{ white: number; black: number }> {
+  const written = moves.map(move => parseMoveToken(moveToPGNNotation(move)));
+  return playPGNMoves(createStartingState(headers), written).map(state => ({
+    white: state.whitePlayer.battlePoints,
+    black: state.blackPlayer.battlePoints
+  }));
+}
+
+function playerIdFor(color: Color): string {
+  return color === 'w' ? WHITE_ID : BLACK_ID;
+}
+
+function formatPGNDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getUTCFullYear()}.${pad(date.getUTCMonth() + 1)}.${pad(date.getUTCDate())}`;
+}
+
+function escapeHeaderValue(value: string): string {
+  return value.replace(/[\\"]/g, '\\$&');
+}
+
+function wrapMovetext(tokens: string[]): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines;
+}
@@ -0,0 +1,144 @@
+import { DEFAULT_GAME_CONFIG } from '../constants/game-defaults';
+import { createNewGame } from '../index';
+import { BaseGameState, GameEvent, GameEventType, GameStatus, PracticeNavigation, PracticeTreeNode, RulesAction } from '../types/game';
+import { replayGameEvents } from './game-replay';
+import {
+  createPracticeTree,
+  getPracticeChildren,
+  getPracticeLine,
+  getPracticeRedoTarget,
+  getPracticeUndoTarget,
+  recordPracticeState,
+  restorePracticeState
+} from './practice-tree';
+import { applyAction } from './rules-engine';
+
+describe('Practice Tree', () => {
+  const PLAYER = 'practice-player';
+
+  // Saves every state the way the server does: snapshots for new nodes, the events in the log
+  const startPractice = () => {
+    let state = createNewGame('practice-test', PLAYER, PLAYER, 'practice', DEFAULT_GAME_CONFIG);
+    state.ruleset = 'standard';
+    state.practiceTree = createPracticeTree(state, 1);
+    const snapshots = new Map<string, BaseGameState>([['n0', state]]);
+    const events: GameEvent[] = [{
+      type: GameEventType.GAME_CREATED,
+      gameId: state.id,
+      timestamp: 0,
+      payload: { gameType: 'practice', whitePlayerId: PLAYER, blackPlayerId: PLAYER, colorPreference: 'white', ruleset: 'standard', config: DEFAULT_GAME_CONFIG }
+    }];
+
+    const save = (next: BaseGameState, newEvents: GameEvent[]): BaseGameState => {
+      const { tree, recorded } = recordPracticeState(next.practiceTree!, next, newEvents.length);
+      next.practiceTree = tree;
+      if (recorded) {
+        snapshots.set(recorded.id, next);
+      }
+      events.push(...newEvents);
+      state = next;
+      return state;
+    };
+
+    const play = (...actions: RulesAction[]): BaseGameState => {
+      for (const action of actions) {
+        const result = applyAction(state, action, { playerId: PLAYER });
+        expect(result.error).toBeUndefined();
+        save(result.state, result.events);
+      }
+      return state;
+    };
+
+    const restore = (node: PracticeTreeNode | null | undefined, navigation: PracticeNavigation): BaseGameState => {
+      expect(node).toBeTruthy();
+      const result = restorePracticeState(state, snapshots.get(node!.id)!, node!, navigation, { playerId: PLAYER });
+      return save(result.state, result.events);
+    };
+
+    return {
+      play,
+      undo: () => restore(getPracticeUndoTarget(state.practiceTree!, state), 'undo'),
+      redo: () => restore(getPracticeRedoTarget(state.practiceTree!, state), 'redo'),
+      branch: (node: PracticeTreeNode) => restore(node, 'branch'),
+      events,
+      get state() { return state; }
+    };
+  };
+
+  const capture = (attackerAllocation: number, defenderAllocation: number): RulesAction[] => [
+    { type: 'MOVE', from: 'e4', to: 'd5' },
+    { type: 'DUEL_ALLOCATION', allocation: attackerAllocation },
+    { type: 'DUEL_ALLOCATION', allocation: defenderAllocation }
+  ];
+
+  const opening: RulesAction[] = [
+    { type: 'MOVE', from: 'e2', to: 'e4' },
+    { type: 'MOVE', from: 'd7', to: 'd5' }
+  ];
+
+  it('should undo and redo whole moves, duels included, and replay the takebacks from the log', () => {
+    const game = startPractice();
+    expect(getPracticeUndoTarget(game.state.practiceTree!, game.state)).toBeNull();
+    const beforeCapture = game.play(...opening);
+    const captured = game.play(...capture(3, 1));
+    expect(captured.moveHistory[2].san).toBe('exd5');
+    expect(getPracticeLine(captured.practiceTree!).map(node => node.move?.san)).toEqual([undefined, 'e4', 'd5', 'exd5']);
+
+    const undone = game.undo();
+    expect(undone.chess.fen()).toBe(beforeCapture.chess.fen());
+    expect(undone.whitePlayer.battlePoints).toBe(beforeCapture.whitePlayer.battlePoints);
+    expect(undone.moveHistory).toHaveLength(2);
+    expect(replayGameEvents(game.events).chess.fen()).toBe(undone.chess.fen());
+
+    const redone = game.redo();
+    expect(redone.chess.fen()).toBe(captured.chess.fen());
+    expect(redone.blackPlayer.battlePoints).toBe(captured.blackPlayer.battlePoints);
+    expect(redone.moveHistory[2].duelResult).toEqual(captured.moveHistory[2].duelResult);
+    expect(getPracticeRedoTarget(redone.practiceTree!, redone)).toBeNull();
+
+    const replayed = replayGameEvents(game.events);
+    expect(replayed.chess.fen()).toBe(redone.chess.fen());
+    expect(replayed.blackPlayer.battlePoints).toBe(redone.blackPlayer.battlePoints);
+  });
+
+  it('should take back a move whose duel is still being allocated', () => {
+    const game = startPractice();
+    const beforeCapture = game.play(...opening);
+    const dueling = game.play({ type: 'MOVE', from: 'e4', to: 'd5' }, { type: 'DUEL_ALLOCATION', allocation: 2 });
+    expect(dueling.gameStatus).toBe(GameStatus.DUEL_IN_PROGRESS);
+    expect(getPracticeRedoTarget(dueling.practiceTree!, dueling)).toBeNull();
+
+    const undone = game.undo();
+    expect(undone.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(undone.pendingDuel).toBeNull();
+    expect(undone.chess.fen()).toBe(beforeCapture.chess.fen());
+    expect(replayGameEvents(game.events).pendingDuel).toBeNull();
+  });
+
+  it('should branch from an earlier move to try other allocations, keeping both lines', () => {
+    const game = startPractice();
+    game.play(...opening);
+    const won = game.play(...capture(3, 1));
+    const beforeCapture = getPracticeLine(won.practiceTree!)[2];
+
+    game.branch(beforeCapture);
+    const lost = game.play(...capture(1, 3), { type: 'TACTICAL_RETREAT', to: 'e4' });
+    expect(lost.moveHistory[2].duelResult?.attackerWon).toBe(false);
+
+    const lines = getPracticeChildren(lost.practiceTree!, beforeCapture.id);
+    expect(lines.map(node => node.move?.duel)).toEqual([
+      { attackerAllocation: 3, defenderAllocation: 1, attackerWon: true },
+      { attackerAllocation: 1, defenderAllocation: 3, attackerWon: false }
+    ]);
+    expect(lines[1].move?.retreatSquare).toBe('e4');
+    expect(replayGameEvents(game.events).chess.fen()).toBe(lost.chess.fen());
+
+    // The first line is still there to go back to, and playing it again finds it
+    const again = game.branch(lines[0]);
+    expect(again.chess.fen()).toBe(won.chess.fen());
+    game.undo();
+    game.play(...capture(3, 1));
+    expect(game.state.practiceTree!.currentId).toBe(lines[0].id);
+    expect(game.state.practiceTree!.nodes).toHaveLength(lost.practiceTree!.nodes.length);
+  });
+});
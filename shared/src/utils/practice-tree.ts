@@ -0,0 +1,189 @@
+import {
+  BaseGameState,
+  GambitMove,
+  GameEvent,
+  GameEventType,
+  GameStatus,
+  PracticeNavigation,
+  PracticeTree,
+  PracticeTreeMove,
+  PracticeTreeNode
+} from '../types/game';
+import { copyGameState } from './rules-engine';
+
+/**
+ * Practice takebacks and branches
+ *
+ * A practice game's tree has a node for every position reached after a completed move, so a
+ * capture's node records the duel's allocations and any retreat too. Undo and redo walk the
+ * current line; branching goes back to any node, and the next move played from there starts a
+ * new line beside the old one. The tree only says where to go: the server keeps a full state
+ * snapshot for each node and restores it with restorePracticeState.
+ */
+
+/**
+ * Start the tree of a practice game at the state it was created in
+ */
+export function createPracticeTree(state: BaseGameState, eventCount: number): PracticeTree {
+  return {
+    nodes: [{ id: 'n0', parentId: null, depth: state.moveHistory.length, eventCount }],
+    currentId: 'n0',
+    eventCount
+  };
+}
+
+export function getPracticeNode(tree: PracticeTree, nodeId: string): PracticeTreeNode | undefined {
+  return tree.nodes.find(node => node.id === nodeId);
+}
+
+/**
+ * Nodes from the root to the current one: the position before each move of the move history,
+ * then the current position
+ */
+export function getPracticeLine(tree: PracticeTree): PracticeTreeNode[] {
+  const line: PracticeTreeNode[] = [];
+  let node = getPracticeNode(tree, tree.currentId);
+  while (node) {
+    line.unshift(node);
+    node = node.parentId ? getPracticeNode(tree, node.parentId) : undefined;
+  }
+  return line;
+}
+
+export function getPracticeChildren(tree: PracticeTree, nodeId: string): PracticeTreeNode[] {
+  return tree.nodes.filter(node => node.parentId === nodeId);
+}
+
+/**
+ * A duel or retreat decision is waiting, so the move that started it is not complete yet
+ */
+export function isMoveInProgress(state: BaseGameState): boolean {
+  return state.gameStatus === GameStatus.DUEL_IN_PROGRESS || state.gameStatus === GameStatus.TACTICAL_RETREAT_DECISION;
+}
+
+/**
+ * Count a save's events and, when they complete a move, add the position they reached under the
+ * current node. A move played again with the same allocations leads back to the node it reached
+ * before. Returns the node to snapshot when one is added.
+ */
+export function recordPracticeState(
+  tree: PracticeTree,
+  state: BaseGameState,
+  newEvents: number
+): { tree: PracticeTree; recorded?: PracticeTreeNode } {
+  const eventCount = tree.eventCount + newEvents;
+  const current = getPracticeNode(tree, tree.currentId)!;
+  if (isMoveInProgress(state) || state.moveHistory.length !== current.depth + 1) {
+    return { tree: { ...tree, eventCount } };
+  }
+
+  const move = summarizeMove(state.moveHistory[state.moveHistory.length - 1]);
+  const existing = getPracticeChildren(tree, current.id)
+    .find(child => JSON.stringify(child.move) === JSON.stringify(move));
+  if (existing) {
+    return { tree: visitPracticeNode({ ...tree, eventCount }, existing.id) };
+  }
+
+  const recorded: PracticeTreeNode = {
+    id: `n${tree.nodes.length}`,
+    parentId: current.id,
+    depth: state.moveHistory.length,
+    eventCount,
+    move
+  };
+  return {
+    tree: visitPracticeNode({ ...tree, nodes: [...tree.nodes, recorded], eventCount }, recorded.id),
+    recorded
+  };
+}
+
+/**
+ * The node undo goes back to: the start of a move in progress, otherwise the position before
+ * the last move. Null at the start of the game.
+ */
+export function getPracticeUndoTarget(tree: PracticeTree, state: BaseGameState): PracticeTreeNode | null {
+  const current = getPracticeNode(tree, tree.currentId);
+  if (!current) {
+    return null;
+  }
+  if (isMoveInProgress(state)) {
+    return current;
+  }
+  return current.parentId ? getPracticeNode(tree, current.parentId) ?? null : null;
+}
+
+/**
+ * The node redo goes forward to: the one last left by undo or branching. Null during a move.
+ */
+export function getPracticeRedoTarget(tree: PracticeTree, state: BaseGameState): PracticeTreeNode | null {
+  const current = getPracticeNode(tree, tree.currentId);
+  if (!current?.redoChildId || isMoveInProgress(state)) {
+    return null;
+  }
+  return getPracticeNode(tree, current.redoChildId) ?? null;
+}
+
+/**
+ * Put a node's snapshot back in play. The snapshot takes the place of the whole game state
+ * except for the tree, which moves to the node, and the save version; a clock gets back the
+ * time it had and runs from now. Produces the event that lets a replay of the log do the same.
+ */
+export function restorePracticeState(
+  current: BaseGameState,
+  snapshot: BaseGameState,
+  node: PracticeTreeNode,
+  navigation: PracticeNavigation,
+  context: { playerId: string; now?: number }
+): { state: BaseGameState; events: GameEvent[] } {
+  const now = context.now ?? Date.now();
+  const state = copyGameState(snapshot);
+  state.version = current.version;
+  if (state.clock) {
+    state.clock.turnStartedAt = now;
+  }
+  state.practiceTree = current.practiceTree && visitPracticeNode(current.practiceTree, node.id);
+
+  const event: GameEvent<GameEventType.PRACTICE_POSITION_RESTORED> = {
+    type: GameEventType.PRACTICE_POSITION_RESTORED,
+    gameId: current.id,
+    timestamp: now,
+    payload: {
+      playerId: context.playerId,
+      navigation,
+      nodeId: node.id,
+      eventCount: node.eventCount
+    }
+  };
+  return { state, events: [event] };
+}
+
+/**
+ * Make a node current, pointing redo along the line that leads to it
+ */
+function visitPracticeNode(tree: PracticeTree, nodeId: string): PracticeTree {
+  const nodes = tree.nodes.map(node => ({ ...node }));
+  let node = nodes.find(({ id }) => id === nodeId);
+  while (node?.parentId) {
+    const parent = nodes.find(({ id }) => id === node!.parentId);
+    if (parent) {
+      parent.redoChildId = node.id;
+    }
+    node = parent;
+  }
+  return { ...tree, nodes, currentId: nodeId };
+}
+
+function summarizeMove(move: GambitMove): PracticeTreeMove {
+  const summary: PracticeTreeMove = { san: move.san, color: move.color };
+  if (move.duelResult) {
+    summary.duel = {
+      attackerAllocation: move.duelResult.attackerAllocation,
+      defenderAllocation: move.duelResult.defenderAllocation,
+      attackerWon: move.duelResult.attackerWon
+    };
+  }
+  if (move.tacticalRetreat) {
+    summary.retreatSquare = move.tacticalRetreat.retreatSquare;
+  }
+  return summary;
+}
@@ -0,0 +1,269 @@
+import { DEFAULT_GAME_CONFIG } from '../constants/game-defaults';
+import { createNewGame } from '../index';
+import { BaseGameState, GameEvent, GameEventType, GameStatus, RulesAction } from '../types/game';
+import { TimeControl } from '../types/clock';
+import { replayGameEvents } from './game-replay';
+import { applyAction } from './rules-engine';
+
+describe('Rules Engine', () => {
+  const INITIAL_BP = DEFAULT_GAME_CONFIG.initialBattlePoints;
+  const REGENERATION = DEFAULT_GAME_CONFIG.regenerationRules.baseTurnRegeneration;
+
+  const TIME_CONTROL: TimeControl = {
+    baseTimeMs: 60_000,
+    incrementMs: 0,
+    duelAllocationTimeMs: 10_000,
+    retreatDecisionTimeMs: 10_000,
+    defaultDuelAllocation: 1
+  };
+
+  // Plays actions in order, keeping every event so the game can be replayed
+  const startGame = (timeControl?: TimeControl) => {
+    let state = createNewGame('rules-test', 'white-player', 'black-player', 'human', DEFAULT_GAME_CONFIG, timeControl);
+    const events: GameEvent[] = [{
+      type: GameEventType.GAME_CREATED,
+      gameId: state.id,
+      timestamp: state.clock?.turnStartedAt ?? 0, // When white's clock started
+      payload: {
+        gameType: 'human',
+        whitePlayerId: 'white-player',
+        blackPlayerId: 'black-player',
+        colorPreference: 'white',
+        ruleset: 'standard',
+        config: DEFAULT_GAME_CONFIG,
+        timeControl
+      }
+    } as GameEvent];
+
+    const play = (playerId: string, action: RulesAction, now?: number): BaseGameState => {
+      const result = applyAction(state, action, { playerId, now });
+      expect(result.error).toBeUndefined();
+      state = result.state;
+      events.push(...result.events);
+      return state;
+    };
+    return { play, events, get state() { return state; } };
+  };
+
+  // 1. e4 d5 2. exd5, which is settled by a duel
+  const startCapture = () => {
+    const game = startGame();
+    game.play('white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    game.play('black-player', { type: 'MOVE', from: 'd7', to: 'd5' });
+    game.play('white-player', { type: 'MOVE', from: 'e4', to: 'd5' });
+    return game;
+  };
+
+  it('should play a move and regenerate BP for the player who made it', () => {
+    const game = startGame();
+    const before = game.state;
+
+    const after = game.play('white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+
+    expect(after.currentTurn).toBe('b');
+    expect(after.whitePlayer.battlePoints).toBe(INITIAL_BP + REGENERATION);
+    expect(game.events.map(event => event.type)).toEqual([
+      GameEventType.GAME_CREATED,
+      GameEventType.BATTLE_POINTS_UPDATED,
+      GameEventType.MOVE_MADE
+    ]);
+    // The state passed in is left as it was
+    expect(before.currentTurn).toBe('w');
+    expect(before.moveHistory).toHaveLength(0);
+    expect(before.whitePlayer.battlePoints).toBe(INITIAL_BP);
+  });
+
+  it('should reject an action without changing the game', () => {
+    const game = startGame();
+
+    const result = applyAction(game.state, { type: 'MOVE', from: 'e7', to: 'e5' }, { playerId: 'black-player' });
+    expect(result).toEqual({ state: game.state, events: [], error: 'Not your turn' });
+
+    const invalid = applyAction(game.state, { type: 'MOVE', from: 'e2', to: 'e5' }, { playerId: 'white-player' });
+    expect(invalid.error).toBe('Invalid move');
+  });
+
+  it('should only play a capture once the attacker wins its duel', () => {
+    const game = startCapture();
+    expect(game.state.gameStatus).toBe(GameStatus.DUEL_IN_PROGRESS);
+    expect(game.state.chess.get('d5')?.color).toBe('b');
+
+    game.play('white-player', { type: 'DUEL_ALLOCATION', allocation: 3 });
+    const after = game.play('black-player', { type: 'DUEL_ALLOCATION', allocation: 1 });
+
+    expect(after.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(after.chess.get('d5')).toEqual({ type: 'p', color: 'w' });
+    expect(after.currentTurn).toBe('b');
+    expect(after.moveHistory[2].duelResult?.attackerWon).toBe(true);
+  });
+
+  it('should leave the attacker of a failed capture to retreat, then pass the turn', () => {
+    const game = startCapture();
+    game.play('white-player', { type: 'DUEL_ALLOCATION', allocation: 0 });
+    const decision = game.play('black-player', { type: 'DUEL_ALLOCATION', allocation: 2 });
+
+    expect(decision.gameStatus).toBe(GameStatus.TACTICAL_RETREAT_DECISION);
+    expect(decision.currentTurn).toBe('w');
+
+    const after = game.play('white-player', { type: 'TACTICAL_RETREAT', to: 'e4' });
+
+    expect(after.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(after.currentTurn).toBe('b');
+    expect(after.moveHistory[2].tacticalRetreat?.retreatSquare).toBe('e4');
+    // The events replay to the same game
+    const replayed = replayGameEvents(game.events);
+    expect(replayed.chess.fen()).toBe(after.chess.fen());
+    expect(replayed.whitePlayer.battlePoints).toBe(after.whitePlayer.battlePoints);
+    expect(replayed.blackPlayer.battlePoints).toBe(after.blackPlayer.battlePoints);
+  });
+
+  it('should send a failed attacker home for free when it can neither be lost nor pay for a retreat', () => {
+    const game = startCapture();
+    game.state.config = {
+      ...DEFAULT_GAME_CONFIG,
+      pieceLossRules: {
+        ...DEFAULT_GAME_CONFIG.pieceLossRules,
+        attackerCanLosePiece: false,
+        retreatPaymentRules: { ...DEFAULT_GAME_CONFIG.pieceLossRules.retreatPaymentRules, enabled: true, originalSquareRetreatCost: 1 }
+      }
+    };
+    game.state.whitePlayer.battlePoints = 0;
+
+    game.play('white-player', { type: 'DUEL_ALLOCATION', allocation: 0 });
+    const after = game.play('black-player', { type: 'DUEL_ALLOCATION', allocation: 1 });
+
+    expect(after.gameStatus).toBe(GameStatus.IN_PROGRESS);
+    expect(after.currentTurn).toBe('b');
+    expect(after.chess.get('e4')).toEqual({ type: 'p', color: 'w' });
+    expect(after.whitePlayer.battlePoints).toBe(0);
+    expect(after.moveHistory[2].attackerPieceLost).toBeUndefined();
+    expect(after.moveHistory[2].tacticalRetreat).toEqual({
+      originalSquare: 'e4',
+      failedCaptureSquare: 'd5',
+      retreatSquare: 'e4',
+      battlePointsCost: 0
+    });
+  });
+
+  it('should run the clocks the same way when the events are replayed', () => {
+    const game = startGame(TIME_CONTROL);
+    const start = game.state.clock!.turnStartedAt;
+    game.play('white-player', { type: 'MOVE', from: 'e2', to: 'e4' }, start + 3000);
+    game.play('black-player', { type: 'MOVE', from: 'd7', to: 'd5' }, start + 5000);
+    // The capture attempt pauses white's clock until the retreat hands the turn over
+    game.play('white-player', { type: 'MOVE', from: 'e4', to: 'd5' }, start + 9000);
+    game.play('white-player', { type: 'DUEL_ALLOCATION', allocation: 0 }, start + 10_000);
+    game.play('black-player', { type: 'DUEL_ALLOCATION', allocation: 2 }, start + 11_000);
+    const retreated = game.play('white-player', { type: 'TACTICAL_RETREAT', to: 'e4' }, start + 12_000);
+
+    expect(retreated.clock).toEqual({
+      whiteTimeMs: TIME_CONTROL.baseTimeMs - 7000,
+      blackTimeMs: TIME_CONTROL.baseTimeMs - 2000,
+      runningFor: 'b',
+      turnStartedAt: start + 12_000
+    });
+    expect(replayGameEvents(game.events).clock).toEqual(retreated.clock);
+
+    const forfeited = game.play('', { type: 'TIMEOUT' }, start + 12_000 + TIME_CONTROL.baseTimeMs);
+    expect(forfeited.clock).toMatchObject({ blackTimeMs: 0, runningFor: null });
+    expect(replayGameEvents(game.events).clock).toEqual(forfeited.clock);
+  });
+
+  it('should end the game on checkmate and on resignation', () => {
+    const mated = startGame();
+    mated.play('white-player', { type: 'MOVE', from: 'f2', to: 'f3' });
+    mated.play('black-player', { type: 'MOVE', from: 'e7', to: 'e5' });
+    mated.play('white-player', { type: 'MOVE', from: 'g2', to: 'g4' });
+    const final = mated.play('black-player', { type: 'MOVE', from: 'd8', to: 'h4' });
+
+    expect(final.gameStatus).toBe(GameStatus.CHECKMATE);
+    expect(final.winner).toBe('b');
+
+    const resigned = startGame();
+    const after = resigned.play('white-player', { type: 'RESIGN' });
+    expect(after.gameStatus).toBe(GameStatus.RESIGNED);
+    expect(after.winner).toBe('b');
+    expect(resigned.events.map(event => event.type).slice(-2)).toEqual([
+      GameEventType.PLAYER_RESIGNED,
+      GameEventType.GAME_ENDED
+    ]);
+  });
+
+  it('should end the game for a player who abandons it in progress, whoever is to move', () => {
+    const game = startGame();
+    game.play('white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    const after = game.play('white-player', { type: 'ABANDON' });
+
+    expect(after.gameStatus).toBe(GameStatus.ABANDONED);
+    expect(after.endReason).toBe('abandonment');
+    expect(after.winner).toBe('b');
+    expect(game.events[game.events.length - 1]).toMatchObject({
+      type: GameEventType.GAME_ENDED,
+      payload: { result: 'black', winner: 'black', reason: 'abandonment' }
+    });
+    expect(replayGameEvents(game.events).gameStatus).toBe(GameStatus.ABANDONED);
+
+    const ended = applyAction(after, { type: 'ABANDON' }, { playerId: 'black-player' });
+    expect(ended.error).toBe('Game is not in progress');
+  });
+
+  it('should drop a pending duel when a player abandons the game', () => {
+    const game = startCapture();
+    game.play('white-player', { type: 'DUEL_ALLOCATION', allocation: 2 });
+    const after = game.play('black-player', { type: 'ABANDON' });
+
+    expect(after.gameStatus).toBe(GameStatus.ABANDONED);
+    expect(after.winner).toBe('w');
+    expect(after.pendingDuel).toBeNull();
+    // The capture was never played
+    expect(after.chess.get('d5')).toEqual({ type: 'p', color: 'b' });
+  });
+
+  it('should drop the retreat options when the attacker abandons the game before retreating', () => {
+    const game = startCapture();
+    game.play('white-player', { type: 'DUEL_ALLOCATION', allocation: 0 });
+    game.play('black-player', { type: 'DUEL_ALLOCATION', allocation: 2 });
+    expect(game.state.availableRetreatOptions).toBeDefined();
+
+    const after = game.play('white-player', { type: 'ABANDON' });
+
+    expect(after.gameStatus).toBe(GameStatus.ABANDONED);
+    expect(after.winner).toBe('b');
+    expect(after.availableRetreatOptions).toBeUndefined();
+  });
+
+  it('should give nobody the win when both players have abandoned the game', () => {
+    const game = startGame();
+    const after = game.play('black-player', { type: 'ABANDON', opponentAway: true });
+
+    expect(after.gameStatus).toBe(GameStatus.ABANDONED);
+    expect(after.winner).toBeUndefined();
+    expect(game.events[game.events.length - 1].payload).toEqual({ result: 'draw', winner: null, reason: 'abandonment' });
+
+    const outsider = applyAction(game.state, { type: 'ABANDON' }, { playerId: 'spectator' });
+    expect(outsider.error).toBe('Game is not in progress');
+  });
+
+  it('should enforce the deadline that has passed', () => {
+    const flagged = startGame(TIME_CONTROL);
+    const early = applyAction(flagged.state, { type: 'TIMEOUT' });
+    expect(early.error).toBe('No deadline has passed');
+
+    const forfeited = flagged.play('', { type: 'TIMEOUT' }, Date.now() + TIME_CONTROL.baseTimeMs + 1);
+    expect(forfeited.gameStatus).toBe(GameStatus.TIME_FORFEIT);
+    expect(forfeited.winner).toBe('b');
+
+    // Missed duel allocations are filled with the default
+    const dueling = startGame(TIME_CONTROL);
+    dueling.play('white-player', { type: 'MOVE', from: 'e2', to: 'e4' });
+    dueling.play('black-player', { type: 'MOVE', from: 'd7', to: 'd5' });
+    dueling.play('white-player', { type: 'MOVE', from: 'e4', to: 'd5' });
+    const resolved = dueling.play('', { type: 'TIMEOUT' }, Date.now() + TIME_CONTROL.duelAllocationTimeMs + 1);
+
+    expect(resolved.pendingDuel).toBeNull();
+    expect(resolved.moveHistory[2].duelResult).toMatchObject({
+      attackerAllocation: TIME_CONTROL.defaultDuelAllocation,
+      defenderAllocation: TIME_CONTROL.defaultDuelAllocation
+    });
+  });
+});
@@ -0,0 +1,809 @@
+import { Chess, Color, Move, PieceSymbol, Square } from 'chess.js';
+import {
+  BaseGameState,
+  DuelResult,
+  GambitMove,
+  GameEndReason,
+  GameEvent,
+  GameEventPayloads,
+  GameEventType,
+  GameStatus,
+  MoveAction,
+  PendingDuel,
+  Player,
+  RulesAction,
+  TacticalRetreat
+} from '../types/game';
+import { DuelContext } from '../types/duel';
+import { isGameActive, validateDrawOffer, validateDrawResponse, validateResignation } from '../validators/game-end';
+import { validateTacticalRetreat } from '../validators/retreats';
+import { calculateBPRegenDetailed } from './bp-calculator';
+import { findChess960Castling, getAvailableCastlingField, getChess960Castlings, playChess960Castling, revokeCastling } from './castling';
+import { generateComprehensiveBPReport } from './bp-report';
+import { getKingPosition, getOppositeColor } from './chess-utils';
+import { completeMoveOnClock, getDefaultDuelAllocation, getExpiredClockDeadline, pauseClockForPhase, stopClock } from './clock';
+import { detectDraw, recordPositionForDrawRules } from './draw-rules';
+import { resolveDuel } from './duels';
+import { chessToGambitMove } from './notation';
+import { calculateRetreatPayment, calculateTacticalRetreats, isAttackerPieceLost } from './tactical-retreat';
+import { detectTactics } from './tactics';
+
+/**
+ * Gambit Chess rules engine
+ *
+ * applyAction plays one action against a game state: moves and the duels they start, duel
+ * allocations, tactical retreats, BP regeneration and every way a game can end. It does no I/O,
+ * so the server only loads, saves and broadcasts around it, and the same rules can run anywhere.
+ */
+
+export interface ActionContext {
+  playerId?: string; // Player taking the action; a practice game's player controls both sides
+  now?: number; // Time the action happens at, for the clock, draw offers and event timestamps
+}
+
+export interface ActionResult {
+  state: BaseGameState; // The next state, or the given state when the action is rejected
+  events: GameEvent[]; // In the order they happened; a GAME_ENDED comes before the move that caused it
+  error?: string;
+}
+
+// The action being applied: a copy of the state to change and the events produced so far
+interface ActionInProgress {
+  state: BaseGameState;
+  playerId: string;
+  now: number;
+  events: GameEvent[];
+}
+
+/**
+ * Apply an action to a game state without changing the state passed in.
+ * A rejected action leaves the game as it was and produces no events.
+ */
+export function applyAction(state: BaseGameState, action: RulesAction, context: ActionContext = {}): ActionResult {
+  const run: ActionInProgress = {
+    state: copyGameState(state),
+    playerId: context.playerId ?? '',
+    now: context.now ?? Date.now(),
+    events: []
+  };
+
+  let error: string | null;
+  switch (action.type) {
+    case 'MOVE':
+      error = applyMove(run, action);
+      break;
+    case 'DUEL_ALLOCATION':
+      error = allocateToDuel(run, action.allocation);
+      updateBPReport(run.state);
+      break;
+    case 'TACTICAL_RETREAT':
+      error = retreat(run, action.to, false);
+      updateBPReport(run.state);
+      break;
+    case 'RESIGN':
+      error = resign(run);
+      break;
+    case 'ABANDON':
+      error = abandon(run, !!action.opponentAway);
+      break;
+    case 'OFFER_DRAW':
+      error = offerDraw(run);
+      break;
+    case 'RESPOND_TO_DRAW':
+      error = respondToDraw(run, action.accept);
+      break;
+    case 'TIMEOUT':
+      error = applyExpiredDeadline(run);
+      break;
+    default:
+      error = 'Unknown action type';
+  }
+
+  if (error) {
+    return { state, events: [], error };
+  }
+  return { state: run.state, events: run.events };
+}
+
+/**
+ * Copy everything an action or event can change, so that applying one never writes to the
+ * state it was given
+ */
+export function copyGameState(state: BaseGameState): BaseGameState {
+  return {
+    ...state,
+    chess: new Chess(state.chess.fen()),
+    whitePlayer: { ...state.whitePlayer },
+    blackPlayer: { ...state.blackPlayer },
+    moveHistory: [...state.moveHistory],
+    positionHistory: [...state.positionHistory],
+    pendingDuel: state.pendingDuel ? { ...state.pendingDuel } : null,
+    clock: state.clock ? { ...state.clock } : undefined
+  };
+}
+
+/**
+ * Determine which side a player controls.
+ * In practice games the same player controls both sides, so the side to move is used.
+ */
+export function getPlayerColor(gameState: BaseGameState, playerId: string): Color | null {
+  const isWhite = gameState.whitePlayer.id === playerId;
+  const isBlack = gameState.blackPlayer.id === playerId;
+  if (isWhite && isBlack) {
+    return gameState.currentTurn;
+  }
+  return isWhite ? 'w' : isBlack ? 'b' : null;
+}
+
+function applyMove(run: ActionInProgress, moveAction: MoveAction): string | null {
+  const { state } = run;
+  if (getPlayer(state, state.currentTurn).id !== run.playerId) {
+    return 'Not your turn';
+  }
+  if (state.gameStatus !== GameStatus.IN_PROGRESS) {
+    return 'Game is not in progress';
+  }
+  // A move cannot be made once the player's flag has fallen
+  if (getExpiredClockDeadline(state, run.now)?.type === 'flag') {
+    return 'Time has run out';
+  }
+
+  const castling = state.castlingRooks
+    ? findChess960Castling(state.chess, state.castlingRooks, moveAction.from as Square, moveAction.to as Square)
+    : null;
+  let chessMove: Move;
+  try {
+    chessMove = castling
+      ? playChess960Castling(state.chess, castling)
+      : state.chess.move({ from: moveAction.from, to: moveAction.to, promotion: moveAction.promotion });
+  } catch {
+    return 'Invalid move';
+  }
+
+  declineDrawOfferByMoving(state, state.currentTurn);
+
+  if (chessMove.captured) {
+    // A capture is only played once the duel for it has been won
+    state.chess.undo();
+    emit(run, GameEventType.DUEL_INITIATED, {
+      attacker: { playerId: run.playerId, piece: chessMove.piece, from: chessMove.from, to: chessMove.to },
+      defender: { piece: chessMove.captured as PieceSymbol, square: chessMove.to },
+      move: chessMove
+    });
+    startDuel(state, chessMove, run.now);
+  } else {
+    const gambitMove = chessToGambitMove(chessMove);
+    recordCompletedMove(state, gambitMove, chessMove.piece === 'p');
+
+    const isCheckmate = state.chess.isCheckmate();
+    if (isCheckmate) {
+      // Turns are not switched after a mating move
+      endGame(run, GameStatus.CHECKMATE, 'checkmate', state.currentTurn);
+    } else if (!adjudicateDraw(run)) {
+      passTurn(state, state.currentTurn, run.now);
+      regenerateBattlePoints(run);
+    }
+
+    emit(run, GameEventType.MOVE_MADE, {
+      move: gambitMove,
+      playerId: run.playerId,
+      isCheck: state.chess.inCheck(),
+      isCheckmate,
+      isStalemate: state.chess.isStalemate(),
+      captureAttempt: false
+    });
+  }
+
+  updateBPReport(state);
+  return null;
+}
+
+/**
+ * Record a player's allocation to the pending duel, resolving the duel once both sides have allocated
+ */
+function allocateToDuel(run: ActionInProgress, allocation: number): string | null {
+  const { state } = run;
+  const duel = state.pendingDuel;
+  if (!duel) {
+    return 'No active duel found';
+  }
+  if (state.gameStatus !== GameStatus.DUEL_IN_PROGRESS) {
+    return 'Game is not in duel state';
+  }
+
+  const attacker = getPlayer(state, duel.attackerColor);
+  const defender = getPlayer(state, duel.defenderColor);
+  let isAttacker = attacker.id === run.playerId;
+  let isDefender = defender.id === run.playerId;
+
+  // A practice game's player submits both allocations, the attacker's first
+  if (state.gameType === 'practice' && isAttacker && isDefender) {
+    if (duel.attackerAllocation === undefined) {
+      isDefender = false;
+    } else if (duel.defenderAllocation === undefined) {
+      isAttacker = false;
+    } else {
+      return 'Both allocations already submitted';
+    }
+  }
+
+  if (!isAttacker && !isDefender) {
+    return 'You are not part of this duel';
+  }
+
+  const player = isAttacker ? attacker : defender;
+  if (allocation > player.battlePoints || allocation < 0) {
+    return 'Invalid allocation amount';
+  }
+
+  if (isAttacker) {
+    duel.attackerAllocation = allocation;
+  } else {
+    duel.defenderAllocation = allocation;
+  }
+
+  emit(run, GameEventType.DUEL_ALLOCATION_SUBMITTED, { playerId: run.playerId, allocation, isAttacker });
+
+  if (duel.attackerAllocation !== undefined && duel.defenderAllocation !== undefined) {
+    resolvePendingDuel(run);
+  }
+  return null;
+}
+
+/**
+ * Settle the pending duel: a won capture is played, a failed one leaves the attacker to retreat
+ * (or loses it, when the ruleset says an unaffordable retreat costs the piece)
+ */
+function resolvePendingDuel(run: ActionInProgress): void {
+  const { state } = run;
+  const duel = state.pendingDuel!;
+  const attacker = getPlayer(state, duel.attackerColor);
+  const defender = getPlayer(state, duel.defenderColor);
+
+  const duelContext: DuelContext = {
+    attackingPiece: {
+      type: duel.attackingPiece.type,
+      square: duel.attackingPiece.square,
+      playerId: attacker.id,
+      playerBattlePoints: attacker.battlePoints
+    },
+    defendingPiece: {
+      type: duel.defendingPiece.type,
+      square: duel.defendingPiece.square,
+      playerId: defender.id,
+      playerBattlePoints: defender.battlePoints
+    }
+  };
+  const outcome = resolveDuel(duelContext, duel.attackerAllocation!, duel.defenderAllocation!, state.config);
+
+  attacker.battlePoints = outcome.attackerRemainingBP;
+  defender.battlePoints = outcome.defenderRemainingBP;
+
+  const duelResult: DuelResult = {
+    attackerAllocation: outcome.attackerAllocation,
+    defenderAllocation: outcome.defenderAllocation,
+    attackerWon: outcome.attackerWon,
+    attackerBattlePointsRemaining: outcome.attackerRemainingBP,
+    defenderBattlePointsRemaining: outcome.defenderRemainingBP
+  };
+
+  let gambitMove: GambitMove;
+  if (outcome.attackerWon) {
+    gambitMove = chessToGambitMove(state.chess.move(duel.move), duelResult);
+    recordCompletedMove(state, gambitMove, true);
+
+    if (state.chess.isCheckmate()) {
+      endGame(run, GameStatus.CHECKMATE, 'checkmate', duel.attackerColor);
+    } else if (!adjudicateDraw(run)) {
+      passTurn(state, duel.attackerColor, run.now);
+    }
+  } else {
+    const from = duel.move.from as Square;
+    const to = duel.move.to as Square;
+    gambitMove = chessToGambitMove(duel.move, duelResult);
+    gambitMove.captureAttempt = true;
+    state.moveHistory.push(gambitMove);
+
+    const retreatOptions = calculateTacticalRetreats(state.chess, from, to, state.config);
+    if (isAttackerPieceLost(retreatOptions, attacker.battlePoints, state.config)) {
+      if (removeFailedAttacker(state, from, duel.attackerColor)) {
+        gambitMove.attackerPieceLost = true;
+        revokeCastling(state, { color: duel.attackerColor, piece: duel.attackingPiece.type, from });
+      } else {
+        // Removing the piece would expose its own king, so it is forced home at no cost
+        gambitMove.tacticalRetreat = forcedRetreatHome(from, to);
+      }
+      passTurnAfterFailedCapture(state, !!gambitMove.attackerPieceLost, run.now);
+      adjudicateDraw(run);
+    } else if (!retreatOptions.some(option => option.cost <= attacker.battlePoints)) {
+      // The piece cannot be lost and no retreat is affordable, so it is forced home at no cost
+      gambitMove.tacticalRetreat = forcedRetreatHome(from, to);
+      passTurnAfterFailedCapture(state, false, run.now);
+      adjudicateDraw(run);
+    } else {
+      awaitRetreatDecision(state, duel.attackerColor, retreatOptions, run.now);
+    }
+  }
+
+  state.pendingDuel = null;
+
+  emit(run, GameEventType.DUEL_RESOLVED, {
+    outcome: duelResult,
+    winner: outcome.attackerWon ? 'attacker' : 'defender',
+    attackerAllocation: outcome.attackerAllocation,
+    defenderAllocation: outcome.defenderAllocation,
+    attackerRemainingBP: outcome.attackerRemainingBP,
+    defenderRemainingBP: outcome.defenderRemainingBP,
+    attackerPieceLost: !!gambitMove.attackerPieceLost,
+    move: gambitMove
+  });
+  emit(run, GameEventType.BATTLE_POINTS_UPDATED, {
+    playerId: attacker.id,
+    color: duel.attackerColor,
+    newAmount: attacker.battlePoints,
+    change: -duel.attackerAllocation!,
+    reason: 'duel_participation'
+  });
+  emit(run, GameEventType.BATTLE_POINTS_UPDATED, {
+    playerId: defender.id,
+    color: duel.defenderColor,
+    newAmount: defender.battlePoints,
+    change: -duel.defenderAllocation!,
+    reason: 'duel_participation'
+  });
+}
+
+function forcedRetreatHome(originalSquare: Square, failedCaptureSquare: Square): TacticalRetreat {
+  return { originalSquare, failedCaptureSquare, retreatSquare: originalSquare, battlePointsCost: 0 };
+}
+
+/**
+ * Move the attacker of a failed capture to the chosen retreat square and pay for it.
+ * A timed-out retreat goes back to the original square for free, even if the attacker could not afford it.
+ */
+function retreat(run: ActionInProgress, retreatSquare: Square, timedOut: boolean): string | null {
+  const { state } = run;
+  const validation = validateTacticalRetreat(state, run.playerId, { type: 'TACTICAL_RETREAT', to: retreatSquare });
+  if (!validation.valid && !(timedOut && state.gameStatus === GameStatus.TACTICAL_RETREAT_DECISION)) {
+    return validation.error!;
+  }
+
+  const lastMove = state.moveHistory[state.moveHistory.length - 1];
+  const originalSquare = lastMove.from as Square;
+
+  // After a failed capture the piece is still on its original square
+  if (!state.chess.get(originalSquare)) {
+    return 'Piece not found at original position';
+  }
+
+  // By color, so practice games charge the right pool
+  const attacker = getPlayer(state, lastMove.color);
+  const defender = getPlayer(state, getOppositeColor(lastMove.color));
+  const cost = timedOut ? 0 : validation.cost!;
+  const defenderPayment = calculateRetreatPayment(cost, state.config);
+
+  const tacticalRetreat: TacticalRetreat = {
+    originalSquare,
+    failedCaptureSquare: lastMove.to as Square,
+    retreatSquare,
+    battlePointsCost: cost,
+    ...(defenderPayment > 0 ? { defenderPayment } : {})
+  };
+  attacker.battlePoints -= cost;
+  defender.battlePoints += defenderPayment;
+  moveRetreatingPiece(state, tacticalRetreat);
+
+  // The turn goes to the defender who won the duel; the retreat is an ordinary move for the draw rules
+  passTurnAfterFailedCapture(state, false, run.now);
+
+  emit(run, GameEventType.TACTICAL_RETREAT_MADE, {
+    playerId: attacker.id,
+    retreat: tacticalRetreat,
+    newBP: attacker.battlePoints
+  });
+  emit(run, GameEventType.BATTLE_POINTS_UPDATED, {
+    playerId: attacker.id,
+    color: attacker.color,
+    newAmount: attacker.battlePoints,
+    change: -cost,
+    reason: 'tactical_retreat'
+  });
+  if (defenderPayment > 0) {
+    emit(run, GameEventType.BATTLE_POINTS_UPDATED, {
+      playerId: defender.id,
+      color: defender.color,
+      newAmount: defender.battlePoints,
+      change: defenderPayment,
+      reason: 'retreat_payment'
+    });
+  }
+
+  adjudicateDraw(run);
+  return null;
+}
+
+function resign(run: ActionInProgress): string | null {
+  const color = getPlayerColor(run.state, run.playerId);
+  if (!color) {
+    return 'You are not a player in this game';
+  }
+
+  const validation = validateResignation(run.state);
+  if (!validation.valid) {
+    return validation.error!;
+  }
+
+  emit(run, GameEventType.PLAYER_RESIGNED, { playerId: run.playerId, color });
+  endGame(run, GameStatus.RESIGNED, 'resignation', getOppositeColor(color));
+  return null;
+}
+
+/**
+ * End the game for a player who left it; the opponent wins, unless they are gone too
+ */
+function abandon(run: ActionInProgress, opponentAway: boolean): string | null {
+  if (!isGameActive(run.state)) {
+    return 'Game is not in progress';
+  }
+
+  const color = getPlayerColor(run.state, run.playerId);
+  if (!color) {
+    return 'You are not a player in this game';
+  }
+
+  endGame(run, GameStatus.ABANDONED, 'abandonment', opponentAway ? undefined : getOppositeColor(color));
+  return null;
+}
+
+/**
+ * Offer a draw; the offer stands until answered or until the opponent moves
+ */
+function offerDraw(run: ActionInProgress): string | null {
+  const { state } = run;
+  const color = getPlayerColor(state, run.playerId);
+  if (!color) {
+    return 'You are not a player in this game';
+  }
+
+  const validation = validateDrawOffer(state, color);
+  if (!validation.valid) {
+    return validation.error!;
+  }
+  if (getPlayer(state, getOppositeColor(color)).id === 'ai') {
+    return 'The AI does not accept draw offers';
+  }
+
+  state.drawOffer = { offeredBy: color, offeredAt: run.now };
+  emit(run, GameEventType.DRAW_OFFERED, { playerId: run.playerId, color });
+  return null;
+}
+
+function respondToDraw(run: ActionInProgress, accept: boolean): string | null {
+  const { state } = run;
+  const color = getPlayerColor(state, run.playerId);
+  if (!color) {
+    return 'You are not a player in this game';
+  }
+
+  const validation = validateDrawResponse(state, color);
+  if (!validation.valid) {
+    return validation.error!;
+  }
+
+  state.drawOffer = null;
+  emit(run, accept ? GameEventType.DRAW_ACCEPTED : GameEventType.DRAW_DECLINED, { playerId: run.playerId, color });
+  if (accept) {
+    endGame(run, GameStatus.DRAW, 'agreement');
+  }
+  return null;
+}
+
+/**
+ * Enforce an expired clock or duel/retreat deadline in a timed game.
+ * A fallen flag loses the game; a missed duel allocation is filled with the configured default
+ * and a missed retreat decision sends the piece back to its original square for free.
+ */
+function applyExpiredDeadline(run: ActionInProgress): string | null {
+  const { state } = run;
+  if (!isGameActive(state)) {
+    return 'Game is not in progress';
+  }
+
+  const deadline = getExpiredClockDeadline(state, run.now);
+  if (!deadline) {
+    return 'No deadline has passed';
+  }
+
+  if (deadline.type === 'flag') {
+    endGame(run, GameStatus.TIME_FORFEIT, 'time_forfeit', getOppositeColor(deadline.color));
+    return null;
+  }
+
+  if (state.gameStatus === GameStatus.DUEL_IN_PROGRESS && state.pendingDuel) {
+    const duel = state.pendingDuel;
+    const sides: Array<{ color: Color; pieceType: PieceSymbol; allocated: boolean }> = [
+      { color: duel.attackerColor, pieceType: duel.attackingPiece.type, allocated: duel.attackerAllocation !== undefined },
+      { color: duel.defenderColor, pieceType: duel.defendingPiece.type, allocated: duel.defenderAllocation !== undefined }
+    ];
+
+    // Attacker first, so practice games (one player, both roles) fill the roles in order
+    for (const side of sides.filter(side => !side.allocated)) {
+      const allocation = getDefaultDuelAllocation(state, side.color, side.pieceType);
+      const error = allocateToDuel({ ...run, playerId: getPlayer(state, side.color).id }, allocation);
+      if (error) {
+        return error;
+      }
+    }
+    updateBPReport(state);
+    return null;
+  }
+
+  if (state.gameStatus === GameStatus.TACTICAL_RETREAT_DECISION) {
+    const lastMove = state.moveHistory[state.moveHistory.length - 1];
+    const error = retreat({ ...run, playerId: getPlayer(state, lastMove.color).id }, lastMove.from as Square, true);
+    updateBPReport(state);
+    return error;
+  }
+
+  return 'No deadline has passed';
+}
+
+/**
+ * Base turn regeneration plus the bonus for any tactics the last move created, for the player who made it
+ */
+function regenerateBattlePoints(run: ActionInProgress): void {
+  const { state } = run;
+  const lastMove = state.moveHistory[state.moveHistory.length - 1];
+  if (!lastMove) {
+    return;
+  }
+
+  // Can be zero, or negative in experimental rulesets
+  const regeneration = calculateBPRegenDetailed(lastMove, state.config);
+  if (regeneration.totalBP === 0) {
+    return;
+  }
+
+  const player = getPlayer(state, lastMove.color);
+  player.battlePoints += regeneration.totalBP;
+
+  const tactics = detectTactics(lastMove);
+  emit(run, GameEventType.BATTLE_POINTS_UPDATED, {
+    playerId: player.id,
+    color: player.color,
+    newAmount: player.battlePoints,
+    change: regeneration.totalBP,
+    reason: tactics.length > 0 ? 'turn_and_tactical_regeneration' : 'turn_regeneration',
+    tactics: tactics.map(tactic => tactic.type)
+  });
+}
+
+/**
+ * End the game in a draw if the position after a completed half-move calls for one.
+ * Returns true if the game was ended.
+ */
+function adjudicateDraw(run: ActionInProgress): boolean {
+  const { state } = run;
+  // chess.js does not know a Chess960 castling can still be played
+  const isStalemate = state.chess.isStalemate()
+    && !(state.castlingRooks && getChess960Castlings(state.chess, state.castlingRooks).length > 0);
+  const reason = isStalemate ? 'stalemate' : detectDraw(state);
+  if (!reason) {
+    return false;
+  }
+
+  endGame(run, reason === 'stalemate' ? GameStatus.STALEMATE : GameStatus.DRAW, reason);
+  return true;
+}
+
+/**
+ * Finish the game and announce the result; no winner means a draw
+ */
+function endGame(run: ActionInProgress, status: GameStatus, reason: GameEndReason, winner?: Color): void {
+  finishGame(run.state, status, reason, winner, run.now);
+
+  const result = winner ? (winner === 'w' ? 'white' : 'black') : 'draw';
+  emit(run, GameEventType.GAME_ENDED, {
+    result,
+    winner: result !== 'draw' ? result : null,
+    reason
+  });
+}
+
+/**
+ * Remove a failed attacker from the board.
+ * Returns false (leaving the board untouched) if removal would expose the attacker's king.
+ */
+function removeFailedAttacker(state: BaseGameState, square: Square, attackerColor: Color): boolean {
+  const piece = state.chess.remove(square);
+  if (!piece) {
+    return false;
+  }
+
+  const kingSquare = getKingPosition(state.chess, attackerColor);
+  if (kingSquare && state.chess.isAttacked(kingSquare, getOppositeColor(attackerColor))) {
+    state.chess.put(piece, square);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Pending duel for a capture the attacker has just attempted
+ */
+export function createPendingDuel(move: Move, attackerColor: Color): PendingDuel {
+  return {
+    move,
+    attackerColor,
+    defenderColor: getOppositeColor(attackerColor),
+    attackingPiece: { type: move.piece, square: move.from },
+    defendingPiece: { type: move.captured as PieceSymbol, square: move.to }
+  };
+}
+
+/**
+ * Keep a breakdown of the last move's BP changes where the players may see BP
+ */
+function updateBPReport(state: BaseGameState): void {
+  if (state.gameType === 'practice' || !state.config.informationHiding.hideBattlePoints) {
+    state.bpCalculationReport = generateComprehensiveBPReport(state, state.moveHistory[state.moveHistory.length - 1]);
+  }
+}
+
+function emit<T extends GameEventType>(run: ActionInProgress, type: T, payload: GameEventPayloads[T]): void {
+  run.events.push({ type, gameId: run.state.id, timestamp: run.now, payload } as GameEvent);
+}
+
+function getPlayer(state: BaseGameState, color: Color): Player {
+  return color === 'w' ? state.whitePlayer : state.blackPlayer;
+}
+
+/**
+ * Game state transitions
+ *
+ * The steps actions take a game through, which replaying the game's events (see game-replay)
+ * takes it through again. They change the state they are given and emit nothing; now is when the
+ * step happens, for the clock of a timed game.
+ */
+
+/**
+ * Moving instead of answering a draw offer declines it
+ */
+export function declineDrawOfferByMoving(state: BaseGameState, mover: Color): void {
+  if (state.drawOffer && state.drawOffer.offeredBy !== mover) {
+    state.drawOffer = null;
+  }
+}
+
+/**
+ * Hold a capture that has just been attempted until its duel is settled; the main clocks pause
+ */
+export function startDuel(state: BaseGameState, move: Move, now: number): void {
+  state.gameStatus = GameStatus.DUEL_IN_PROGRESS;
+  state.pendingDuel = createPendingDuel(move, move.color);
+  if (state.clock && state.timeControl) {
+    pauseClockForPhase(state.clock, state.timeControl.duelAllocationTimeMs, now);
+  }
+}
+
+/**
+ * Add a move that has been played on the board to the history, the castling rights and the
+ * positions the draw rules count
+ * @param irreversible - true for pawn moves and captures (resets the fifty-move clock)
+ */
+export function recordCompletedMove(state: BaseGameState, move: GambitMove, irreversible: boolean): void {
+  state.moveHistory.push(move);
+  revokeCastling(state, move);
+  recordPositionForDrawRules(state, irreversible);
+}
+
+/**
+ * Hand the turn to the opponent of the side that has just completed a move, unless the move
+ * ended the game
+ */
+export function passTurn(state: BaseGameState, mover: Color, now: number): void {
+  if (!isGameActive(state)) {
+    return;
+  }
+  state.gameStatus = GameStatus.IN_PROGRESS;
+  state.currentTurn = getOppositeColor(mover);
+  passClock(state, mover, now);
+}
+
+/**
+ * Leave the attacker of a failed capture to choose where the piece retreats to; the attacker
+ * keeps the turn and the main clocks pause
+ */
+export function awaitRetreatDecision(
+  state: BaseGameState,
+  attackerColor: Color,
+  retreatOptions: Array<{ square: Square; cost: number }>,
+  now: number
+): void {
+  state.gameStatus = GameStatus.TACTICAL_RETREAT_DECISION;
+  state.currentTurn = attackerColor;
+  state.availableRetreatOptions = retreatOptions;
+  if (state.clock && state.timeControl) {
+    pauseClockForPhase(state.clock, state.timeControl.retreatDecisionTimeMs, now);
+  }
+}
+
+/**
+ * Record a retreat on the failed capture it follows and move the piece, which is still on its
+ * original square, to the retreat square
+ */
+export function moveRetreatingPiece(state: BaseGameState, tacticalRetreat: TacticalRetreat): void {
+  const lastIndex = state.moveHistory.length - 1;
+  state.moveHistory[lastIndex] = { ...state.moveHistory[lastIndex], tacticalRetreat } as GambitMove;
+
+  const { originalSquare, retreatSquare } = tacticalRetreat;
+  const piece = state.chess.get(originalSquare);
+  if (piece && originalSquare !== retreatSquare) {
+    state.chess.remove(originalSquare);
+    state.chess.put({ type: piece.type, color: piece.color }, retreatSquare);
+    revokeCastling(state, { color: piece.color, piece: piece.type, from: originalSquare, to: retreatSquare });
+  }
+}
+
+/**
+ * Hand the turn to the defender after a failed capture has been settled (retreat or piece loss).
+ * chess.js cannot express this transition as a move, so the FEN is edited directly. The turn
+ * passes even when the game is over, but the clock is only passed on in a game still going.
+ * @param irreversible - true when the attacker's piece was lost (resets the fifty-move clock)
+ */
+export function passTurnAfterFailedCapture(state: BaseGameState, irreversible: boolean, now: number): void {
+  if (isGameActive(state)) {
+    state.gameStatus = GameStatus.IN_PROGRESS;
+    passClock(state, state.currentTurn, now);
+  }
+  state.availableRetreatOptions = undefined;
+  state.currentTurn = getOppositeColor(state.currentTurn);
+
+  const fenParts = state.chess.fen().split(' ');
+  fenParts[1] = state.currentTurn;
+  fenParts[2] = getAvailableCastlingField(state.chess); // A retreat or lost piece can leave a castling rook or king away
+  fenParts[3] = '-'; // No en passant after a failed capture
+  state.chess.load(fenParts.join(' '));
+
+  recordPositionForDrawRules(state, irreversible);
+}
+
+/**
+ * End the game, dropping anything still pending and stopping the clock; a fallen flag leaves its
+ * side with no time. No winner means a draw.
+ */
+export function finishGame(
+  state: BaseGameState,
+  status: GameStatus,
+  reason: GameEndReason,
+  winner: Color | undefined,
+  now: number
+): void {
+  state.gameStatus = status;
+  state.endReason = reason;
+  state.winner = winner;
+  state.pendingDuel = null;
+  state.availableRetreatOptions = undefined;
+  state.drawOffer = null;
+
+  if (state.clock) {
+    stopClock(state.clock, now);
+    if (reason === 'time_forfeit' && winner) {
+      if (winner === 'w') {
+        state.clock.blackTimeMs = 0;
+      } else {
+        state.clock.whiteTimeMs = 0;
+      }
+    }
+  }
+}
+
+/**
+ * Complete a move on the clock of a timed game: the mover gets the increment and the opponent's clock starts
+ */
+function passClock(state: BaseGameState, mover: Color, now: number): void {
+  const { clock, timeControl } = state;
+  if (clock && timeControl) {
+    completeMoveOnClock(clock, timeControl, mover, now);
+  }
+}
@@ -0,0 +1,60 @@
+import { calculateRetreatPayment, isAttackerPieceLost } from './tactical-retreat';
+import { calculateKnightRetreatOptions, coordsToSquare, getKnightRetreatOptions } from './knight-retreat-utils';
+import { DEFAULT_GAME_CONFIG, RISKY_GAME_CONFIG } from '../constants/game-defaults';
+
+describe('Risky Ruleset Retreat Rules', () => {
+  describe('calculateRetreatPayment', () => {
+    it('should pay nothing to the defender under the standard rules', () => {
+      expect(calculateRetreatPayment(6, DEFAULT_GAME_CONFIG)).toBe(0);
+    });
+
+    it('should pay the configured percentage, rounded down', () => {
+      // RISKY_GAME_CONFIG pays 50% of the retreat cost to the defender
+      expect(calculateRetreatPayment(6, RISKY_GAME_CONFIG)).toBe(3);
+      expect(calculateRetreatPayment(5, RISKY_GAME_CONFIG)).toBe(2);
+      expect(calculateRetreatPayment(1, RISKY_GAME_CONFIG)).toBe(0);
+    });
+  });
+
+  describe('isAttackerPieceLost', () => {
+    const options = [
+      { square: 'c3' as const, cost: 3 },
+      { square: 'd2' as const, cost: 5 }
+    ];
+
+    it('should never lose the piece when the ruleset forbids it', () => {
+      expect(isAttackerPieceLost(options, 0, DEFAULT_GAME_CONFIG)).toBe(false);
+    });
+
+    it('should keep the piece when at least one retreat is affordable', () => {
+      expect(isAttackerPieceLost(options, 3, RISKY_GAME_CONFIG)).toBe(false);
+    });
+
+    it('should lose the piece when no retreat is affordable', () => {
+      expect(isAttackerPieceLost(options, 2, RISKY_GAME_CONFIG)).toBe(true);
+      expect(isAttackerPieceLost([], 10, RISKY_GAME_CONFIG)).toBe(true);
+    });
+  });
+});
+
+describe('Knight Retreat Table', () => {
+  // Chess960 knights start anywhere on the back rank, so every knight capture has to be covered
+  it('should match the calculated retreats for a knight capturing from any square', () => {
+    const jumps = [[1, 2], [2, 1], [-1, 2], [-2, 1], [1, -2], [2, -1], [-1, -2], [-2, -1]];
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 8; y++) {
+        for (const [dx, dy] of jumps) {
+          if (x + dx < 0 || x + dx > 7 || y + dy < 0 || y + dy > 7) {
+            continue;
+          }
+          const fromTable = getKnightRetreatOptions(coordsToSquare(x, y), coordsToSquare(x + dx, y + dy));
+          const calculated = calculateKnightRetreatOptions(x, y, x + dx, y + dy)
+            .map(option => ({ square: coordsToSquare(option.x, option.y), cost: option.cost }));
+
+          expect(fromTable).toHaveLength(calculated.length);
+          expect(fromTable).toEqual(expect.arrayContaining(calculated));
+        }
+      }
+    }
+  });
+});
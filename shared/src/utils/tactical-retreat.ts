@@ -67,6 +67,33 @@ export function calculateTacticalRetreats(
   return retreats;
 }
 
+/**
+ * Calculate the share of a retreat cost that is transferred to the defender.
+ * Rounded down so battle points stay whole numbers.
+ */
+export function calculateRetreatPayment(retreatCost: number, config: GameConfig): number {
+  const paymentRules = config.pieceLossRules.retreatPaymentRules;
+  if (!paymentRules.enabled || !paymentRules.costToDefenderEnabled) {
+    return 0;
+  }
+  return Math.floor(retreatCost * paymentRules.costToDefenderPercentage / 100);
+}
+
+/**
+ * Determine whether a failed attacker loses its piece instead of retreating.
+ * With piece loss enabled, the piece is lost when the attacker cannot afford any retreat option.
+ */
+export function isAttackerPieceLost(
+  retreatOptions: { square: Square; cost: number }[],
+  attackerBattlePoints: number,
+  config: GameConfig
+): boolean {
+  if (!config.pieceLossRules.attackerCanLosePiece) {
+    return false;
+  }
+  return !retreatOptions.some(option => option.cost <= attackerBattlePoints);
+}
+
 /**
  * Calculate valid retreat squares for long range pieces (bishop, rook, queen)
  */
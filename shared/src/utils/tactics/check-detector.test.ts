@@ -1,4 +1,5 @@
-import { GambitMove, CheckDTO, SpecialAttackType } from "@gambit-chess/shared";
+import { GambitMove } from "../../types/game";
+import { CheckDTO, SpecialAttackType } from "../../types/tactics";
 import { detectChecks } from "./check-detector";
 import { Chess } from "chess.js";
 
@@ -1,4 +1,6 @@
-import { GambitMove, CheckDTO, SpecialAttackType, getOppositeColor, getPieceAt, getKingPosition } from "@gambit-chess/shared";
+import { GambitMove } from "../../types/game";
+import { CheckDTO, SpecialAttackType } from "../../types/tactics";
+import { getOppositeColor, getPieceAt, getKingPosition } from "../chess-utils";
 import { Color, Chess } from "chess.js";
 
 /**
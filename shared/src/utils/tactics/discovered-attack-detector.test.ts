@@ -1,4 +1,5 @@
-import { GambitMove, SpecialAttackType, DiscoveredAttackDTO } from '@gambit-chess/shared';
+import { GambitMove } from '../../types/game';
+import { SpecialAttackType, DiscoveredAttackDTO } from '../../types/tactics';
 import { detectDiscoveredAttacks } from './discovered-attack-detector';
 import { Chess } from 'chess.js';
 describe('Discovered Attack Detector', () => {
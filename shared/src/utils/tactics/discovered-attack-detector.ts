@@ -1,14 +1,12 @@
+import { GambitMove } from "../../types/game";
+import { DiscoveredAttackDTO, SpecialAttackType } from "../../types/tactics";
 import {
-    GambitMove,
-    DiscoveredAttackDTO,
     getOppositeColor,
-    SpecialAttackType,
     getPiecesByColor,
     isSlidingPiece,
-    getSquaresBetween,
-    squareToCoords,
-    coordsToSquare
-} from "@gambit-chess/shared";
+    getSquaresBetween
+} from "../chess-utils";
+import { squareToCoords, coordsToSquare } from "../knight-retreat-utils";
 import { Chess } from "chess.js";
 
 /**
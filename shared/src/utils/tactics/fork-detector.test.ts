@@ -1,4 +1,5 @@
-import { GambitMove, SpecialAttackType, ForkDTO } from '@gambit-chess/shared';
+import { GambitMove } from '../../types/game';
+import { SpecialAttackType, ForkDTO } from '../../types/tactics';
 import { detectForks, exportsForTesting } from './fork-detector';
 import { Chess } from 'chess.js';
 
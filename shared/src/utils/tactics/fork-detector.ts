@@ -1,4 +1,6 @@
-import { GambitMove, ForkDTO, SpecialAttackType, getOppositeColor, getPiecesByColor } from "@gambit-chess/shared";
+import { GambitMove } from "../../types/game";
+import { ForkDTO, SpecialAttackType } from "../../types/tactics";
+import { getOppositeColor, getPiecesByColor } from "../chess-utils";
 import { Chess, Color, Square } from "chess.js";
 
 /**
@@ -63,6 +65,6 @@ function detectAllForks(board: Chess, forkedByColor: Color): ForkDTO[] {
 }
 
 export let exportsForTesting:any;
-if (process.env.NODE_ENV === 'test') {
+if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
   exportsForTesting = { detectAllForks };
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { GambitMove, SpecialAttackType } from '@gambit-chess/shared';
+import { GambitMove } from '../../types/game';
+import { SpecialAttackType } from '../../types/tactics';
 import { detectPins, exportsForTesting } from './pin-detector';
 import { clearMemoizedTwoHitRayCasts } from './utils';
 import { Chess } from 'chess.js';
@@ -1,4 +1,6 @@
-import { GambitMove, getOppositeColor, getPieceValue, SkewerDTO, SpecialAttackType } from "@gambit-chess/shared";
+import { GambitMove } from "../../types/game";
+import { SkewerDTO, SpecialAttackType } from "../../types/tactics";
+import { getOppositeColor, getPieceValue } from "../chess-utils";
 import { Color, Chess } from "chess.js";
 import { getAllTwoHitRayCasts } from "./utils";
 
@@ -43,6 +45,6 @@ export function detectSkewers(currentBoard: Chess, previousBoard: Chess, lastMov
 }
 
 export let exportsForTesting:any;
-if (process.env.NODE_ENV === 'test') {
+if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
   exportsForTesting = { detectAllSkewers };
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { GambitMove, TacticsDTO } from "@gambit-chess/shared";
+import { GambitMove } from "../../types/game";
+import { TacticsDTO } from "../../types/tactics";
 import { Chess } from 'chess.js';
 import { detectChecks } from "./check-detector";
 import { detectDiscoveredAttacks } from "./discovered-attack-detector";
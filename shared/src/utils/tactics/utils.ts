@@ -1,57 +1,63 @@
-import { castRay, getDirection, getOppositeColor, getPiecesByColor, isSlidingPiece } from "@gambit-chess/shared";
-import { RayCastDTO } from "../../types";
-import { Color, Chess, Square } from "chess.js";
+import { castRay, Direction, getDirection, getOppositeColor, getPiecesByColor, isSlidingPiece } from "../chess-utils";
+import { Color, Chess, PieceSymbol, Square } from "chess.js";
+
+export interface RayCastDTO{
+    attacker: {
+        square: Square;
+        type: PieceSymbol;
+    };
+    direction: Direction;
+    firstHit: {
+        square: Square;
+        type: PieceSymbol;
+    };
+    secondHit: {
+        square: Square;
+        type: PieceSymbol;
+    };
+}
 
 const memoizedCasts = new Map<string, RayCastDTO[]>();
 
 /**
- * Checks if a piece can legally move in a way that would clear the ray from attacker.
+ * Checks if a piece could move off the line it is attacked along, exposing the piece behind it.
+ * The moves are looked at as if it were the piece's turn and the attacker were gone, since a piece
+ * pinned to its king has no legal moves at all, yet it is exactly what a pin is about.
  * @param board The chess board instance
  * @param pieceSquare The square of the piece that might be blocking
- * @param attackerSquare The square of the attacking piece  
+ * @param attackerSquare The square of the attacking piece
  * @param direction The ray direction from attacker
  * @param pieceColor The color of the piece being checked
- * @returns True if the piece can move to clear the ray, false otherwise
+ * @returns True if the piece has a move off the attacker's line, false otherwise
  */
-function canPieceMoveToClearRay(board: Chess, pieceSquare: string, attackerSquare: string, direction: any, pieceColor: Color): boolean {
-    const piece = board.get(pieceSquare as Square);
-    if (!piece) return false;
+function canPieceMoveToClearRay(board: Chess, pieceSquare: Square, attackerSquare: Square, direction: Direction, pieceColor: Color): boolean {
+    const [placement, , castling, , halfmoves, fullmoves] = board.fen().split(' ');
+    let position: Chess;
+    try {
+        position = new Chess(`${placement} ${pieceColor} ${castling} - ${halfmoves} ${fullmoves}`);
+    } catch {
+        return false;
+    }
+    position.remove(attackerSquare);
 
-    // Get all legal moves for this piece
-    const moves = board.moves({ square: pieceSquare as Square, verbose: true });
-    
-    console.log(`    🔍 Checking if ${piece.type} on ${pieceSquare} can clear ray from ${attackerSquare}`);
-    console.log(`    🔍 Available moves: ${moves.map(m => m.san).join(', ')}`);
-    
-    // Check if any move would clear the ray from attacker
-    for (const move of moves) {
-        // Simulate the move
-        const moveResult = board.move(move);
-        if (moveResult) {
-            // After the move, cast a ray from attacker in the same direction
-            const newRay = castRay(board, attackerSquare as Square, direction);
-            
-            // Undo the move
-            board.undo();
-            
-            // CRITICAL FIX: The ray is cleared ONLY if:
-            // 1. No piece is hit (ray goes to edge of board), OR
-            // 2. A DIFFERENT piece (different color/type) is hit
-            // The ray is NOT cleared if the same piece is hit at its new location
-            const rayCleared = !newRay || 
-                               (newRay.piece.color !== piece.color || newRay.piece.type !== piece.type);
-            
-            if (rayCleared) {
-                console.log(`    🎯 Move ${move.san} WOULD clear ray from ${attackerSquare} - ray target: ${newRay ? `${newRay.square}(${newRay.piece.type})` : 'none'}`);
-                return true;
-            } else {
-                console.log(`    ⚪ Move ${move.san} would NOT clear ray - same piece still blocking at ${newRay?.square}`);
-            }
-        }
+    const line = new Set<string>();
+    for (let square = stepSquare(attackerSquare, direction); square; square = stepSquare(square, direction)) {
+        line.add(square);
+    }
+
+    return position.moves({ square: pieceSquare, verbose: true }).some(move => !line.has(move.to));
+}
+
+/**
+ * The next square from a square in a direction, or null off the board
+ */
+function stepSquare(square: Square, direction: Direction): Square | null {
+    const file = square.charCodeAt(0) - 97 + direction.dx;
+    const rank = Number(square[1]) + direction.dy;
+    if (file < 0 || file > 7 || rank < 1 || rank > 8) {
+        return null;
     }
-    
-    console.log(`    ❌ No legal moves for ${piece.type} on ${pieceSquare} would clear ray from ${attackerSquare}`);
-    return false;
+    return `${String.fromCharCode(97 + file)}${rank}` as Square;
 }
 
 /**
@@ -94,7 +100,6 @@ export function getAllTwoHitRayCasts(board: Chess, color: Color, useCache: boole
             
             if (!canClearRay) {
                 // Skip this candidate - piece cannot meaningfully move to clear the ray
-                console.log(`    🚫 Skipping pin candidate: ${piece.type} on ${piece.square} cannot clear ray from ${attackerSquare}`);
                 continue;
             }
 
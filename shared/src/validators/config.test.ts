@@ -0,0 +1,125 @@
+import { validateGameConfig, resolveGameConfig } from './config';
+import { DEFAULT_GAME_CONFIG, GAME_CONFIG_TEMPLATES, RISKY_GAME_CONFIG } from '../constants/game-defaults';
+import { GameConfig } from '../types/config';
+
+describe('Game Config Validators', () => {
+  const cloneDefault = (): GameConfig => JSON.parse(JSON.stringify(DEFAULT_GAME_CONFIG));
+
+  describe('validateGameConfig', () => {
+    it('should accept every built-in template', () => {
+      for (const [name, template] of Object.entries(GAME_CONFIG_TEMPLATES)) {
+        const result = validateGameConfig(template);
+        expect({ name, ...result, config: undefined }).toEqual({ name, valid: true, config: undefined });
+      }
+    });
+
+    it('should reject out-of-range values', () => {
+      const config = cloneDefault();
+      config.initialBattlePoints = -5;
+
+      const result = validateGameConfig(config);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('initialBattlePoints');
+    });
+
+    it('should reject missing special attack rules', () => {
+      const config: any = cloneDefault();
+      delete config.regenerationRules.specialAttackRegeneration.FORK;
+
+      const result = validateGameConfig(config);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('regenerationRules.specialAttackRegeneration.FORK');
+    });
+
+    it('should reject unknown top-level keys', () => {
+      const result = validateGameConfig({ ...cloneDefault(), unlimitedBattlePoints: true });
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject regeneration formulas outside the expression language', () => {
+      const config = cloneDefault();
+      config.regenerationRules.specialAttackRegeneration.PIN.formula = 'require("fs") && 1';
+
+      const result = validateGameConfig(config);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('regenerationRules.specialAttackRegeneration.PIN.formula: Invalid formula');
+    });
+
+    it('should reject piece capacities above maxPieceBattlePoints', () => {
+      const config = cloneDefault();
+      config.pieceBPCapacities.q = 12;
+
+      const result = validateGameConfig(config);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('pieceBPCapacities.q');
+    });
+
+    it('should reject paying the defender when retreat payments are disabled', () => {
+      const config: GameConfig = JSON.parse(JSON.stringify(RISKY_GAME_CONFIG));
+      config.pieceLossRules.retreatPaymentRules.enabled = false;
+
+      const result = validateGameConfig(config);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('costToDefenderEnabled');
+    });
+
+    it('should reject disabling retreats when attackers cannot lose pieces', () => {
+      const config = cloneDefault();
+      config.tacticalRetreatRules.enabled = false;
+
+      expect(validateGameConfig(config).valid).toBe(false);
+    });
+
+    it('should reject a ruleset type that contradicts the rules', () => {
+      const config = cloneDefault();
+      config.duelResolutionRules.defenderWinsTies = false; // 'current' requires defender to win ties
+
+      const result = validateGameConfig(config);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('duelResolutionRules.rulesetType');
+    });
+  });
+
+  describe('resolveGameConfig', () => {
+    it('should default to the standard template', () => {
+      const result = resolveGameConfig();
+      expect(result.valid).toBe(true);
+      expect(result.ruleset).toBe('standard');
+      expect(result.config).toBe(DEFAULT_GAME_CONFIG);
+    });
+
+    it('should resolve a named template', () => {
+      const result = resolveGameConfig('risky');
+      expect(result.valid).toBe(true);
+      expect(result.config).toBe(RISKY_GAME_CONFIG);
+    });
+
+    it('should accept a valid custom config', () => {
+      const config = cloneDefault();
+      config.initialBattlePoints = 50;
+
+      const result = resolveGameConfig('custom', config);
+      expect(result.valid).toBe(true);
+      expect(result.ruleset).toBe('custom');
+      expect(result.config?.initialBattlePoints).toBe(50);
+    });
+
+    it('should require a config for the custom ruleset', () => {
+      expect(resolveGameConfig('custom').valid).toBe(false);
+    });
+
+    it('should not combine a template name with a custom config', () => {
+      const result = resolveGameConfig('beginner', cloneDefault());
+      expect(result.valid).toBe(false);
+    });
+
+    it('should surface validation errors for custom configs', () => {
+      const config = cloneDefault();
+      config.maxPieceBattlePoints = 0;
+
+      const result = resolveGameConfig('custom', config);
+      expect(result.valid).toBe(false);
+      expect(result.error).toMatch(/^Invalid game config: maxPieceBattlePoints/);
+    });
+  });
+});
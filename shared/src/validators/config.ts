@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { ConfigurationTemplate, GameConfig } from '../types/config';
+import { SpecialAttackType } from '../types/tactics';
+import { GAME_CONFIG_TEMPLATES } from '../constants/game-defaults';
+import { validateTacticFormula } from '../utils/formula';
+
+// Upper bounds keep custom rulesets within sane limits for the engine and the UI
+export const MAX_BATTLE_POINTS = 1000;
+const MAX_PIECE_VALUE = 100;
+const MAX_FORMULA_LENGTH = 200;
+
+const pieceRecordSchema = (valueSchema: z.ZodNumber) => z.object({
+  p: valueSchema,
+  n: valueSchema,
+  b: valueSchema,
+  r: valueSchema,
+  q: valueSchema,
+  k: valueSchema
+});
+
+const specialAttackRegenRuleSchema = z.object({
+  enabled: z.boolean(),
+  formula: z.string().trim().min(1, { message: 'Formula must not be empty' }).max(MAX_FORMULA_LENGTH),
+  description: z.string().max(500)
+});
+
+/**
+ * Zod schema for validating a complete game configuration.
+ * Field ranges are checked per property; rules spanning several fields are checked in superRefine.
+ */
+export const gameConfigSchema = z.object({
+  initialBattlePoints: z.number().int().min(0).max(MAX_BATTLE_POINTS),
+  maxPieceBattlePoints: z.number().int().min(1).max(MAX_PIECE_VALUE),
+  pieceValues: pieceRecordSchema(z.number().positive().max(MAX_PIECE_VALUE)),
+  pieceBPCapacities: pieceRecordSchema(z.number().int().min(0).max(MAX_PIECE_VALUE)),
+  regenerationRules: z.object({
+    baseTurnRegeneration: z.number().min(0).max(MAX_PIECE_VALUE),
+    specialAttackRegeneration: z.object({
+      [SpecialAttackType.PIN]: specialAttackRegenRuleSchema,
+      [SpecialAttackType.SKEWER]: specialAttackRegenRuleSchema,
+      [SpecialAttackType.FORK]: specialAttackRegenRuleSchema,
+      [SpecialAttackType.DISCOVERED_ATTACK]: specialAttackRegenRuleSchema,
+      [SpecialAttackType.CHECK]: specialAttackRegenRuleSchema
+    }),
+    turnRegenCap: z.number().min(0).max(MAX_BATTLE_POINTS).optional()
+  }),
+  tacticalRetreatRules: z.object({
+    enabled: z.boolean(),
+    longRangePiecesEnabled: z.boolean(),
+    knightsEnabled: z.boolean(),
+    costCalculation: z.object({
+      baseReturnCost: z.number().min(0).max(MAX_PIECE_VALUE),
+      distanceMultiplier: z.number().min(0).max(10),
+      knightCustomCostEnabled: z.boolean(),
+      useKnightLookupTable: z.boolean()
+    })
+  }),
+  duelResolutionRules: z.object({
+    defenderWinsTies: z.boolean(),
+    rulesetType: z.enum(['current', 'risky', 'custom'])
+  }),
+  pieceLossRules: z.object({
+    attackerCanLosePiece: z.boolean(),
+    retreatPaymentRules: z.object({
+      enabled: z.boolean(),
+      originalSquareRetreatCost: z.number().min(0).max(MAX_PIECE_VALUE),
+      costToDefenderEnabled: z.boolean(),
+      costToDefenderPercentage: z.number().min(0).max(100)
+    })
+  }),
+  informationHiding: z.object({
+    hideBattlePoints: z.boolean(),
+    hideAllocationHistory: z.boolean()
+  })
+}).strict().superRefine((config, ctx) => {
+  for (const tactic of Object.values(SpecialAttackType)) {
+    const formulaValidation = validateTacticFormula(tactic, config.regenerationRules.specialAttackRegeneration[tactic].formula);
+    if (!formulaValidation.valid) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['regenerationRules', 'specialAttackRegeneration', tactic, 'formula'],
+        message: `Invalid formula: ${formulaValidation.error}`
+      });
+    }
+  }
+
+  for (const [piece, capacity] of Object.entries(config.pieceBPCapacities)) {
+    if (capacity > config.maxPieceBattlePoints) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['pieceBPCapacities', piece],
+        message: `Capacity for '${piece}' (${capacity}) exceeds maxPieceBattlePoints (${config.maxPieceBattlePoints})`
+      });
+    }
+  }
+
+  const { turnRegenCap, baseTurnRegeneration } = config.regenerationRules;
+  if (turnRegenCap !== undefined && turnRegenCap < baseTurnRegeneration) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['regenerationRules', 'turnRegenCap'],
+      message: 'turnRegenCap must not be lower than baseTurnRegeneration'
+    });
+  }
+
+  const retreatPayment = config.pieceLossRules.retreatPaymentRules;
+  if (retreatPayment.costToDefenderEnabled && !retreatPayment.enabled) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pieceLossRules', 'retreatPaymentRules', 'costToDefenderEnabled'],
+      message: 'Paying retreat costs to the defender requires retreat payments to be enabled'
+    });
+  }
+  if (!retreatPayment.costToDefenderEnabled && retreatPayment.costToDefenderPercentage !== 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pieceLossRules', 'retreatPaymentRules', 'costToDefenderPercentage'],
+      message: 'costToDefenderPercentage must be 0 when costToDefenderEnabled is false'
+    });
+  }
+
+  // Without retreats or piece loss a failed attacker would have no legal outcome
+  if (!config.tacticalRetreatRules.enabled && !config.pieceLossRules.attackerCanLosePiece) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['tacticalRetreatRules', 'enabled'],
+      message: 'Tactical retreats can only be disabled when attackers can lose pieces'
+    });
+  }
+
+  if (config.duelResolutionRules.rulesetType === 'current') {
+    if (!config.duelResolutionRules.defenderWinsTies || config.pieceLossRules.attackerCanLosePiece) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['duelResolutionRules', 'rulesetType'],
+        message: "The 'current' ruleset requires defender to win ties and attackers to never lose pieces"
+      });
+    }
+  } else if (config.duelResolutionRules.rulesetType === 'risky' && !config.pieceLossRules.attackerCanLosePiece) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['duelResolutionRules', 'rulesetType'],
+      message: "The 'risky' ruleset requires attackerCanLosePiece to be enabled"
+    });
+  }
+});
+
+/**
+ * Zod schema for the selectable ruleset templates
+ */
+export const configurationTemplateSchema = z.enum(['standard', 'beginner', 'advanced', 'risky', 'attackerWinsTies', 'custom']);
+
+/**
+ * Format zod issues into a single readable error message
+ */
+function formatConfigIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    .join('; ');
+}
+
+/**
+ * Validate a complete game configuration
+ */
+export function validateGameConfig(config: unknown): { valid: boolean; error?: string; config?: GameConfig } {
+  const result = gameConfigSchema.safeParse(config);
+  if (!result.success) {
+    return { valid: false, error: formatConfigIssues(result.error) };
+  }
+  return { valid: true, config: result.data as GameConfig };
+}
+
+/**
+ * Resolve the configuration for a new game from a ruleset template name and/or a custom config.
+ * A custom config is only accepted with the 'custom' ruleset (or no ruleset); otherwise the
+ * named template is used, defaulting to 'standard'.
+ */
+export function resolveGameConfig(
+  ruleset?: ConfigurationTemplate,
+  customConfig?: unknown
+): { valid: boolean; error?: string; ruleset?: ConfigurationTemplate; config?: GameConfig } {
+  if (customConfig !== undefined) {
+    if (ruleset !== undefined && ruleset !== 'custom') {
+      return { valid: false, error: `A custom config cannot be combined with the '${ruleset}' ruleset` };
+    }
+    const validation = validateGameConfig(customConfig);
+    if (!validation.valid) {
+      return { valid: false, error: `Invalid game config: ${validation.error}` };
+    }
+    return { valid: true, ruleset: 'custom', config: validation.config };
+  }
+
+  if (ruleset === 'custom') {
+    return { valid: false, error: "The 'custom' ruleset requires a config" };
+  }
+
+  const templateName = ruleset ?? 'standard';
+  const template = GAME_CONFIG_TEMPLATES[templateName];
+  if (!template) {
+    return { valid: false, error: `Unknown ruleset template: ${templateName}` };
+  }
+  return { valid: true, ruleset: templateName, config: template };
+}
@@ -1,12 +1,14 @@
 import { BaseGameState, DuelAllocationAction, GameStatus } from '../types/game';
 import { z } from 'zod';
+import { actionIdSchema } from './moves';
 
 /**
  * Zod schema for validating duel allocation input
  */
 export const duelAllocationSchema = z.object({
   type: z.literal('DUEL_ALLOCATION'),
-  allocation: z.number().int().min(0)
+  allocation: z.number().int().min(0),
+  actionId: actionIdSchema
 });
 
 /**
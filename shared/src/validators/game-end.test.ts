@@ -0,0 +1,54 @@
+import { validateResignation, validateDrawOffer, validateDrawResponse } from './game-end';
+import { createNewGame } from '../index';
+import { GameStatus } from '../types/game';
+
+describe('Game End Validators', () => {
+  const createGame = () => createNewGame('game-end-test', 'white-player', 'black-player', 'human');
+
+  describe('validateResignation', () => {
+    it('should allow resigning during a duel', () => {
+      const gameState = createGame();
+      gameState.gameStatus = GameStatus.DUEL_IN_PROGRESS;
+      expect(validateResignation(gameState).valid).toBe(true);
+    });
+
+    it('should reject resigning a finished game', () => {
+      const gameState = createGame();
+      gameState.gameStatus = GameStatus.CHECKMATE;
+      expect(validateResignation(gameState).valid).toBe(false);
+    });
+  });
+
+  describe('validateDrawOffer', () => {
+    it('should allow offering a draw in an active game', () => {
+      expect(validateDrawOffer(createGame(), 'b').valid).toBe(true);
+    });
+
+    it('should reject a second offer while one is pending', () => {
+      const gameState = createGame();
+      gameState.drawOffer = { offeredBy: 'w', offeredAt: Date.now() };
+
+      expect(validateDrawOffer(gameState, 'w').error).toBe('You already have a pending draw offer');
+      expect(validateDrawOffer(gameState, 'b').error).toBe('Your opponent has already offered a draw');
+    });
+
+    it('should reject draw offers in practice games', () => {
+      const gameState = createNewGame('game-end-test', 'player', 'player', 'practice');
+      expect(validateDrawOffer(gameState, 'w').valid).toBe(false);
+    });
+  });
+
+  describe('validateDrawResponse', () => {
+    it('should require a pending offer', () => {
+      expect(validateDrawResponse(createGame(), 'b').error).toBe('There is no pending draw offer');
+    });
+
+    it('should only let the opponent respond', () => {
+      const gameState = createGame();
+      gameState.drawOffer = { offeredBy: 'w', offeredAt: Date.now() };
+
+      expect(validateDrawResponse(gameState, 'w').valid).toBe(false);
+      expect(validateDrawResponse(gameState, 'b').valid).toBe(true);
+    });
+  });
+});
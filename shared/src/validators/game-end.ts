@@ -0,0 +1,89 @@
+import { Color } from 'chess.js';
+import { BaseGameState, GameStatus } from '../types/game';
+
+/**
+ * Statuses in which a game is still being played and can be resigned or drawn
+ */
+export const ACTIVE_GAME_STATUSES: GameStatus[] = [
+  GameStatus.IN_PROGRESS,
+  GameStatus.DUEL_IN_PROGRESS,
+  GameStatus.TACTICAL_RETREAT_DECISION
+];
+
+/**
+ * Check if a game is still being played
+ */
+export function isGameActive(gameState: BaseGameState): boolean {
+  return ACTIVE_GAME_STATUSES.includes(gameState.gameStatus);
+}
+
+/**
+ * Validate that a player may resign
+ */
+export function validateResignation(
+  gameState: BaseGameState
+): { valid: boolean; error?: string } {
+  if (!isGameActive(gameState)) {
+    return {
+      valid: false,
+      error: `Game is not in progress. Current status: ${gameState.gameStatus}`
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate that a player may offer a draw
+ */
+export function validateDrawOffer(
+  gameState: BaseGameState,
+  playerColor: Color
+): { valid: boolean; error?: string } {
+  if (!isGameActive(gameState)) {
+    return {
+      valid: false,
+      error: `Game is not in progress. Current status: ${gameState.gameStatus}`
+    };
+  }
+
+  if (gameState.gameType === 'practice') {
+    return { valid: false, error: 'Draw offers are not available in practice games' };
+  }
+
+  if (gameState.drawOffer) {
+    return {
+      valid: false,
+      error: gameState.drawOffer.offeredBy === playerColor
+        ? 'You already have a pending draw offer'
+        : 'Your opponent has already offered a draw'
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate that a player may accept or decline a pending draw offer
+ */
+export function validateDrawResponse(
+  gameState: BaseGameState,
+  playerColor: Color
+): { valid: boolean; error?: string } {
+  if (!isGameActive(gameState)) {
+    return {
+      valid: false,
+      error: `Game is not in progress. Current status: ${gameState.gameStatus}`
+    };
+  }
+
+  if (!gameState.drawOffer) {
+    return { valid: false, error: 'There is no pending draw offer' };
+  }
+
+  if (gameState.drawOffer.offeredBy === playerColor) {
+    return { valid: false, error: 'You cannot respond to your own draw offer' };
+  }
+
+  return { valid: true };
+}
@@ -2,3 +2,7 @@ export * from './duels';
 export * from './moves';
 export * from './retreats';
 export * from './user.validators';
+export * from './config';
+export * from './game-end';
+export * from './time-control';
+export * from './starting-position';
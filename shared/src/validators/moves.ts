@@ -2,6 +2,11 @@ import { Chess, Square, PieceSymbol } from 'chess.js';
 import { BaseGameState, MoveAction, GameStatus } from '../types/game';
 import { z } from 'zod';
 
+/**
+ * Zod schema for the client-chosen ID that makes a resent action safe to process twice
+ */
+export const actionIdSchema = z.string().min(1).max(100).optional();
+
 /**
  * Zod schema for validating move input
  */
@@ -9,7 +14,8 @@ export const moveActionSchema = z.object({
   type: z.literal('MOVE'),
   from: z.string().length(2),
   to: z.string().length(2),
-  promotion: z.enum(['n', 'b', 'r', 'q'] as [PieceSymbol, ...PieceSymbol[]]).optional()
+  promotion: z.enum(['n', 'b', 'r', 'q'] as [PieceSymbol, ...PieceSymbol[]]).optional(),
+  actionId: actionIdSchema
 });
 
 /**
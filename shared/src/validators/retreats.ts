@@ -1,5 +1,6 @@
 import { BaseGameState, TacticalRetreatAction, GameStatus } from '../types/game';
 import { z } from 'zod';
+import { actionIdSchema } from './moves';
 import { calculateTacticalRetreats } from '../utils/tactical-retreat';
 
 /**
@@ -7,7 +8,8 @@ import { calculateTacticalRetreats } from '../utils/tactical-retreat';
  */
 export const tacticalRetreatSchema = z.object({
   type: z.literal('TACTICAL_RETREAT'),
-  to: z.string().length(2)
+  to: z.string().length(2),
+  actionId: actionIdSchema
 });
 
 /**
@@ -0,0 +1,38 @@
+import { DEFAULT_GAME_CONFIG } from '../constants/game-defaults';
+import { resolveStartingPosition } from './starting-position';
+
+describe('Starting Position Validator', () => {
+  const INITIAL_BP = DEFAULT_GAME_CONFIG.initialBattlePoints;
+  // White to play Rxd8 or keep the rook; Black has a rook and a pawn
+  const ENDGAME = '3r2k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 4 30';
+
+  it('should start a plain FEN with the ruleset\'s initial BP', () => {
+    const result = resolveStartingPosition(ENDGAME, 'standard', DEFAULT_GAME_CONFIG);
+
+    expect(result).toEqual({ valid: true, position: `${ENDGAME} ${INITIAL_BP}/${INITIAL_BP} - 4 standard` });
+  });
+
+  it('should let starting BP replace either pool', () => {
+    const fromFEN = resolveStartingPosition(ENDGAME, 'standard', DEFAULT_GAME_CONFIG, { black: 3 });
+    expect(fromFEN.position).toBe(`${ENDGAME} ${INITIAL_BP}/3 - 4 standard`);
+
+    const fromGambitFEN = resolveStartingPosition(`${ENDGAME} 20/20 - 0 standard`, 'standard', DEFAULT_GAME_CONFIG, { white: 7 });
+    expect(fromGambitFEN.position).toBe(`${ENDGAME} 7/20 - 0 standard`);
+  });
+
+  it('should reject a Gambit FEN for another ruleset or in the middle of a duel', () => {
+    expect(resolveStartingPosition(`${ENDGAME} 20/20 - 0 risky`, 'standard', DEFAULT_GAME_CONFIG).error)
+      .toBe('The position is for the risky ruleset, not standard');
+    expect(resolveStartingPosition(`${ENDGAME} 20/20 duel:d1d8:-:- 0 standard`, 'standard', DEFAULT_GAME_CONFIG).error)
+      .toContain('cannot start during a duel');
+  });
+
+  it('should reject positions that cannot arise in a game', () => {
+    expect(resolveStartingPosition('4k3/8/8/8/8/8/8/4K3 w - - 0 1', 'standard', DEFAULT_GAME_CONFIG).error)
+      .toBe('The game is already over in this position');
+    expect(resolveStartingPosition('4k3/4Q3/8/8/8/8/8/4K3 w - - 0 1', 'standard', DEFAULT_GAME_CONFIG).error)
+      .toBe('The side that is not to move is in check');
+    expect(resolveStartingPosition('4k3/8/8/8/8/8/8/4K2P w - - 0 1', 'standard', DEFAULT_GAME_CONFIG).error)
+      .toContain('pawns are on the edge rows');
+  });
+});
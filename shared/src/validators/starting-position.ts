@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { Chess } from 'chess.js';
+import { ConfigurationTemplate, GameConfig } from '../types/config';
+import { CHESS960_POSITIONS } from '../utils/castling';
+import { formatGambitFEN, GambitPosition, parseGambitFEN } from '../utils/gambit-fen';
+import { MAX_BATTLE_POINTS } from './config';
+
+const FEN_FIELDS = 6;
+
+/**
+ * Zod schema for the starting positions a game can name instead of giving a FEN
+ */
+export const startingPositionVariantSchema = z.enum(['standard', 'chess960']);
+
+export type StartingPositionVariant = z.infer<typeof startingPositionVariantSchema>;
+
+/**
+ * Zod schema for the number of a Chess960 starting position
+ */
+export const chess960IndexSchema = z.number().int().min(0).max(CHESS960_POSITIONS - 1);
+
+/**
+ * Zod schema for the starting BP of either side in a game from a custom position
+ */
+export const startingBattlePointsSchema = z.object({
+  white: z.number().int().min(0).max(MAX_BATTLE_POINTS).optional(),
+  black: z.number().int().min(0).max(MAX_BATTLE_POINTS).optional()
+}).strict();
+
+export type StartingBattlePoints = z.infer<typeof startingBattlePointsSchema>;
+
+/**
+ * Validate the position a new game starts from, given as a FEN or a Gambit FEN, and return it as
+ * Gambit FEN. A plain FEN gives both sides the ruleset's initial BP; starting BP passed separately
+ * replaces the pools of either. Games start in ordinary play, never halfway through a duel.
+ */
+export function resolveStartingPosition(
+  position: string,
+  ruleset: ConfigurationTemplate,
+  config: GameConfig,
+  battlePoints: StartingBattlePoints = {}
+): { valid: boolean; error?: string; position?: string } {
+  const fields = position.trim().split(/\s+/);
+
+  let parsed: GambitPosition;
+  try {
+    parsed = fields.length === FEN_FIELDS
+      ? parseGambitFEN(formatGambitFEN({
+        fen: fields.join(' '),
+        battlePoints: { white: config.initialBattlePoints, black: config.initialBattlePoints },
+        halfmoveClockManual: parseInt(fields[4]) || 0,
+        ruleset
+      }))
+      : parseGambitFEN(position);
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (parsed.ruleset !== ruleset) {
+    return { valid: false, error: `The position is for the ${parsed.ruleset} ruleset, not ${ruleset}` };
+  }
+  if (parsed.duel || parsed.retreat) {
+    return { valid: false, error: 'A game cannot start during a duel or retreat; start from the position before the capture' };
+  }
+
+  const illegality = findIllegality(parsed.fen);
+  if (illegality) {
+    return { valid: false, error: illegality };
+  }
+
+  const pools = {
+    white: battlePoints.white ?? parsed.battlePoints.white,
+    black: battlePoints.black ?? parsed.battlePoints.black
+  };
+  if (pools.white > MAX_BATTLE_POINTS || pools.black > MAX_BATTLE_POINTS) {
+    return { valid: false, error: `Starting BP cannot exceed ${MAX_BATTLE_POINTS}` };
+  }
+  return { valid: true, position: formatGambitFEN({ ...parsed, battlePoints: pools }) };
+}
+
+/**
+ * Checks chess.js leaves out of validateFen: the side that just moved cannot be in check,
+ * and there has to be a game left to play
+ */
+function findIllegality(fen: string): string | null {
+  const fields = fen.split(' ');
+  const otherSideToMove = [fields[0], fields[1] === 'w' ? 'b' : 'w', fields[2], '-', fields[4], fields[5]].join(' ');
+  if (new Chess(otherSideToMove).inCheck()) {
+    return 'The side that is not to move is in check';
+  }
+  if (new Chess(fen).isGameOver()) {
+    return 'The game is already over in this position';
+  }
+  return null;
+}
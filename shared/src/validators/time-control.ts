@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { TimeControl } from '../types/clock';
+import { DEFAULT_TIME_CONTROL_PHASES } from '../constants/game-defaults';
+
+const MAX_BASE_TIME_MS = 3 * 60 * 60 * 1000; // 3 hours
+const MAX_INCREMENT_MS = 60 * 1000;
+const MIN_PHASE_TIME_MS = 5 * 1000;
+const MAX_PHASE_TIME_MS = 5 * 60 * 1000;
+
+/**
+ * Zod schema for a time control supplied on game creation.
+ * Only the base time and increment are required; the duel and retreat timers fall back to
+ * DEFAULT_TIME_CONTROL_PHASES.
+ */
+export const timeControlSchema = z.object({
+  baseTimeMs: z.number().int().min(10 * 1000).max(MAX_BASE_TIME_MS),
+  incrementMs: z.number().int().min(0).max(MAX_INCREMENT_MS),
+  duelAllocationTimeMs: z.number().int().min(MIN_PHASE_TIME_MS).max(MAX_PHASE_TIME_MS)
+    .default(DEFAULT_TIME_CONTROL_PHASES.duelAllocationTimeMs),
+  retreatDecisionTimeMs: z.number().int().min(MIN_PHASE_TIME_MS).max(MAX_PHASE_TIME_MS)
+    .default(DEFAULT_TIME_CONTROL_PHASES.retreatDecisionTimeMs),
+  defaultDuelAllocation: z.number().int().min(0)
+    .default(DEFAULT_TIME_CONTROL_PHASES.defaultDuelAllocation)
+}).strict();
+
+/**
+ * Validate a time control and fill in the default duel and retreat timers
+ */
+export function validateTimeControl(timeControl: unknown): { valid: boolean; error?: string; timeControl?: TimeControl } {
+  const result = timeControlSchema.safeParse(timeControl);
+  if (!result.success) {
+    const error = result.error.issues
+      .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+      .join('; ');
+    return { valid: false, error };
+  }
+  return { valid: true, timeControl: result.data };
+}